@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDemoGameInstance } from '@/lib/demo-smart-meter-game';
+import { solarGenerationFactor } from '@/lib/smart-meter/net-metering';
 
 /**
  * Mock Smart Meter API Endpoints for Development & Testing
@@ -22,14 +23,72 @@ interface MockSmartMeterData {
   billAmount: number;
   billStatus: 'paid' | 'unpaid' | 'overdue';
   lastUpdated: string;
+  solarCapacityKw?: number; // rooftop PV capacity for net-metered consumers
+}
+
+interface MockRecharge {
+  transactionId: string;
+  amount: number;
+  unitsCredited: number;
+  date: string;
+  channel: string;
+  status: 'success' | 'pending' | 'failed';
+}
+
+interface MockPrepaidAccount {
+  openingBalance: number; // balance left when the latest recharge was made
+  recharges: MockRecharge[]; // newest first
+  emergencyCredit: number;
+}
+
+interface MockFaultProfile {
+  latencyMs?: number; // fixed latency instead of the default 500-1500ms
+  failureRate: number; // 0-1 chance of an injected failure
+  failureStatus: number; // e.g. 429, 500, 502, 503
+  retryAfterSeconds?: number; // sent as Retry-After on injected failures
+  failNext: number; // fail this many upcoming requests regardless of failureRate
+}
+
+interface MockIssuedToken {
+  provider: string;
+  expiresAt: number;
 }
 
 // Mock data storage (in production, this would be a database)
 const mockMeterData = new Map<string, MockSmartMeterData>();
 
+// Prepaid accounts, keyed by consumer ID
+const prepaidAccounts = new Map<string, MockPrepaidAccount>();
+
+// Issued access/refresh tokens for token-expiry simulation
+const issuedTokens = new Map<string, MockIssuedToken>();
+const issuedRefreshTokens = new Map<string, { provider: string; ttl?: number }>();
+
+const DEFAULT_FAULT_PROFILE: MockFaultProfile = {
+  latencyMs: Number(process.env.MOCK_SMART_METER_LATENCY_MS) || undefined,
+  failureRate: process.env.MOCK_SMART_METER_FAILURE_RATE !== undefined
+    ? Number(process.env.MOCK_SMART_METER_FAILURE_RATE)
+    : 0.1,
+  failureStatus: 503,
+  failNext: 0
+};
+
+// Fault injection settings, adjustable at runtime via endpoint=fault-injection
+let faultProfile: MockFaultProfile = { ...DEFAULT_FAULT_PROFILE };
+
+// Override token lifetime (seconds) to exercise refresh flows offline
+const MOCK_TOKEN_TTL = Number(process.env.MOCK_SMART_METER_TOKEN_TTL) || undefined;
+
 // Initialize some sample data
 const initializeMockData = () => {
-  const sampleMeters = [
+  const sampleMeters: {
+    consumerId: string;
+    provider: string;
+    baseReading: number;
+    dailyConsumption: number;
+    tariffRate: number;
+    solarCapacityKw?: number;
+  }[] = [
     {
       consumerId: 'TP123456789',
       provider: 'tata_power',
@@ -42,7 +101,8 @@ const initializeMockData = () => {
       provider: 'adani',
       baseReading: 48000,
       dailyConsumption: 42,
-      tariffRate: 6.2
+      tariffRate: 6.2,
+      solarCapacityKw: 3
     },
     {
       consumerId: 'BS555444333',
@@ -56,7 +116,8 @@ const initializeMockData = () => {
       provider: 'hpl',
       baseReading: 41000,
       dailyConsumption: 38,
-      tariffRate: 5.9
+      tariffRate: 5.9,
+      solarCapacityKw: 5
     },
     {
       consumerId: 'DEMO123456',
@@ -93,11 +154,56 @@ const initializeMockData = () => {
       tariffRate: meter.tariffRate,
       billAmount: Math.floor(unitsConsumed * meter.tariffRate) + 150,
       billStatus: ['paid', 'unpaid', 'overdue'][Math.floor(Math.random() * 3)] as any,
-      lastUpdated: new Date().toISOString()
+      lastUpdated: new Date().toISOString(),
+      solarCapacityKw: meter.solarCapacityKw
     });
   });
 };
 
+// Household demand share per hour of day (sums to 1)
+const HOURLY_LOAD_PROFILE = (() => {
+  const weights = Array.from({ length: 24 }, (_, hour) => {
+    if (hour >= 18 && hour <= 22) return 1.8; // Evening peak
+    if (hour >= 6 && hour <= 9) return 1.4; // Morning peak
+    if (hour >= 23 || hour <= 5) return 0.6; // Night low
+    return 1;
+  });
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return weights.map(weight => weight / total);
+})();
+
+/**
+ * Rooftop PV capacity for a consumer: ?solar=<kW> overrides the meter's setting
+ */
+function getSolarCapacity(consumerId: string, searchParams: URLSearchParams): number {
+  if (searchParams.has('solar')) {
+    return Math.max(0, Number(searchParams.get('solar')) || 0);
+  }
+  return mockMeterData.get(consumerId)?.solarCapacityKw || 0;
+}
+
+/**
+ * Simulate a day of solar generation against household demand, hour by
+ * hour, up to (and excluding) `untilHour`
+ */
+function simulateSolarDay(capacityKw: number, dailyConsumption: number, untilHour = 24) {
+  const condition = ['sunny', 'sunny', 'partly_cloudy', 'cloudy'][Math.floor(Math.random() * 4)];
+  let generation = 0;
+  let imported = 0;
+  let exported = 0;
+
+  for (let hour = 0; hour < untilHour; hour++) {
+    const load = dailyConsumption * HOURLY_LOAD_PROFILE[hour];
+    const produced = capacityKw * solarGenerationFactor(hour, condition);
+    generation += produced;
+    imported += Math.max(0, load - produced);
+    exported += Math.max(0, produced - load);
+  }
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return { condition, generation: round(generation), imported: round(imported), exported: round(exported) };
+}
+
 // Initialize data on startup
 initializeMockData();
 
@@ -109,33 +215,48 @@ async function handler(request: NextRequest) {
       const consumerId = searchParams.get('consumerId');
       const provider = searchParams.get('provider');
 
-      // Simulate authentication delay
-      await new Promise(resolve => setTimeout(resolve, 500 + Math.random() * 1000));
+      // Simulate network latency (?latency=ms overrides per request)
+      const latency = searchParams.has('latency')
+        ? Number(searchParams.get('latency'))
+        : faultProfile.latencyMs ?? 500 + Math.random() * 1000;
+      await new Promise(resolve => setTimeout(resolve, latency));
 
-      // Simulate occasional API failures (10% chance)
-      if (Math.random() < 0.1) {
-        return NextResponse.json(
-          { error: 'Service temporarily unavailable', code: 503 },
-          { status: 503 }
-        );
+      // Bearer tokens are optional, but an expired or unknown one is rejected
+      const tokenError = validateBearerToken(request);
+      if (tokenError) {
+        return tokenError;
+      }
+
+      // Simulate occasional API failures (10% chance by default)
+      const injectedFailure = injectFault(searchParams);
+      if (injectedFailure) {
+        return injectedFailure;
       }
       
       switch (endpoint) {
         case 'current':
-          return handleCurrentReading(consumerId, provider);
+          return handleCurrentReading(consumerId, provider, searchParams);
         case 'realtime':
-          return handleRealTimeData(consumerId, provider);
+          return handleRealTimeData(consumerId, provider, searchParams);
         case 'history':
           return handleHistoricalData(consumerId, provider, searchParams);
         case 'billing':
-          return handleBillingInfo(consumerId, provider);
+          return handleBillingInfo(consumerId, provider, searchParams);
+        case 'prepaid-balance':
+          return handlePrepaidBalance(consumerId, provider, searchParams);
+        case 'recharge-history':
+          return handleRechargeHistory(consumerId, provider, searchParams);
+        case 'outage-status':
+          return handleOutageStatus(consumerId, searchParams);
+        case 'tamper-status':
+          return handleTamperStatus(consumerId, provider, searchParams);
         case 'list-meters':
           return handleListMeters();
         case 'game-state':
           return handleGameState(consumerId);
         default:
           return NextResponse.json(
-            { error: 'Invalid GET endpoint', availableEndpoints: ['current', 'realtime', 'history', 'billing', 'list-meters', 'game-state'] },
+            { error: 'Invalid GET endpoint', availableEndpoints: ['current', 'realtime', 'history', 'billing', 'prepaid-balance', 'recharge-history', 'outage-status', 'tamper-status', 'list-meters', 'game-state'] },
             { status: 400 }
           );
       }
@@ -144,7 +265,11 @@ async function handler(request: NextRequest) {
   if (request.method === 'POST') {
     switch (endpoint) {
       case 'auth':
-        return handleAuth(request);
+        return handleAuth(request, searchParams);
+      case 'expire-tokens':
+        return handleExpireTokens();
+      case 'fault-injection':
+        return handleFaultInjection(request);
       case 'register-meter':
         return handleRegisterMeter(request);
       case 'game-action':
@@ -161,10 +286,22 @@ async function handler(request: NextRequest) {
 }
 
 
-async function handleAuth(request: NextRequest) {
+async function handleAuth(request: NextRequest, searchParams: URLSearchParams) {
   try {
     const body = await request.json().catch(() => ({}));
-    const { provider, username, password, apiKey, clientId, clientSecret } = body;
+    const provider = body.provider || searchParams.get('provider');
+    const username = body.username;
+    const password = body.password;
+    const apiKey = body.apiKey;
+    const clientId = body.clientId || body.client_id;
+    const clientSecret = body.clientSecret || body.client_secret;
+
+    // Requested lifetime in seconds (?ttl=5) for token-expiry simulation
+    const requestedTtl = Number(searchParams.get('ttl') || body.ttl) || MOCK_TOKEN_TTL;
+
+    if (body.grant_type === 'refresh_token') {
+      return handleTokenRefresh(body.refresh_token, requestedTtl);
+    }
 
     // Simulate authentication based on provider
     let authResult;
@@ -172,9 +309,10 @@ async function handleAuth(request: NextRequest) {
     switch (provider) {
       case 'tata_power':
         if (username && password) {
+          const expiresIn = requestedTtl || 3600;
           authResult = { 
-            token: 'mock_jwt_token_tata_' + Date.now(), 
-            expiresIn: 3600,
+            token: issueMockToken('mock_jwt_token_tata_', 'tata_power', expiresIn), 
+            expiresIn,
             provider: 'tata_power'
           };
         }
@@ -182,10 +320,12 @@ async function handleAuth(request: NextRequest) {
         
       case 'adani':
         if (clientId && clientSecret) {
+          const expiresIn = requestedTtl || 7200;
           authResult = {
-            access_token: 'mock_oauth_token_adani_' + Date.now(),
+            access_token: issueMockToken('mock_oauth_token_adani_', 'adani', expiresIn),
             token_type: 'Bearer',
-            expires_in: 7200,
+            expires_in: expiresIn,
+            refresh_token: issueMockRefreshToken('adani', requestedTtl),
             provider: 'adani'
           };
         }
@@ -201,13 +341,15 @@ async function handleAuth(request: NextRequest) {
         }
         break;
         
-      default:
+      default: {
         // Generic authentication
+        const expiresIn = requestedTtl || 3600;
         authResult = {
-          token: 'mock_token_' + provider + '_' + Date.now(),
-          expiresIn: 3600,
+          token: issueMockToken('mock_token_' + provider + '_', provider, expiresIn),
+          expiresIn,
           provider
         };
+      }
     }
 
     if (authResult) {
@@ -230,7 +372,137 @@ async function handleAuth(request: NextRequest) {
   }
 }
 
-function handleCurrentReading(consumerId: string | null, provider: string | null) {
+function handleTokenRefresh(refreshToken: string | undefined, requestedTtl?: number) {
+  const issued = refreshToken ? issuedRefreshTokens.get(refreshToken) : undefined;
+
+  if (!refreshToken || !issued) {
+    return NextResponse.json(
+      { error: 'Invalid refresh token', code: 401 },
+      { status: 401 }
+    );
+  }
+
+  // Rotate the refresh token on every use
+  issuedRefreshTokens.delete(refreshToken);
+  const ttl = requestedTtl || issued.ttl;
+  const expiresIn = ttl || 7200;
+
+  return NextResponse.json({
+    success: true,
+    access_token: issueMockToken(`mock_oauth_token_${issued.provider}_`, issued.provider, expiresIn),
+    token_type: 'Bearer',
+    expires_in: expiresIn,
+    refresh_token: issueMockRefreshToken(issued.provider, ttl),
+    provider: issued.provider,
+    message: 'Token refreshed'
+  });
+}
+
+/**
+ * Expire every issued access token so clients hit a 401 on their next call
+ */
+function handleExpireTokens() {
+  const now = Date.now();
+  issuedTokens.forEach(token => {
+    token.expiresAt = now;
+  });
+
+  return NextResponse.json({
+    success: true,
+    expiredTokens: issuedTokens.size,
+    message: 'All access tokens expired'
+  });
+}
+
+function issueMockToken(prefix: string, provider: string, expiresIn: number): string {
+  const token = `${prefix}${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  issuedTokens.set(token, { provider, expiresAt: Date.now() + expiresIn * 1000 });
+  return token;
+}
+
+function issueMockRefreshToken(provider: string, ttl?: number): string {
+  const refreshToken = `mock_refresh_${provider}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  issuedRefreshTokens.set(refreshToken, { provider, ttl });
+  return refreshToken;
+}
+
+function validateBearerToken(request: NextRequest) {
+  const authorization = request.headers.get('authorization');
+  if (!authorization || !authorization.startsWith('Bearer ')) {
+    return null;
+  }
+
+  const issued = issuedTokens.get(authorization.slice('Bearer '.length));
+  if (!issued) {
+    return NextResponse.json(
+      { error: 'Invalid token', code: 'TOKEN_INVALID' },
+      { status: 401 }
+    );
+  }
+
+  if (issued.expiresAt <= Date.now()) {
+    return NextResponse.json(
+      { error: 'Token expired', code: 'TOKEN_EXPIRED' },
+      { status: 401 }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Decide whether this request fails. Query parameters override the
+ * configured profile: ?fail=429 forces a status, ?failRate=0.5 a rate.
+ */
+function injectFault(searchParams: URLSearchParams) {
+  const forcedStatus = Number(searchParams.get('fail')) || undefined;
+  const failureRate = searchParams.has('failRate')
+    ? Number(searchParams.get('failRate'))
+    : faultProfile.failureRate;
+
+  let status: number | undefined = forcedStatus;
+  if (!status && faultProfile.failNext > 0) {
+    faultProfile.failNext--;
+    status = faultProfile.failureStatus;
+  }
+  if (!status && Math.random() < failureRate) {
+    status = faultProfile.failureStatus;
+  }
+  if (!status) return null;
+
+  const retryAfter = Number(searchParams.get('retryAfter')) || faultProfile.retryAfterSeconds;
+  const headers: Record<string, string> = {};
+  if (retryAfter !== undefined && (status === 429 || status === 503)) {
+    headers['Retry-After'] = String(retryAfter);
+  }
+
+  const error = status === 429 ? 'Rate limit exceeded' : 'Service temporarily unavailable';
+  return NextResponse.json({ error, code: status }, { status, headers });
+}
+
+async function handleFaultInjection(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+
+  if (body.reset) {
+    faultProfile = { ...DEFAULT_FAULT_PROFILE };
+  } else {
+    faultProfile = {
+      ...faultProfile,
+      ...(body.latencyMs !== undefined && { latencyMs: Number(body.latencyMs) }),
+      ...(body.failureRate !== undefined && { failureRate: Number(body.failureRate) }),
+      ...(body.failureStatus !== undefined && { failureStatus: Number(body.failureStatus) }),
+      ...(body.retryAfterSeconds !== undefined && { retryAfterSeconds: Number(body.retryAfterSeconds) }),
+      ...(body.failNext !== undefined && { failNext: Number(body.failNext) })
+    };
+  }
+
+  return NextResponse.json({
+    success: true,
+    faultProfile
+  });
+}
+
+function handleCurrentReading(consumerId: string | null, provider: string | null, searchParams: URLSearchParams) {
   if (!consumerId) {
     return NextResponse.json(
       { error: 'Consumer ID required', code: 400 },
@@ -276,6 +548,14 @@ function handleCurrentReading(consumerId: string | null, provider: string | null
   meterData.voltage.b += (Math.random() - 0.5) * 2;
   meterData.lastUpdated = new Date().toISOString();
 
+  const supplyDown = searchParams.get('outage') === '1';
+
+  // Net-metered consumers report today's import/export so far
+  const solarCapacity = getSolarCapacity(consumerId, searchParams);
+  const solarToday = solarCapacity > 0
+    ? simulateSolarDay(solarCapacity, meterData.unitsConsumed, new Date().getHours() + 1)
+    : null;
+
   return NextResponse.json({
     consumerId,
     timestamp: new Date().toISOString(),
@@ -286,16 +566,21 @@ function handleCurrentReading(consumerId: string | null, provider: string | null
     billAmount: meterData.billAmount,
     powerFactor: meterData.powerFactor,
     maxDemand: Math.max(3, meterData.instantPower / 1000),
-    voltage: meterData.voltage,
-    current: meterData.current,
+    // ?outage=1 reports a dead supply
+    voltage: supplyDown ? { r: 0, y: 0, b: 0 } : meterData.voltage,
+    current: supplyDown ? { r: 0, y: 0, b: 0 } : meterData.current,
     frequency: meterData.frequency,
     energyImported: meterData.currentReading,
-    energyExported: Math.random() > 0.9 ? Math.random() * 50 : 0,
+    energyExported: solarToday ? solarToday.exported : (Math.random() > 0.9 ? Math.random() * 50 : 0),
+    ...(solarToday && {
+      solarGeneration: solarToday.generation,
+      solar: { capacityKw: solarCapacity, condition: solarToday.condition }
+    }),
     reactivePower: Math.random() * 100 + 50
   });
 }
 
-function handleRealTimeData(consumerId: string | null, provider: string | null) {
+function handleRealTimeData(consumerId: string | null, provider: string | null, searchParams: URLSearchParams) {
   if (!consumerId) {
     return NextResponse.json(
       { error: 'Consumer ID required', code: 400 },
@@ -349,7 +634,17 @@ function handleRealTimeData(consumerId: string | null, provider: string | null)
   const voltage = 230 + (Math.random() - 0.5) * 10;
   const current = instantPower / voltage;
 
+  // Rooftop PV output in watts; negative grid power means exporting
+  const solarCapacity = getSolarCapacity(consumerId, searchParams);
+  const solarPower = solarCapacity > 0
+    ? solarCapacity * 1000 * solarGenerationFactor(timeOfDay) * (0.85 + Math.random() * 0.15)
+    : 0;
+
   return NextResponse.json({
+    ...(solarCapacity > 0 && {
+      solarGeneration: Math.round(solarPower),
+      gridPower: Math.round(instantPower - solarPower)
+    }),
     instantPower: Math.round(instantPower),
     voltage: Math.round(voltage * 10) / 10,
     current: Math.round(current * 10) / 10,
@@ -379,12 +674,17 @@ function handleHistoricalData(consumerId: string | null, provider: string | null
   const start = new Date(startDate);
   const end = new Date(endDate);
   let runningTotal = 45000 + Math.random() * 10000;
+  const solarCapacity = getSolarCapacity(consumerId, searchParams);
 
   for (let date = new Date(start); date <= end; date.setDate(date.getDate() + 1)) {
     // Simulate weekend vs weekday patterns
     const isWeekend = date.getDay() === 0 || date.getDay() === 6;
     const baseConsumption = isWeekend ? 45 : 35;
-    const dailyConsumption = Math.floor(Math.random() * 20) + baseConsumption - 10;
+    const demand = Math.floor(Math.random() * 20) + baseConsumption - 10;
+
+    // With rooftop solar the meter only sees the grid import
+    const solar = solarCapacity > 0 ? simulateSolarDay(solarCapacity, demand) : null;
+    const dailyConsumption = solar ? solar.imported : demand;
     
     runningTotal += dailyConsumption;
 
@@ -397,7 +697,8 @@ function handleHistoricalData(consumerId: string | null, provider: string | null
       billAmount: Math.floor(dailyConsumption * 6.5),
       powerFactor: 0.85 + Math.random() * 0.1,
       energyImported: Math.floor(runningTotal),
-      energyExported: Math.random() > 0.9 ? Math.random() * 10 : 0
+      energyExported: solar ? solar.exported : (Math.random() > 0.9 ? Math.random() * 10 : 0),
+      ...(solar && { solarGeneration: solar.generation })
     });
   }
 
@@ -410,7 +711,7 @@ function handleHistoricalData(consumerId: string | null, provider: string | null
   });
 }
 
-function handleBillingInfo(consumerId: string | null, provider: string | null) {
+function handleBillingInfo(consumerId: string | null, provider: string | null, searchParams: URLSearchParams) {
   if (!consumerId) {
     return NextResponse.json(
       { error: 'Consumer ID required', code: 400 },
@@ -421,7 +722,24 @@ function handleBillingInfo(consumerId: string | null, provider: string | null) {
   const now = new Date();
   const billDate = new Date(now.getFullYear(), now.getMonth(), 1);
   const dueDate = new Date(now.getFullYear(), now.getMonth(), 25);
-  const unitsConsumed = Math.floor(Math.random() * 200) + 300;
+  const solarCapacity = getSolarCapacity(consumerId, searchParams);
+  const grossUnits = Math.floor(Math.random() * 200) + 300;
+
+  // Net metering: exported units offset imports, any surplus is banked
+  let unitsConsumed = grossUnits;
+  let netMetering;
+  if (solarCapacity > 0) {
+    const days = Array.from({ length: 30 }, () => simulateSolarDay(solarCapacity, grossUnits / 30));
+    const importedUnits = Math.round(days.reduce((sum, day) => sum + day.imported, 0));
+    const exportedUnits = Math.round(days.reduce((sum, day) => sum + day.exported, 0));
+    unitsConsumed = Math.max(0, importedUnits - exportedUnits);
+    netMetering = {
+      importedUnits,
+      exportedUnits,
+      bankedUnits: Math.max(0, exportedUnits - importedUnits),
+      exportCredit: 0 // surplus is settled at the end of the banking year
+    };
+  }
   const energyCharges = unitsConsumed * 6.5;
   const fixedCharges = 150;
   const taxes = Math.floor(energyCharges * 0.12); // 12% tax
@@ -437,6 +755,7 @@ function handleBillingInfo(consumerId: string | null, provider: string | null) {
     },
     unitsConsumed,
     amount: totalAmount,
+    ...(netMetering && { netMetering }),
     status: ['paid', 'unpaid', 'overdue'][Math.floor(Math.random() * 3)],
     breakdown: {
       energyCharges,
@@ -459,6 +778,200 @@ function handleBillingInfo(consumerId: string | null, provider: string | null) {
   });
 }
 
+function getPrepaidAccount(consumerId: string, meterData: MockSmartMeterData): MockPrepaidAccount {
+  let account = prepaidAccounts.get(consumerId);
+
+  if (!account) {
+    // Roughly monthly recharges sized to the consumer's usage
+    const amount = Math.ceil(meterData.unitsConsumed * meterData.tariffRate * 30 / 100) * 100;
+    const channels = ['upi', 'netbanking', 'card', 'counter'];
+    const recharges: MockRecharge[] = [];
+    let daysAgo = 5 + Math.floor(Math.random() * 20);
+
+    for (let i = 0; i < 6; i++) {
+      recharges.push({
+        transactionId: `TXN${consumerId.slice(-4)}${Date.now().toString().slice(-6)}${i}`,
+        amount,
+        unitsCredited: Math.round(amount / meterData.tariffRate * 100) / 100,
+        date: new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000).toISOString(),
+        channel: channels[Math.floor(Math.random() * channels.length)],
+        status: 'success'
+      });
+      daysAgo += 25 + Math.floor(Math.random() * 10);
+    }
+
+    account = {
+      openingBalance: Math.round(Math.random() * 150),
+      recharges,
+      emergencyCredit: 100
+    };
+    prepaidAccounts.set(consumerId, account);
+  }
+
+  return account;
+}
+
+function handlePrepaidBalance(consumerId: string | null, provider: string | null, searchParams: URLSearchParams) {
+  if (!consumerId) {
+    return NextResponse.json(
+      { error: 'Consumer ID required', code: 400 },
+      { status: 400 }
+    );
+  }
+
+  let meterData = mockMeterData.get(consumerId);
+  
+  if (!meterData) {
+    meterData = generateMockMeterData(consumerId, provider || 'genus');
+    mockMeterData.set(consumerId, meterData);
+  }
+
+  const account = getPrepaidAccount(consumerId, meterData);
+  const [lastRecharge] = account.recharges;
+
+  // Draw the balance down by usage since the last recharge (?balance=<amount> overrides)
+  const daysSinceRecharge = (Date.now() - new Date(lastRecharge.date).getTime()) / (24 * 60 * 60 * 1000);
+  const balance = searchParams.has('balance')
+    ? Number(searchParams.get('balance'))
+    : account.openingBalance + lastRecharge.amount - daysSinceRecharge * meterData.unitsConsumed * meterData.tariffRate;
+
+  const emergencyCredit = balance >= 0 ? account.emergencyCredit : Math.max(0, account.emergencyCredit + balance);
+  const status = balance > 200 ? 'active' : balance > 0 ? 'low' : emergencyCredit > 0 ? 'emergency' : 'disconnected';
+
+  return NextResponse.json({
+    consumerId,
+    balance: Math.round(balance * 100) / 100,
+    currency: 'INR',
+    emergencyCredit: Math.round(emergencyCredit * 100) / 100,
+    tariffRate: meterData.tariffRate,
+    status,
+    lastRecharge: {
+      amount: lastRecharge.amount,
+      date: lastRecharge.date
+    },
+    timestamp: new Date().toISOString()
+  });
+}
+
+function handleRechargeHistory(consumerId: string | null, provider: string | null, searchParams: URLSearchParams) {
+  if (!consumerId) {
+    return NextResponse.json(
+      { error: 'Consumer ID required', code: 400 },
+      { status: 400 }
+    );
+  }
+
+  let meterData = mockMeterData.get(consumerId);
+  
+  if (!meterData) {
+    meterData = generateMockMeterData(consumerId, provider || 'genus');
+    mockMeterData.set(consumerId, meterData);
+  }
+
+  const start = searchParams.get('start');
+  const end = searchParams.get('end');
+  const recharges = getPrepaidAccount(consumerId, meterData).recharges.filter(recharge =>
+    (!start || recharge.date >= new Date(start).toISOString()) &&
+    (!end || recharge.date <= new Date(end).toISOString())
+  );
+
+  return NextResponse.json({ consumerId, recharges });
+}
+
+function handleOutageStatus(consumerId: string | null, searchParams: URLSearchParams) {
+  if (!consumerId) {
+    return NextResponse.json(
+      { error: 'Consumer ID required', code: 400 },
+      { status: 400 }
+    );
+  }
+
+  const now = Date.now();
+  const outages = [];
+
+  // ?outage=1 simulates an unplanned feeder trip in progress
+  const supplyDown = searchParams.get('outage') === '1';
+  if (supplyDown) {
+    outages.push({
+      outageId: `OUT-${consumerId.slice(-4)}-${Math.floor(now / (60 * 60 * 1000))}`,
+      type: 'unplanned',
+      area: 'Feeder 11kV-07',
+      reason: 'Feeder tripped, restoration in progress',
+      startTime: new Date(now - 20 * 60 * 1000).toISOString(),
+      estimatedRestoration: new Date(now + 40 * 60 * 1000).toISOString()
+    });
+  }
+
+  // Weekly planned maintenance shutdown, announced a day ahead
+  const nextMaintenance = new Date(now);
+  nextMaintenance.setDate(nextMaintenance.getDate() + ((7 - nextMaintenance.getDay()) % 7 || 7));
+  nextMaintenance.setHours(10, 0, 0, 0);
+  if (nextMaintenance.getTime() - now < 24 * 60 * 60 * 1000) {
+    outages.push({
+      outageId: `PLN-${nextMaintenance.toISOString().split('T')[0]}`,
+      type: 'planned',
+      area: 'Feeder 11kV-07',
+      reason: 'Scheduled maintenance',
+      startTime: nextMaintenance.toISOString(),
+      estimatedRestoration: new Date(nextMaintenance.getTime() + 3 * 60 * 60 * 1000).toISOString()
+    });
+  }
+
+  return NextResponse.json({
+    consumerId,
+    supplyAvailable: !supplyDown,
+    outages,
+    timestamp: new Date().toISOString()
+  });
+}
+
+// Tamper codes as each provider reports them, keyed by normalised tamper type
+const PROVIDER_TAMPER_CODES: Record<string, Record<string, string>> = {
+  secure_meters: {
+    magnetic: 'MAG_TAMPER',
+    cover_open: 'TERMINAL_COVER_OPEN',
+    neutral_disturbance: 'NEUTRAL_MISSING',
+    reverse_current: 'CT_REVERSE'
+  },
+  qube: {
+    magnetic: 'magnetic_influence',
+    cover_open: 'cover_open',
+    neutral_disturbance: 'neutral_tamper',
+    reverse_current: 'current_reversal'
+  }
+};
+
+function handleTamperStatus(consumerId: string | null, provider: string | null, searchParams: URLSearchParams) {
+  if (!consumerId) {
+    return NextResponse.json(
+      { error: 'Consumer ID required', code: 400 },
+      { status: 400 }
+    );
+  }
+
+  // ?tamper=magnetic,cover_open simulates active tamper conditions
+  const codes = PROVIDER_TAMPER_CODES[provider || ''] || {};
+  const types = (searchParams.get('tamper') || '')
+    .split(',')
+    .map(type => type.trim())
+    .filter(type => type.length > 0);
+
+  // Detection time is fixed to the hour so repeated polls report the same event
+  const detectedAt = new Date(Math.floor(Date.now() / (60 * 60 * 1000)) * 60 * 60 * 1000).toISOString();
+  const events = types.map(type => ({
+    eventId: `TMP-${consumerId.slice(-4)}-${type}-${detectedAt.slice(0, 13)}`,
+    code: codes[type] || type,
+    active: true,
+    detectedAt
+  }));
+
+  return NextResponse.json({
+    consumerId,
+    events,
+    timestamp: new Date().toISOString()
+  });
+}
+
 function handleListMeters() {
   const meters = Array.from(mockMeterData.entries()).map(([id, data]) => ({
     consumerId: id,
@@ -1,63 +1,97 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-
-// This is a simplified in-memory simulation.
-// In a real app, you'd use a database like Firestore.
-const db = {
-    api_logs: [],
-    unified_api_logs: []
-};
-
-// Utility Functions
-const generateRealisticData = (meterId: string, brand: string, hour?: number) => { 
-  const currentHour = hour === undefined ? new Date().getUTCHours() + 5.5 : hour; // IST approximation
-  let baseLoad = 2.5; // kW
-  let multiplier = 1.0;
-
-  if (currentHour >= 6 && currentHour <= 9) multiplier = 1.4;
-  if (currentHour >= 12 && currentHour <= 14) multiplier = 1.2;
-  if (currentHour >= 19 && currentHour <= 22) multiplier = 1.7;
-  if (currentHour >= 23 || currentHour <= 5) multiplier = 0.3;
-
-  const isWeekend = new Date().getDay() === 0 || new Date().getDay() === 6;
-  if (isWeekend) multiplier *= 0.85;
-
-  const activePower = (baseLoad * multiplier) + (Math.random() - 0.5) * 0.8;
-  const voltage = 230 + (Math.random() - 0.5) * 20;
-  const current = activePower > 0 ? (activePower * 1000) / voltage : 0;
-  const powerFactor = 0.85 + Math.random() * 0.12;
-  
-  return {
-    activePower: Math.max(0.1, activePower),
-    voltage: Math.max(210, Math.min(250, voltage)),
-    current: Math.max(0.5, current),
-    powerFactor: Math.min(0.99, powerFactor),
-    frequency: 49.8 + Math.random() * 0.4,
-    apparentPower: activePower / powerFactor,
-    reactivePower: Math.sqrt(Math.pow(activePower / powerFactor, 2) - Math.pow(activePower, 2))
-  };
-};
-
-const calculateCost = (energyKwh: number, tariffRate = 5.5, isPeakHour = false) => {
-  const rate = isPeakHour ? tariffRate * 1.3 : tariffRate;
-  return energyKwh * rate;
-};
-
-const validateApiKey = (apiKey: string | null, expectedFormat: string) => {
-  if (!apiKey) return false;
-  return apiKey.includes(expectedFormat);
-};
-
-const isPeakHour = (hour?: number) => {
-  const currentHour = hour === undefined ? new Date().getUTCHours() + 5.5 : hour;
-  return currentHour >= 19 && currentHour <= 22;
+import {
+    GatewaySchemaError,
+    isMeterBrand,
+    resolveCanonicalVersion,
+    toCanonicalReading,
+    type MeterBrand,
+} from '@/lib/smart-meter/gateway-schema';
+import {
+    buildBrandPayload,
+    buildLntPayload,
+    buildQubePayload,
+    buildSecurePayload,
+    calculateCost,
+    generateRealisticData,
+} from '@/lib/smart-meter/gateway-simulator';
+import { gatewayUsageMeter } from '@/lib/smart-meter/gateway-usage';
+import { gatewayKeyManager } from '@/lib/smart-meter/gateway-keys';
+import type { ApiKeyScope } from '@/lib/firebase/schema';
+
+// Map a brand payload into the canonical schema, or a 400/502 response on failure
+const canonicalResponse = (brand: MeterBrand, raw: unknown, searchParams: URLSearchParams, meterId: string, userId?: string) => {
+  const version = resolveCanonicalVersion(searchParams.get('version'));
+  if (!version) {
+    return NextResponse.json({ success: false, error: `Unsupported schema version: ${searchParams.get('version')}` }, { status: 400 });
+  }
+  try {
+    return NextResponse.json(toCanonicalReading(brand, raw, { meterId, userId }, version));
+  } catch (error) {
+    if (error instanceof GatewaySchemaError) {
+      return NextResponse.json({ success: false, error: error.message, issues: error.issues }, { status: 502 });
+    }
+    throw error;
+  }
 };
 
 
 async function handler(req: NextRequest, { params }: { params: Promise<{ slug: string[] }> }) {
+    const startedAt = Date.now();
     const resolvedParams = await params;
     const slug = resolvedParams.slug.join('/');
     const { searchParams } = new URL(req.url);
+    const auth = await gatewayKeyManager.authenticate(req, requiredScope(slug, searchParams));
+    const caller = gatewayUsageMeter.identifyCaller(req, auth);
+
+    // Only authenticated callers are counted; a rejected key gets its 401/403 without touching the store
+    const quota = auth.ok ? await gatewayUsageMeter.consumeQuota(caller.apiKeyId, auth.rateLimit) : null;
+    let response: NextResponse;
+    if (!auth.ok) {
+        response = NextResponse.json({ success: false, error: auth.error, code: auth.code }, { status: auth.status });
+    } else if (quota && !quota.allowed) {
+        response = NextResponse.json(
+            { success: false, error: 'API quota exceeded', code: 'QUOTA_EXCEEDED', retryAfter: quota.retryAfterSeconds },
+            { status: 429, headers: { 'Retry-After': String(quota.retryAfterSeconds) } }
+        );
+    } else {
+        response = await routeRequest(req, slug, searchParams).catch(error => {
+            console.error(`Gateway error on ${slug}:`, error);
+            return NextResponse.json({ success: false, error: 'Internal gateway error', code: 'INTERNAL_ERROR' }, { status: 500 });
+        });
+    }
+
+    if (quota) {
+        response.headers.set('X-RateLimit-Limit', String(quota.quota.dailyRequests));
+        response.headers.set('X-RateLimit-Remaining', String(quota.dailyRemaining));
+        response.headers.set('X-RateLimit-Reset', quota.resetAt);
+    }
+
+    const errorBody = response.status >= 400 ? await response.clone().json().catch(() => null) : null;
+    await gatewayUsageMeter.record({
+        caller,
+        endpoint: slug,
+        method: req.method,
+        meterId: searchParams.get('meterId') || searchParams.get('deviceId') || undefined,
+        brand: searchParams.get('brand')?.toUpperCase(),
+        status: response.status,
+        latencyMs: Date.now() - startedAt,
+        errorCode: errorBody?.code,
+        throttled: !!quota && !quota.allowed,
+    });
+
+    return response;
+}
+
+// Scope an API key needs for each endpoint
+function requiredScope(slug: string, searchParams: URLSearchParams): ApiKeyScope {
+    if (slug === 'secureMetersData' && searchParams.get('dataType') === 'historical') {
+        return 'history:read';
+    }
+    return 'realtime:read';
+}
+
+async function routeRequest(req: NextRequest, slug: string, searchParams: URLSearchParams) {
     const hour = searchParams.has('hour') ? Number(searchParams.get('hour')) : undefined;
 
     if (slug === 'qubeRealTimeData') {
@@ -80,34 +114,15 @@ async function handler(req: NextRequest, { params }: { params: Promise<{ slug: s
 async function qubeRealTimeData(req: NextRequest, hour?: number) {
     const { searchParams } = new URL(req.url);
     const meterId = searchParams.get('meterId');
-    const apiKey = searchParams.get('apiKey');
 
     if (!meterId) {
         return NextResponse.json({ status: 'error', error: 'Meter ID required', code: 'MISSING_METER_ID' }, { status: 400 });
     }
-    if (!validateApiKey(apiKey, 'qube_demo')) {
-        return NextResponse.json({ status: 'error', error: 'Invalid API key', code: 'INVALID_API_KEY' }, { status: 401 });
-    }
-
-    const data = generateRealisticData(meterId, 'QUBE', hour);
-    const currentHour = hour === undefined ? new Date().getUTCHours() + 5.5 : hour;
-    const energyToday = 2.5 + (currentHour * 0.8) + Math.random() * 2;
-    const costToday = calculateCost(energyToday, 5.2, isPeakHour(hour));
-
-    const response = {
-        status: 'success',
-        timestamp: new Date().toISOString(),
-        meter_id: meterId,
-        brand: 'Qube',
-        model: 'Q-Smart-Pro-2024',
-        data: {
-          instantaneous: { active_power: Math.round(data.activePower * 100) / 100 },
-          energy: { active_energy_today: Math.round(energyToday * 100) / 100, },
-          billing: { cost_today: Math.round(costToday * 100) / 100, tariff_rate: 5.2, is_peak_hour: isPeakHour(hour), },
-          status: { connection_quality: 'excellent', tamper_status: 'normal',},
-        },
-        metadata: { api_version: 'qube_v2.1', response_time_ms: 50, data_freshness: 'real_time'}
-    };
+
+    const response = buildQubePayload(meterId, hour, searchParams);
+    if (searchParams.get('format') === 'canonical') {
+        return canonicalResponse('QUBE', response, searchParams, meterId);
+    }
     return NextResponse.json(response);
 }
 
@@ -116,27 +131,16 @@ async function secureMetersData(req: NextRequest, hour?: number) {
     const { searchParams } = new URL(req.url);
     const deviceId = searchParams.get('deviceId');
     const dataType = searchParams.get('dataType');
-    const token = req.headers.get('x-secure-token');
 
-    if (!token || !token.includes('secure_demo_token')) {
-        return NextResponse.json({ success: false, error: 'Unauthorized access', message: 'X-Secure-Token header required' }, { status: 401 });
-    }
     if (!deviceId) {
         return NextResponse.json({ success: false, error: 'Device ID required', code: 'MISSING_DEVICE_ID' }, { status: 400 });
     }
 
     if (dataType === 'current' || !dataType) {
-        const data = generateRealisticData(deviceId, 'SECURE', hour);
-        const response = {
-          success: true,
-          timestamp: new Date().toISOString(),
-          device_id: deviceId,
-          readings: {
-            active_power_kw: Math.round(data.activePower * 100) / 100,
-            voltage_v: Math.round(data.voltage * 10) / 10,
-          },
-          status: { device_status: 'online', connection_quality: 'stable' },
-        };
+        const response = buildSecurePayload(deviceId, hour, searchParams);
+        if (searchParams.get('format') === 'canonical') {
+            return canonicalResponse('SECURE', response, searchParams, deviceId);
+        }
         return NextResponse.json(response);
 
     } else if (dataType === 'historical') {
@@ -179,65 +183,42 @@ async function lntMeterApi(req: NextRequest, hour?: number) {
     const { searchParams } = new URL(req.url);
     const meterId = searchParams.get('meterId');
     const apiFunction = searchParams.get('function');
-    const apiKey = req.headers.get('l-t-api-key');
 
-    if (!apiKey || !apiKey.includes('LT_demo_key')) {
-        return NextResponse.json({ status: 'error', error: 'Invalid or missing API key', code: 'UNAUTHORIZED' }, { status: 401 });
-    }
     if (!meterId) {
         return NextResponse.json({ status: 'error', error: 'Meter ID is required', code: 'MISSING_METER_ID' }, { status: 400 });
     }
     if (apiFunction === 'read') {
-        const data = generateRealisticData(meterId, 'LNT', hour);
-        const response = {
-            status: 'success',
-            meter_id: meterId,
-            data: {
-                electrical_parameters: {
-                    power: { active_kw: Math.round(data.activePower * 100) / 100 }
-                }
-            }
-        };
+        const response = buildLntPayload(meterId, hour);
+        if (searchParams.get('format') === 'canonical') {
+            return canonicalResponse('LNT', response, searchParams, meterId);
+        }
         return NextResponse.json(response);
     }
      return NextResponse.json({ status: 'error', error: 'Invalid function' }, { status: 400 });
 }
 
 // UNIFIED GATEWAY API
+// Returns canonical readings (see lib/smart-meter/gateway-schema); ?format=raw passes the brand payload through
 async function unifiedMeterGateway(req: NextRequest, hour?: number) {
     const { searchParams } = new URL(req.url);
     const meterId = searchParams.get('meterId');
-    const brand = searchParams.get('brand');
+    const brand = searchParams.get('brand')?.toUpperCase();
     const userId = searchParams.get('userId');
 
-    // In a real app, you'd validate the auth token
-    // const authHeader = req.headers.get('authorization');
-    
     if (!meterId || !brand) {
         return NextResponse.json({ success: false, error: 'Meter ID and brand are required' }, { status: 400 });
     }
 
-    const supportedBrands = ['QUBE', 'SECURE', 'LNT'];
-    if (!supportedBrands.includes(brand.toUpperCase())) {
+    if (!isMeterBrand(brand)) {
         return NextResponse.json({ success: false, error: `Unsupported meter brand: ${brand}` }, { status: 400 });
     }
 
-    const data = generateRealisticData(meterId, brand.toUpperCase(), hour);
-    const normalizedData = {
-        power: { active_kw: Math.round(data.activePower * 100) / 100, },
-        electrical: { voltage_v: Math.round(data.voltage * 10) / 10, current_a: Math.round(data.current * 100) / 100, },
-        energy: { daily_kwh: Math.round((2.5 + Math.random() * 3) * 100) / 100, },
-        status: { connection: 'online', quality: 'excellent', last_reading: new Date().toISOString() }
-    };
-
-    const response = {
-        success: true,
-        timestamp: new Date().toISOString(),
-        meter_info: { id: meterId, brand: brand.toUpperCase(), user_id: userId || 'anonymous' },
-        data: normalizedData,
-        metadata: { api_version: 'unified_v1.0', processing_time_ms: 25, source_api: brand.toLowerCase() }
-    };
-    return NextResponse.json(response);
+    const raw = buildBrandPayload(brand, meterId, hour, searchParams);
+
+    if (searchParams.get('format') === 'raw') {
+        return NextResponse.json(raw);
+    }
+    return canonicalResponse(brand, raw, searchParams, meterId, userId || 'anonymous');
 }
 
 export { handler as GET, handler as POST };
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { getRequestUser } from '@/lib/auth/request-auth';
+import { gatewayKeyManager, GatewayKeyError } from '@/lib/smart-meter/gateway-keys';
+
+// Revoke one of the signed-in user's keys
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ keyId: string }> }) {
+    const user = await getRequestUser(req);
+    if (!user) {
+        return NextResponse.json({ success: false, error: 'Sign-in required', code: 'UNAUTHENTICATED' }, { status: 401 });
+    }
+
+    const { keyId } = await params;
+    try {
+        const key = await gatewayKeyManager.revoke(user.uid, keyId);
+        return NextResponse.json({ success: true, key });
+    } catch (error) {
+        if (error instanceof GatewayKeyError) {
+            return NextResponse.json({ success: false, error: error.message, code: error.code }, { status: error.status });
+        }
+        console.error('API key revocation error:', error);
+        return NextResponse.json({ success: false, error: 'Failed to revoke API key', code: 'KEY_REVOCATION_FAILED' }, { status: 500 });
+    }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { getRequestUser } from '@/lib/auth/request-auth';
+import { gatewayKeyManager, GatewayKeyError } from '@/lib/smart-meter/gateway-keys';
+
+// API keys of the signed-in user (Authorization: Bearer <Firebase ID token>)
+export async function GET(req: NextRequest) {
+    const user = await getRequestUser(req);
+    if (!user) {
+        return NextResponse.json({ success: false, error: 'Sign-in required', code: 'UNAUTHENTICATED' }, { status: 401 });
+    }
+
+    try {
+        const keys = await gatewayKeyManager.list(user.uid);
+        return NextResponse.json({ success: true, keys });
+    } catch (error) {
+        console.error('API key list error:', error);
+        return NextResponse.json({ success: false, error: 'Failed to load API keys', code: 'KEYS_UNAVAILABLE' }, { status: 500 });
+    }
+}
+
+// Issue a key: { name, scopes, expiresInDays?, rateLimit?: { dailyRequests, requestsPerMinute } }
+export async function POST(req: NextRequest) {
+    const user = await getRequestUser(req);
+    if (!user) {
+        return NextResponse.json({ success: false, error: 'Sign-in required', code: 'UNAUTHENTICATED' }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    if (!body || !Array.isArray(body.scopes)) {
+        return NextResponse.json({ success: false, error: 'name and scopes are required', code: 'INVALID_REQUEST' }, { status: 400 });
+    }
+
+    try {
+        const issued = await gatewayKeyManager.issue(user.uid, {
+            name: String(body.name ?? ''),
+            scopes: body.scopes,
+            ...(body.expiresInDays !== undefined && { expiresInDays: Number(body.expiresInDays) }),
+            ...(body.rateLimit && { rateLimit: body.rateLimit })
+        });
+        // The key is only ever returned here
+        return NextResponse.json({ success: true, ...issued }, { status: 201 });
+    } catch (error) {
+        if (error instanceof GatewayKeyError) {
+            return NextResponse.json({ success: false, error: error.message, code: error.code }, { status: error.status });
+        }
+        console.error('API key creation error:', error);
+        return NextResponse.json({ success: false, error: 'Failed to create API key', code: 'KEY_CREATION_FAILED' }, { status: 500 });
+    }
+}
@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { isMeterBrand, resolveCanonicalVersion } from '@/lib/smart-meter/gateway-schema';
+import { meterReadingStream, type StreamMeter } from '@/lib/smart-meter/reading-stream';
+import { gatewayUsageMeter } from '@/lib/smart-meter/gateway-usage';
+import { gatewayKeyManager } from '@/lib/smart-meter/gateway-keys';
+
+export const dynamic = 'force-dynamic';
+
+// Meters to stream: ?meters=QUBE:QUBE_001,SECURE:SEC_002 or ?meterId=QUBE_001&brand=QUBE
+function parseMeters(searchParams: URLSearchParams): StreamMeter[] | string {
+    const entries = searchParams.get('meters')
+        ? searchParams.get('meters')!.split(',').map(entry => entry.trim().split(':'))
+        : [[searchParams.get('brand') || '', searchParams.get('meterId') || '']];
+
+    const meters: StreamMeter[] = [];
+    for (const [rawBrand = '', meterId = ''] of entries) {
+        const brand = rawBrand.toUpperCase();
+        if (!brand || !meterId) {
+            return 'Meter ID and brand are required';
+        }
+        if (!isMeterBrand(brand)) {
+            return `Unsupported meter brand: ${brand}`;
+        }
+        if (!meters.some(meter => meter.meterId === meterId && meter.brand === brand)) {
+            meters.push({ meterId, brand });
+        }
+    }
+
+    if (meters.length > meterReadingStream.maxMetersPerStream) {
+        return `At most ${meterReadingStream.maxMetersPerStream} meters per stream`;
+    }
+    return meters;
+}
+
+// Live canonical readings as server-sent events; resumes from Last-Event-ID
+export async function GET(req: NextRequest) {
+    const startedAt = Date.now();
+    const { searchParams } = new URL(req.url);
+    const auth = await gatewayKeyManager.authenticate(req, 'realtime:read');
+    const caller = gatewayUsageMeter.identifyCaller(req, auth);
+    // Only authenticated callers are counted; a rejected key gets its 401/403 without touching the store
+    const quota = auth.ok ? await gatewayUsageMeter.consumeQuota(caller.apiKeyId, auth.rateLimit) : null;
+    const meters = parseMeters(searchParams);
+    const version = resolveCanonicalVersion(searchParams.get('version'));
+
+    let response: Response;
+    let errorCode: string | undefined;
+    if (!auth.ok) {
+        errorCode = auth.code;
+        response = NextResponse.json({ success: false, error: auth.error, code: auth.code }, { status: auth.status });
+    } else if (quota && !quota.allowed) {
+        errorCode = 'QUOTA_EXCEEDED';
+        response = NextResponse.json(
+            { success: false, error: 'API quota exceeded', code: 'QUOTA_EXCEEDED', retryAfter: quota.retryAfterSeconds },
+            { status: 429, headers: { 'Retry-After': String(quota.retryAfterSeconds) } }
+        );
+    } else if (typeof meters === 'string') {
+        errorCode = 'INVALID_METERS';
+        response = NextResponse.json({ success: false, error: meters, code: errorCode }, { status: 400 });
+    } else if (!version) {
+        errorCode = 'UNSUPPORTED_VERSION';
+        response = NextResponse.json(
+            { success: false, error: `Unsupported schema version: ${searchParams.get('version')}`, code: errorCode },
+            { status: 400 }
+        );
+    } else {
+        const stream = meterReadingStream.open(meters, {
+            version,
+            // EventSource sends Last-Event-ID when it reconnects; the query parameter covers a fresh page load
+            lastEventId: req.headers.get('last-event-id') || searchParams.get('lastEventId'),
+            hour: searchParams.has('hour') ? Number(searchParams.get('hour')) : undefined,
+            signal: req.signal,
+        });
+        response = new Response(stream, {
+            headers: {
+                'Content-Type': 'text/event-stream; charset=utf-8',
+                'Cache-Control': 'no-cache, no-transform',
+                'Connection': 'keep-alive',
+                'X-Accel-Buffering': 'no',
+            },
+        });
+    }
+
+    if (quota) {
+        response.headers.set('X-RateLimit-Limit', String(quota.quota.dailyRequests));
+        response.headers.set('X-RateLimit-Remaining', String(quota.dailyRemaining));
+        response.headers.set('X-RateLimit-Reset', quota.resetAt);
+    }
+
+    // A stream counts as one request, logged when it opens
+    await gatewayUsageMeter.record({
+        caller,
+        endpoint: 'stream',
+        method: req.method,
+        ...(Array.isArray(meters) && meters.length === 1 && { meterId: meters[0].meterId, brand: meters[0].brand }),
+        status: response.status,
+        latencyMs: Date.now() - startedAt,
+        errorCode,
+        throttled: !!quota && !quota.allowed,
+    });
+
+    return response;
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { gatewayUsageMeter, ANONYMOUS_CALLER } from '@/lib/smart-meter/gateway-usage';
+import { gatewayKeyManager } from '@/lib/smart-meter/gateway-keys';
+
+// Usage report for the calling API key: GET /api/smart-meter/usage?days=7
+export async function GET(req: NextRequest) {
+    const { searchParams } = new URL(req.url);
+    const auth = await gatewayKeyManager.authenticate(req);
+
+    if (!auth.ok) {
+        return NextResponse.json({ success: false, error: auth.error, code: auth.code }, { status: auth.status });
+    }
+    if (auth.keyId === ANONYMOUS_CALLER) {
+        return NextResponse.json({ success: false, error: 'API key required', code: 'MISSING_API_KEY' }, { status: 401 });
+    }
+
+    const days = Number(searchParams.get('days') || 7);
+    if (!Number.isInteger(days) || days < 1 || days > 90) {
+        return NextResponse.json({ success: false, error: 'days must be between 1 and 90', code: 'INVALID_RANGE' }, { status: 400 });
+    }
+
+    try {
+        const report = await gatewayUsageMeter.getUsageReport(auth.keyId, days, auth.rateLimit);
+        return NextResponse.json({ success: true, ...report });
+    } catch (error) {
+        console.error('Usage report error:', error);
+        return NextResponse.json({ success: false, error: 'Failed to load usage', code: 'USAGE_UNAVAILABLE' }, { status: 500 });
+    }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const SAMPLE_INTERVAL = 3 * 60 * 60; // seconds between samples
+const MAX_RANGE = 48 * 60 * 60; // seconds
+
+/**
+ * Past weather between `start` and `end` (unix seconds), one sample every
+ * three hours, each shaped like a `/api/weather` response
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const lat = searchParams.get('lat');
+  const lon = searchParams.get('lon');
+  const start = Number(searchParams.get('start'));
+  const end = Number(searchParams.get('end'));
+
+  if (!lat || !lon) {
+    return NextResponse.json(
+      { error: 'Missing latitude or longitude parameters' },
+      { status: 400 }
+    );
+  }
+
+  if (!Number.isFinite(start) || !Number.isFinite(end) || end <= start || end - start > MAX_RANGE) {
+    return NextResponse.json(
+      { error: 'start and end must be unix seconds, at most 48 hours apart' },
+      { status: 400 }
+    );
+  }
+
+  const times: number[] = [];
+  for (let dt = Math.floor(start); dt <= end; dt += SAMPLE_INTERVAL) {
+    times.push(dt);
+  }
+
+  const apiKey = process.env.OPENWEATHER_API_KEY;
+  if (apiKey) {
+    try {
+      const samples = await Promise.all(times.map(async dt => {
+        const response = await fetch(
+          `https://api.openweathermap.org/data/3.0/onecall/timemachine?lat=${lat}&lon=${lon}&dt=${dt}&appid=${apiKey}&units=metric`,
+          { cache: 'force-cache' }
+        );
+        if (!response.ok) {
+          throw new Error(`OpenWeather history request failed with status ${response.status}`);
+        }
+
+        const data = (await response.json()).data?.[0];
+        return {
+          dt: data.dt,
+          main: { temp: data.temp, humidity: data.humidity },
+          weather: data.weather
+        };
+      }));
+
+      return NextResponse.json({ source: 'openweather', hourly: samples });
+    } catch (error) {
+      console.error('Weather history API error:', error);
+    }
+  }
+
+  // Fallback to mock data if API fails or key is missing: a typical Hyderabad day,
+  // coolest before dawn and warmest mid-afternoon (IST)
+  console.log('Using mock weather history - API key not available or request failed');
+
+  const mockSamples = times.map(dt => {
+    const hour = (new Date(dt * 1000).getUTCHours() + 5.5) % 24;
+    const warmth = Math.sin(((hour - 9) / 24) * 2 * Math.PI);
+    return {
+      dt,
+      main: {
+        temp: Math.round((27 + 6 * warmth) * 10) / 10,
+        humidity: Math.round(65 - 20 * warmth)
+      },
+      weather: [{ main: warmth > 0.3 ? 'Clear' : 'Clouds' }]
+    };
+  });
+
+  return NextResponse.json({ source: 'mock', hourly: mockSamples });
+}
@@ -30,6 +30,7 @@ import { GamingDashboard } from '@/components/gaming/gaming-dashboard';
 // Quick overview cards
 import { OverviewCards } from '@/components/dashboard/overview-cards';
 import { EnergyUsageChart } from '@/components/dashboard/energy-usage-chart';
+import { MeterHierarchyCard } from '@/components/dashboard/meter-hierarchy';
 
 // Initialize demo data
 import '@/lib/demo-data-initializer';
@@ -194,6 +195,9 @@ function DashboardContent() {
                 <AIInsightsPanel userId={userId} className="h-[400px]" />
               </div>
             </div>
+
+            {/* Meters and sub-meters */}
+            <MeterHierarchyCard />
           </div>
         </TabsContent>
 
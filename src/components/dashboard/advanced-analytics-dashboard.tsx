@@ -34,7 +34,8 @@ import {
   Minus,
   Lightbulb,
   Brain,
-  Sparkles
+  Sparkles,
+  Sun
 } from 'lucide-react';
 import {
   LineChart as RechartsLineChart,
@@ -69,6 +70,7 @@ import {
   type MLInsight,
   type ConsumptionPattern
 } from '@/lib/energy-analytics-engine';
+import { useAuth } from '@/hooks/useAuth';
 import { toast } from 'sonner';
 
 const COLORS = {
@@ -104,6 +106,9 @@ const alertColors = {
   critical: 'bg-red-100 text-red-800'
 };
 
+// Assumed rooftop system size when the profile doesn't record one
+const DEFAULT_SOLAR_CAPACITY_KW = 3;
+
 interface AdvancedAnalyticsDashboardProps {
   userId: string;
   className?: string;
@@ -125,11 +130,16 @@ export function AdvancedAnalyticsDashboard({ userId, className }: AdvancedAnalyt
   const [mlInsights, setMLInsights] = useState<MLInsight[]>([]);
   const [patterns, setPatterns] = useState<ConsumptionPattern[]>([]);
 
+  const { user } = useAuth();
+  const homeInfo = user?.profile?.homeInfo;
+  const solarCapacity = homeInfo?.features?.hasSolarPanels ? homeInfo.solarCapacity || DEFAULT_SOLAR_CAPACITY_KW : 0;
+
   useEffect(() => {
+    energyAnalytics.configureSolar(solarCapacity > 0 ? { capacityKw: solarCapacity } : null);
     loadAnalyticsData();
     const interval = setInterval(loadAnalyticsData, 5 * 60 * 1000); // Refresh every 5 minutes
     return () => clearInterval(interval);
-  }, [selectedTimeframe]);
+  }, [selectedTimeframe, solarCapacity]);
 
   const loadAnalyticsData = async () => {
     setIsLoading(true);
@@ -330,6 +340,72 @@ export function AdvancedAnalyticsDashboard({ userId, className }: AdvancedAnalyt
             </Card>
           </div>
 
+          {/* Net Metering */}
+          {costAnalysis?.netMetering && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Sun className="h-5 w-5 text-yellow-500" />
+                  Solar & Net Metering
+                </CardTitle>
+                <CardDescription>
+                  {solarCapacity} kW rooftop system · {costAnalysis.netMetering.mode === 'net_billing' ? 'Net billing' : 'Net metering'}
+                  {' '}· exports credited at ₹{costAnalysis.netMetering.feedInTariff}/kWh
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Generated</p>
+                    <p className="text-xl font-bold">{costAnalysis.netMetering.generation.toFixed(1)} kWh</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Imported</p>
+                    <p className="text-xl font-bold">{costAnalysis.netMetering.imported.toFixed(1)} kWh</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Exported</p>
+                    <p className="text-xl font-bold text-green-600">{costAnalysis.netMetering.exported.toFixed(1)} kWh</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Net</p>
+                    <p className="text-xl font-bold">{costAnalysis.netMetering.net.toFixed(1)} kWh</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Banked</p>
+                    <p className="text-xl font-bold">{costAnalysis.netMetering.bankedUnits.toFixed(1)} kWh</p>
+                  </div>
+                </div>
+                <div className="mt-4 space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span>Self-consumption</span>
+                    <span>{(costAnalysis.netMetering.selfConsumptionRatio * 100).toFixed(0)}%</span>
+                  </div>
+                  <Progress value={costAnalysis.netMetering.selfConsumptionRatio * 100} />
+                  <div className="flex justify-between text-sm">
+                    <span>Self-sufficiency</span>
+                    <span>{(costAnalysis.netMetering.selfSufficiencyRatio * 100).toFixed(0)}%</span>
+                  </div>
+                  <Progress value={costAnalysis.netMetering.selfSufficiencyRatio * 100} />
+                  <div className="flex justify-between text-sm pt-2">
+                    <span className="text-muted-foreground">Energy charges / export credit</span>
+                    <span>
+                      ₹{costAnalysis.netMetering.energyCharges.toFixed(0)} / ₹{costAnalysis.netMetering.exportCredit.toFixed(0)}
+                    </span>
+                  </div>
+                  {carbonAnalysis?.solar && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Emissions avoided</span>
+                      <span className="text-green-600">
+                        {(carbonAnalysis.solar.avoidedEmissions + carbonAnalysis.solar.exportedOffset).toFixed(1)} kg CO₂
+                      </span>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Charts Grid */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Consumption Trend Chart */}
@@ -37,8 +37,26 @@ import {
   Gauge
 } from 'lucide-react';
 import { smartHomeController, type SmartDevice, type Room, type DeviceSchedule, type AutomationRule, type EnergyOptimization } from '@/lib/smart-home-controller';
+import { validateRuleExpression } from '@/lib/automation/rule-expression';
+import { tariffPlanFromMeter } from '@/lib/automation/tariff-bands';
+import { isValidTimeZone } from '@/lib/automation/schedule-times';
+import { loadDryRunDay, type DryRunResult } from '@/lib/automation/rule-dry-run';
+import { automationAuditLog, type AutomationAuditEntry } from '@/lib/automation/audit-log';
+import { useSmartMeter } from '@/hooks/useSmartMeter';
 import { toast } from 'sonner';
 
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const CONDITION_PLACEHOLDERS: Record<AutomationRule['trigger']['type'], string> = {
+  time: 'room.occupancy = false and time in 09:00..18:00',
+  occupancy: 'not room.occupancy',
+  temperature: 'room.temperature > 28',
+  usage: 'device.power > device.ratedPower',
+  energy_price: "tariff.band = 'peak'",
+  weather: "weather.condition = 'rain' or weather.temperature > 35",
+  device_state: 'source.wasOn and not source.isOn'
+};
+
 const deviceIcons: Record<string, React.ElementType> = {
   ac: Thermometer,
   light: Lightbulb,
@@ -80,26 +98,37 @@ export function SmartHomeDashboard({ userId, className }: SmartHomeDashboardProp
   const [rooms, setRooms] = useState<Room[]>([]);
   const [selectedRoom, setSelectedRoom] = useState<string>('all');
   const [optimizations, setOptimizations] = useState<EnergyOptimization[]>([]);
+  const [schedules, setSchedules] = useState<DeviceSchedule[]>([]);
+  const [recentActions, setRecentActions] = useState<AutomationAuditEntry[]>([]);
+  const [dryRunDate, setDryRunDate] = useState(() => {
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    return `${yesterday.getFullYear()}-${String(yesterday.getMonth() + 1).padStart(2, '0')}-${String(yesterday.getDate()).padStart(2, '0')}`;
+  });
+  const [dryRunResult, setDryRunResult] = useState<DryRunResult | null>(null);
+  const [dryRunning, setDryRunning] = useState(false);
   const [activeTab, setActiveTab] = useState('devices');
   const [scheduleDialog, setScheduleDialog] = useState(false);
   const [automationDialog, setAutomationDialog] = useState(false);
   const [selectedDevice, setSelectedDevice] = useState<SmartDevice | null>(null);
+  const { meters } = useSmartMeter();
 
   // Form states
   const [scheduleForm, setScheduleForm] = useState({
     deviceId: '',
     name: '',
-    days: [] as number[],
+    days: [0, 1, 2, 3, 4, 5, 6] as number[],
     startTime: '',
     endTime: '',
-    action: 'turn_on' as const,
-    parameters: {}
+    action: 'turn_on' as DeviceSchedule['action'],
+    parameters: {} as Record<string, any>,
+    priority: 5
   });
 
   const [automationForm, setAutomationForm] = useState({
     name: '',
     deviceId: '',
-    triggerType: 'time' as const,
+    triggerType: 'time' as AutomationRule['trigger']['type'],
+    sourceDeviceId: '',
     condition: '',
     value: '',
     actionType: 'turn_on' as const,
@@ -112,10 +141,23 @@ export function SmartHomeDashboard({ userId, className }: SmartHomeDashboardProp
     return () => clearInterval(interval);
   }, []);
 
+  // Energy price rules follow the tariff configured on the user's meter, and
+  // schedules and time rules the meter's clock
+  useEffect(() => {
+    if (meters.length > 0) {
+      smartHomeController.setTariffPlan(tariffPlanFromMeter(meters[0]));
+      if (isValidTimeZone(meters[0].config.timezone)) {
+        smartHomeController.setScheduleTimeZone(meters[0].config.timezone);
+      }
+    }
+  }, [meters]);
+
   const refreshData = () => {
     setDevices(smartHomeController.getAllDevices());
     setRooms(smartHomeController.getAllRooms());
     setOptimizations(smartHomeController.generateOptimizations());
+    setSchedules(smartHomeController.getAllSchedules());
+    automationAuditLog.entries({ kind: 'action', limit: 10 }).then(setRecentActions);
   };
 
   const handleDeviceToggle = async (deviceId: string) => {
@@ -144,58 +186,77 @@ export function SmartHomeDashboard({ userId, className }: SmartHomeDashboardProp
       return;
     }
 
-    await smartHomeController.createSchedule({
-      deviceId: scheduleForm.deviceId,
-      name: scheduleForm.name,
-      days: scheduleForm.days,
-      startTime: scheduleForm.startTime,
-      endTime: scheduleForm.endTime,
-      action: scheduleForm.action,
-      parameters: scheduleForm.parameters,
-      isActive: true,
-      repeatWeekly: true
-    });
+    try {
+      await smartHomeController.createSchedule({
+        deviceId: scheduleForm.deviceId,
+        name: scheduleForm.name,
+        days: scheduleForm.days,
+        startTime: scheduleForm.startTime,
+        endTime: scheduleForm.endTime,
+        action: scheduleForm.action,
+        parameters: scheduleForm.parameters,
+        isActive: true,
+        repeatWeekly: true,
+        priority: scheduleForm.priority
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create schedule');
+      return;
+    }
 
     setScheduleDialog(false);
     setScheduleForm({
       deviceId: '',
       name: '',
-      days: [],
+      days: [0, 1, 2, 3, 4, 5, 6],
       startTime: '',
       endTime: '',
       action: 'turn_on',
-      parameters: {}
+      parameters: {},
+      priority: 5
     });
     refreshData();
   };
 
+  const conditionIssues = automationForm.condition ? validateRuleExpression(automationForm.condition) : [];
+
+  const automationDraft = (): Omit<AutomationRule, 'id'> => ({
+    name: automationForm.name,
+    deviceId: automationForm.deviceId,
+    trigger: {
+      type: automationForm.triggerType,
+      condition: automationForm.condition,
+      value: automationForm.value,
+      sourceDeviceId: automationForm.triggerType === 'device_state' ? automationForm.sourceDeviceId : undefined
+    },
+    action: {
+      type: automationForm.actionType,
+      parameters: automationForm.actionParameters
+    },
+    isActive: true,
+    priority: 5
+  });
+
   const createAutomation = async () => {
     if (!automationForm.name || !automationForm.deviceId || !automationForm.condition) {
       toast.error('Please fill in all required fields');
       return;
     }
 
-    await smartHomeController.createAutomationRule({
-      name: automationForm.name,
-      deviceId: automationForm.deviceId,
-      trigger: {
-        type: automationForm.triggerType,
-        condition: automationForm.condition,
-        value: automationForm.value
-      },
-      action: {
-        type: automationForm.actionType,
-        parameters: automationForm.actionParameters
-      },
-      isActive: true,
-      priority: 5
-    });
+    try {
+      await smartHomeController.createAutomationRule(automationDraft());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create rule');
+      return;
+    }
 
     setAutomationDialog(false);
+    setDryRunResult(null);
     setAutomationForm({
       name: '',
       deviceId: '',
       triggerType: 'time',
+      sourceDeviceId: '',
       condition: '',
       value: '',
       actionType: 'turn_on',
@@ -204,6 +265,23 @@ export function SmartHomeDashboard({ userId, className }: SmartHomeDashboardProp
     refreshData();
   };
 
+  const runDryRun = async () => {
+    if (!automationForm.deviceId || !automationForm.condition) {
+      toast.error('Choose a device and a condition first');
+      return;
+    }
+
+    setDryRunning(true);
+    try {
+      const day = await loadDryRunDay(meters[0]?.id ?? null, new Date(`${dryRunDate}T00:00`), smartHomeController.getWeatherLocation());
+      setDryRunResult(smartHomeController.dryRunAutomationRule(automationDraft(), day));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Dry run failed');
+    } finally {
+      setDryRunning(false);
+    }
+  };
+
   const filteredDevices = selectedRoom === 'all' 
     ? devices 
     : devices.filter(device => device.room === selectedRoom);
@@ -555,6 +633,26 @@ export function SmartHomeDashboard({ userId, className }: SmartHomeDashboardProp
                         />
                       </div>
                     </div>
+                    <div>
+                      <Label>Days</Label>
+                      <div className="flex gap-1 mt-1">
+                        {DAY_LABELS.map((label, day) => (
+                          <Button
+                            key={label}
+                            type="button"
+                            size="sm"
+                            variant={scheduleForm.days.includes(day) ? 'default' : 'outline'}
+                            className="px-2"
+                            onClick={() => setScheduleForm(prev => ({
+                              ...prev,
+                              days: prev.days.includes(day) ? prev.days.filter(d => d !== day) : [...prev.days, day].sort((a, b) => a - b)
+                            }))}
+                          >
+                            {label}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
                     <div>
                       <Label>Action</Label>
                       <Select value={scheduleForm.action} onValueChange={(value: any) => 
@@ -571,6 +669,32 @@ export function SmartHomeDashboard({ userId, className }: SmartHomeDashboardProp
                         </SelectContent>
                       </Select>
                     </div>
+                    {(scheduleForm.action === 'set_temperature' || scheduleForm.action === 'set_brightness') && (
+                      <div>
+                        <Label>{scheduleForm.action === 'set_temperature' ? 'Temperature (°C)' : 'Brightness (%)'}</Label>
+                        <Input
+                          type="number"
+                          value={scheduleForm.parameters[scheduleForm.action === 'set_temperature' ? 'temperature' : 'brightness'] ?? ''}
+                          onChange={(e) => setScheduleForm(prev => ({
+                            ...prev,
+                            parameters: { [prev.action === 'set_temperature' ? 'temperature' : 'brightness']: Number(e.target.value) }
+                          }))}
+                        />
+                      </div>
+                    )}
+                    <div>
+                      <Label>Priority</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={10}
+                        value={scheduleForm.priority}
+                        onChange={(e) => setScheduleForm(prev => ({ ...prev, priority: Number(e.target.value) }))}
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        When schedules overlap on a device, the highest priority is in control
+                      </p>
+                    </div>
                     <div className="flex justify-end gap-2">
                       <Button variant="outline" onClick={() => setScheduleDialog(false)}>
                         Cancel
@@ -621,19 +745,98 @@ export function SmartHomeDashboard({ userId, className }: SmartHomeDashboardProp
                         </SelectContent>
                       </Select>
                     </div>
+                    <div>
+                      <Label>Trigger</Label>
+                      <Select value={automationForm.triggerType} onValueChange={(value: any) => 
+                        setAutomationForm(prev => ({ ...prev, triggerType: value }))
+                      }>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="time">Time</SelectItem>
+                          <SelectItem value="occupancy">Occupancy</SelectItem>
+                          <SelectItem value="temperature">Temperature</SelectItem>
+                          <SelectItem value="usage">Power Usage</SelectItem>
+                          <SelectItem value="energy_price">Energy Price</SelectItem>
+                          <SelectItem value="weather">Weather</SelectItem>
+                          <SelectItem value="device_state">Another Device</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {automationForm.triggerType === 'device_state' && (
+                      <div>
+                        <Label>Watched Device</Label>
+                        <Select value={automationForm.sourceDeviceId} onValueChange={(value) => 
+                          setAutomationForm(prev => ({ ...prev, sourceDeviceId: value }))
+                        }>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select device to watch" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {devices.filter(device => device.id !== automationForm.deviceId).map(device => (
+                              <SelectItem key={device.id} value={device.id}>
+                                {device.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
                     <div>
                       <Label>Condition</Label>
                       <Input
                         value={automationForm.condition}
                         onChange={(e) => setAutomationForm(prev => ({ ...prev, condition: e.target.value }))}
-                        placeholder="occupancy = false"
+                        placeholder={CONDITION_PLACEHOLDERS[automationForm.triggerType]}
                       />
+                      {conditionIssues.length > 0 ? (
+                        <p className="text-xs text-destructive mt-1">
+                          {conditionIssues[0].message} (at character {conditionIssues[0].position + 1})
+                        </p>
+                      ) : (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Compare room, device, meter, tariff and weather values, e.g. room.temperature &gt; 28 and tariff.peak
+                        </p>
+                      )}
+                    </div>
+                    <div>
+                      <Label>Dry Run</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          type="date"
+                          value={dryRunDate}
+                          onChange={(e) => setDryRunDate(e.target.value)}
+                        />
+                        <Button variant="outline" onClick={runDryRun} disabled={dryRunning || conditionIssues.length > 0}>
+                          {dryRunning ? 'Running...' : 'Replay Day'}
+                        </Button>
+                      </div>
+                      {dryRunResult && (
+                        <div className="text-xs text-muted-foreground mt-2 space-y-1">
+                          <p>
+                            Condition held for {dryRunResult.met} of {dryRunResult.evaluations} minutes; {dryRunResult.actions.length} action{dryRunResult.actions.length === 1 ? '' : 's'}.
+                            {' '}{dryRunResult.energyImpact <= 0 ? 'Saves' : 'Uses'} {Math.abs(dryRunResult.energyImpact).toFixed(2)} kWh (₹{Math.abs(dryRunResult.costImpact).toFixed(2)})
+                            {dryRunResult.meteredEnergy > 0 && ` of ${dryRunResult.meteredEnergy.toFixed(1)} kWh metered`}.
+                          </p>
+                          {dryRunResult.actions.slice(0, 5).map((action, index) => (
+                            <p key={index}>
+                              {action.at.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} · {action.action.replace('_', ' ')} → {action.deviceState.isOn ? 'on' : 'off'}, {Math.round(action.deviceState.power)}W
+                            </p>
+                          ))}
+                          {dryRunResult.unavailable.length > 0 && (
+                            <p className="text-destructive">
+                              No history for {dryRunResult.unavailable.join(', ')}; treated as unknown
+                            </p>
+                          )}
+                        </div>
+                      )}
                     </div>
                     <div className="flex justify-end gap-2">
                       <Button variant="outline" onClick={() => setAutomationDialog(false)}>
                         Cancel
                       </Button>
-                      <Button onClick={createAutomation}>Create Rule</Button>
+                      <Button onClick={createAutomation} disabled={conditionIssues.length > 0}>Create Rule</Button>
                     </div>
                   </div>
                 </DialogContent>
@@ -641,11 +844,56 @@ export function SmartHomeDashboard({ userId, className }: SmartHomeDashboardProp
             </div>
           </div>
 
-          <div className="text-center py-8 text-muted-foreground">
-            <Settings className="h-12 w-12 mx-auto mb-4 opacity-50" />
-            <p>No automation rules created yet</p>
-            <p className="text-sm">Create schedules and automation rules to optimize energy usage</p>
-          </div>
+          {recentActions.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Recent Automation Activity</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1">
+                {recentActions.map(entry => (
+                  <p key={entry.seq} className="text-sm text-muted-foreground">
+                    {new Date(entry.at).toLocaleString()} · {entry.ruleName}: {entry.action?.replace('_', ' ')} {smartHomeController.getDevice(entry.deviceId)?.name || entry.deviceId}
+                    {entry.outcome === 'no_change' && ' (already set)'}
+                    {' — '}{Object.entries(entry.inputs).map(([name, value]) => `${name} = ${value ?? 'unknown'}`).join(', ')}
+                  </p>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {schedules.length > 0 ? (
+            <div className="grid gap-3">
+              {schedules.map(schedule => {
+                const lastRun = smartHomeController.getScheduleHistory(schedule.id).slice(-1)[0];
+                return (
+                  <Card key={schedule.id}>
+                    <CardContent className="p-4 flex items-center justify-between">
+                      <div>
+                        <p className="font-medium">{schedule.name}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {smartHomeController.getDevice(schedule.deviceId)?.name || schedule.deviceId} · {schedule.days.map(day => DAY_LABELS[day]).join(', ')} · {schedule.startTime}–{schedule.endTime}
+                        </p>
+                        {lastRun && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Last {lastRun.event} {lastRun.scheduledFor.toLocaleString()}: {lastRun.outcome}{lastRun.detail ? ` — ${lastRun.detail}` : ''}
+                          </p>
+                        )}
+                      </div>
+                      <Badge variant={schedule.isActive ? 'default' : 'secondary'}>
+                        {schedule.isActive ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              <Settings className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No automation rules created yet</p>
+              <p className="text-sm">Create schedules and automation rules to optimize energy usage</p>
+            </div>
+          )}
         </TabsContent>
 
         {/* Optimization Tab */}
@@ -0,0 +1,179 @@
+'use client';
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useSmartMeterDashboard } from '@/hooks/use-smart-meter-dashboard';
+import { HOUSEHOLD_GROUP } from '@/lib/smart-meter/meter-hierarchy';
+import { Gauge, AlertTriangle, Plus, Trash2 } from 'lucide-react';
+
+const GROUP_LABELS: Record<string, string> = {
+  [HOUSEHOLD_GROUP]: 'Household',
+  tenant: 'Tenant'
+};
+
+export function MeterHierarchyCard() {
+  const { state, actions } = useSmartMeterDashboard();
+  const { meters, hierarchy, loading } = state;
+
+  const [label, setLabel] = useState('');
+  const [parentMeterId, setParentMeterId] = useState<string>('');
+  const [accountingGroup, setAccountingGroup] = useState(HOUSEHOLD_GROUP);
+  const [error, setError] = useState<string | null>(null);
+
+  if (loading || !hierarchy) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Meters</CardTitle>
+          <CardDescription>Main meter, sub-meters and properties.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Skeleton className="h-6 w-3/4" />
+          <Skeleton className="h-6 w-1/2" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const addMeter = async () => {
+    try {
+      setError(null);
+      await actions.addMeter({
+        label: label.trim(),
+        parentMeterId: parentMeterId === 'none' ? null : parentMeterId || undefined,
+        accountingGroup
+      });
+      setLabel('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add meter');
+    }
+  };
+
+  const removeMeter = async (meterId: string) => {
+    try {
+      setError(null);
+      await actions.removeMeter(meterId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove meter');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          Meters
+          <Badge variant="secondary" className="ml-auto">
+            {hierarchy.total.power.toFixed(2)} kW · {hierarchy.total.energy.toFixed(1)} kWh today
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          Unmetered load is what a meter records minus its sub-meters
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {hierarchy.meters.map(meter => (
+            <div
+              key={meter.meterId}
+              className="flex items-center justify-between text-sm"
+              style={{ paddingLeft: `${meter.depth * 1.25}rem` }}
+            >
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{meter.label}</span>
+                <Badge variant="outline" className="h-5 text-xs">
+                  {GROUP_LABELS[meter.accountingGroup] || meter.accountingGroup}
+                </Badge>
+                {meter.inconsistent && (
+                  <AlertTriangle className="h-4 w-4 text-yellow-600" aria-label="Sub-meters record more than this meter" />
+                )}
+              </div>
+              <div className="flex items-center gap-3 text-muted-foreground">
+                <span>{meter.measured.power.toFixed(2)} kW</span>
+                {meter.childIds.length > 0 && (
+                  <span>{meter.unmetered.power.toFixed(2)} kW unmetered</span>
+                )}
+                {meter.depth > 0 && meter.childIds.length === 0 && (
+                  <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => removeMeter(meter.meterId)}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {hierarchy.groups.length > 1 && (
+          <>
+            <Separator />
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Separate accounting</p>
+              {hierarchy.groups.map(group => (
+                <div key={group.accountingGroup} className="flex items-center justify-between text-sm">
+                  <span>{GROUP_LABELS[group.accountingGroup] || group.accountingGroup}</span>
+                  <span className="text-muted-foreground">
+                    {group.usage.energy.toFixed(1)} kWh · ₹{group.cost.toFixed(0)} today
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <Separator />
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="meter-label">New meter</Label>
+            <Input
+              id="meter-label"
+              placeholder="First floor"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Behind</Label>
+            <Select value={parentMeterId || meters[0]?.meterId} onValueChange={setParentMeterId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {meters.map(meter => (
+                  <SelectItem key={meter.meterId} value={meter.meterId}>{meter.label}</SelectItem>
+                ))}
+                <SelectItem value="none">Nothing (another property)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Billed to</Label>
+            <Select value={accountingGroup} onValueChange={setAccountingGroup}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={HOUSEHOLD_GROUP}>Household</SelectItem>
+                <SelectItem value="tenant">Tenant</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-destructive">{error}</p>
+          <Button size="sm" onClick={addMeter} disabled={!label.trim()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add meter
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
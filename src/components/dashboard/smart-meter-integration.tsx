@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -10,6 +10,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
 import { DemoGameControls } from '@/components/dashboard/demo-game-controls';
 import {
   Select,
@@ -38,6 +39,7 @@ import SmartMeterAPI, {
   SmartMeterReading,
   SmartMeterProvider 
 } from '@/lib/smart-meter-apis';
+import { providerDetector } from '@/lib/smart-meter/providers/detection';
 
 interface SmartMeterState {
   isConnected: boolean;
@@ -67,9 +69,33 @@ interface SmartMeterIntegrationProps {
 
 const ALL_REGIONS = [...new Set(SMART_METER_PROVIDERS.flatMap(p => p.regions))].sort();
 
+// Minimum confidence before a detected provider is suggested or preselected
+const SUGGESTION_CONFIDENCE = 0.5;
+
+
+// Add consumer ID format hints to connection errors so users can tell
+// a wrong provider/consumer number apart from a credentials problem
+function describeConnectionError(error: any, providerId: string, consumerId: string): string {
+  const message = error?.message || 'Failed to connect to smart meter';
+  if (!providerId || !consumerId || consumerId.startsWith('DEMO')) return message;
+
+  try {
+    const check = providerDetector.validateConsumerId(providerId, consumerId);
+    if (check.valid) return message;
+
+    const [best] = providerDetector.detect({ consumerId });
+    const hint = best && best.providerId !== providerId && best.confidence >= SUGGESTION_CONFIDENCE
+      ? ` It looks like a ${best.provider.name} number.`
+      : '';
+    return `${message}. Consumer ID ${consumerId} does not match the expected format: ${check.expected.join(' or ')}.${hint}`;
+  } catch {
+    return message;
+  }
+}
 
 const SmartMeterIntegration: React.FC<SmartMeterIntegrationProps> = ({ onConnected }) => {
   const { toast } = useToast();
+  const { user } = useAuth();
   const [state, setState] = useState<SmartMeterState>({
     isConnected: false,
     provider: null,
@@ -94,10 +120,47 @@ const SmartMeterIntegration: React.FC<SmartMeterIntegrationProps> = ({ onConnect
     clientSecret: ''
   });
 
+  const [providerTouched, setProviderTouched] = useState(false);
+
+  // Rank providers from the consumer ID, selected area and profile address
+  const candidates = useMemo(() => {
+    if (!connectionForm.consumerId && !selectedArea) return [];
+    return providerDetector.detect({
+      consumerId: connectionForm.consumerId,
+      location: selectedArea,
+      address: user?.profile?.personalInfo?.address
+    });
+  }, [connectionForm.consumerId, selectedArea, user?.profile?.personalInfo?.address]);
+
+  const confidenceFor = (providerId: string) =>
+    candidates.find(c => c.providerId === providerId)?.confidence ?? 0;
+
+  const suggestion = connectionForm.consumerId && candidates[0]?.confidence >= SUGGESTION_CONFIDENCE
+    ? candidates[0]
+    : null;
+
   const availableProviders = selectedArea 
-    ? SMART_METER_PROVIDERS.filter(p => p.regions.includes(selectedArea) || p.regions.includes('Pan India'))
+    ? SMART_METER_PROVIDERS
+        .filter(p => p.regions.includes(selectedArea) || p.regions.includes('Pan India'))
+        .sort((a, b) => confidenceFor(b.id) - confidenceFor(a.id))
     : [];
 
+  const consumerIdCheck = selectedProvider && connectionForm.consumerId && !connectionForm.consumerId.startsWith('DEMO')
+    ? providerDetector.validateConsumerId(selectedProvider, connectionForm.consumerId)
+    : null;
+
+  // Preselect the detected provider until the user picks one themselves
+  useEffect(() => {
+    if (!providerTouched && suggestion) {
+      setSelectedProvider(suggestion.providerId);
+    }
+  }, [providerTouched, suggestion?.providerId]);
+
+  const chooseProvider = (providerId: string) => {
+    setProviderTouched(true);
+    setSelectedProvider(providerId);
+  };
+
   useEffect(() => {
     const savedConnection = localStorage.getItem('smartmeter_connection');
     if (savedConnection) {
@@ -142,7 +205,8 @@ const SmartMeterIntegration: React.FC<SmartMeterIntegrationProps> = ({ onConnect
         throw new Error('Provider not supported or could not be detected for the selected area.');
       }
 
-      const api = new SmartMeterAPI(provider.id, credentialsToUse);
+      // Demo consumer IDs show sample data when the provider can't be reached; real ones report the failure
+      const api = new SmartMeterAPI(provider.id, credentialsToUse, { fallbackToMock: isDemo });
       const currentReading = await api.getCurrentReading(consumerIdToUse);
       
       const [historicalData, billingInfo] = await Promise.all([
@@ -193,16 +257,17 @@ const SmartMeterIntegration: React.FC<SmartMeterIntegrationProps> = ({ onConnect
       }
 
     } catch (error: any) {
+      const message = describeConnectionError(error, providerId || selectedProvider, consumerId || connectionForm.consumerId);
       setState(prev => ({
         ...prev,
         isLoading: false,
-        error: error.message || 'Failed to connect to smart meter'
+        error: message
       }));
       if (!silent) {
           toast({
             variant: 'destructive',
             title: 'Connection Failed',
-            description: error.message || 'Could not connect. Please check credentials or try demo.',
+            description: message,
           });
       }
     }
@@ -212,7 +277,7 @@ const SmartMeterIntegration: React.FC<SmartMeterIntegrationProps> = ({ onConnect
     if (!state.isConnected || !state.provider || !state.consumerId) return;
 
     try {
-      const api = new SmartMeterAPI(state.provider.id, state.credentials);
+      const api = new SmartMeterAPI(state.provider.id, state.credentials, { fallbackToMock: state.consumerId.startsWith('DEMO') });
       const realTimeData = await api.getRealTimeConsumption(state.consumerId);
       
       setState(prev => ({
@@ -231,7 +296,7 @@ const SmartMeterIntegration: React.FC<SmartMeterIntegrationProps> = ({ onConnect
     setState(prev => ({ ...prev, isLoading: true }));
     
     try {
-      const api = new SmartMeterAPI(state.provider!.id, state.credentials);
+      const api = new SmartMeterAPI(state.provider!.id, state.credentials, { fallbackToMock: state.consumerId.startsWith('DEMO') });
       
       const [currentReading, billingInfo] = await Promise.all([
         api.getCurrentReading(state.consumerId),
@@ -344,7 +409,7 @@ const SmartMeterIntegration: React.FC<SmartMeterIntegrationProps> = ({ onConnect
                       className={`cursor-pointer transition-colors ${
                         selectedProvider === provider.id ? 'ring-2 ring-primary' : 'hover:bg-muted/50'
                       }`}
-                      onClick={() => setSelectedProvider(provider.id)}
+                      onClick={() => chooseProvider(provider.id)}
                     >
                       <CardContent className="p-4 text-center">
                         <div className="text-2xl mb-2">⚡</div>
@@ -352,6 +417,11 @@ const SmartMeterIntegration: React.FC<SmartMeterIntegrationProps> = ({ onConnect
                         <Badge variant="secondary" className="mt-2 text-xs">
                           {provider.authType}
                         </Badge>
+                        {connectionForm.consumerId && confidenceFor(provider.id) > 0 && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {Math.round(confidenceFor(provider.id) * 100)}% match
+                          </p>
+                        )}
                       </CardContent>
                     </Card>
                   ))}
@@ -371,6 +441,31 @@ const SmartMeterIntegration: React.FC<SmartMeterIntegrationProps> = ({ onConnect
                     </p>
                   </div>
 
+                  {suggestion && suggestion.providerId !== selectedProvider && (
+                    <Alert>
+                      <MapPin className="h-4 w-4" />
+                      <AlertDescription className="flex items-center justify-between gap-2">
+                        <span>
+                          This looks like a {suggestion.provider.name} consumer ID
+                          ({Math.round(suggestion.confidence * 100)}% confidence). {suggestion.reasons[0]}
+                        </span>
+                        <Button size="sm" variant="outline" onClick={() => chooseProvider(suggestion.providerId)}>
+                          Use {suggestion.provider.name}
+                        </Button>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {consumerIdCheck && !consumerIdCheck.valid && (
+                    <Alert variant="destructive">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription>
+                        This consumer ID doesn't match the {SMART_METER_PROVIDERS.find(p => p.id === selectedProvider)?.name} format.
+                        Expected {consumerIdCheck.expected.join(' or ')}.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
                   {selectedProvider && (
                     <div className="space-y-4 p-4 border rounded-md bg-muted/20">
                       <h4 className="font-semibold">{SMART_METER_PROVIDERS.find(p => p.id === selectedProvider)?.name} Credentials</h4>
@@ -96,10 +96,14 @@ import {
   Info,
   Award,
   Trophy,
-  Star
+  Star,
+  Wallet,
+  ShieldAlert
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { useSmartMeter, useSmartMeterStats } from '@/hooks/useSmartMeter';
+import { useSmartMeter, useSmartMeterStats, usePowerQuality, usePrepaidBalance, useTamperEvents } from '@/hooks/useSmartMeter';
+import type { PowerQualityEventType } from '@/lib/smart-meter/power-quality';
+import { TAMPER_TYPE_LABELS } from '@/lib/smart-meter/tamper-monitor';
 
 // Advanced Dashboard Types
 interface DashboardConfig {
@@ -301,6 +305,322 @@ function SystemHealthMonitor() {
   );
 }
 
+// Power Quality Monitor
+const POWER_QUALITY_LABELS: Record<PowerQualityEventType, string> = {
+  phase_imbalance: 'Phase Imbalance',
+  voltage_sag: 'Voltage Sag',
+  voltage_swell: 'Voltage Swell',
+  under_frequency: 'Under-Frequency',
+  over_frequency: 'Over-Frequency',
+  low_power_factor: 'Low Power Factor'
+};
+
+function PowerQualityMonitor() {
+  const { meters } = useSmartMeter();
+  const meter = meters.find(m => m.installation?.phases === 3) || meters[0] || null;
+  const { report, storedEvents, isThreePhase } = usePowerQuality(meter);
+
+  const getSeverityColor = (severity: string) => {
+    switch (severity) {
+      case 'low': return 'text-blue-600 bg-blue-50';
+      case 'medium': return 'text-yellow-600 bg-yellow-50';
+      case 'high': return 'text-orange-600 bg-orange-50';
+      case 'critical': return 'text-red-600 bg-red-50';
+      default: return 'text-gray-600 bg-gray-50';
+    }
+  };
+
+  const summary = report?.summary;
+  const recentEvents = [
+    ...(report?.events.filter(event => event.ongoing) || []).map(event => ({
+      key: `live-${event.type}-${event.phase || ''}`,
+      type: event.type,
+      severity: event.severity,
+      phase: event.phase,
+      startTime: event.startTime,
+      worstValue: event.worstValue,
+      ongoing: true
+    })),
+    ...storedEvents.map(event => ({
+      key: event.id,
+      type: event.event.type,
+      severity: event.event.severity,
+      phase: event.event.phase,
+      startTime: event.event.startTime.toDate(),
+      worstValue: event.measurements.worstValue,
+      ongoing: false
+    }))
+  ].slice(0, 10);
+
+  const metrics = summary ? [
+    { label: 'Voltage Imbalance', value: `${summary.voltageImbalance.max.toFixed(1)}%`, hidden: !isThreePhase },
+    { label: 'Current Imbalance', value: `${summary.currentImbalance.max.toFixed(1)}%`, hidden: !isThreePhase },
+    { label: 'Frequency', value: `${summary.frequency.min.toFixed(2)}–${summary.frequency.max.toFixed(2)} Hz` },
+    { label: 'Power Factor', value: summary.powerFactor.average.toFixed(2) }
+  ].filter(metric => !metric.hidden) : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="h-6 w-6 text-purple-600" />
+          Power Quality
+          <Badge variant="outline" className="ml-auto">
+            {isThreePhase ? '3-Phase' : '1-Phase'}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {!summary ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Activity className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>Collecting power quality samples…</p>
+          </div>
+        ) : (
+          <>
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm font-medium">Quality Score</span>
+                <span className="text-sm font-bold">{summary.score}/100</span>
+              </div>
+              <Progress value={summary.score} className="h-2" />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {metrics.map((metric) => (
+                <div key={metric.label} className="p-2 border rounded-lg">
+                  <div className="text-xs text-muted-foreground">{metric.label}</div>
+                  <div className="text-sm font-bold">{metric.value}</div>
+                </div>
+              ))}
+            </div>
+
+            {summary.estimatedPenalty > 0 && (
+              <div className="flex items-center gap-2 p-2 bg-orange-50 rounded-lg text-sm text-orange-700">
+                <AlertTriangle className="h-4 w-4" />
+                Estimated PF penalty: ₹{summary.estimatedPenalty.toFixed(2)}
+              </div>
+            )}
+
+            <Separator />
+
+            <ScrollArea className="h-40">
+              <div className="space-y-2">
+                {recentEvents.length === 0 ? (
+                  <div className="text-center py-4 text-sm text-muted-foreground">
+                    <CheckCircle className="h-8 w-8 mx-auto mb-2 text-green-500 opacity-70" />
+                    No power quality events recorded
+                  </div>
+                ) : (
+                  recentEvents.map((event) => (
+                    <div key={event.key} className="flex items-center justify-between text-sm">
+                      <div className="flex items-center gap-2">
+                        {event.ongoing && <div className="h-2 w-2 bg-red-500 rounded-full animate-pulse" />}
+                        <span className="font-medium">{POWER_QUALITY_LABELS[event.type]}</span>
+                        {event.phase && (
+                          <span className="text-xs text-muted-foreground uppercase">{event.phase}</span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs text-muted-foreground">
+                          {event.startTime.toLocaleTimeString()}
+                        </span>
+                        <Badge variant="outline" className={getSeverityColor(event.severity)}>
+                          {event.severity}
+                        </Badge>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </ScrollArea>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Prepaid Balance
+const PREPAID_LEVEL_STYLES = {
+  ok: { label: 'Healthy', className: 'text-green-600 bg-green-50' },
+  low: { label: 'Low', className: 'text-yellow-600 bg-yellow-50' },
+  critical: { label: 'Critical', className: 'text-orange-600 bg-orange-50' },
+  depleted: { label: 'Exhausted', className: 'text-red-600 bg-red-50' }
+};
+
+function PrepaidBalanceMonitor() {
+  const { meters } = useSmartMeter();
+  const meter = meters[0] || null;
+  const { supported, balance, forecast, alertLevel, recharges, loading, error, refresh } = usePrepaidBalance(meter);
+
+  if (!supported) return null;
+
+  const level = alertLevel ? PREPAID_LEVEL_STYLES[alertLevel] : null;
+  const lastRechargeAmount = balance?.lastRecharge?.amount || 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="h-6 w-6 text-emerald-600" />
+          Prepaid Balance
+          {level && (
+            <Badge variant="outline" className={cn('ml-auto', level.className)}>
+              {level.label}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {!balance ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Wallet className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>{error || (loading ? 'Fetching balance…' : 'Balance unavailable')}</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-end justify-between">
+              <div>
+                <div className="text-3xl font-bold">₹{balance.balance.toFixed(0)}</div>
+                {balance.emergencyCredit > 0 && (
+                  <div className="text-xs text-muted-foreground">
+                    + ₹{balance.emergencyCredit.toFixed(0)} emergency credit
+                  </div>
+                )}
+              </div>
+              <Button variant="ghost" size="sm" onClick={refresh} disabled={loading}>
+                <RefreshCw className={cn('h-4 w-4', loading && 'animate-spin')} />
+              </Button>
+            </div>
+
+            {lastRechargeAmount > 0 && (
+              <Progress value={Math.min(100, Math.max(0, balance.balance / lastRechargeAmount * 100))} className="h-2" />
+            )}
+
+            {forecast && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="p-2 border rounded-lg">
+                  <div className="text-xs text-muted-foreground">Days Remaining</div>
+                  <div className="text-sm font-bold">
+                    {forecast.daysRemaining !== null ? `~${Math.floor(forecast.daysRemaining)} days` : '—'}
+                  </div>
+                </div>
+                <div className="p-2 border rounded-lg">
+                  <div className="text-xs text-muted-foreground">Daily Spend</div>
+                  <div className="text-sm font-bold">₹{forecast.dailySpend.toFixed(0)}/day</div>
+                </div>
+              </div>
+            )}
+
+            {alertLevel && alertLevel !== 'ok' && (
+              <div className="flex items-center gap-2 p-2 bg-orange-50 rounded-lg text-sm text-orange-700">
+                <AlertTriangle className="h-4 w-4" />
+                {forecast?.depletionDate
+                  ? `Recharge before ${forecast.depletionDate.toLocaleDateString()} to avoid disconnection`
+                  : 'Recharge soon to avoid disconnection'}
+              </div>
+            )}
+
+            <Separator />
+
+            <div>
+              <div className="text-sm font-medium mb-2">Recent Recharges</div>
+              <ScrollArea className="h-32">
+                <div className="space-y-2">
+                  {recharges.length === 0 ? (
+                    <div className="text-center py-2 text-sm text-muted-foreground">No recharges found</div>
+                  ) : (
+                    recharges.slice(0, 6).map((recharge) => (
+                      <div key={recharge.transactionId} className="flex items-center justify-between text-sm">
+                        <span>{new Date(recharge.date).toLocaleDateString()}</span>
+                        <span className="text-xs text-muted-foreground uppercase">{recharge.channel}</span>
+                        <span className="font-medium">₹{recharge.amount.toFixed(0)}</span>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </ScrollArea>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Meter Integrity
+function TamperMonitor() {
+  const { meters } = useSmartMeter();
+  const meter = meters[0] || null;
+  const { supported, events, active, loading, error, refresh } = useTamperEvents(meter);
+
+  if (!supported) return null;
+
+  return (
+    <Card className={cn(active.length > 0 && 'border-red-300')}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {active.length > 0 ? (
+            <ShieldAlert className="h-6 w-6 text-red-600" />
+          ) : (
+            <Shield className="h-6 w-6 text-green-600" />
+          )}
+          Meter Integrity
+          <Badge
+            variant="outline"
+            className={cn('ml-auto', active.length > 0 ? 'text-red-600 bg-red-50' : 'text-green-600 bg-green-50')}
+          >
+            {active.length > 0 ? `${active.length} Active` : 'Secure'}
+          </Badge>
+          <Button variant="ghost" size="sm" onClick={refresh} disabled={loading}>
+            <RefreshCw className={cn('h-4 w-4', loading && 'animate-spin')} />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {active.length > 0 && (
+          <div className="flex items-center gap-2 p-2 bg-red-50 rounded-lg text-sm text-red-700">
+            <AlertTriangle className="h-4 w-4" />
+            Tampering detected. Contact your utility if you did not expect this.
+          </div>
+        )}
+
+        {error && <div className="text-sm text-muted-foreground">{error}</div>}
+
+        <ScrollArea className="h-40">
+          <div className="space-y-2">
+            {events.length === 0 ? (
+              <div className="text-center py-6 text-sm text-muted-foreground">
+                <Shield className="h-10 w-10 mx-auto mb-2 opacity-50" />
+                No tamper events recorded
+              </div>
+            ) : (
+              events.map((event) => (
+                <div key={event.eventId} className="flex items-center justify-between p-2 border rounded-lg text-sm">
+                  <div>
+                    <div className="font-medium">{TAMPER_TYPE_LABELS[event.type]}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {event.detectedAt.toDate().toLocaleString()}
+                      {event.clearedAt && ` – cleared ${event.clearedAt.toDate().toLocaleString()}`}
+                    </div>
+                  </div>
+                  <Badge variant={event.active ? 'destructive' : 'secondary'}>
+                    {event.active ? 'Active' : 'Cleared'}
+                  </Badge>
+                </div>
+              ))
+            )}
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
+
 // Smart Alerts Center
 function SmartAlertsCenter() {
   const [alerts, setAlerts] = React.useState([
@@ -450,17 +770,17 @@ export function AdvancedSmartMeterDashboard() {
     executive: {
       name: 'Executive View',
       description: 'High-level metrics and KPIs',
-      components: ['summary', 'ai-predictor', 'health', 'alerts']
+      components: ['summary', 'prepaid', 'tamper', 'ai-predictor', 'health', 'power-quality', 'alerts']
     },
     technical: {
       name: 'Technical View',
       description: 'Detailed system analytics and performance',
-      components: ['ai-predictor', 'optimizer', 'learning', 'enterprise']
+      components: ['ai-predictor', 'optimizer', 'learning', 'power-quality', 'tamper', 'enterprise']
     },
     operational: {
       name: 'Operational View',
       description: 'Day-to-day monitoring and controls',
-      components: ['realtime', 'devices', 'scheduler', 'insights']
+      components: ['realtime', 'prepaid', 'devices', 'scheduler', 'insights']
     },
     custom: {
       name: 'Custom View',
@@ -485,6 +805,12 @@ export function AdvancedSmartMeterDashboard() {
         return <EnterpriseEnergyAnalytics key="enterprise" />;
       case 'health':
         return <SystemHealthMonitor key="health" />;
+      case 'power-quality':
+        return <PowerQualityMonitor key="power-quality" />;
+      case 'prepaid':
+        return <PrepaidBalanceMonitor key="prepaid" />;
+      case 'tamper':
+        return <TamperMonitor key="tamper" />;
       case 'alerts':
         return <SmartAlertsCenter key="alerts" />;
       case 'realtime':
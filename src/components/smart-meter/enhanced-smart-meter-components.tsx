@@ -103,7 +103,8 @@ import {
   ArrowLeft,
   ChevronUp,
   ChevronDown,
-  X
+  X,
+  ZapOff
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { 
@@ -112,11 +113,29 @@ import {
   useMeterReading,
   useDeviceData,
   useDeviceAutomation,
-  useEnergyAnalytics
+  useEnergyAnalytics,
+  useOutages,
+  useOfflineSync
 } from '@/hooks/useSmartMeter';
+import { getDeviceSettings } from '@/lib/smart-meter/meter-documents';
+import {
+  alertThresholdEngine,
+  AlertThresholds,
+  REGION_PROFILES,
+  defaultAlertThresholds,
+  validateAlertThresholds
+} from '@/lib/smart-meter/alert-thresholds';
 import { useAuth } from '@/hooks/useAuth';
 
 // Device Card Component
+const HEALTH_SCORES = {
+  excellent: 100,
+  good: 80,
+  fair: 60,
+  poor: 40,
+  critical: 20
+};
+
 interface DeviceCardProps {
   device: any;
   onToggle?: (deviceId: string, isActive: boolean) => void;
@@ -134,16 +153,21 @@ export function DeviceCard({
 }: DeviceCardProps) {
   const [isHovered, setIsHovered] = React.useState(false);
   const { energyData, loading } = useDeviceData(device?.id);
+  const settings = device ? getDeviceSettings(device) : null;
+  const healthScore = HEALTH_SCORES[device?.health?.status as keyof typeof HEALTH_SCORES] || 0;
 
   const getDeviceIcon = (type: string) => {
     switch (type) {
       case 'lighting':
+      case 'light':
         return <Lightbulb className="h-5 w-5" />;
       case 'heating':
         return <Thermometer className="h-5 w-5" />;
       case 'cooling':
+      case 'ac_meter':
         return <Wind className="h-5 w-5" />;
       case 'appliance':
+      case 'appliance_meter':
         return <Kitchen className="h-5 w-5" />;
       case 'entertainment':
         return <Tv className="h-5 w-5" />;
@@ -190,24 +214,24 @@ export function DeviceCard({
             <div className="flex items-center gap-3">
               <div className={cn(
                 'p-2 rounded-lg transition-colors',
-                device?.status?.isActive ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-500'
+                device?.state?.isOn ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-500'
               )}>
                 {getDeviceIcon(device?.info?.type)}
               </div>
               <div>
                 <h3 className="font-medium text-sm">{device?.info?.name}</h3>
                 <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                  {getLocationIcon(device?.info?.location)}
-                  <span>{device?.info?.location}</span>
+                  {getLocationIcon(device?.info?.room)}
+                  <span>{device?.info?.room}</span>
                 </div>
               </div>
             </div>
             <div className="flex items-center gap-2">
-              <Badge variant={device?.status?.isOnline ? 'default' : 'destructive'} className="text-xs">
-                {formatPowerUsage(device?.statistics?.averagePowerUsage || 0)}
+              <Badge variant={device?.state?.isOnline ? 'default' : 'destructive'} className="text-xs">
+                {formatPowerUsage(device?.state?.currentPower || 0)}
               </Badge>
               <Switch
-                checked={device?.status?.isActive}
+                checked={device?.state?.isOn}
                 onCheckedChange={(checked) => onToggle?.(device?.id, checked)}
                 size="sm"
               />
@@ -226,7 +250,7 @@ export function DeviceCard({
             <div className="flex items-center gap-3">
               <div className={cn(
                 'p-3 rounded-lg transition-colors',
-                device?.status?.isActive ? 'bg-primary/10 text-primary' : 'bg-muted text-muted-foreground'
+                device?.state?.isOn ? 'bg-primary/10 text-primary' : 'bg-muted text-muted-foreground'
               )}>
                 {getDeviceIcon(device?.info?.type)}
               </div>
@@ -234,8 +258,8 @@ export function DeviceCard({
                 <CardTitle className="text-xl">{device?.info?.name}</CardTitle>
                 <div className="flex items-center gap-4 text-sm text-muted-foreground">
                   <div className="flex items-center gap-1">
-                    {getLocationIcon(device?.info?.location)}
-                    <span>{device?.info?.location}</span>
+                    {getLocationIcon(device?.info?.room)}
+                    <span>{device?.info?.room}</span>
                   </div>
                   <div className="flex items-center gap-1">
                     <span className="capitalize">{device?.info?.type.replace('_', ' ')}</span>
@@ -245,14 +269,14 @@ export function DeviceCard({
             </div>
             <div className="flex items-center gap-2">
               <Badge 
-                variant={device?.status?.isOnline ? 'default' : 'destructive'}
+                variant={device?.state?.isOnline ? 'default' : 'destructive'}
                 className="flex items-center gap-1"
               >
-                {device?.status?.isOnline ? <Wifi className="h-3 w-3" /> : <WifiOff className="h-3 w-3" />}
-                {device?.status?.isOnline ? 'Online' : 'Offline'}
+                {device?.state?.isOnline ? <Wifi className="h-3 w-3" /> : <WifiOff className="h-3 w-3" />}
+                {device?.state?.isOnline ? 'Online' : 'Offline'}
               </Badge>
               <Switch
-                checked={device?.status?.isActive}
+                checked={device?.state?.isOn}
                 onCheckedChange={(checked) => onToggle?.(device?.id, checked)}
               />
             </div>
@@ -267,18 +291,18 @@ export function DeviceCard({
               <div className="space-y-3">
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-muted-foreground">Power Usage</span>
-                  <span className="font-medium">{formatPowerUsage(device?.statistics?.currentPowerUsage || 0)}</span>
+                  <span className="font-medium">{formatPowerUsage(device?.state?.currentPower || 0)}</span>
                 </div>
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-muted-foreground">Efficiency</span>
                   <div className="flex items-center gap-2">
-                    <Progress value={device?.status?.healthScore || 0} className="w-16 h-1" />
-                    <span className="text-sm">{device?.status?.healthScore || 0}%</span>
+                    <Progress value={healthScore} className="w-16 h-1" />
+                    <span className="text-sm">{healthScore}%</span>
                   </div>
                 </div>
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-muted-foreground">Runtime</span>
-                  <span className="text-sm">{Math.floor((device?.statistics?.operatingHours || 0) / 24)}d</span>
+                  <span className="text-sm">{Math.floor((device?.usage?.operatingHours || 0) / 24)}d</span>
                 </div>
               </div>
             </div>
@@ -290,19 +314,19 @@ export function DeviceCard({
                 <div>
                   <div className="flex items-center justify-between mb-1">
                     <span className="text-sm text-muted-foreground">Today</span>
-                    <span className="text-sm font-medium">{(device?.statistics?.totalEnergyConsumed || 0).toFixed(1)} kWh</span>
+                    <span className="text-sm font-medium">{(device?.usage?.dailyUsage || 0).toFixed(1)} kWh</span>
                   </div>
                   <Progress value={75} className="h-1" />
                 </div>
                 <div>
                   <div className="flex items-center justify-between mb-1">
-                    <span className="text-sm text-muted-foreground">Peak Usage</span>
-                    <span className="text-sm font-medium">{formatPowerUsage(device?.statistics?.peakPowerUsage || 0)}</span>
+                    <span className="text-sm text-muted-foreground">Rated Power</span>
+                    <span className="text-sm font-medium">{formatPowerUsage(device?.specs?.ratedPower || 0)}</span>
                   </div>
                   <Progress value={60} className="h-1" />
                 </div>
                 <div className="text-xs text-muted-foreground">
-                  Monthly: {((device?.statistics?.totalEnergyConsumed || 0) * 30).toFixed(0)} kWh
+                  Monthly: {(device?.usage?.monthlyUsage || 0).toFixed(0)} kWh
                 </div>
               </div>
             </div>
@@ -313,15 +337,15 @@ export function DeviceCard({
               <div className="space-y-3">
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-muted-foreground">Scheduled</span>
-                  <Switch checked={device?.configuration?.enableSchedule} size="sm" />
+                  <Switch checked={!!settings?.schedule} size="sm" />
                 </div>
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-muted-foreground">Power Saving</span>
-                  <Switch checked={device?.configuration?.powerSavingMode} size="sm" />
+                  <Switch checked={settings?.powerSavingMode} size="sm" />
                 </div>
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-muted-foreground">Alerts</span>
-                  <Switch checked={device?.configuration?.alertsEnabled} size="sm" />
+                  <Switch checked={settings?.alertsEnabled} size="sm" />
                 </div>
               </div>
             </div>
@@ -360,15 +384,15 @@ export function DeviceCard({
           <div className="flex items-center gap-3">
             <div className={cn(
               'p-3 rounded-lg transition-colors',
-              device?.status?.isActive ? 'bg-primary/10 text-primary' : 'bg-muted text-muted-foreground'
+              device?.state?.isOn ? 'bg-primary/10 text-primary' : 'bg-muted text-muted-foreground'
             )}>
               {getDeviceIcon(device?.info?.type)}
             </div>
             <div>
               <CardTitle className="text-base">{device?.info?.name}</CardTitle>
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                {getLocationIcon(device?.info?.location)}
-                <span>{device?.info?.location}</span>
+                {getLocationIcon(device?.info?.room)}
+                <span>{device?.info?.room}</span>
                 <span>•</span>
                 <span className="capitalize">{device?.info?.type.replace('_', ' ')}</span>
               </div>
@@ -378,10 +402,10 @@ export function DeviceCard({
           <div className="flex items-center gap-2">
             <div className={cn(
               'h-2 w-2 rounded-full',
-              getStatusColor(device?.status?.isActive, device?.status?.isOnline)
+              getStatusColor(device?.state?.isOn, device?.state?.isOnline)
             )} />
             <Switch
-              checked={device?.status?.isActive}
+              checked={device?.state?.isOn}
               onCheckedChange={(checked) => onToggle?.(device?.id, checked)}
               size="sm"
             />
@@ -395,13 +419,13 @@ export function DeviceCard({
           <div className="flex items-center justify-between">
             <div className="space-y-1">
               <div className="text-2xl font-bold">
-                {formatPowerUsage(device?.statistics?.averagePowerUsage || 0)}
+                {formatPowerUsage(device?.state?.currentPower || 0)}
               </div>
               <div className="text-xs text-muted-foreground">Current Usage</div>
             </div>
             <div className="text-right space-y-1">
               <div className="text-sm font-medium">
-                {(device?.statistics?.totalEnergyConsumed || 0).toFixed(1)} kWh
+                {(device?.usage?.dailyUsage || 0).toFixed(1)} kWh
               </div>
               <div className="text-xs text-muted-foreground">Today</div>
             </div>
@@ -411,15 +435,15 @@ export function DeviceCard({
           <div className="space-y-2">
             <div className="flex items-center justify-between text-sm">
               <span className="text-muted-foreground">Device Health</span>
-              <span>{device?.status?.healthScore || 0}%</span>
+              <span>{healthScore}%</span>
             </div>
-            <Progress value={device?.status?.healthScore || 0} className="h-2" />
+            <Progress value={healthScore} className="h-2" />
           </div>
 
           {/* Connection Status */}
           <div className="flex items-center justify-between text-sm">
             <div className="flex items-center gap-2">
-              {device?.status?.isOnline ? (
+              {device?.state?.isOnline ? (
                 <>
                   <Wifi className="h-4 w-4 text-green-500" />
                   <span>Connected</span>
@@ -432,7 +456,7 @@ export function DeviceCard({
               )}
             </div>
             <Badge variant="outline" className="text-xs">
-              {device?.status?.lastReading ? 'Live' : 'Stale'}
+              {device?.state?.lastStateChange ? 'Live' : 'Stale'}
             </Badge>
           </div>
 
@@ -1694,6 +1718,291 @@ export function CarbonFootprintTracker() {
   );
 }
 
+// Outage Timeline Component
+const OUTAGE_CAUSE_LABELS = {
+  reading_gap: 'No readings',
+  zero_voltage: 'Zero voltage',
+  provider_reported: 'Reported by provider'
+};
+
+function formatOutageDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export function OutageTimeline({ meterId }: { meterId?: string }) {
+  const { meters } = useSmartMeter();
+  const meter = meters.find(m => m.id === meterId) || meters[0] || null;
+  const { events, ongoing, providerStatus, loading } = useOutages(meter);
+
+  const upcoming = (providerStatus?.outages || [])
+    .filter(outage => outage.type === 'planned' && new Date(outage.startTime).getTime() > Date.now());
+  const totalDowntime = events
+    .filter(event => !event.outage.ongoing)
+    .reduce((sum, event) => sum + (event.outage.duration || 0), 0);
+
+  return (
+    <ComponentErrorBoundary componentName="OutageTimeline">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ZapOff className="h-5 w-5 text-primary" />
+            Supply Outages
+            <Badge variant={ongoing.length > 0 ? 'destructive' : 'secondary'} className="ml-auto">
+              {ongoing.length > 0 ? 'Supply down' : 'Supply normal'}
+            </Badge>
+          </CardTitle>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {ongoing.length > 0 && (
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-red-50 text-sm text-red-700">
+              <AlertTriangle className="h-4 w-4 mt-0.5" />
+              <div>
+                Outage in progress since {ongoing[0].outage.startTime.toDate().toLocaleTimeString()}.
+                {ongoing[0].provider?.estimatedRestoration && (
+                  <> Expected back by {ongoing[0].provider.estimatedRestoration.toDate().toLocaleTimeString()}.</>
+                )}
+                {' '}Quests and streaks are paused until power is restored.
+              </div>
+            </div>
+          )}
+
+          {upcoming.map(outage => (
+            <div key={outage.outageId} className="flex items-start gap-2 p-3 rounded-lg bg-blue-50 text-sm text-blue-700">
+              <Info className="h-4 w-4 mt-0.5" />
+              <div>
+                Planned shutdown {new Date(outage.startTime).toLocaleString()}
+                {outage.reason && ` — ${outage.reason}`}
+              </div>
+            </div>
+          ))}
+
+          <div className="grid grid-cols-2 gap-4 text-center">
+            <div>
+              <div className="text-lg font-semibold">{events.length}</div>
+              <div className="text-xs text-muted-foreground">Outages recorded</div>
+            </div>
+            <div>
+              <div className="text-lg font-semibold">{formatOutageDuration(totalDowntime)}</div>
+              <div className="text-xs text-muted-foreground">Total downtime</div>
+            </div>
+          </div>
+
+          <Separator />
+
+          {loading ? (
+            <CardSkeleton />
+          ) : events.length === 0 ? (
+            <div className="text-center py-4 text-sm text-muted-foreground">
+              <CheckCircle className="h-8 w-8 mx-auto mb-2 text-green-500 opacity-70" />
+              No outages recorded
+            </div>
+          ) : (
+            <div className="relative space-y-4 pl-4 border-l">
+              {events.slice(0, 10).map(event => (
+                <div key={event.id} className="relative">
+                  <div className={cn(
+                    'absolute -left-[21px] top-1 h-2.5 w-2.5 rounded-full',
+                    event.outage.ongoing ? 'bg-red-500 animate-pulse' : 'bg-muted-foreground'
+                  )} />
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">
+                      {event.outage.startTime.toDate().toLocaleString()}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {event.outage.ongoing ? 'Ongoing' : formatOutageDuration(event.outage.duration || 0)}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span>{OUTAGE_CAUSE_LABELS[event.outage.cause]}</span>
+                    {event.outage.type !== 'unknown' && <span className="capitalize">· {event.outage.type}</span>}
+                    {event.provider?.reason && <span>· {event.provider.reason}</span>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </ComponentErrorBoundary>
+  );
+}
+
+// Meter Alert Settings Component
+const THRESHOLD_FIELDS: { key: keyof AlertThresholds; label: string; unit: string; step: number; hint: string }[] = [
+  { key: 'highUsage', label: 'High usage', unit: 'kW', step: 0.5, hint: 'Alert when the whole home draws more than this' },
+  { key: 'lowVoltage', label: 'Low voltage', unit: 'V', step: 1, hint: 'Alert when the supply drops below this' },
+  { key: 'highVoltage', label: 'High voltage', unit: 'V', step: 1, hint: 'Alert when the supply rises above this' },
+  { key: 'powerFactor', label: 'Power factor', unit: '', step: 0.01, hint: 'Alert when the power factor falls below this' }
+];
+
+export function MeterAlertSettings({ meterId }: { meterId?: string }) {
+  const { meters, updateAlertThresholds } = useSmartMeter();
+  const meter = meters.find(m => m.id === meterId) || meters[0] || null;
+  const thresholds = alertThresholdEngine.thresholdsFor(meter);
+  const profile = REGION_PROFILES[thresholds.region];
+
+  const [draft, setDraft] = React.useState<AlertThresholds | null>(meter?.config.alertThresholds ?? null);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [saved, setSaved] = React.useState(false);
+
+  React.useEffect(() => {
+    setDraft(meter?.config.alertThresholds ?? null);
+    setError(null);
+  }, [meter?.id, meter?.config.alertThresholds]);
+
+  if (!meter || !draft) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-sm text-muted-foreground">
+          Connect a smart meter to configure alerts
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const problems = validateAlertThresholds(draft);
+  const changed = THRESHOLD_FIELDS.some(field => draft[field.key] !== meter.config.alertThresholds[field.key]);
+
+  const setField = (key: keyof AlertThresholds, value: string) => {
+    setSaved(false);
+    setDraft(prev => prev && { ...prev, [key]: value === '' ? NaN : Number(value) });
+  };
+
+  const save = async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await updateAlertThresholds(meter.id, draft);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save alert thresholds');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <ComponentErrorBoundary componentName="MeterAlertSettings">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Bell className="h-5 w-5 text-primary" />
+            Alert Thresholds
+            <Badge variant="secondary" className="ml-auto">{profile.label}</Badge>
+          </CardTitle>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {THRESHOLD_FIELDS.map(field => (
+              <div key={field.key} className="space-y-1">
+                <Label htmlFor={`threshold-${field.key}`}>
+                  {field.label}{field.unit && ` (${field.unit})`}
+                </Label>
+                <Input
+                  id={`threshold-${field.key}`}
+                  type="number"
+                  step={field.step}
+                  min={0}
+                  value={Number.isNaN(draft[field.key]) ? '' : draft[field.key]}
+                  onChange={(e) => setField(field.key, e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">{field.hint}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-start gap-2 p-3 rounded-lg bg-muted text-sm text-muted-foreground">
+            <Info className="h-4 w-4 mt-0.5" />
+            <div>
+              Nominal supply is {thresholds.nominalVoltage} V at {thresholds.nominalFrequency} Hz; frequency alerts
+              fire outside ±{thresholds.frequencyTolerance} Hz. Each alert is sent once and repeats at most every
+              30 minutes while the condition comes and goes.
+            </div>
+          </div>
+
+          {(problems.length > 0 || error) && (
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-red-50 text-sm text-red-700">
+              <AlertCircle className="h-4 w-4 mt-0.5" />
+              <div>{error || problems.join('. ')}</div>
+            </div>
+          )}
+
+          <Separator />
+
+          <div className="flex items-center justify-between">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setSaved(false);
+                setDraft(defaultAlertThresholds(thresholds.region));
+              }}
+            >
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Region defaults
+            </Button>
+            <div className="flex items-center gap-2">
+              {saved && !changed && <span className="text-sm text-green-600">Saved</span>}
+              <Button size="sm" onClick={save} disabled={!changed || problems.length > 0 || isSaving}>
+                <Save className="h-4 w-4 mr-1" />
+                {isSaving ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </ComponentErrorBoundary>
+  );
+}
+
+// Offline Sync Status Component
+const SYNC_STATE_DISPLAY = {
+  synced: { label: 'Synced', icon: CheckCircle, className: 'text-green-600' },
+  pending: { label: 'Pending', icon: Clock, className: 'text-yellow-600' },
+  syncing: { label: 'Syncing', icon: RefreshCw, className: 'text-primary animate-spin' },
+  offline: { label: 'Offline', icon: WifiOff, className: 'text-muted-foreground' },
+  error: { label: 'Sync failed', icon: AlertCircle, className: 'text-red-600' }
+};
+
+export function SyncStatusIndicator({ className }: { className?: string }) {
+  const { state, pending, lastSyncedAt, lastError, conflicts, durable, syncNow } = useOfflineSync();
+  const display = SYNC_STATE_DISPLAY[state];
+  const Icon = display.icon;
+
+  const details = [
+    pending > 0 && `${pending} reading${pending === 1 ? '' : 's'} waiting to sync`,
+    lastSyncedAt && `Last synced ${lastSyncedAt.toLocaleTimeString()}`,
+    conflicts > 0 && `${conflicts} already recorded elsewhere`,
+    !durable && pending > 0 && 'Queued readings will be lost if the page is closed',
+    lastError
+  ].filter(Boolean).join('\n');
+
+  return (
+    <button
+      type="button"
+      onClick={() => void syncNow()}
+      disabled={state === 'syncing' || state === 'offline'}
+      title={details || display.label}
+      className={cn(
+        'flex items-center gap-2 px-3 py-1 bg-muted rounded-full disabled:cursor-default',
+        className
+      )}
+    >
+      <Icon className={cn('h-4 w-4', display.className)} />
+      <span className="text-sm font-medium">{display.label}</span>
+      {pending > 0 && (
+        <Badge variant="secondary" className="h-5 px-1.5 text-xs">{pending}</Badge>
+      )}
+    </button>
+  );
+}
+
 export default {
   DeviceCard,
   SmartMeterOverview,
@@ -1702,5 +2011,8 @@ export default {
   DeviceScheduler,
   EnergyInsights,
   RealTimePowerMonitor,
-  CarbonFootprintTracker
+  CarbonFootprintTracker,
+  OutageTimeline,
+  MeterAlertSettings,
+  SyncStatusIndicator
 };
@@ -15,6 +15,9 @@ export {
   EnergyInsights,
   RealTimePowerMonitor,
   CarbonFootprintTracker,
+  OutageTimeline,
+  MeterAlertSettings,
+  SyncStatusIndicator,
   default as EnhancedSmartMeterComponents
 } from './enhanced-smart-meter-components';
 
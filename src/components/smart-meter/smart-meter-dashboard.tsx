@@ -25,7 +25,10 @@ import {
   EnergyInsights,
   RealTimePowerMonitor,
   CarbonFootprintTracker,
-  DeviceCard
+  DeviceCard,
+  OutageTimeline,
+  MeterAlertSettings,
+  SyncStatusIndicator
 } from './enhanced-smart-meter-components';
 import { ComponentErrorBoundary } from '@/components/ui/error-boundary';
 import { 
@@ -140,7 +143,7 @@ export function SmartMeterDashboard() {
     if (searchQuery) {
       filtered = filtered.filter(device => 
         device.info?.name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        device.info?.location?.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        device.info?.room?.toLowerCase().includes(searchQuery.toLowerCase()) ||
         device.info?.type?.toLowerCase().includes(searchQuery.toLowerCase())
       );
     }
@@ -155,7 +158,7 @@ export function SmartMeterDashboard() {
     // Location filter
     if (filters.locations.length > 0) {
       filtered = filtered.filter(device => 
-        filters.locations.includes(device.info?.location)
+        filters.locations.includes(device.info?.room)
       );
     }
 
@@ -302,6 +305,7 @@ export function SmartMeterDashboard() {
                     <Zap className="h-4 w-4 text-primary" />
                     <span className="text-sm font-medium">2.4 kW</span>
                   </div>
+                  <SyncStatusIndicator />
                 </div>
               </div>
 
@@ -474,6 +478,10 @@ export function SmartMeterDashboard() {
                 <Sparkles className="h-4 w-4" />
                 Insights
               </TabsTrigger>
+              <TabsTrigger value="settings" className="flex items-center gap-2">
+                <Settings className="h-4 w-4" />
+                Settings
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="overview" className="space-y-6">
@@ -504,6 +512,7 @@ export function SmartMeterDashboard() {
                   <CarbonFootprintTracker />
                 </div>
               </div>
+              <OutageTimeline />
             </TabsContent>
 
             <TabsContent value="devices" className="space-y-6">
@@ -535,6 +544,14 @@ export function SmartMeterDashboard() {
                 <CarbonFootprintTracker />
               </div>
             </TabsContent>
+
+            <TabsContent value="settings" className="space-y-6">
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {meters.map(meter => (
+                  <MeterAlertSettings key={meter.id} meterId={meter.id} />
+                ))}
+              </div>
+            </TabsContent>
           </Tabs>
         </div>
       </div>
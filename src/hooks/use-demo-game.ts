@@ -162,15 +162,19 @@ export function useDemoGame(consumerId?: string) {
     return null;
   }, [consumerId, isDemoConsumer]);
 
-  // Auto-refresh game state
+  // Load game state. The game moves when the player acts (the server's own tick
+  // only adds noise to the load) and actions refetch, so there is no timer;
+  // catch up when the tab comes back instead.
   useEffect(() => {
-    if (isDemoConsumer) {
-      fetchGameState();
+    if (!isDemoConsumer) return;
 
-      // Refresh every 30 seconds to keep state updated
-      const interval = setInterval(fetchGameState, 30000);
-      return () => clearInterval(interval);
-    }
+    fetchGameState();
+
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'visible') fetchGameState();
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
   }, [fetchGameState, isDemoConsumer]);
 
   return {
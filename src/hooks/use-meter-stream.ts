@@ -0,0 +1,79 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { parseCanonicalReading, type CanonicalReading } from '@/lib/smart-meter/gateway-schema';
+import type { StreamMeter } from '@/lib/smart-meter/reading-stream';
+
+export interface MeterStreamOptions {
+  hour?: number; // pin the simulated load profile (demo scenarios)
+  apiKey?: string; // EventSource can't send headers, so the key goes in the query string
+  enabled?: boolean;
+}
+
+/**
+ * Live canonical readings from /api/smart-meter/stream, keyed by meter ID.
+ * The browser reconnects on its own and resumes from the last event it saw.
+ * Only gateway meters are streamed; hooks reading provider APIs poll them.
+ */
+export function useMeterStream(meters: StreamMeter[], options: MeterStreamOptions = {}) {
+  const { hour, apiKey, enabled = true } = options;
+  const [readings, setReadings] = useState<Record<string, CanonicalReading>>({});
+  const [connected, setConnected] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Stable across renders that pass an equal meter list
+  const metersParam = useMemo(
+    () => meters.map(meter => `${meter.brand}:${meter.meterId}`).join(','),
+    [meters]
+  );
+
+  useEffect(() => {
+    if (!enabled || !metersParam || typeof EventSource === 'undefined') return;
+
+    const params = new URLSearchParams({ meters: metersParam });
+    if (hour !== undefined) params.set('hour', String(hour));
+    if (apiKey) params.set('apiKey', apiKey);
+
+    const source = new EventSource(`/api/smart-meter/stream?${params}`);
+
+    source.onopen = () => {
+      setConnected(true);
+      setError(null);
+    };
+
+    source.addEventListener('reading', event => {
+      try {
+        const reading = parseCanonicalReading(JSON.parse((event as MessageEvent).data));
+        if (reading) {
+          setReadings(prev => ({ ...prev, [reading.meter.id]: reading }));
+        }
+      } catch (err) {
+        console.error('Invalid meter stream event:', err);
+      }
+    });
+
+    source.addEventListener('meter-error', event => {
+      try {
+        const { meterId, error: message } = JSON.parse((event as MessageEvent).data);
+        console.warn(`Meter stream error for ${meterId}: ${message}`);
+      } catch {
+        // Ignore malformed error events
+      }
+    });
+
+    source.onerror = () => {
+      setConnected(false);
+      // CLOSED means the server refused the stream (auth, quota, bad request); otherwise the browser retries
+      if (source.readyState === EventSource.CLOSED) {
+        setError('Live meter stream unavailable');
+      }
+    };
+
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [metersParam, hour, apiKey, enabled]);
+
+  return { readings, connected, error };
+}
@@ -5,6 +5,9 @@ import type { SmartMeterDevice, Quest, LeaderboardUser, Badge, Overview, Simulat
 import { questTemplates, badges as badgeTemplates } from '@/lib/mock-data';
 import { PlaceHolderImages } from '@/lib/placeholder-images';
 import { generateNewQuest as generateNewQuestFlow } from '@/ai/flows/quest-generation';
+import { parseCanonicalReading } from '@/lib/smart-meter/gateway-schema';
+import type { StreamMeter } from '@/lib/smart-meter/reading-stream';
+import { useMeterStream } from './use-meter-stream';
 import { useToast } from './use-toast';
 import { Target, Bot } from 'lucide-react';
 
@@ -43,6 +46,13 @@ const scenarioToHour: Record<SimulationScenario, number | undefined> = {
   night_low: 2,
 };
 
+// Gateway meters behind the simulated devices, kept live over the reading stream
+const SIMULATED_METERS: StreamMeter[] = [
+  { meterId: 'QUBE_001', brand: 'QUBE' },
+  { meterId: 'SEC_002', brand: 'SECURE' },
+  { meterId: 'LNT_003', brand: 'LNT' },
+];
+
 const generateSimulatedChartData = () => {
   const data = [];
   const now = new Date();
@@ -81,6 +91,7 @@ export const useSimulatedData = () => {
   const [weather, setWeather] = useState<WeatherData | null>(null);
   const [generatingQuest, setGeneratingQuest] = useState(false);
   const { toast } = useToast();
+  const { readings: liveReadings } = useMeterStream(SIMULATED_METERS, { hour: scenarioToHour[simulationScenario] });
 
   const fetchData = useCallback(async (scenario: SimulationScenario) => {
     setLoading(true);
@@ -96,40 +107,25 @@ export const useSimulatedData = () => {
 
     const [qubeRes, secureRes, lntRes, historicalRes] = await Promise.all([qubePromise, securePromise, lntPromise, historicalPromise]);
 
+    // The gateway returns canonical readings; anything that fails validation is treated as offline
+    const meterDevices: Array<[unknown, Omit<SmartMeterDevice, 'id' | 'currentUsage' | 'isOnline' | 'lastReading'>]> = [
+      [qubeRes, { brand: 'Qube', type: 'main_meter', location: 'Main House' }],
+      [secureRes, { brand: 'Secure', type: 'ac_meter', location: 'Living Room AC', temperature: Number((Math.random() * 5 + 22).toFixed(1)) }],
+      [lntRes, { brand: 'L&T', type: 'outlet', location: 'TV Outlet' }],
+    ];
+
     const devices: SmartMeterDevice[] = [];
-    if (qubeRes) {
-      devices.push({
-        id: qubeRes.meter_info.id,
-        brand: 'Qube',
-        type: 'main_meter',
-        location: 'Main House',
-        currentUsage: qubeRes.data.power.active_kw,
-        isOnline: qubeRes.data.status.connection === 'online',
-        lastReading: new Date(qubeRes.data.status.last_reading),
-      });
-    }
-     if (secureRes) {
-      devices.push({
-        id: secureRes.meter_info.id,
-        brand: 'Secure',
-        type: 'ac_meter',
-        location: 'Living Room AC',
-        currentUsage: secureRes.data.power.active_kw,
-        isOnline: secureRes.data.status.connection === 'online',
-        lastReading: new Date(secureRes.data.status.last_reading),
-        temperature: Number((Math.random() * 5 + 22).toFixed(1)),
-      });
-    }
-    if (lntRes) {
+    for (const [response, device] of meterDevices) {
+      const reading = parseCanonicalReading(response);
+      if (!reading) continue;
+
       devices.push({
-        id: lntRes.meter_info.id,
-        brand: 'L&T',
-        type: 'outlet',
-        location: 'TV Outlet',
-        currentUsage: lntRes.data.power.active_kw,
-        isOnline: lntRes.data.status.connection === 'online',
-        lastReading: new Date(lntRes.data.status.last_reading),
-        status: lntRes.data.power.active_kw > 0.01 ? 'on' : 'off',
+        ...device,
+        id: reading.meter.id,
+        currentUsage: reading.power.activeKw,
+        isOnline: reading.status.connection === 'online',
+        lastReading: new Date(reading.timestamp),
+        ...(device.type === 'outlet' && { status: reading.power.activeKw > 0.01 ? 'on' : 'off' }),
       });
     }
 
@@ -264,10 +260,23 @@ export const useSimulatedData = () => {
             category: 'Unhealthy for Sensitive Groups'
         }
     });
-
-    const interval = setInterval(() => fetchData(simulationScenario), 10000);
-    return () => clearInterval(interval);
   }, [fetchData, simulationScenario]);
 
+  // Apply live readings to the gateway-backed devices
+  useEffect(() => {
+    setSmartDevices(prev => prev.map(device => {
+      const reading = liveReadings[device.id];
+      if (!reading) return device;
+
+      return {
+        ...device,
+        currentUsage: reading.power.activeKw,
+        isOnline: reading.status.connection === 'online',
+        lastReading: new Date(reading.timestamp),
+        ...(device.type === 'outlet' && { status: reading.power.activeKw > 0.01 ? 'on' : 'off' }),
+      };
+    }));
+  }, [liveReadings]);
+
   return { smartDevices, quests, leaderboard, badges, overview, energyUsage, weather, loading, generatingQuest, handleScenarioChange, generateNewQuest };
 };
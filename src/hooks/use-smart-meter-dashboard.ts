@@ -9,7 +9,14 @@
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { smartMeterSystem, SmartMeterSystem, QuestGenerationData, ApplianceUsagePattern } from '@/lib/smart-meter-system';
+import {
+  smartMeterSystem,
+  SmartMeterSystem,
+  QuestGenerationData,
+  ApplianceUsagePattern,
+  MeterRegistrationRequest
+} from '@/lib/smart-meter-system';
+import type { HierarchySummary } from '@/lib/smart-meter/meter-hierarchy';
 import { deviceRegistry, RegisteredDevice, DeviceStats } from '@/lib/device-registry';
 import { SmartMeterReading } from '@/lib/smart-meter-apis';
 import type { Quest, Overview, SmartMeterDevice } from '@/lib/types';
@@ -17,6 +24,8 @@ import type { Quest, Overview, SmartMeterDevice } from '@/lib/types';
 export interface DashboardState {
   // Smart Meter Data
   meterSystem: SmartMeterSystem | null;
+  meters: SmartMeterSystem[];
+  hierarchy: HierarchySummary | null; // per-meter, per-property and per-accounting-group usage
   currentReading: SmartMeterReading | null;
   isOnline: boolean;
   lastUpdate: Date;
@@ -48,8 +57,11 @@ export interface DashboardActions {
     type: SmartMeterDevice['type'];
     location: string;
     room: string;
+    meterId?: string;
   }) => Promise<string>;
   removeDevice: (deviceId: string) => Promise<boolean>;
+  addMeter: (request: MeterRegistrationRequest) => Promise<string>;
+  removeMeter: (meterId: string) => Promise<boolean>;
   generateQuests: () => Promise<Quest[]>;
   updateDeviceSettings: (deviceId: string, settings: any) => Promise<boolean>;
 }
@@ -153,6 +165,8 @@ const generateMockQuests = (questData: QuestGenerationData | null): Quest[] => {
 export const useSmartMeterDashboard = (): SmartMeterDashboardHook => {
   const [state, setState] = useState<DashboardState>({
     meterSystem: null,
+    meters: [],
+    hierarchy: null,
     currentReading: null,
     isOnline: false,
     lastUpdate: new Date(),
@@ -237,6 +251,10 @@ export const useSmartMeterDashboard = (): SmartMeterDashboardHook => {
       
       // Get quest generation data
       const questGenerationData = smartMeterSystem.getQuestGenerationData();
+
+      // Get meters and how usage splits across them
+      const meters = smartMeterSystem.getMeters();
+      const hierarchy = meters.length > 0 ? smartMeterSystem.getHierarchySummary() : null;
       
       // Calculate overview metrics
       const totalEnergyToday = systemStatus.totalEnergyToday;
@@ -255,6 +273,8 @@ export const useSmartMeterDashboard = (): SmartMeterDashboardHook => {
       setState(prev => ({
         ...prev,
         meterSystem: null, // Will be set by subscription
+        meters,
+        hierarchy,
         currentReading,
         isOnline: systemStatus.isOnline,
         lastUpdate: systemStatus.lastUpdate,
@@ -286,6 +306,7 @@ export const useSmartMeterDashboard = (): SmartMeterDashboardHook => {
     type: SmartMeterDevice['type'];
     location: string;
     room: string;
+    meterId?: string;
   }): Promise<string> => {
     try {
       const deviceId = await deviceRegistry.registerDevice({
@@ -294,7 +315,8 @@ export const useSmartMeterDashboard = (): SmartMeterDashboardHook => {
         type: deviceRequest.type,
         location: deviceRequest.location,
         room: deviceRequest.room,
-        category: 'comfort' // Default category
+        category: 'comfort', // Default category
+        meterId: deviceRequest.meterId
       });
       
       // Refresh data to get updated state
@@ -324,6 +346,32 @@ export const useSmartMeterDashboard = (): SmartMeterDashboardHook => {
     }
   }, [refreshData]);
 
+  // Add a sub-meter or another property's main meter
+  const addMeter = useCallback(async (request: MeterRegistrationRequest): Promise<string> => {
+    try {
+      const meterId = smartMeterSystem.addMeter(request);
+      await refreshData();
+      return meterId;
+    } catch (error) {
+      console.error('Failed to add meter:', error);
+      throw error;
+    }
+  }, [refreshData]);
+
+  // Remove a meter and the devices behind it
+  const removeMeter = useCallback(async (meterId: string): Promise<boolean> => {
+    try {
+      const removed = smartMeterSystem.removeMeter(meterId);
+      if (removed) {
+        await refreshData();
+      }
+      return removed;
+    } catch (error) {
+      console.error('Failed to remove meter:', error);
+      throw error;
+    }
+  }, [refreshData]);
+
   // Generate new quests
   const generateQuests = useCallback(async (): Promise<Quest[]> => {
     const questData = smartMeterSystem.getQuestGenerationData();
@@ -383,6 +431,8 @@ export const useSmartMeterDashboard = (): SmartMeterDashboardHook => {
     refreshData,
     addDevice,
     removeDevice,
+    addMeter,
+    removeMeter,
     generateQuests,
     updateDeviceSettings
   };
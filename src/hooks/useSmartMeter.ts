@@ -5,15 +5,29 @@
  * for React components with real-time updates and error handling.
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { 
   smartMeterService,
   SmartMeterConfig,
+  MeterInfo,
   DeviceInfo,
   EnergyData,
   MeterReading
 } from '../lib/smart-meter/smart-meter-service';
-import { SmartMeter, Device, EnergyReading } from '../lib/firebase/schema';
+import { DeviceSettings, getDeviceSettings } from '../lib/smart-meter/meter-documents';
+import type { AlertThresholds } from '../lib/smart-meter/alert-thresholds';
+import { legacyDocumentMigration } from '../lib/smart-meter/legacy-migration';
+import { SmartMeter, Device, EnergyReading, PowerQualityEvent, OutageEvent } from '../lib/firebase/schema';
+import { firestoreService } from '../lib/firebase/firestore-service';
+import { SmartMeterAPI, SmartMeterReading } from '../lib/smart-meter-apis';
+import { toSmartMeterErrorDetails, SmartMeterErrorDetails } from '../lib/smart-meter/providers/http-client';
+import type { ProviderCredentials, ProviderOutageStatus, RechargeRecord } from '../lib/smart-meter/providers/types';
+import { backfillMeterHistory, BackfillProgress, BackfillResult } from '../lib/smart-meter/history-backfill';
+import { PowerQualityAnalyzer, PowerQualityReport } from '../lib/smart-meter/power-quality';
+import { prepaidBalanceMonitor, PrepaidStatus } from '../lib/smart-meter/prepaid';
+import { OutageDetector, OutageMonitor } from '../lib/smart-meter/outage-detection';
+import { tamperMonitor, StoredTamperEvent } from '../lib/smart-meter/tamper-monitor';
+import { offlineReadingQueue, SyncStatus, ReplayResult } from '../lib/smart-meter/offline-queue';
 import { useAuth } from './useAuth';
 
 // Hook Types
@@ -24,21 +38,27 @@ interface SmartMeterState {
   recentReadings: EnergyReading[];
   loading: boolean;
   error: string | null;
+  errorDetails: SmartMeterErrorDetails | null;
   isInitialized: boolean;
 }
 
 interface SmartMeterActions {
-  initializeMeter: (meterInfo: {
-    serialNumber: string;
-    model: string;
-    manufacturer: string;
-    location: string;
-    installationDate: Date;
-  }) => Promise<SmartMeter>;
+  initializeMeter: (meterInfo: MeterInfo) => Promise<SmartMeter>;
   addDevice: (smartMeterId: string, deviceInfo: DeviceInfo) => Promise<Device>;
   removeDevice: (deviceId: string) => Promise<void>;
-  updateDeviceConfig: (deviceId: string, updates: Partial<Device['configuration']>) => Promise<void>;
+  updateDeviceSettings: (deviceId: string, settings: Partial<DeviceSettings>) => Promise<void>;
+  updateAlertThresholds: (meterId: string, thresholds: Partial<AlertThresholds>) => Promise<void>;
   getDeviceEnergyData: (deviceId: string, startDate: Date, endDate: Date) => Promise<EnergyData[]>;
+  getProviderReading: (
+    providerId: string,
+    credentials: ProviderCredentials,
+    consumerId: string
+  ) => Promise<SmartMeterReading>;
+  backfillHistory: (
+    smartMeterId: string,
+    credentials: ProviderCredentials,
+    onProgress?: (progress: BackfillProgress) => void
+  ) => Promise<BackfillResult>;
   startMonitoring: (meterId: string) => void;
   stopMonitoring: (meterId: string) => void;
   refreshData: () => Promise<void>;
@@ -60,6 +80,7 @@ export function useSmartMeter(): UseSmartMeterReturn {
     recentReadings: [],
     loading: false,
     error: null,
+    errorDetails: null,
     isInitialized: false
   });
 
@@ -83,9 +104,15 @@ export function useSmartMeter(): UseSmartMeterReturn {
   const loadSmartMeterData = useCallback(async () => {
     if (!user) return;
 
-    setState(prev => ({ ...prev, loading: true, error: null }));
+    setState(prev => ({ ...prev, loading: true, error: null, errorDetails: null }));
 
     try {
+      // Documents stored in the old shape are converted before anything reads them
+      const migration = await legacyDocumentMigration.ensureMigrated(user.uid);
+      if (migration.failed.length > 0) {
+        console.warn('Some smart meter documents could not be migrated:', migration.failed);
+      }
+
       // Load user's smart meters
       const meters = await smartMeterService.getSmartMetersByUser(user.uid);
       let allDevices: Device[] = [];
@@ -119,7 +146,8 @@ export function useSmartMeter(): UseSmartMeterReturn {
       setState(prev => ({
         ...prev,
         loading: false,
-        error: error.message || 'Failed to load smart meter data'
+        error: error.message || 'Failed to load smart meter data',
+        errorDetails: toSmartMeterErrorDetails(error)
       }));
     }
   }, [user]);
@@ -127,7 +155,7 @@ export function useSmartMeter(): UseSmartMeterReturn {
   // Helper function for async actions
   const handleAsyncAction = useCallback(
     async (action: () => Promise<any>) => {
-      setState(prev => ({ ...prev, loading: true, error: null }));
+      setState(prev => ({ ...prev, loading: true, error: null, errorDetails: null }));
 
       try {
         const result = await action();
@@ -137,7 +165,8 @@ export function useSmartMeter(): UseSmartMeterReturn {
         setState(prev => ({
           ...prev,
           loading: false,
-          error: error.message || 'An unexpected error occurred'
+          error: error.message || 'An unexpected error occurred',
+          errorDetails: toSmartMeterErrorDetails(error)
         }));
         throw error;
       }
@@ -147,13 +176,7 @@ export function useSmartMeter(): UseSmartMeterReturn {
 
   // Initialize smart meter
   const initializeMeter = useCallback(
-    async (meterInfo: {
-      serialNumber: string;
-      model: string;
-      manufacturer: string;
-      location: string;
-      installationDate: Date;
-    }) => {
+    async (meterInfo: MeterInfo) => {
       if (!user) throw new Error('User not authenticated');
 
       const meter = await handleAsyncAction(() => 
@@ -205,26 +228,39 @@ export function useSmartMeter(): UseSmartMeterReturn {
     [handleAsyncAction]
   );
 
-  // Update device configuration
-  const updateDeviceConfig = useCallback(
-    async (deviceId: string, updates: Partial<Device['configuration']>) => {
-      await handleAsyncAction(() =>
-        smartMeterService.updateDeviceConfiguration(deviceId, updates)
+  // Update device settings
+  const updateDeviceSettings = useCallback(
+    async (deviceId: string, settings: Partial<DeviceSettings>) => {
+      const updates = await handleAsyncAction(() =>
+        smartMeterService.updateDeviceSettings(deviceId, settings)
       );
 
       // Update state
       setState(prev => ({
         ...prev,
         devices: prev.devices.map(device =>
-          device.id === deviceId
-            ? { ...device, configuration: { ...device.configuration, ...updates } }
-            : device
+          device.id === deviceId ? { ...device, ...updates } : device
         )
       }));
     },
     [handleAsyncAction]
   );
 
+  // Update meter alert thresholds
+  const updateAlertThresholds = useCallback(
+    async (meterId: string, thresholds: Partial<AlertThresholds>) => {
+      const updated = await handleAsyncAction(() =>
+        smartMeterService.updateAlertThresholds(meterId, thresholds)
+      );
+
+      setState(prev => ({
+        ...prev,
+        meters: prev.meters.map(meter => meter.id === meterId ? updated : meter)
+      }));
+    },
+    [handleAsyncAction]
+  );
+
   // Get device energy data
   const getDeviceEnergyData = useCallback(
     async (deviceId: string, startDate: Date, endDate: Date) => {
@@ -235,6 +271,45 @@ export function useSmartMeter(): UseSmartMeterReturn {
     [handleAsyncAction]
   );
 
+  // Read directly from the utility's API, surfacing provider errors
+  // (timeouts, rate limits, open circuit) instead of falling back to mock data
+  const getProviderReading = useCallback(
+    async (providerId: string, credentials: ProviderCredentials, consumerId: string) => {
+      const api = new SmartMeterAPI(providerId, credentials, { fallbackToMock: false });
+      return handleAsyncAction(() => api.getCurrentReading(consumerId));
+    },
+    [handleAsyncAction]
+  );
+
+  // Load the last 12 months of provider history for a newly connected meter
+  const backfillHistory = useCallback(
+    async (
+      smartMeterId: string,
+      credentials: ProviderCredentials,
+      onProgress?: (progress: BackfillProgress) => void
+    ) => {
+      if (!user) throw new Error('User not authenticated');
+
+      const meter = state.meters.find(m => m.id === smartMeterId);
+      if (!meter) throw new Error(`Smart meter not found: ${smartMeterId}`);
+
+      const result = await handleAsyncAction(() =>
+        backfillMeterHistory({
+          userId: user.uid,
+          smartMeterId,
+          providerId: meter.providerId,
+          consumerId: meter.meterId,
+          credentials,
+          onProgress
+        })
+      );
+
+      await loadSmartMeterData();
+      return result;
+    },
+    [user, state.meters, handleAsyncAction, loadSmartMeterData]
+  );
+
   // Start monitoring
   const startMonitoring = useCallback((meterId: string) => {
     smartMeterService.startMeterMonitoring(meterId);
@@ -252,7 +327,7 @@ export function useSmartMeter(): UseSmartMeterReturn {
 
   // Clear error
   const clearError = useCallback(() => {
-    setState(prev => ({ ...prev, error: null }));
+    setState(prev => ({ ...prev, error: null, errorDetails: null }));
   }, []);
 
   return {
@@ -263,14 +338,18 @@ export function useSmartMeter(): UseSmartMeterReturn {
     recentReadings: state.recentReadings,
     loading: state.loading,
     error: state.error,
+    errorDetails: state.errorDetails,
     isInitialized: state.isInitialized,
 
     // Actions
     initializeMeter,
     addDevice,
     removeDevice,
-    updateDeviceConfig,
+    updateDeviceSettings,
+    updateAlertThresholds,
     getDeviceEnergyData,
+    getProviderReading,
+    backfillHistory,
     startMonitoring,
     stopMonitoring,
     refreshData,
@@ -373,72 +452,385 @@ export function useSmartMeterStats() {
   const stats = {
     totalMeters: meters.length,
     totalDevices: devices.length,
-    activeDevices: devices.filter(d => d.status.isActive).length,
-    onlineDevices: devices.filter(d => d.status.isOnline).length,
+    activeDevices: devices.filter(d => d.state.isOn).length,
+    onlineDevices: devices.filter(d => d.state.isOnline).length,
     totalConsumption: meters.reduce((sum, meter) => 
-      sum + (meter.statistics.totalEnergyConsumed || 0), 0),
+      sum + (meter.aggregated.monthlyUsage || 0), 0),
     currentPower: recentReadings.length > 0 ? 
-      Math.max(...recentReadings.map(r => r.reading.power)) : 0,
+      Math.max(...recentReadings.map(r => r.reading.instantPower * 1000)) : 0,
     averageDailyUsage: meters.reduce((sum, meter) => 
-      sum + (meter.statistics.averageDailyUsage || 0), 0) / Math.max(1, meters.length),
+      sum + (meter.aggregated.averageUsage || 0), 0) / Math.max(1, meters.length),
     totalCost: meters.reduce((sum, meter) => 
-      sum + (meter.statistics.costToDate || 0), 0),
-    co2Savings: meters.reduce((sum, meter) => 
-      sum + (meter.statistics.co2Savings || 0), 0)
+      sum + (meter.aggregated.monthlyUsage || 0) * meter.config.tariffRate, 0)
   };
 
   return stats;
 }
 
+/**
+ * Hook for three-phase power quality analytics. Samples the meter's
+ * provider reading, analyses the rolling window and persists each episode
+ * once it has ended. This samples rather than subscribing to the reading
+ * stream: the stream only carries gateway meters, and its canonical reading
+ * has a single voltage where sag, swell and imbalance need all three phases.
+ */
+export function usePowerQuality(
+  meter: SmartMeter | null,
+  options: { sampleInterval?: number; windowSize?: number } = {}
+) {
+  const { sampleInterval = 30000, windowSize = 120 } = options;
+  const { user } = useAuth();
+  const [report, setReport] = useState<PowerQualityReport | null>(null);
+  const [storedEvents, setStoredEvents] = useState<PowerQualityEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const samples = useRef<SmartMeterReading[]>([]);
+  const recorded = useRef<Set<string>>(new Set());
+
+  const phases = meter?.installation?.phases ?? 3;
+  const providerId = meter?.providerId || 'qube';
+  const consumerId = meter?.meterId || 'demo-consumer';
+
+  // Load previously recorded events
+  useEffect(() => {
+    if (!meter) return;
+
+    setLoading(true);
+    firestoreService.getPowerQualityEvents(meter.id)
+      .then(setStoredEvents)
+      .catch(error => console.error('Error loading power quality events:', error))
+      .finally(() => setLoading(false));
+  }, [meter?.id]);
+
+  useEffect(() => {
+    const analyzer = new PowerQualityAnalyzer({ phases });
+    // No mock fallback: made-up readings would be analysed, and recorded, as real events
+    const api = new SmartMeterAPI(providerId, {}, { fallbackToMock: false });
+    samples.current = [];
+    let cancelled = false;
+
+    const sample = async () => {
+      try {
+        const reading = await api.getCurrentReading(consumerId);
+        if (cancelled) return;
+
+        samples.current = [...samples.current, reading].slice(-windowSize);
+        const next = analyzer.analyze(samples.current);
+        setReport(next);
+
+        if (!meter || !user) return;
+
+        const finished = next.events.filter(event => {
+          const key = `${event.type}:${event.phase || ''}:${event.startTime.getTime()}`;
+          if (event.ongoing || recorded.current.has(key)) return false;
+          recorded.current.add(key);
+          return true;
+        });
+
+        if (finished.length > 0) {
+          const saved = await analyzer.recordEvents(user.uid, meter.id, finished);
+          setStoredEvents(prev => [...saved, ...prev]);
+        }
+      } catch (error) {
+        // The sample is skipped; the window keeps only readings the meter reported
+        console.error('Error sampling power quality:', error);
+      }
+    };
+
+    sample();
+    const interval = setInterval(sample, sampleInterval);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [meter?.id, user, phases, providerId, consumerId, sampleInterval, windowSize]);
+
+  return {
+    report,
+    storedEvents,
+    loading,
+    isThreePhase: phases === 3
+  };
+}
+
+/**
+ * Hook for prepaid meters: balance, recharge history and days-remaining
+ * forecast, raising low-balance notifications as thresholds are crossed.
+ * Balance and recharges are provider account calls that the reading stream
+ * doesn't carry; they move slowly, hence the 15 minute default.
+ */
+export function usePrepaidBalance(
+  meter: SmartMeter | null,
+  options: { refreshInterval?: number } = {}
+) {
+  const { refreshInterval = 15 * 60 * 1000 } = options;
+  const { user } = useAuth();
+  const [status, setStatus] = useState<PrepaidStatus | null>(null);
+  const [recharges, setRecharges] = useState<RechargeRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [errorDetails, setErrorDetails] = useState<SmartMeterErrorDetails | null>(null);
+
+  const providerId = meter?.providerId || 'genus';
+  const consumerId = meter?.meterId || 'demo-consumer';
+  const api = useMemo(() => new SmartMeterAPI(providerId, {}, { fallbackToMock: false }), [providerId]);
+  const supported = api.capabilities.prepaid;
+
+  const refresh = useCallback(async () => {
+    if (!meter || !user || !supported) return;
+
+    setLoading(true);
+    setError(null);
+    setErrorDetails(null);
+    try {
+      const end = new Date();
+      const start = new Date(end.getTime() - 7 * 24 * 60 * 60 * 1000);
+      const [balance, readings, history] = await Promise.all([
+        api.getPrepaidBalance(consumerId),
+        api.getHistoricalReadings(consumerId, start.toISOString(), end.toISOString()),
+        api.getRechargeHistory(consumerId)
+      ]);
+
+      setStatus(await prepaidBalanceMonitor.check(user.uid, meter, balance, readings));
+      setRecharges(history);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load prepaid balance');
+      setErrorDetails(toSmartMeterErrorDetails(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [meter?.id, user, api, supported, consumerId]);
+
+  useEffect(() => {
+    if (!supported) return;
+
+    refresh();
+    const interval = setInterval(refresh, refreshInterval);
+    return () => clearInterval(interval);
+  }, [refresh, supported, refreshInterval]);
+
+  return {
+    supported,
+    balance: status?.balance ?? null,
+    forecast: status?.forecast ?? null,
+    alertLevel: status?.alertLevel ?? null,
+    recharges,
+    loading,
+    error,
+    errorDetails,
+    refresh
+  };
+}
+
+/**
+ * Hook for supply outages. Samples the meter on a fixed interval (missed
+ * samples show up as reading gaps), checks the provider's outage status
+ * where supported and keeps the meter's outage events in sync. The timer is
+ * the detector's clock: a stream that goes quiet looks the same as one
+ * that's reconnecting, so gaps can only be measured against our own samples.
+ */
+export function useOutages(
+  meter: SmartMeter | null,
+  options: { sampleInterval?: number; windowSize?: number } = {}
+) {
+  const { sampleInterval = 60000, windowSize = 180 } = options;
+  const { user } = useAuth();
+  const [events, setEvents] = useState<OutageEvent[]>([]);
+  const [providerStatus, setProviderStatus] = useState<ProviderOutageStatus | null>(null);
+  const [loading, setLoading] = useState(false);
+  const samples = useRef<SmartMeterReading[]>([]);
+
+  const phases = meter?.installation?.phases ?? 3;
+  const providerId = meter?.providerId || 'tata_power';
+  const consumerId = meter?.meterId || 'demo-consumer';
+
+  // Load recorded outages
+  useEffect(() => {
+    if (!meter) return;
+
+    setLoading(true);
+    firestoreService.getOutageEvents(meter.id)
+      .then(setEvents)
+      .catch(error => console.error('Error loading outage events:', error))
+      .finally(() => setLoading(false));
+  }, [meter?.id]);
+
+  useEffect(() => {
+    // No mock fallback: a failed read is a missing sample
+    const api = new SmartMeterAPI(providerId, {}, { fallbackToMock: false });
+    const monitor = new OutageMonitor(new OutageDetector({ phases, expectedInterval: sampleInterval }));
+    samples.current = [];
+    let cancelled = false;
+
+    const check = async () => {
+      try {
+        const reading = await api.getCurrentReading(consumerId);
+        samples.current = [...samples.current, reading].slice(-windowSize);
+      } catch {
+        // Provider unreachable; the gap is picked up by the detector
+      }
+
+      try {
+        const status = api.capabilities.outage ? await api.getOutageStatus(consumerId) : null;
+        if (cancelled) return;
+        setProviderStatus(status);
+
+        if (!meter || !user || samples.current.length === 0) return;
+
+        const result = await monitor.sync(user.uid, meter.id, samples.current, status);
+        if (cancelled || (result.started.length === 0 && result.ended.length === 0)) return;
+
+        setEvents(await firestoreService.getOutageEvents(meter.id));
+      } catch (error) {
+        console.error('Error checking for outages:', error);
+      }
+    };
+
+    check();
+    const interval = setInterval(check, sampleInterval);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [meter?.id, user, phases, providerId, consumerId, sampleInterval, windowSize]);
+
+  return {
+    events,
+    ongoing: events.filter(event => event.outage.ongoing),
+    providerStatus,
+    loading
+  };
+}
+
+/**
+ * Hook for meter tamper events. Polls the provider's tamper status where
+ * supported and keeps the meter's tamper history (and urgent alerts) in sync.
+ * The status comes from the provider's event log, which the reading stream
+ * doesn't carry, so it's polled every 5 minutes by default.
+ */
+export function useTamperEvents(
+  meter: SmartMeter | null,
+  options: { refreshInterval?: number } = {}
+) {
+  const { refreshInterval = 5 * 60 * 1000 } = options;
+  const { user } = useAuth();
+  const [events, setEvents] = useState<StoredTamperEvent[]>(meter?.status?.tamper?.events || []);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [errorDetails, setErrorDetails] = useState<SmartMeterErrorDetails | null>(null);
+
+  const providerId = meter?.providerId || 'secure_meters';
+  const consumerId = meter?.meterId || 'demo-consumer';
+  const api = useMemo(() => new SmartMeterAPI(providerId, {}, { fallbackToMock: false }), [providerId]);
+  const supported = api.capabilities.tamper;
+
+  useEffect(() => {
+    setEvents(meter?.status?.tamper?.events || []);
+  }, [meter?.id]);
+
+  const refresh = useCallback(async () => {
+    if (!meter || !user || !supported) return;
+
+    setLoading(true);
+    setError(null);
+    setErrorDetails(null);
+    try {
+      const status = await api.getTamperStatus(consumerId);
+      const result = await tamperMonitor.check(user.uid, meter, status);
+      setEvents(result.events);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check tamper status');
+      setErrorDetails(toSmartMeterErrorDetails(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [meter?.id, user, api, supported, consumerId]);
+
+  useEffect(() => {
+    if (!supported) return;
+
+    refresh();
+    const interval = setInterval(refresh, refreshInterval);
+    return () => clearInterval(interval);
+  }, [refresh, supported, refreshInterval]);
+
+  return {
+    supported,
+    events,
+    active: events.filter(event => event.active),
+    loading,
+    error,
+    errorDetails,
+    refresh
+  };
+}
+
+/**
+ * Hook for the offline reading queue: how many readings are waiting, whether
+ * they are being replayed, and a way to retry without waiting for the timer.
+ */
+export function useOfflineSync() {
+  const [status, setStatus] = useState<SyncStatus>(() => offlineReadingQueue.getStatus());
+
+  useEffect(() => offlineReadingQueue.subscribe(setStatus), []);
+
+  const syncNow = useCallback((): Promise<ReplayResult> => offlineReadingQueue.replay(), []);
+
+  return {
+    ...status,
+    syncNow
+  };
+}
+
 /**
  * Hook for device automation
  */
 export function useDeviceAutomation(deviceId: string | null) {
-  const { updateDeviceConfig } = useSmartMeter();
+  const { updateDeviceSettings } = useSmartMeter();
   const { device } = useDeviceData(deviceId);
 
   const updateSchedule = useCallback(
-    async (schedule: Device['configuration']['schedule']) => {
+    async (schedule: DeviceSettings['schedule']) => {
       if (!deviceId) return;
       
-      await updateDeviceConfig(deviceId, {
-        enableSchedule: !!schedule,
-        schedule
-      });
+      await updateDeviceSettings(deviceId, { schedule });
     },
-    [deviceId, updateDeviceConfig]
+    [deviceId, updateDeviceSettings]
   );
 
   const togglePowerSavingMode = useCallback(
     async (enabled: boolean) => {
       if (!deviceId) return;
       
-      await updateDeviceConfig(deviceId, {
+      await updateDeviceSettings(deviceId, {
         powerSavingMode: enabled
       });
     },
-    [deviceId, updateDeviceConfig]
+    [deviceId, updateDeviceSettings]
   );
 
   const toggleAlerts = useCallback(
     async (enabled: boolean) => {
       if (!deviceId) return;
       
-      await updateDeviceConfig(deviceId, {
+      await updateDeviceSettings(deviceId, {
         alertsEnabled: enabled
       });
     },
-    [deviceId, updateDeviceConfig]
+    [deviceId, updateDeviceSettings]
   );
 
+  const settings = device ? getDeviceSettings(device) : null;
+
   return {
     device,
     updateSchedule,
     togglePowerSavingMode,
     toggleAlerts,
-    isScheduleEnabled: device?.configuration.enableSchedule || false,
-    isPowerSavingEnabled: device?.configuration.powerSavingMode || false,
-    areAlertsEnabled: device?.configuration.alertsEnabled || false
+    isScheduleEnabled: !!settings?.schedule,
+    isPowerSavingEnabled: settings?.powerSavingMode || false,
+    areAlertsEnabled: settings?.alertsEnabled || false
   };
 }
 
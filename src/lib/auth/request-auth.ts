@@ -0,0 +1,40 @@
+/**
+ * Request Authentication for API Routes
+ *
+ * Resolves the signed-in user behind an API request from the Firebase ID
+ * token in its `Authorization: Bearer <token>` header, verified with the
+ * Firebase Admin SDK against the project's signing keys.
+ */
+
+import { adminAuth } from '../firebase/admin';
+
+export interface RequestUser {
+  uid: string;
+  email?: string;
+}
+
+/**
+ * Verify a Firebase ID token; null when it is invalid or expired
+ */
+export async function verifyIdToken(idToken: string): Promise<RequestUser | null> {
+  try {
+    const decoded = await adminAuth().verifyIdToken(idToken);
+    return {
+      uid: decoded.uid,
+      ...(decoded.email && { email: decoded.email })
+    };
+  } catch (error) {
+    console.error('Failed to verify ID token:', error);
+    return null;
+  }
+}
+
+/**
+ * The signed-in user making a request, or null without a valid ID token
+ */
+export async function getRequestUser(request: Request): Promise<RequestUser | null> {
+  const authorization = request.headers.get('authorization');
+  if (!authorization?.startsWith('Bearer ')) return null;
+
+  return verifyIdToken(authorization.slice('Bearer '.length).trim());
+}
@@ -0,0 +1,187 @@
+/**
+ * Tests for the automation rule expression language
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  compileRuleExpression,
+  parseRuleExpression,
+  ruleTextLiteral,
+  validateRuleExpression,
+  RuleExpressionError
+} from '../rule-expression';
+
+const messages = (source: string) => validateRuleExpression(source).map(issue => issue.message);
+
+describe('parseRuleExpression', () => {
+  it('binds and tighter than or, and not tighter than and', () => {
+    const expression = parseRuleExpression('not device.isOn and room.occupancy or tariff.peak');
+
+    expect(expression).toMatchObject({
+      kind: 'logical',
+      operator: 'or',
+      left: {
+        kind: 'logical',
+        operator: 'and',
+        left: { kind: 'not', operand: { kind: 'variable', name: 'device.isOn' } },
+        right: { kind: 'variable', name: 'room.occupancy' }
+      },
+      right: { kind: 'variable', name: 'tariff.peak' }
+    });
+  });
+
+  it('reads times as minutes past midnight and = as ==', () => {
+    expect(parseRuleExpression('time = 18:30')).toMatchObject({
+      kind: 'compare',
+      operator: '==',
+      right: { kind: 'literal', type: 'time', value: 18 * 60 + 30 }
+    });
+  });
+
+  it('accepts symbolic operators and negative numbers', () => {
+    expect(parseRuleExpression('!device.isOn && room.temperature > -5 || tariff.peak')).toMatchObject({
+      kind: 'logical',
+      operator: 'or',
+      left: { kind: 'logical', operator: 'and', right: { right: { value: -5 } } }
+    });
+  });
+
+  it.each([
+    ['', 'Condition is empty', 0],
+    ['room.temperature >', 'Condition ends too early; expected a value', 18],
+    ["device.mode == 'cool", 'Text is missing its closing quote', 15],
+    ['room.temperature > 28 room.occupancy', "Unexpected 'room.occupancy'; join conditions with 'and' or 'or'", 22],
+    ['time == 25:00', '25:00 is not a valid time', 8],
+    ['room.temperature in 24 28', "Expected '..' in the range, e.g. 24..28", 23],
+    ['device.power > 100; alert()', "Unexpected character ';'", 18]
+  ])('rejects %j', (source, message, position) => {
+    expect(() => parseRuleExpression(source)).toThrow(RuleExpressionError);
+    try {
+      parseRuleExpression(source);
+    } catch (error) {
+      expect(error).toMatchObject({ message, position });
+    }
+  });
+
+  it('rejects conditions over 500 characters', () => {
+    expect(() => parseRuleExpression(`device.power > ${'1'.repeat(500)}`)).toThrow(/longer than 500/);
+  });
+});
+
+describe('validateRuleExpression', () => {
+  it('accepts the documented examples', () => {
+    [
+      'room.temperature > 28 and room.occupancy',
+      'time in 22:00..06:00 and not device.isOn',
+      'tariff.peak or meter.power >= 3.5',
+      "weather.condition in ['rain', 'storm'] and day in ['sat', 'sun']",
+      'source.wasOn and not source.isOn',
+      'temperature > 26 and occupancy'
+    ].forEach(source => expect(validateRuleExpression(source)).toEqual([]));
+  });
+
+  it('suggests a known variable for a misspelt one', () => {
+    expect(messages('room.temprature > 28')).toEqual([
+      "Unknown variable 'room.temprature' — did you mean 'room.temperature'?"
+    ]);
+  });
+
+  it('rejects comparisons between different types', () => {
+    expect(messages("room.temperature > 'hot'")).toEqual([
+      "Cannot compare room.temperature (a number) with 'hot' (text)"
+    ]);
+    expect(messages('time > 18')).toEqual(['Cannot compare time (a time) with 18 (a number)']);
+  });
+
+  it('rejects ordering on text and true/false values', () => {
+    expect(messages("device.mode < 'eco'")).toEqual(["'<' needs numbers or times; device.mode is text"]);
+    expect(messages('device.isOn in true..false')).toEqual(['Ranges need numbers or times; device.isOn is true/false']);
+  });
+
+  it('rejects values used as conditions', () => {
+    expect(messages('room.temperature')).toEqual(['room.temperature is a number, not a condition; compare it with something']);
+    expect(messages('tariff.peak and meter.power')).toEqual([
+      'meter.power is a number, not a condition; compare it with something'
+    ]);
+  });
+
+  it('reports every problem in the order they appear', () => {
+    expect(validateRuleExpression("room.temprature > 28 and device.mode > 'eco' and foo.bar.baz")).toEqual([
+      expect.objectContaining({ position: 0 }),
+      expect.objectContaining({ position: 37 }),
+      { message: "Unknown variable 'foo.bar.baz'", position: 49 }
+    ]);
+  });
+
+  it('rejects an empty list', () => {
+    expect(messages('day in []')).toEqual(['The list is empty']);
+  });
+});
+
+describe('compileRuleExpression', () => {
+  it('throws the first problem', () => {
+    expect(() => compileRuleExpression('room.temprature > 28')).toThrow(/did you mean 'room.temperature'/);
+  });
+
+  it('lists the variables a condition reads by their canonical names', () => {
+    expect(compileRuleExpression('temperature > 26 and not device.isOn').variables).toEqual([
+      'room.temperature',
+      'device.isOn'
+    ]);
+  });
+
+  it('evaluates comparisons, ranges and lists', () => {
+    const rule = compileRuleExpression("room.temperature in 24..28 and device.mode in ['cool', 'eco']");
+
+    expect(rule.evaluate({ 'room.temperature': 26, 'device.mode': 'eco' })).toBe(true);
+    expect(rule.evaluate({ 'room.temperature': 26, 'device.mode': 'ECO' })).toBe(true); // text compares case-insensitively
+    expect(rule.evaluate({ 'room.temperature': 29, 'device.mode': 'eco' })).toBe(false);
+    expect(rule.evaluate({ 'room.temperature': 26, 'device.mode': 'heat' })).toBe(false);
+  });
+
+  it('wraps time ranges through midnight', () => {
+    const rule = compileRuleExpression('time in 22:00..06:00');
+
+    expect(rule.evaluate({ time: 23 * 60 })).toBe(true);
+    expect(rule.evaluate({ time: 5 * 60 + 59 })).toBe(true);
+    expect(rule.evaluate({ time: 12 * 60 })).toBe(false);
+  });
+
+  it('does not wrap number ranges', () => {
+    expect(compileRuleExpression('room.temperature in 28..24').evaluate({ 'room.temperature': 30 })).toBe(false);
+  });
+
+  it('treats a missing value as unknown rather than false', () => {
+    const rule = compileRuleExpression('weather.temperature > 30');
+
+    expect(rule.test({})).toBeUndefined();
+    expect(rule.evaluate({})).toBe(false);
+    expect(compileRuleExpression('not (weather.temperature > 30)').test({})).toBeUndefined();
+  });
+
+  it('decides and/or without the unknown side when the known side settles it', () => {
+    expect(compileRuleExpression('device.isOn and weather.temperature > 30').test({ 'device.isOn': false })).toBe(false);
+    expect(compileRuleExpression('device.isOn or weather.temperature > 30').test({ 'device.isOn': true })).toBe(true);
+    expect(compileRuleExpression('device.isOn and weather.temperature > 30').test({ 'device.isOn': true })).toBeUndefined();
+    expect(compileRuleExpression('weather.temperature > 30 or device.isOn').test({ 'device.isOn': true })).toBe(true);
+  });
+
+  it('never runs the condition as code', () => {
+    expect(() => compileRuleExpression('globalThis.process.exit(1)')).toThrow(RuleExpressionError);
+    expect(() => compileRuleExpression("constructor.constructor('return 1')()")).toThrow(RuleExpressionError);
+  });
+});
+
+describe('ruleTextLiteral', () => {
+  it('quotes text so it parses back to the same value', () => {
+    ['eco', "kid's room", 'say "hi"'].forEach(value => {
+      expect(parseRuleExpression(`device.mode == ${ruleTextLiteral(value)}`)).toMatchObject({
+        right: { kind: 'literal', type: 'text', value }
+      });
+    });
+  });
+
+  it('throws for text with both kinds of quote', () => {
+    expect(() => ruleTextLiteral(`it's "both"`)).toThrow(RuleExpressionError);
+  });
+});
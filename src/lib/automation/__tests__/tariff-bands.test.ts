@@ -0,0 +1,79 @@
+/**
+ * Tests for time-of-use tariff bands
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { DEFAULT_TARIFF_PLAN, TariffPlan, tariffAt, tariffPlanFromMeter } from '../tariff-bands';
+
+// The bands share timeOfUseAt with reading ingestion, which writes through Firestore
+vi.mock('../../firebase/firestore-service', () => ({ firestoreService: {} }));
+
+const plan = (timeZone: string): TariffPlan => ({ ...DEFAULT_TARIFF_PLAN, timeZone });
+
+describe('tariffAt', () => {
+  it('prices each band from the base rate', () => {
+    const kolkata = plan('Asia/Kolkata');
+
+    expect(tariffAt(kolkata, new Date('2026-06-01T13:00:00Z'))).toEqual({ band: 'peak', rate: 8.45, peak: true }); // 18:30
+    expect(tariffAt(kolkata, new Date('2026-06-01T06:30:00Z'))).toEqual({ band: 'standard', rate: 6.5, peak: false }); // 12:00
+    expect(tariffAt(kolkata, new Date('2026-06-01T18:30:00Z'))).toEqual({ band: 'off_peak', rate: 5.2, peak: false }); // 00:00
+  });
+
+  it('places the band boundaries on the local hour', () => {
+    const kolkata = plan('Asia/Kolkata');
+    const at = (iso: string) => tariffAt(kolkata, new Date(iso)).band;
+
+    expect(at('2026-06-01T00:29:00Z')).toBe('off_peak'); // 05:59
+    expect(at('2026-06-01T00:30:00Z')).toBe('standard'); // 06:00
+    expect(at('2026-06-01T12:29:00Z')).toBe('standard'); // 17:59
+    expect(at('2026-06-01T12:30:00Z')).toBe('peak'); // 18:00
+    expect(at('2026-06-01T16:29:00Z')).toBe('peak'); // 21:59
+    expect(at('2026-06-01T16:30:00Z')).toBe('off_peak'); // 22:00
+  });
+
+  it('reads the clock in the plan zone, not the runtime zone', () => {
+    const instant = new Date('2026-06-01T13:00:00Z');
+
+    expect(tariffAt(plan('Asia/Kolkata'), instant).band).toBe('peak'); // 18:30
+    expect(tariffAt(plan('America/New_York'), instant).band).toBe('standard'); // 09:00
+    expect(tariffAt(plan('Asia/Tokyo'), instant).band).toBe('off_peak'); // 22:00
+    expect(tariffAt(plan('Asia/Kathmandu'), new Date('2026-06-01T12:15:00Z')).band).toBe('peak'); // 18:00, UTC+5:45
+  });
+
+  it('follows daylight-saving changes', () => {
+    const newYork = plan('America/New_York');
+    const at = (iso: string) => tariffAt(newYork, new Date(iso)).band;
+
+    // Clocks go forward on 8 March 2026: 22:00 UTC is 18:00 EDT, an hour earlier in winter
+    expect(at('2026-03-07T22:00:00Z')).toBe('standard'); // 17:00 EST
+    expect(at('2026-03-08T22:00:00Z')).toBe('peak'); // 18:00 EDT
+    // And back on 1 November 2026
+    expect(at('2026-10-31T22:00:00Z')).toBe('peak'); // 18:00 EDT
+    expect(at('2026-11-01T22:00:00Z')).toBe('standard'); // 17:00 EST
+    expect(at('2026-11-02T03:00:00Z')).toBe('off_peak'); // 22:00 EST
+  });
+
+  it('follows daylight saving in the southern hemisphere', () => {
+    const sydney = plan('Australia/Sydney');
+
+    expect(tariffAt(sydney, new Date('2026-01-15T07:00:00Z')).band).toBe('peak'); // 18:00 AEDT
+    expect(tariffAt(sydney, new Date('2026-07-15T07:00:00Z')).band).toBe('standard'); // 17:00 AEST
+  });
+});
+
+describe('tariffPlanFromMeter', () => {
+  const config = { tariffRate: 0.3, currency: 'EUR', timezone: 'Europe/Berlin' };
+
+  it("takes the meter's rate, currency and time zone", () => {
+    expect(tariffPlanFromMeter({ config } as any)).toMatchObject({
+      baseRate: 0.3,
+      currency: 'EUR',
+      timeZone: 'Europe/Berlin',
+      multipliers: DEFAULT_TARIFF_PLAN.multipliers
+    });
+  });
+
+  it('keeps the default zone when the meter names an unknown one', () => {
+    expect(tariffPlanFromMeter({ config: { ...config, timezone: 'Mars/Olympus' } } as any).timeZone).toBe('Asia/Kolkata');
+  });
+});
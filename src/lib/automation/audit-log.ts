@@ -0,0 +1,318 @@
+/**
+ * Automation Audit Log
+ *
+ * Every automation rule evaluation and every action it takes is recorded
+ * with the values the rule's condition read and the device state that
+ * resulted, so "why did the AC turn off?" has an answer. Entries are kept
+ * for a week and written in batches, one per engine check: in Firestore
+ * for the signed-in user, so every device they use sees the same log, and
+ * in IndexedDB (memory only when IndexedDB is unavailable) while nobody is
+ * signed in.
+ */
+
+import { Timestamp } from 'firebase/firestore';
+import { firestoreService } from '../firebase/firestore-service';
+import { authService } from '../auth/auth-service';
+import type { AutomationAuditRecord } from '../firebase/schema';
+import type { RuleValue } from './rule-expression';
+
+export type AuditOutcome =
+  | 'met' // the condition held and the rule fired
+  | 'not_met'
+  | 'unknown' // a value the condition reads was missing
+  | 'already_fired' // an event rule whose condition is still true from an earlier check
+  | 'executed' // the action changed the device
+  | 'no_change'; // the device was already in the state the action asks for, or the action needs a parameter it lacks
+
+export interface AuditDeviceState {
+  isOn: boolean;
+  power: number; // W
+  targetTemperature?: number;
+  brightness?: number;
+  mode?: string;
+}
+
+export interface AutomationAuditEntry {
+  seq?: number; // assigned on insert
+  at: number; // epoch ms
+  kind: 'evaluation' | 'action';
+  ruleId: string;
+  ruleName: string;
+  deviceId: string;
+  inputs: Record<string, RuleValue | null>; // variables the condition reads; null when unknown
+  outcome: AuditOutcome;
+  action?: string; // action entries: the rule's action type
+  deviceState?: AuditDeviceState; // action entries: the device after the action
+}
+
+export interface AuditQuery {
+  ruleId?: string;
+  kind?: AutomationAuditEntry['kind'];
+  since?: Date;
+  limit?: number;
+}
+
+interface AuditStore {
+  readonly durable: boolean;
+  append(entries: AutomationAuditEntry[]): Promise<void>;
+  newest(query: AuditQuery, limit: number): Promise<AutomationAuditEntry[]>;
+  prune(before: number): Promise<void>;
+}
+
+// Audit Log Configuration
+interface AuditLogConfig {
+  databaseName: string;
+  retention: number; // ms entries are kept
+  defaultLimit: number; // entries returned when a query doesn't say
+}
+
+const DEFAULT_CONFIG: AuditLogConfig = {
+  databaseName: 'ecoquest-automation',
+  retention: 7 * 24 * 60 * 60 * 1000,
+  defaultLimit: 200
+};
+
+const DB_VERSION = 1;
+const STORE_NAME = 'audit';
+const PRUNE_INTERVAL = 60 * 60 * 1000; // ms between retention sweeps
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function matches(entry: AutomationAuditEntry, query: AuditQuery): boolean {
+  return (!query.ruleId || entry.ruleId === query.ruleId)
+    && (!query.kind || entry.kind === query.kind)
+    && (!query.since || entry.at >= query.since.getTime());
+}
+
+class IndexedDbAuditStore implements AuditStore {
+  readonly durable = true;
+
+  private constructor(private db: IDBDatabase) {}
+
+  static async open(name: string): Promise<IndexedDbAuditStore> {
+    const request = indexedDB.open(name, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'seq', autoIncrement: true });
+      store.createIndex('at', 'at');
+    };
+    return new IndexedDbAuditStore(await requestResult(request));
+  }
+
+  async append(entries: AutomationAuditEntry[]): Promise<void> {
+    const transaction = this.db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    entries.forEach(entry => store.add(entry));
+    await transactionDone(transaction);
+  }
+
+  async newest(query: AuditQuery, limit: number): Promise<AutomationAuditEntry[]> {
+    const store = this.db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const range = query.since ? IDBKeyRange.lowerBound(query.since.getTime()) : undefined;
+    const results: AutomationAuditEntry[] = [];
+
+    return new Promise((resolve, reject) => {
+      const request = store.index('at').openCursor(range, 'prev');
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || results.length >= limit) {
+          resolve(results);
+          return;
+        }
+        if (matches(cursor.value, query)) results.push(cursor.value);
+        cursor.continue();
+      };
+    });
+  }
+
+  async prune(before: number): Promise<void> {
+    const transaction = this.db.transaction(STORE_NAME, 'readwrite');
+    const request = transaction.objectStore(STORE_NAME).index('at').openCursor(IDBKeyRange.upperBound(before, true));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+    await transactionDone(transaction);
+  }
+}
+
+// The signed-in user's log
+class FirestoreAuditStore implements AuditStore {
+  readonly durable = true;
+
+  constructor(private userId: string) {}
+
+  async append(entries: AutomationAuditEntry[]): Promise<void> {
+    await firestoreService.saveAutomationAuditRecords(entries.map(entry => {
+      const { seq, at, action, deviceState, ...rest } = entry;
+      return {
+        ...rest,
+        userId: this.userId,
+        at: Timestamp.fromMillis(at),
+        ...(action && { action }),
+        // Firestore rejects undefined fields
+        ...(deviceState && {
+          deviceState: Object.fromEntries(
+            Object.entries(deviceState).filter(([, value]) => value !== undefined)
+          ) as AuditDeviceState
+        })
+      };
+    }));
+  }
+
+  async newest(query: AuditQuery, limit: number): Promise<AutomationAuditEntry[]> {
+    const records = await firestoreService.getAutomationAuditRecords(this.userId, {
+      ruleId: query.ruleId,
+      kind: query.kind,
+      since: query.since && Timestamp.fromDate(query.since),
+      limit
+    });
+    return records.map(fromRecord);
+  }
+
+  async prune(before: number): Promise<void> {
+    await firestoreService.deleteAutomationAuditRecordsBefore(this.userId, Timestamp.fromMillis(before));
+  }
+}
+
+function fromRecord(record: AutomationAuditRecord): AutomationAuditEntry {
+  return {
+    at: record.at.toMillis(),
+    kind: record.kind,
+    ruleId: record.ruleId,
+    ruleName: record.ruleName,
+    deviceId: record.deviceId,
+    inputs: record.inputs,
+    outcome: record.outcome,
+    ...(record.action && { action: record.action }),
+    ...(record.deviceState && { deviceState: record.deviceState })
+  };
+}
+
+// Used when IndexedDB is unavailable (server rendering, some private browsing modes)
+class MemoryAuditStore implements AuditStore {
+  readonly durable = false;
+  private entries: AutomationAuditEntry[] = [];
+  private nextSeq = 1;
+
+  async append(entries: AutomationAuditEntry[]): Promise<void> {
+    entries.forEach(entry => this.entries.push({ ...entry, seq: this.nextSeq++ }));
+  }
+
+  async newest(query: AuditQuery, limit: number): Promise<AutomationAuditEntry[]> {
+    return this.entries.filter(entry => matches(entry, query)).reverse().slice(0, limit);
+  }
+
+  async prune(before: number): Promise<void> {
+    this.entries = this.entries.filter(entry => entry.at >= before);
+  }
+}
+
+export class AutomationAuditLog {
+  private config: AuditLogConfig;
+  private store: Promise<AuditStore> | null = null;
+  private userId: string | null = null;
+  private pending: AutomationAuditEntry[] = [];
+  private writing: Promise<void> = Promise.resolve();
+  private lastPruned = 0;
+
+  constructor(config: Partial<AuditLogConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+
+    // The log follows whoever is signed in
+    authService.onAuthStateChanged(user => this.setUser(user?.uid ?? null));
+  }
+
+  /**
+   * Keep entries in a user's log from now on, or locally when null. Entries
+   * already recorded are written where they were recorded.
+   */
+  setUser(userId: string | null): void {
+    if (userId === this.userId) return;
+
+    void this.flush();
+    this.userId = userId;
+    this.store = null;
+  }
+
+  /**
+   * Queue an entry; it is written on the next flush
+   */
+  record(entry: AutomationAuditEntry): void {
+    this.pending.push(entry);
+  }
+
+  /**
+   * Write queued entries. Writes are chained, so entries land in the order
+   * they were recorded; a failed write is logged and its entries dropped
+   * rather than retried against a store that is failing.
+   */
+  flush(): Promise<void> {
+    if (this.pending.length === 0) return this.writing;
+
+    const entries = this.pending;
+    const target = this.getStore();
+    this.pending = [];
+    this.writing = this.writing
+      .then(async () => {
+        const store = await target;
+        await store.append(entries);
+
+        if (Date.now() - this.lastPruned > PRUNE_INTERVAL) {
+          this.lastPruned = Date.now();
+          await store.prune(Date.now() - this.config.retention);
+        }
+      })
+      .catch(error => {
+        console.error('Error writing automation audit log:', error);
+      });
+    return this.writing;
+  }
+
+  /**
+   * Entries newest first, including ones not yet flushed
+   */
+  async entries(query: AuditQuery = {}): Promise<AutomationAuditEntry[]> {
+    await this.flush();
+    const store = await this.getStore();
+    return store.newest(query, query.limit ?? this.config.defaultLimit);
+  }
+
+  async isDurable(): Promise<boolean> {
+    return (await this.getStore()).durable;
+  }
+
+  private getStore(): Promise<AuditStore> {
+    if (!this.store && this.userId) {
+      this.store = Promise.resolve(new FirestoreAuditStore(this.userId));
+    }
+    if (!this.store) {
+      this.store = typeof indexedDB === 'undefined'
+        ? Promise.resolve<AuditStore>(new MemoryAuditStore())
+        : IndexedDbAuditStore.open(this.config.databaseName).catch(error => {
+          console.warn('IndexedDB unavailable, the automation audit log will not survive a reload:', error);
+          return new MemoryAuditStore();
+        });
+    }
+    return this.store;
+  }
+}
+
+// Export singleton instance
+export const automationAuditLog = new AutomationAuditLog();
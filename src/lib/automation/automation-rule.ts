@@ -0,0 +1,132 @@
+/**
+ * Automation Rule Model
+ *
+ * The one shape of an automation rule: what `SmartHomeController` runs,
+ * what `DeviceRegistryManager` attaches to registered devices, and what
+ * device documents store (without `deviceId`, which the document already
+ * is). Documents' rules in the older shape, with string triggers and
+ * actions, are converted here; a rule that can't be expressed in the new
+ * shape is kept disabled, with its original condition or action in the
+ * action parameters.
+ */
+
+import { validateRuleExpression } from './rule-expression';
+
+export const RULE_TRIGGER_TYPES = [
+  'time',
+  'temperature',
+  'occupancy',
+  'usage',
+  'energy_price',
+  'weather',
+  'device_state'
+] as const;
+
+export const RULE_ACTION_TYPES = [
+  'turn_on',
+  'turn_off',
+  'adjust_temperature',
+  'adjust_brightness',
+  'change_mode',
+  'notify'
+] as const;
+
+export type RuleTriggerType = typeof RULE_TRIGGER_TYPES[number];
+export type RuleActionType = typeof RULE_ACTION_TYPES[number];
+
+export interface AutomationRule {
+  id: string;
+  name: string;
+  deviceId: string;
+  trigger: {
+    type: RuleTriggerType;
+    condition: string; // rule expression, e.g. "room.temperature > 28 and room.occupancy"; see automation/rule-expression
+    value: any;
+    sourceDeviceId?: string; // device_state: the device whose state is watched
+  };
+  action: {
+    type: RuleActionType;
+    parameters: Record<string, any>;
+  };
+  isActive: boolean;
+  priority: number; // 1-10
+}
+
+// As device documents store it: the document is the device
+export type StoredAutomationRule = Omit<AutomationRule, 'deviceId'>;
+
+// Rules as device documents stored them
+export interface LegacyStoredRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  trigger: string;
+  condition: string;
+  action: string;
+  parameters: Record<string, any>;
+}
+
+export const DEFAULT_RULE_PRIORITY = 5;
+
+export function automationRuleId(): string {
+  return `rule_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Whether a device document's rule is in the older shape
+ */
+export function isLegacyStoredRule(rule: unknown): rule is LegacyStoredRule {
+  return typeof (rule as LegacyStoredRule | undefined)?.trigger === 'string';
+}
+
+/**
+ * Convert a rule a device document stored with string trigger and action.
+ * Its condition carries over when it is a valid rule expression (the old
+ * `currentPower` and `ratedPower` names still are).
+ */
+export function convertLegacyStoredRule(rule: LegacyStoredRule): StoredAutomationRule {
+  const trigger = (RULE_TRIGGER_TYPES as readonly string[]).includes(rule.trigger) ? rule.trigger as RuleTriggerType
+    : rule.trigger === 'schedule' ? 'time'
+    : 'usage'; // 'reading' and anything else watched readings
+  const action = convertAction(rule.action, rule.parameters);
+  const conditionValid = rule.condition.trim() !== '' && validateRuleExpression(rule.condition).length === 0;
+
+  return {
+    id: rule.id,
+    name: rule.name,
+    trigger: { type: trigger, condition: conditionValid ? rule.condition : '', value: null },
+    action: {
+      type: action.type,
+      parameters: {
+        ...action.parameters,
+        ...(!conditionValid && { legacyCondition: rule.condition })
+      }
+    },
+    isActive: rule.enabled && conditionValid && action.converted,
+    priority: DEFAULT_RULE_PRIORITY
+  };
+}
+
+function convertAction(
+  action: string,
+  parameters: Record<string, any>
+): { type: RuleActionType; parameters: Record<string, any>; converted: boolean } {
+  if ((RULE_ACTION_TYPES as readonly string[]).includes(action)) {
+    return { type: action as RuleActionType, parameters, converted: true };
+  }
+
+  switch (action) {
+    case 'on':
+      return { type: 'turn_on', parameters, converted: true };
+    case 'off':
+      return { type: 'turn_off', parameters, converted: true };
+    case 'send_alert':
+    case 'alert':
+      return { type: 'notify', parameters, converted: true };
+    case 'adjust_setting':
+      if (typeof parameters.temperature === 'number') return { type: 'adjust_temperature', parameters, converted: true };
+      if (typeof parameters.brightness === 'number') return { type: 'adjust_brightness', parameters, converted: true };
+      if (typeof parameters.mode === 'string') return { type: 'change_mode', parameters, converted: true };
+  }
+  return { type: 'notify', parameters: { ...parameters, legacyAction: action }, converted: false };
+}
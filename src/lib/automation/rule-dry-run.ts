@@ -0,0 +1,135 @@
+/**
+ * Automation Rule Dry Runs
+ *
+ * A draft rule can be replayed against a past day before it is enabled:
+ * the meter's readings and the day's weather stand in for the live values,
+ * and the controller reports what the rule would have done and how much
+ * energy that would have used or saved. This module loads the day; the
+ * replay itself is `SmartHomeController.dryRunAutomationRule`.
+ */
+
+import { Timestamp } from 'firebase/firestore';
+import { firestoreService } from '../firebase/firestore-service';
+import type { EnergyReading } from '../firebase/schema';
+import type { RuleValue } from './rule-expression';
+import type { AuditDeviceState } from './audit-log';
+import { fetchWeatherHistory, WeatherConditions, WeatherLocation } from './weather-conditions';
+
+export interface DryRunReading {
+  timestamp: Date;
+  power: number; // kW
+  energy: number; // kWh in the interval ending at the timestamp
+}
+
+export interface DryRunDay {
+  start: Date; // local midnight
+  end: Date;
+  readings: DryRunReading[]; // oldest first
+  weather: WeatherConditions[]; // oldest first
+}
+
+export interface DryRunAction {
+  at: Date;
+  action: string;
+  inputs: Record<string, RuleValue | null>;
+  deviceState: AuditDeviceState; // after the action
+}
+
+export interface DryRunResult {
+  ruleName: string;
+  deviceId: string;
+  start: Date;
+  end: Date;
+  evaluations: number; // one per minute, as the engine checks
+  met: number; // evaluations where the condition held
+  actions: DryRunAction[];
+  energyImpact: number; // kWh against leaving the device as it is now; negative is a saving
+  costImpact: number; // at the tariff in force at each minute
+  meteredEnergy: number; // kWh the meter recorded that day
+  unavailable: string[]; // variables the condition reads that have no history; they count as unknown
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Readings in the shape the replay needs, oldest first. Meter-level
+ * readings already include the devices behind the meter, so they are used
+ * when the meter has any; otherwise the device readings are summed per
+ * minute, each device counting with its latest power in the minute, and
+ * the sum is stamped with the minute's last reading.
+ */
+export function dryRunReadings(readings: EnergyReading[]): DryRunReading[] {
+  const meterReadings = readings.filter(reading => !reading.deviceId);
+  if (meterReadings.length > 0 || readings.length === 0) {
+    return meterReadings
+      .map(reading => ({
+        timestamp: reading.reading.timestamp.toDate(),
+        power: reading.reading.instantPower,
+        energy: reading.reading.energy
+      }))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  const minutes = new Map<number, { last: number; energy: number; power: Map<string, { at: number; power: number }> }>();
+  for (const reading of readings) {
+    const at = reading.reading.timestamp.toMillis();
+    const minute = Math.floor(at / MINUTE_MS) * MINUTE_MS;
+    const bucket = minutes.get(minute) ?? { last: at, energy: 0, power: new Map() };
+    bucket.last = Math.max(bucket.last, at);
+    bucket.energy += reading.reading.energy;
+
+    const latest = bucket.power.get(reading.deviceId!);
+    if (!latest || latest.at <= at) {
+      bucket.power.set(reading.deviceId!, { at, power: reading.reading.instantPower });
+    }
+    minutes.set(minute, bucket);
+  }
+
+  return Array.from(minutes.values(), bucket => ({
+    timestamp: new Date(bucket.last),
+    power: Array.from(bucket.power.values()).reduce((sum, device) => sum + device.power, 0),
+    energy: bucket.energy
+  })).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Weather stored with the readings, where the ingestion recorded it
+ */
+function readingWeather(readings: EnergyReading[]): WeatherConditions[] {
+  return readings
+    .filter(reading => reading.context.weather)
+    .map(reading => ({
+      temperature: reading.context.weather!.temperature,
+      humidity: reading.context.weather!.humidity,
+      condition: reading.context.weather!.condition.toLowerCase(),
+      location: 'Meter',
+      observedAt: reading.reading.timestamp.toDate()
+    }));
+}
+
+/**
+ * Load a past day (local time) for a meter: its readings from Firestore,
+ * and the weather stored with them or, when they have none, from the
+ * weather history route. Without a meter the day has weather only.
+ */
+export async function loadDryRunDay(smartMeterId: string | null, date: Date, location: WeatherLocation): Promise<DryRunDay> {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const end = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+  if (end.getTime() > Date.now()) {
+    throw new Error('Choose a day that has finished');
+  }
+
+  const stored = smartMeterId
+    ? await firestoreService.getMeterReadingsByDateRange(smartMeterId, Timestamp.fromDate(start), Timestamp.fromDate(end))
+    : [];
+
+  let weather = readingWeather(stored);
+  if (weather.length === 0) {
+    weather = await fetchWeatherHistory(location, start, end).catch(error => {
+      console.warn('No weather history for the dry run:', error);
+      return [];
+    });
+  }
+
+  return { start, end, readings: dryRunReadings(stored), weather };
+}
@@ -0,0 +1,644 @@
+/**
+ * Automation Rule Expressions
+ *
+ * A small expression language for automation rule conditions, parsed and
+ * type-checked rather than evaluated as code, so conditions users type in
+ * the UI can't run anything:
+ *
+ *   room.temperature > 28 and room.occupancy
+ *   time in 22:00..06:00 and not device.isOn
+ *   tariff.peak or meter.power >= 3.5
+ *   weather.condition in ['rain', 'storm'] and day in ['sat', 'sun']
+ *   source.wasOn and not source.isOn
+ *
+ * Comparisons (`= == != < <= > >=`), `and`/`or`/`not` (or `&& || !`),
+ * inclusive ranges (`x in a..b`, wrapping midnight for times) and lists
+ * (`x in [a, b]`). A variable without a current value — no weather fetched
+ * yet, a device that doesn't report temperature — makes a comparison
+ * unknown rather than false, and a condition that is unknown overall
+ * doesn't fire.
+ */
+
+export type RuleValueType = 'number' | 'boolean' | 'text' | 'time';
+
+export interface RuleVariable {
+  type: RuleValueType;
+  description: string;
+}
+
+export const RULE_VARIABLES: Record<string, RuleVariable> = {
+  time: { type: 'time', description: 'Time of day in the home time zone, e.g. 18:30' },
+  day: { type: 'text', description: "Day of the week: 'sun', 'mon' … 'sat'" },
+  'room.temperature': { type: 'number', description: "Temperature of the device's room (°C)" },
+  'room.humidity': { type: 'number', description: "Humidity of the device's room (%)" },
+  'room.lightLevel': { type: 'number', description: "Light level of the device's room (0-100)" },
+  'room.occupancy': { type: 'boolean', description: "Whether someone is in the device's room" },
+  'device.isOn': { type: 'boolean', description: 'Whether the device is on' },
+  'device.power': { type: 'number', description: 'Current power draw of the device (W)' },
+  'device.temperature': { type: 'number', description: 'Temperature the device reports (°C)' },
+  'device.targetTemperature': { type: 'number', description: 'Temperature the device is set to (°C)' },
+  'device.brightness': { type: 'number', description: 'Brightness of a light (0-100)' },
+  'device.mode': { type: 'text', description: "Device mode, e.g. 'cool' or 'eco'" },
+  'device.dailyEnergy': { type: 'number', description: 'Energy the device used today (kWh)' },
+  'device.ratedPower': { type: 'number', description: 'Rated power of the device (W)' },
+  'meter.power': { type: 'number', description: 'Current power draw of the whole home (kW)' },
+  'meter.dailyEnergy': { type: 'number', description: 'Energy the home used today (kWh)' },
+  'tariff.rate': { type: 'number', description: 'Current electricity price (₹/kWh)' },
+  'tariff.band': { type: 'text', description: "Current price band: 'off_peak', 'standard' or 'peak'" },
+  'tariff.peak': { type: 'boolean', description: 'Whether peak-hour pricing applies now' },
+  'weather.temperature': { type: 'number', description: 'Outdoor temperature (°C)' },
+  'weather.humidity': { type: 'number', description: 'Outdoor humidity (%)' },
+  'weather.condition': { type: 'text', description: "Weather condition, e.g. 'clear', 'clouds' or 'rain'" },
+  // Device-state rules: the device being watched, now and at the previous check
+  'source.isOn': { type: 'boolean', description: 'Whether the watched device is on' },
+  'source.wasOn': { type: 'boolean', description: 'Whether the watched device was on at the previous check' },
+  'source.power': { type: 'number', description: 'Current power draw of the watched device (W)' },
+  'source.previousPower': { type: 'number', description: 'Power draw of the watched device at the previous check (W)' },
+  'source.mode': { type: 'text', description: 'Mode of the watched device' }
+};
+
+// Short names kept from conditions written before the expression language
+export const RULE_VARIABLE_ALIASES: Record<string, string> = {
+  temperature: 'room.temperature',
+  humidity: 'room.humidity',
+  occupancy: 'room.occupancy',
+  currentPower: 'device.power',
+  ratedPower: 'device.ratedPower'
+};
+
+export type RuleValue = number | boolean | string;
+
+// Current values by variable name; times are minutes since midnight
+export type RuleContext = Partial<Record<string, RuleValue>>;
+
+export type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type RuleExpression =
+  | { kind: 'literal'; type: RuleValueType; value: RuleValue; position: number }
+  | { kind: 'variable'; name: string; position: number }
+  | { kind: 'compare'; operator: ComparisonOperator; left: RuleExpression; right: RuleExpression; position: number }
+  | { kind: 'range'; subject: RuleExpression; low: RuleExpression; high: RuleExpression; position: number }
+  | { kind: 'list'; subject: RuleExpression; items: RuleExpression[]; position: number }
+  | { kind: 'not'; operand: RuleExpression; position: number }
+  | { kind: 'logical'; operator: 'and' | 'or'; left: RuleExpression; right: RuleExpression; position: number };
+
+export interface RuleExpressionIssue {
+  message: string;
+  position: number; // zero-based offset into the condition
+}
+
+export interface CompiledRuleExpression {
+  source: string;
+  expression: RuleExpression;
+  variables: string[]; // canonical names the condition reads
+  evaluate(context: RuleContext): boolean;
+  test(context: RuleContext): boolean | undefined; // undefined when the outcome is unknown
+}
+
+export class RuleExpressionError extends Error {
+  constructor(message: string, public position: number, public source: string) {
+    super(message);
+    this.name = 'RuleExpressionError';
+  }
+}
+
+const MAX_EXPRESSION_LENGTH = 500;
+
+const TYPE_LABELS: Record<RuleValueType, string> = {
+  number: 'a number',
+  boolean: 'true/false',
+  text: 'text',
+  time: 'a time'
+};
+
+// Lexer
+
+type TokenKind = 'number' | 'time' | 'text' | 'identifier' | 'keyword' | 'operator' | 'end';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  position: number;
+}
+
+const KEYWORDS = new Set(['and', 'or', 'not', 'in', 'true', 'false']);
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '..', '<', '>', '=', '!', '(', ')', '[', ']', ',', '-'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const rest = source.slice(index);
+    const space = /^\s+/.exec(rest);
+    if (space) {
+      index += space[0].length;
+      continue;
+    }
+
+    const time = /^\d{1,2}:\d{2}(?!\d)/.exec(rest);
+    const number = /^\d+(\.\d+)?/.exec(rest);
+    const identifier = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*/.exec(rest);
+    const quote = rest[0] === "'" || rest[0] === '"' ? rest[0] : null;
+    const operator = OPERATORS.find(candidate => rest.startsWith(candidate));
+
+    if (time) {
+      tokens.push({ kind: 'time', text: time[0], position: index });
+      index += time[0].length;
+    } else if (number) {
+      tokens.push({ kind: 'number', text: number[0], position: index });
+      index += number[0].length;
+    } else if (identifier) {
+      const kind = KEYWORDS.has(identifier[0].toLowerCase()) ? 'keyword' : 'identifier';
+      tokens.push({ kind, text: kind === 'keyword' ? identifier[0].toLowerCase() : identifier[0], position: index });
+      index += identifier[0].length;
+    } else if (quote) {
+      const close = source.indexOf(quote, index + 1);
+      if (close < 0) {
+        throw new RuleExpressionError('Text is missing its closing quote', index, source);
+      }
+      tokens.push({ kind: 'text', text: source.slice(index + 1, close), position: index });
+      index = close + 1;
+    } else if (operator) {
+      tokens.push({ kind: 'operator', text: operator, position: index });
+      index += operator.length;
+    } else {
+      throw new RuleExpressionError(`Unexpected character '${source[index]}'`, index, source);
+    }
+  }
+
+  tokens.push({ kind: 'end', text: '', position: source.length });
+  return tokens;
+}
+
+// Parser: or → and → not → comparison → value
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private source: string) {}
+
+  parse(): RuleExpression {
+    const expression = this.parseOr();
+    const next = this.peek();
+    if (next.kind !== 'end') {
+      throw this.error(`Unexpected '${next.text}'; join conditions with 'and' or 'or'`, next);
+    }
+    return expression;
+  }
+
+  private parseOr(): RuleExpression {
+    let left = this.parseAnd();
+    while (this.accept('keyword', 'or') || this.accept('operator', '||')) {
+      const position = this.previous().position;
+      left = { kind: 'logical', operator: 'or', left, right: this.parseAnd(), position };
+    }
+    return left;
+  }
+
+  private parseAnd(): RuleExpression {
+    let left = this.parseNot();
+    while (this.accept('keyword', 'and') || this.accept('operator', '&&')) {
+      const position = this.previous().position;
+      left = { kind: 'logical', operator: 'and', left, right: this.parseNot(), position };
+    }
+    return left;
+  }
+
+  private parseNot(): RuleExpression {
+    if (this.accept('keyword', 'not') || this.accept('operator', '!')) {
+      const position = this.previous().position;
+      return { kind: 'not', operand: this.parseNot(), position };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): RuleExpression {
+    const left = this.parseValue();
+    const token = this.peek();
+
+    if (token.kind === 'operator' && ['==', '=', '!=', '<', '<=', '>', '>='].includes(token.text)) {
+      this.index++;
+      const operator = (token.text === '=' ? '==' : token.text) as ComparisonOperator;
+      return { kind: 'compare', operator, left, right: this.parseValue(), position: token.position };
+    }
+
+    if (this.accept('keyword', 'in')) {
+      if (this.accept('operator', '[')) {
+        const items: RuleExpression[] = [];
+        if (!this.accept('operator', ']')) {
+          do {
+            items.push(this.parseValue());
+          } while (this.accept('operator', ','));
+          this.expect(']', "Expected ',' or ']' in the list");
+        }
+        return { kind: 'list', subject: left, items, position: token.position };
+      }
+
+      const low = this.parseValue();
+      this.expect('..', "Expected '..' in the range, e.g. 24..28");
+      return { kind: 'range', subject: left, low, high: this.parseValue(), position: token.position };
+    }
+
+    return left;
+  }
+
+  private parseValue(): RuleExpression {
+    const token = this.peek();
+
+    if (this.accept('operator', '(')) {
+      const expression = this.parseOr();
+      this.expect(')', "Expected ')'");
+      return expression;
+    }
+
+    this.index++;
+    switch (token.kind) {
+      case 'number':
+        return { kind: 'literal', type: 'number', value: parseFloat(token.text), position: token.position };
+      case 'time': {
+        const [hours, minutes] = token.text.split(':').map(Number);
+        if (hours > 23 || minutes > 59) {
+          throw this.error(`${token.text} is not a valid time`, token);
+        }
+        return { kind: 'literal', type: 'time', value: hours * 60 + minutes, position: token.position };
+      }
+      case 'text':
+        return { kind: 'literal', type: 'text', value: token.text, position: token.position };
+      case 'identifier':
+        return { kind: 'variable', name: token.text, position: token.position };
+      case 'keyword':
+        if (token.text === 'true' || token.text === 'false') {
+          return { kind: 'literal', type: 'boolean', value: token.text === 'true', position: token.position };
+        }
+        break;
+      case 'operator': {
+        const number = this.peek();
+        if (token.text === '-' && number.kind === 'number') {
+          this.index++;
+          return { kind: 'literal', type: 'number', value: -parseFloat(number.text), position: token.position };
+        }
+        break;
+      }
+    }
+
+    this.index--;
+    throw this.error(
+      token.kind === 'end' ? 'Condition ends too early; expected a value' : `Expected a value but found '${token.text}'`,
+      token
+    );
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private previous(): Token {
+    return this.tokens[this.index - 1];
+  }
+
+  private accept(kind: TokenKind, text: string): boolean {
+    const token = this.peek();
+    if (token.kind === kind && token.text === text) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(text: string, message: string): void {
+    if (!this.accept('operator', text)) throw this.error(message, this.peek());
+  }
+
+  private error(message: string, token: Token): RuleExpressionError {
+    return new RuleExpressionError(message, token.position, this.source);
+  }
+}
+
+/**
+ * Text as a literal to put in a condition. There are no escapes, so text
+ * with a single quote is written in double quotes; text with both kinds of
+ * quote can't be written and throws a RuleExpressionError.
+ */
+export function ruleTextLiteral(value: string): string {
+  if (!value.includes("'")) return `'${value}'`;
+  if (!value.includes('"')) return `"${value}"`;
+  throw new RuleExpressionError('Text cannot contain both single and double quotes', 0, value);
+}
+
+/**
+ * Parse a condition; throws a RuleExpressionError on a syntax error
+ */
+export function parseRuleExpression(source: string): RuleExpression {
+  if (source.trim() === '') {
+    throw new RuleExpressionError('Condition is empty', 0, source);
+  }
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new RuleExpressionError(`Condition is longer than ${MAX_EXPRESSION_LENGTH} characters`, MAX_EXPRESSION_LENGTH, source);
+  }
+  return new Parser(tokenize(source), source).parse();
+}
+
+// Type checking
+
+export function resolveRuleVariable(name: string): string {
+  return RULE_VARIABLE_ALIASES[name] ?? name;
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+function suggestVariable(name: string): string | null {
+  let best: string | null = null;
+  let bestDistance = 4;
+  for (const candidate of [...Object.keys(RULE_VARIABLES), ...Object.keys(RULE_VARIABLE_ALIASES)]) {
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function describe(expression: RuleExpression): string {
+  switch (expression.kind) {
+    case 'variable':
+      return expression.name;
+    case 'literal':
+      return expression.type === 'text' ? `'${expression.value}'` : String(formatLiteral(expression));
+    default:
+      return 'the condition';
+  }
+}
+
+function formatLiteral(expression: Extract<RuleExpression, { kind: 'literal' }>): string {
+  if (expression.type !== 'time') return String(expression.value);
+  const minutes = expression.value as number;
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+// The value type of an expression, or null once an issue has been reported for it
+function typeOf(expression: RuleExpression, issues: RuleExpressionIssue[]): RuleValueType | null {
+  const expectBoolean = (operand: RuleExpression) => {
+    const type = typeOf(operand, issues);
+    if (type !== null && type !== 'boolean') {
+      issues.push({
+        message: `${describe(operand)} is ${TYPE_LABELS[type]}, not a condition; compare it with something`,
+        position: operand.position
+      });
+    }
+  };
+  const expectSame = (subject: RuleExpression, other: RuleExpression, subjectType: RuleValueType | null) => {
+    const type = typeOf(other, issues);
+    if (subjectType !== null && type !== null && type !== subjectType) {
+      issues.push({
+        message: `Cannot compare ${describe(subject)} (${TYPE_LABELS[subjectType]}) with ${describe(other)} (${TYPE_LABELS[type]})`,
+        position: other.position
+      });
+    }
+  };
+
+  switch (expression.kind) {
+    case 'literal':
+      return expression.type;
+
+    case 'variable': {
+      const variable = RULE_VARIABLES[resolveRuleVariable(expression.name)];
+      if (variable) return variable.type;
+
+      const suggestion = suggestVariable(expression.name);
+      issues.push({
+        message: `Unknown variable '${expression.name}'${suggestion ? ` — did you mean '${suggestion}'?` : ''}`,
+        position: expression.position
+      });
+      return null;
+    }
+
+    case 'compare': {
+      const left = typeOf(expression.left, issues);
+      expectSame(expression.left, expression.right, left);
+      const ordered = !['==', '!='].includes(expression.operator);
+      if (ordered && (left === 'boolean' || left === 'text')) {
+        issues.push({
+          message: `'${expression.operator}' needs numbers or times; ${describe(expression.left)} is ${TYPE_LABELS[left]}`,
+          position: expression.position
+        });
+      }
+      return 'boolean';
+    }
+
+    case 'range': {
+      const subject = typeOf(expression.subject, issues);
+      if (subject === 'boolean' || subject === 'text') {
+        issues.push({
+          message: `Ranges need numbers or times; ${describe(expression.subject)} is ${TYPE_LABELS[subject]}`,
+          position: expression.position
+        });
+      }
+      expectSame(expression.subject, expression.low, subject);
+      expectSame(expression.subject, expression.high, subject);
+      return 'boolean';
+    }
+
+    case 'list': {
+      const subject = typeOf(expression.subject, issues);
+      if (expression.items.length === 0) {
+        issues.push({ message: 'The list is empty', position: expression.position });
+      }
+      expression.items.forEach(item => expectSame(expression.subject, item, subject));
+      return 'boolean';
+    }
+
+    case 'not':
+      expectBoolean(expression.operand);
+      return 'boolean';
+
+    case 'logical':
+      expectBoolean(expression.left);
+      expectBoolean(expression.right);
+      return 'boolean';
+  }
+}
+
+/**
+ * Every problem with a condition, in the order they appear; empty when valid
+ */
+export function validateRuleExpression(source: string): RuleExpressionIssue[] {
+  let expression: RuleExpression;
+  try {
+    expression = parseRuleExpression(source);
+  } catch (error) {
+    if (error instanceof RuleExpressionError) {
+      return [{ message: error.message, position: error.position }];
+    }
+    throw error;
+  }
+
+  const issues: RuleExpressionIssue[] = [];
+  const type = typeOf(expression, issues);
+  if (type !== null && type !== 'boolean') {
+    issues.push({
+      message: `${describe(expression)} is ${TYPE_LABELS[type]}, not a condition; compare it with something`,
+      position: expression.position
+    });
+  }
+  return issues.sort((a, b) => a.position - b.position);
+}
+
+// Evaluation, with undefined as "unknown"
+
+function valueOf(expression: RuleExpression, context: RuleContext): RuleValue | undefined {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value;
+    case 'variable':
+      return context[resolveRuleVariable(expression.name)];
+    default:
+      return evaluate(expression, context);
+  }
+}
+
+function compare(operator: ComparisonOperator, left: RuleValue, right: RuleValue): boolean {
+  switch (operator) {
+    case '==':
+      return typeof left === 'string' && typeof right === 'string'
+        ? left.toLowerCase() === right.toLowerCase()
+        : left === right;
+    case '!=':
+      return !compare('==', left, right);
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    case '>=':
+      return left >= right;
+  }
+}
+
+function isTimeRange(expression: Extract<RuleExpression, { kind: 'range' }>): boolean {
+  return [expression.subject, expression.low, expression.high].some(part =>
+    (part.kind === 'literal' && part.type === 'time') ||
+    (part.kind === 'variable' && RULE_VARIABLES[resolveRuleVariable(part.name)]?.type === 'time')
+  );
+}
+
+function evaluate(expression: RuleExpression, context: RuleContext): boolean | undefined {
+  switch (expression.kind) {
+    case 'literal':
+    case 'variable': {
+      const value = valueOf(expression, context);
+      return typeof value === 'boolean' ? value : undefined;
+    }
+
+    case 'compare': {
+      const left = valueOf(expression.left, context);
+      const right = valueOf(expression.right, context);
+      return left === undefined || right === undefined ? undefined : compare(expression.operator, left, right);
+    }
+
+    case 'range': {
+      const value = valueOf(expression.subject, context);
+      const low = valueOf(expression.low, context);
+      const high = valueOf(expression.high, context);
+      if (value === undefined || low === undefined || high === undefined) return undefined;
+
+      // 22:00..06:00 runs through midnight
+      if (isTimeRange(expression) && low > high) {
+        return value >= low || value <= high;
+      }
+      return value >= low && value <= high;
+    }
+
+    case 'list': {
+      const value = valueOf(expression.subject, context);
+      if (value === undefined) return undefined;
+
+      let unknown = false;
+      for (const item of expression.items) {
+        const candidate = valueOf(item, context);
+        if (candidate === undefined) {
+          unknown = true;
+        } else if (compare('==', value, candidate)) {
+          return true;
+        }
+      }
+      return unknown ? undefined : false;
+    }
+
+    case 'not': {
+      const operand = evaluate(expression.operand, context);
+      return operand === undefined ? undefined : !operand;
+    }
+
+    case 'logical': {
+      const left = evaluate(expression.left, context);
+      if (expression.operator === 'and' && left === false) return false;
+      if (expression.operator === 'or' && left === true) return true;
+
+      const right = evaluate(expression.right, context);
+      if (expression.operator === 'and') {
+        return right === false ? false : left === undefined || right === undefined ? undefined : true;
+      }
+      return right === true ? true : left === undefined || right === undefined ? undefined : false;
+    }
+  }
+}
+
+function collectVariables(expression: RuleExpression, names: Set<string>): Set<string> {
+  switch (expression.kind) {
+    case 'variable':
+      names.add(resolveRuleVariable(expression.name));
+      break;
+    case 'compare':
+    case 'logical':
+      collectVariables(expression.left, names);
+      collectVariables(expression.right, names);
+      break;
+    case 'range':
+      [expression.subject, expression.low, expression.high].forEach(part => collectVariables(part, names));
+      break;
+    case 'list':
+      [expression.subject, ...expression.items].forEach(part => collectVariables(part, names));
+      break;
+    case 'not':
+      collectVariables(expression.operand, names);
+      break;
+  }
+  return names;
+}
+
+/**
+ * Parse and type-check a condition once for repeated evaluation; throws a
+ * RuleExpressionError with the first problem when it isn't valid
+ */
+export function compileRuleExpression(source: string): CompiledRuleExpression {
+  const issues = validateRuleExpression(source);
+  if (issues.length > 0) {
+    throw new RuleExpressionError(issues[0].message, issues[0].position, source);
+  }
+
+  const expression = parseRuleExpression(source);
+  return {
+    source,
+    expression,
+    variables: [...collectVariables(expression, new Set())],
+    evaluate: context => evaluate(expression, context) === true,
+    test: context => evaluate(expression, context)
+  };
+}
+
+export const RULE_DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
@@ -0,0 +1,180 @@
+/**
+ * Schedule Times
+ *
+ * Turns a weekly schedule (days, HH:MM start and end) into concrete
+ * occurrences in a time zone. Times are wall-clock times in the schedule's
+ * zone, so a 07:00 schedule stays at 07:00 across daylight-saving changes;
+ * a time in an hour skipped by the clocks going forward runs that much later.
+ * An end time at or before the start time ends on the following day.
+ */
+
+export interface ScheduleWindow {
+  days: number[]; // 0-6 (Sunday-Saturday), the day the window starts
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+}
+
+export interface ScheduleOccurrence {
+  start: Date;
+  end: Date;
+  localDate: string; // YYYY-MM-DD the window starts on, in the schedule's zone
+}
+
+export interface ZonedDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0-6 (Sunday-Saturday)
+  minutes: number; // minutes past midnight
+}
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let format = formatters.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      weekday: 'short',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timeZone, format);
+  }
+  return format;
+}
+
+/**
+ * The time zone this runtime is in, e.g. 'Asia/Kolkata'
+ */
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Minutes past midnight for an HH:MM time; null when it isn't one
+ */
+export function parseClockTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * Calendar date and wall-clock time of an instant in a time zone
+ */
+export function zonedDate(date: Date, timeZone: string): ZonedDate {
+  const parts: Record<string, string> = {};
+  formatter(timeZone).formatToParts(date).forEach(part => {
+    parts[part.type] = part.value;
+  });
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute)
+  };
+}
+
+/**
+ * Offset of a zone from UTC at an instant, in ms
+ */
+function zoneOffset(instant: number, timeZone: string): number {
+  const parts: Record<string, string> = {};
+  formatter(timeZone).formatToParts(new Date(instant)).forEach(part => {
+    parts[part.type] = part.value;
+  });
+
+  const wallClock = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second)
+  );
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time occurs on a date in a zone. An ambiguous
+ * time (clocks going back) is its first occurrence; a time skipped by
+ * clocks going forward is moved later by the size of the jump.
+ */
+export function zonedInstant(year: number, month: number, day: number, minutes: number, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  const before = zoneOffset(wallClock - DAY, timeZone);
+  const after = zoneOffset(wallClock + DAY, timeZone);
+
+  // Try the offset from either side of any transition; keep the one that reads back as the requested time
+  const candidates = [wallClock - Math.max(before, after), wallClock - Math.min(before, after)];
+  const exact = candidates.find(instant => zoneOffset(instant, timeZone) + instant === wallClock);
+  return new Date(exact ?? wallClock - before);
+}
+
+/**
+ * Occurrences of a schedule window that overlap [from, to]
+ */
+export function scheduleOccurrences(
+  window: ScheduleWindow,
+  from: Date,
+  to: Date,
+  timeZone: string
+): ScheduleOccurrence[] {
+  const startMinutes = parseClockTime(window.startTime);
+  const endMinutes = parseClockTime(window.endTime);
+  if (startMinutes === null || endMinutes === null) return [];
+
+  const first = zonedDate(from, timeZone);
+  const last = zonedDate(to, timeZone);
+  const firstDay = Date.UTC(first.year, first.month - 1, first.day) - DAY; // an overnight window may have started the day before
+  const lastDay = Date.UTC(last.year, last.month - 1, last.day);
+  const occurrences: ScheduleOccurrence[] = [];
+
+  for (let day = firstDay; day <= lastDay; day += DAY) {
+    const date = new Date(day);
+    if (!window.days.includes(date.getUTCDay())) continue;
+
+    const next = new Date(day + DAY);
+    const endDate = endMinutes <= startMinutes ? next : date;
+    const start = zonedInstant(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), startMinutes, timeZone);
+    const end = zonedInstant(endDate.getUTCFullYear(), endDate.getUTCMonth() + 1, endDate.getUTCDate(), endMinutes, timeZone);
+
+    if (end > from && start <= to) {
+      occurrences.push({ start, end, localDate: date.toISOString().slice(0, 10) });
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * The occurrence in progress at an instant, if any
+ */
+export function occurrenceAt(window: ScheduleWindow, at: Date, timeZone: string): ScheduleOccurrence | null {
+  return scheduleOccurrences(window, at, at, timeZone).find(occurrence => occurrence.start <= at && at < occurrence.end) ?? null;
+}
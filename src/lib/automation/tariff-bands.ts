@@ -0,0 +1,64 @@
+/**
+ * Tariff Price Bands
+ *
+ * Time-of-use price bands for automation: the meter's configured tariff
+ * rate is the standard price, scaled up in the evening peak and down
+ * overnight. The periods match the `timeOfUse` context stored with every
+ * reading, so a rule that fires "at peak" agrees with the readings' costs.
+ */
+
+import type { SmartMeter } from '../firebase/schema';
+import { timeOfUseAt } from '../smart-meter/reading-ingestion';
+import { isValidTimeZone, zonedDate } from './schedule-times';
+
+export type TariffBand = 'off_peak' | 'standard' | 'peak';
+
+export interface TariffPlan {
+  baseRate: number; // per kWh, the standard band
+  currency: string;
+  timeZone: string; // IANA zone the bands' hours are in, the meter's
+  multipliers: Record<TariffBand, number>; // price relative to the base rate
+}
+
+export interface TariffPrice {
+  band: TariffBand;
+  rate: number; // per kWh
+  peak: boolean;
+}
+
+export const TARIFF_BANDS: TariffBand[] = ['off_peak', 'standard', 'peak'];
+
+export const DEFAULT_TARIFF_PLAN: TariffPlan = {
+  baseRate: 6.5,
+  currency: 'INR',
+  timeZone: 'Asia/Kolkata',
+  multipliers: {
+    off_peak: 0.8,
+    standard: 1,
+    peak: 1.3
+  }
+};
+
+/**
+ * The plan for a meter's configured tariff
+ */
+export function tariffPlanFromMeter(meter: Pick<SmartMeter, 'config'>): TariffPlan {
+  return {
+    ...DEFAULT_TARIFF_PLAN,
+    baseRate: meter.config.tariffRate,
+    currency: meter.config.currency,
+    ...(isValidTimeZone(meter.config.timezone) && { timeZone: meter.config.timezone })
+  };
+}
+
+/**
+ * Band and price at a moment, by the wall clock in the plan's time zone
+ */
+export function tariffAt(plan: TariffPlan, date: Date): TariffPrice {
+  const band = timeOfUseAt(Math.floor(zonedDate(date, plan.timeZone).minutes / 60));
+  return {
+    band,
+    rate: Math.round(plan.baseRate * plan.multipliers[band] * 100) / 100,
+    peak: band === 'peak'
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Weather Conditions for Automation
+ *
+ * Live outdoor conditions for weather triggers, from `/api/weather`
+ * (OpenWeather, or its mock fallback), reduced to the values rule
+ * expressions can read.
+ */
+
+export interface WeatherLocation {
+  lat: number;
+  lon: number;
+}
+
+export interface WeatherConditions {
+  temperature: number; // °C
+  humidity: number; // %
+  condition: string; // lower-cased OpenWeather main group: 'clear', 'clouds', 'rain', 'haze' …
+  location: string;
+  observedAt: Date;
+}
+
+// Hyderabad, as elsewhere in the app until the user's location is known
+export const DEFAULT_WEATHER_LOCATION: WeatherLocation = { lat: 17.385, lon: 78.4867 };
+
+/**
+ * Reduce an `/api/weather` response; null when it has no temperature
+ */
+export function normalizeWeather(data: any): WeatherConditions | null {
+  const temperature = Number(data?.main?.temp);
+  if (!Number.isFinite(temperature)) return null;
+
+  const humidity = Number(data.main.humidity);
+  return {
+    temperature,
+    humidity: Number.isFinite(humidity) ? humidity : 0,
+    condition: String(data.weather?.[0]?.main ?? 'unknown').toLowerCase(),
+    location: data.name || 'Current Location',
+    observedAt: typeof data.dt === 'number' ? new Date(data.dt * 1000) : new Date()
+  };
+}
+
+export async function fetchWeatherConditions(location: WeatherLocation): Promise<WeatherConditions> {
+  const response = await fetch(`/api/weather?lat=${location.lat}&lon=${location.lon}`);
+  if (!response.ok) {
+    throw new Error(`Weather request failed with status ${response.status}`);
+  }
+
+  const conditions = normalizeWeather(await response.json());
+  if (!conditions) {
+    throw new Error('Weather response has no temperature');
+  }
+  return conditions;
+}
+
+/**
+ * Past conditions between two moments, oldest first, from
+ * `/api/weather/history` (one sample every three hours)
+ */
+export async function fetchWeatherHistory(location: WeatherLocation, start: Date, end: Date): Promise<WeatherConditions[]> {
+  const response = await fetch(
+    `/api/weather/history?lat=${location.lat}&lon=${location.lon}&start=${Math.floor(start.getTime() / 1000)}&end=${Math.floor(end.getTime() / 1000)}`
+  );
+  if (!response.ok) {
+    throw new Error(`Weather history request failed with status ${response.status}`);
+  }
+
+  const data = await response.json();
+  return (data.hourly ?? [])
+    .map(normalizeWeather)
+    .filter((conditions: WeatherConditions | null): conditions is WeatherConditions => conditions !== null);
+}
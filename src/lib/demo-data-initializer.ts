@@ -17,8 +17,24 @@ export interface DemoApplianceConfig {
   room: string;
   category: 'essential' | 'comfort' | 'entertainment' | 'productivity';
   energyGoal?: number;
+  subMeter?: string; // key of the demo sub-meter it sits behind; the main meter otherwise
 }
 
+export interface DemoSubMeterConfig {
+  key: string;
+  label: string;
+  accountingGroup: string;
+}
+
+// A rented-out floor on its own sub-meter, billed separately
+const DEMO_SUB_METERS: DemoSubMeterConfig[] = [
+  {
+    key: 'first_floor',
+    label: 'First floor (rented)',
+    accountingGroup: 'tenant'
+  }
+];
+
 // Sample appliances for demo purposes
 const DEMO_APPLIANCES: DemoApplianceConfig[] = [
   {
@@ -84,12 +100,31 @@ const DEMO_APPLIANCES: DemoApplianceConfig[] = [
     room: 'Dining Room',
     category: 'essential',
     energyGoal: 12
+  },
+  {
+    name: 'First Floor AC',
+    brand: 'Voltas',
+    type: 'ac_meter',
+    room: 'First Floor',
+    category: 'comfort',
+    energyGoal: 250,
+    subMeter: 'first_floor'
+  },
+  {
+    name: 'First Floor Lights',
+    brand: 'Syska',
+    type: 'light',
+    room: 'First Floor',
+    category: 'essential',
+    energyGoal: 10,
+    subMeter: 'first_floor'
   }
 ];
 
 class DemoDataInitializer {
   private initialized = false;
   private registeredDeviceIds: string[] = [];
+  private subMeterIds: Map<string, string> = new Map(); // demo key -> meter ID
 
   /**
    * Initialize demo data by adding sample appliances
@@ -106,6 +141,19 @@ class DemoDataInitializer {
       // Wait for smart meter system to be ready
       await this.waitForSmartMeterSystem();
 
+      // Add the demo sub-meters behind the main meter
+      for (const subMeter of DEMO_SUB_METERS) {
+        try {
+          const meterId = smartMeterSystem.addMeter({
+            label: subMeter.label,
+            accountingGroup: subMeter.accountingGroup
+          });
+          this.subMeterIds.set(subMeter.key, meterId);
+        } catch (error) {
+          console.error(`Failed to add demo sub-meter ${subMeter.label}:`, error);
+        }
+      }
+
       // Register all demo appliances
       for (const appliance of DEMO_APPLIANCES) {
         try {
@@ -116,7 +164,8 @@ class DemoDataInitializer {
             location: 'Demo Home',
             room: appliance.room,
             category: appliance.category,
-            energyGoal: appliance.energyGoal
+            energyGoal: appliance.energyGoal,
+            meterId: appliance.subMeter ? this.subMeterIds.get(appliance.subMeter) : undefined
           });
 
           this.registeredDeviceIds.push(deviceId);
@@ -173,6 +222,16 @@ class DemoDataInitializer {
       }
 
       this.registeredDeviceIds = [];
+
+      for (const meterId of this.subMeterIds.values()) {
+        try {
+          smartMeterSystem.removeMeter(meterId);
+        } catch (error) {
+          console.error(`Failed to remove demo sub-meter ${meterId}:`, error);
+        }
+      }
+      this.subMeterIds.clear();
+
       this.initialized = false;
       console.log('Demo data cleared');
     } catch (error) {
@@ -200,7 +259,8 @@ class DemoDataInitializer {
         location: 'Demo Home',
         room: appliance.room,
         category: appliance.category,
-        energyGoal: appliance.energyGoal
+        energyGoal: appliance.energyGoal,
+        meterId: appliance.subMeter ? this.subMeterIds.get(appliance.subMeter) : undefined
       });
 
       this.registeredDeviceIds.push(deviceId);
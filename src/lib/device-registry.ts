@@ -2,16 +2,22 @@
  * Smart Meter Device Registry
  * 
  * Manages the registration, tracking, and integration of all appliances
- * and devices with the single smart meter system.
+ * and devices with the household's smart meters. Each appliance is wired
+ * behind exactly one meter: the main meter unless a sub-meter is given.
  */
 
 import { SmartMeterDevice } from './types';
 import { smartMeterSystem, ApplianceUsagePattern } from './smart-meter-system';
 import type { DeviceInfo } from './onboarding-manager';
+import { smartHomeController, SmartDevice } from './smart-home-controller';
+import { AutomationRule, automationRuleId } from './automation/automation-rule';
+
+export type { AutomationRule } from './automation/automation-rule';
 
 export interface RegisteredDevice extends SmartMeterDevice {
   // Additional registry-specific fields
   registrationDate: Date;
+  meterId: string; // meter the appliance is connected behind
   category: 'essential' | 'comfort' | 'entertainment' | 'productivity';
   room: string;
   nickname?: string;
@@ -21,16 +27,6 @@ export interface RegisteredDevice extends SmartMeterDevice {
   maintenanceSchedule?: MaintenanceSchedule;
 }
 
-export interface AutomationRule {
-  id: string;
-  name: string;
-  trigger: 'time' | 'usage' | 'weather' | 'occupancy';
-  condition: Record<string, any>;
-  action: 'turn_on' | 'turn_off' | 'adjust_setting' | 'send_alert';
-  parameters: Record<string, any>;
-  enabled: boolean;
-}
-
 export interface MaintenanceSchedule {
   lastMaintenanceDate?: Date;
   nextMaintenanceDate?: Date;
@@ -47,8 +43,19 @@ export interface DeviceRegistrationRequest {
   category: RegisteredDevice['category'];
   nickname?: string;
   energyGoal?: number;
+  meterId?: string; // the main meter when omitted
 }
 
+// Rated power (W) a registered device is controlled with; meters don't report it
+const RATED_POWER: Record<SmartMeterDevice['type'], number> = {
+  main_meter: 0,
+  plug_meter: 1000,
+  ac_meter: 1500,
+  appliance_meter: 1000,
+  light: 60,
+  outlet: 1000
+};
+
 export interface DeviceStats {
   totalDevices: number;
   activeDevices: number;
@@ -88,7 +95,7 @@ class DeviceRegistryManager {
       };
 
       // Add device to smart meter system
-      const deviceId = await smartMeterSystem.addAppliance(smartMeterDevice);
+      const deviceId = await smartMeterSystem.addAppliance(smartMeterDevice, request.meterId);
 
       // Create registry entry
       const registeredDevice: RegisteredDevice = {
@@ -96,6 +103,7 @@ class DeviceRegistryManager {
         id: deviceId,
         lastReading: new Date(),
         registrationDate: new Date(),
+        meterId: smartMeterSystem.getMeterForDevice(deviceId)!,
         category: request.category,
         room: request.room,
         nickname: request.nickname,
@@ -163,6 +171,7 @@ class DeviceRegistryManager {
         // Remove from registry
         this.devices.delete(deviceId);
         this.deviceCategories.delete(deviceId);
+        smartHomeController.removeDevice(deviceId);
         
         // Notify subscribers
         this.notifySubscribers();
@@ -206,6 +215,13 @@ class DeviceRegistryManager {
     return this.getAllDevices().filter(device => device.room === room);
   }
 
+  /**
+   * Get devices connected behind a meter
+   */
+  getDevicesByMeter(meterId: string): RegisteredDevice[] {
+    return this.getAllDevices().filter(device => device.meterId === meterId);
+  }
+
   /**
    * Get devices by type
    */
@@ -242,17 +258,22 @@ class DeviceRegistryManager {
   }
 
   /**
-   * Add automation rule to device
+   * Add automation rule to device. The smart home controller runs it, taking
+   * the device under its control; throws a RuleExpressionError when the
+   * condition isn't a valid rule expression.
    */
-  addAutomationRule(deviceId: string, rule: Omit<AutomationRule, 'id'>): string | null {
+  addAutomationRule(deviceId: string, rule: Omit<AutomationRule, 'id' | 'deviceId'>): string | null {
     const device = this.devices.get(deviceId);
     if (!device) return null;
 
-    const ruleId = `rule_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
+    const ruleId = automationRuleId();
     const automationRule: AutomationRule = {
       ...rule,
-      id: ruleId
+      id: ruleId,
+      deviceId
     };
+    smartHomeController.addDevice(this.controlledDevice(device));
+    smartHomeController.registerAutomationRule(automationRule);
 
     device.automationRules = device.automationRules || [];
     device.automationRules.push(automationRule);
@@ -275,6 +296,7 @@ class DeviceRegistryManager {
     device.automationRules = device.automationRules.filter(rule => rule.id !== ruleId);
 
     if (device.automationRules.length < initialLength) {
+      smartHomeController.removeAutomationRule(ruleId);
       this.devices.set(deviceId, device);
       this.notifySubscribers();
       console.log(`Automation rule removed from device ${deviceId}: ${ruleId}`);
@@ -285,11 +307,11 @@ class DeviceRegistryManager {
   }
 
   /**
-   * Get device statistics
+   * Get device statistics, for one meter or across all of them
    */
-  getDeviceStats(): DeviceStats {
-    const devices = this.getAllDevices();
-    const smartMeterDevices = smartMeterSystem.getConnectedDevices();
+  getDeviceStats(meterId?: string): DeviceStats {
+    const devices = meterId ? this.getDevicesByMeter(meterId) : this.getAllDevices();
+    const smartMeterDevices = smartMeterSystem.getConnectedDevices(meterId);
 
     const activeDevices = smartMeterDevices.filter(d => d.isOnline).length;
     const totalEnergyConsumption = smartMeterDevices.reduce((sum, d) => sum + (d.currentUsage || 0), 0);
@@ -403,6 +425,7 @@ class DeviceRegistryManager {
         registryDevice.isOnline = smDevice.isOnline;
         registryDevice.temperature = smDevice.temperature;
         registryDevice.status = smDevice.status;
+        registryDevice.meterId = smartMeterSystem.getMeterForDevice(smDevice.id) || registryDevice.meterId;
 
         this.devices.set(smDevice.id, registryDevice);
         hasChanges = true;
@@ -415,6 +438,7 @@ class DeviceRegistryManager {
       if (!smartMeterDeviceIds.has(deviceId)) {
         this.devices.delete(deviceId);
         this.deviceCategories.delete(deviceId);
+        smartHomeController.removeDevice(deviceId);
         hasChanges = true;
       }
     }
@@ -424,6 +448,38 @@ class DeviceRegistryManager {
     }
   }
 
+  /**
+   * The device as the smart home controller runs automation rules on it
+   */
+  private controlledDevice(device: RegisteredDevice): SmartDevice {
+    const isOn = device.status !== 'off';
+    return {
+      id: device.id,
+      name: device.nickname || device.location,
+      type: device.type === 'ac_meter' ? 'ac' : device.type === 'light' ? 'light' : 'appliance',
+      brand: device.brand,
+      model: device.type,
+      room: device.room.toLowerCase().replace(/\s+/g, '_'),
+      isOnline: device.isOnline,
+      isOn,
+      lastUpdated: device.lastReading,
+      powerRating: RATED_POWER[device.type],
+      currentPowerUsage: isOn ? device.currentUsage * 1000 : 0,
+      dailyEnergyUsage: device.dailyUsage ?? 0,
+      monthlyEnergyUsage: device.monthlyUsage ?? 0,
+      temperature: device.temperature,
+      targetTemperature: device.temperature,
+      brightness: device.type === 'light' ? 100 : undefined,
+      schedule: [],
+      automationRules: [],
+      efficiencyRating: 'A',
+      energySavingMode: false,
+      firmware: 'unknown',
+      connectivity: 'wifi',
+      signalStrength: 100
+    };
+  }
+
   /**
    * Infer device category from type
    */
@@ -2,6 +2,12 @@
 
 import { smartHomeController } from './smart-home-controller';
 import { aiEnergyCoach } from './ai-energy-coach';
+import {
+  NetMeteringCalculator,
+  solarGenerationFactor,
+  type NetMeteringConfig,
+  type NetMeteringMode
+} from './smart-meter/net-metering';
 
 // Analytics Types and Interfaces
 export interface EnergyDataPoint {
@@ -12,6 +18,9 @@ export interface EnergyDataPoint {
   efficiency: number; // 0-100%
   carbonFootprint: number; // kg CO2
   deviceBreakdown: Record<string, number>; // device_id: consumption
+  imported?: number; // kWh drawn from the grid (solar homes)
+  exported?: number; // kWh fed into the grid (solar homes)
+  solarGeneration?: number; // kWh
   weather?: {
     temperature: number;
     humidity: number;
@@ -19,6 +28,11 @@ export interface EnergyDataPoint {
   };
 }
 
+export interface SolarProfile {
+  capacityKw: number;
+  netMetering?: Partial<NetMeteringConfig>;
+}
+
 export interface AnalyticsTimeframe {
   period: 'hour' | 'day' | 'week' | 'month' | 'year';
   start: string;
@@ -97,6 +111,21 @@ export interface CostAnalysis {
     winter: { average: number; peak: number };
     monsoon: { average: number; peak: number };
   };
+  netMetering?: {
+    mode: NetMeteringMode;
+    imported: number; // kWh
+    exported: number; // kWh
+    net: number; // kWh, imported - exported
+    generation: number; // kWh
+    billedUnits: number;
+    bankedUnits: number; // carried forward to later cycles
+    energyCharges: number;
+    exportCredit: number;
+    netCost: number;
+    feedInTariff: number;
+    selfConsumptionRatio: number;
+    selfSufficiencyRatio: number;
+  };
 }
 
 export interface CarbonFootprintAnalysis {
@@ -113,6 +142,12 @@ export interface CarbonFootprintAnalysis {
     energyEfficiency: number;
     behavioralChanges: number;
   };
+  solar?: {
+    generation: number; // kWh
+    avoidedEmissions: number; // kg CO2 not drawn from the grid
+    exportedOffset: number; // kg CO2 displaced by exported units
+    selfConsumptionRatio: number;
+  };
 }
 
 export interface PredictiveInsight {
@@ -142,6 +177,7 @@ class EnergyAnalyticsEngine {
   private patterns: ConsumptionPattern[] = [];
   private mlInsights: MLInsight[] = [];
   private benchmarkData: Map<string, BenchmarkComparison[]> = new Map();
+  private solarProfile: SolarProfile | null = null;
   
   constructor() {
     this.initializeAnalytics();
@@ -210,7 +246,7 @@ class EnergyAnalyticsEngine {
         }
       };
       
-      dataPoints.push(dataPoint);
+      dataPoints.push(this.applySolar(dataPoint));
     }
     
     this.dataPoints = dataPoints;
@@ -429,9 +465,26 @@ class EnergyAnalyticsEngine {
     };
   }
 
+  /**
+   * Configure rooftop solar for the household. Consumption stays the
+   * household demand; cost and carbon follow the grid import only.
+   */
+  public configureSolar(profile: SolarProfile | null): void {
+    this.solarProfile = profile && profile.capacityKw > 0 ? profile : null;
+    this.dataPoints = this.dataPoints.map(point => this.applySolar(point));
+  }
+
+  public getSolarProfile(): SolarProfile | null {
+    return this.solarProfile;
+  }
+
   public analyzeCosts(): CostAnalysis {
     const monthlyData = this.dataPoints.slice(-30);
-    const totalCost = monthlyData.reduce((sum, d) => sum + d.cost, 0);
+    const netMetering = this.analyzeNetMetering(monthlyData);
+    // Grid charges less credit for exported units
+    const totalCost = netMetering
+      ? netMetering.netCost
+      : monthlyData.reduce((sum, d) => sum + d.cost, 0);
     
     // Device-wise cost breakdown
     const breakdown: Record<string, number> = {};
@@ -459,7 +512,8 @@ class EnergyAnalyticsEngine {
         summer: { average: totalCost * 1.3, peak: totalCost * 1.8 },
         winter: { average: totalCost * 0.8, peak: totalCost * 1.1 },
         monsoon: { average: totalCost * 0.9, peak: totalCost * 1.2 }
-      }
+      },
+      ...(netMetering && { netMetering })
     };
   }
 
@@ -476,6 +530,14 @@ class EnergyAnalyticsEngine {
       }, 0);
     });
     
+    const netMetering = this.analyzeNetMetering(monthlyData);
+    const solar = netMetering && {
+      generation: netMetering.generation,
+      avoidedEmissions: (netMetering.generation - netMetering.exported) * 0.82,
+      exportedOffset: netMetering.exported * 0.82,
+      selfConsumptionRatio: netMetering.selfConsumptionRatio
+    };
+
     return {
       currentMonth,
       yearToDate: currentMonth * 9, // Simulated 9 months of data
@@ -486,10 +548,12 @@ class EnergyAnalyticsEngine {
       },
       sources,
       offsetOpportunities: {
-        solarPotential: currentMonth * 0.6,
+        // Existing systems have already captured most of the solar potential
+        solarPotential: currentMonth * (solar ? 0.2 : 0.6),
         energyEfficiency: currentMonth * 0.25,
         behavioralChanges: currentMonth * 0.15
-      }
+      },
+      ...(solar && { solar })
     };
   }
 
@@ -707,6 +771,72 @@ class EnergyAnalyticsEngine {
     ];
   }
 
+  // Split a point's demand into solar self-consumption, grid import and export
+  private applySolar(point: EnergyDataPoint): EnergyDataPoint {
+    const { imported, exported, solarGeneration, ...rest } = point;
+
+    if (!this.solarProfile) {
+      // Demand is fully met from the grid
+      return {
+        ...rest,
+        cost: rest.consumption * 6.5,
+        carbonFootprint: rest.consumption * 0.82
+      };
+    }
+
+    const hour = new Date(point.timestamp).getHours();
+    const generation = this.solarProfile.capacityKw * solarGenerationFactor(hour, point.weather?.condition);
+    const gridImport = Math.max(0, rest.consumption - generation);
+
+    return {
+      ...rest,
+      imported: gridImport,
+      exported: Math.max(0, generation - rest.consumption),
+      solarGeneration: generation,
+      cost: gridImport * 6.5,
+      carbonFootprint: gridImport * 0.82
+    };
+  }
+
+  private analyzeNetMetering(data: EnergyDataPoint[]): CostAnalysis['netMetering'] {
+    if (!this.solarProfile) return undefined;
+
+    const calculator = new NetMeteringCalculator(this.solarProfile.netMetering);
+    const config = calculator.getConfig();
+    const series = data.map(point => {
+      const imported = point.imported ?? point.consumption;
+      const exported = point.exported ?? 0;
+      return {
+        timestamp: point.timestamp,
+        imported,
+        exported,
+        net: imported - exported,
+        generation: point.solarGeneration ?? 0,
+        selfConsumed: Math.max(0, (point.solarGeneration ?? 0) - exported)
+      };
+    });
+
+    const settlement = calculator.settle(calculator.groupByCycle(series));
+    const selfConsumption = calculator.selfConsumption(series);
+    const lastStatement = settlement.statements[settlement.statements.length - 1];
+
+    return {
+      mode: config.mode,
+      imported: settlement.totals.imported,
+      exported: settlement.totals.exported,
+      net: Math.round((settlement.totals.imported - settlement.totals.exported) * 100) / 100,
+      generation: selfConsumption.generation,
+      billedUnits: settlement.totals.billedUnits,
+      bankedUnits: lastStatement?.bankBalance ?? 0,
+      energyCharges: settlement.totals.energyCharges,
+      exportCredit: settlement.totals.exportCredit,
+      netCost: settlement.totals.netAmount,
+      feedInTariff: config.feedInTariff,
+      selfConsumptionRatio: selfConsumption.selfConsumptionRatio,
+      selfSufficiencyRatio: selfConsumption.selfSufficiencyRatio
+    };
+  }
+
   private startAnalyticsEngine(): void {
     // Update analytics every hour
     setInterval(() => {
@@ -740,7 +870,7 @@ class EnergyAnalyticsEngine {
       }
     };
     
-    this.dataPoints.push(newDataPoint);
+    this.dataPoints.push(this.applySolar(newDataPoint));
     
     // Keep only last 90 days of data
     if (this.dataPoints.length > 90 * 24) {
@@ -4,7 +4,7 @@ import { getAuth } from "firebase/auth";
 import { getFirestore } from "firebase/firestore";
 
 // Your web app's Firebase configuration
-const firebaseConfig = {
+export const firebaseConfig = {
   "projectId": "studio-4138116741-823dc",
   "appId": "1:10602876888:web:e4d0a201e6b6067c93ecad",
   "storageBucket": "studio-4138116741-823dc.firebasestorage.app",
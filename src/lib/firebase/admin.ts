@@ -0,0 +1,45 @@
+/**
+ * Firebase Admin
+ *
+ * Server-only Firestore and Auth access with the project's service account,
+ * for collections that security rules close to clients and for verifying
+ * ID tokens. Credentials come from `FIREBASE_SERVICE_ACCOUNT` (the service
+ * account key JSON) or, when it is unset, the runtime's application default
+ * credentials (App Hosting, Cloud Run, `GOOGLE_APPLICATION_CREDENTIALS`).
+ */
+
+import { App, applicationDefault, cert, getApps, initializeApp } from 'firebase-admin/app';
+import { Auth, getAuth } from 'firebase-admin/auth';
+import { Firestore, getFirestore } from 'firebase-admin/firestore';
+import { firebaseConfig } from '../firebase';
+
+const ADMIN_APP_NAME = 'ecoquest-admin';
+
+let firestore: Firestore | null = null;
+let auth: Auth | null = null;
+
+function adminApp(): App {
+  if (typeof window !== 'undefined') {
+    throw new Error('The Firebase Admin SDK is only available on the server');
+  }
+
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT;
+  return getApps().find(existing => existing.name === ADMIN_APP_NAME) ?? initializeApp({
+    credential: serviceAccount ? cert(JSON.parse(serviceAccount)) : applicationDefault(),
+    projectId: firebaseConfig.projectId
+  }, ADMIN_APP_NAME);
+}
+
+export function adminFirestore(): Firestore {
+  if (!firestore) {
+    firestore = getFirestore(adminApp());
+  }
+  return firestore;
+}
+
+export function adminAuth(): Auth {
+  if (!auth) {
+    auth = getAuth(adminApp());
+  }
+  return auth;
+}
@@ -31,7 +31,9 @@ import {
   DocumentSnapshot,
   Unsubscribe,
   enableNetwork,
-  disableNetwork
+  disableNetwork,
+  documentId,
+  SetOptions
 } from 'firebase/firestore';
 
 import { db } from './firebase';
@@ -42,11 +44,16 @@ import {
   SmartMeter,
   Device,
   EnergyReading,
+  ReadingRollup,
+  RollupResolution,
   Quest,
   UserQuest,
   AnalyticsData,
   Notification,
   BillingInfo,
+  PowerQualityEvent,
+  OutageEvent,
+  AutomationAuditRecord,
   CollectionQuery,
   DocumentReference as CustomDocumentReference
 } from './schema';
@@ -308,6 +315,30 @@ export class FirestoreService {
     }
   }
 
+  /**
+   * Which of `ids` have a document, asked 30 at a time (the most an `in`
+   * filter takes). `filters` should narrow the query enough for the
+   * security rules to allow it, e.g. to the caller's own documents.
+   */
+  async existingIds(collectionName: string, ids: string[], filters: [string, any, any][] = []): Promise<Set<string>> {
+    try {
+      const existing = new Set<string>();
+      for (let i = 0; i < ids.length; i += 30) {
+        let q = collection(db, collectionName) as Query;
+        for (const [field, operator, value] of filters) {
+          q = query(q, where(field, operator, value));
+        }
+        q = query(q, where(documentId(), 'in', ids.slice(i, i + 30)));
+
+        const querySnapshot = await getDocs(q);
+        querySnapshot.docs.forEach(doc => existing.add(doc.id));
+      }
+      return existing;
+    } catch (error) {
+      throw this.handleError(error, 'existingIds', { collectionName, count: ids.length });
+    }
+  }
+
   /**
    * Real-time listener for a document
    */
@@ -414,33 +445,20 @@ export class FirestoreService {
    */
   async batch(operations: BatchOperation[]): Promise<void> {
     try {
-      const batch = writeBatch(db);
-      
-      for (const op of operations) {
-        const docRef = doc(db, op.collection, op.id);
-        
-        switch (op.type) {
-          case 'set':
-            batch.set(docRef, {
-              ...op.data,
-              createdAt: serverTimestamp(),
-              updatedAt: serverTimestamp()
-            });
-            break;
-          case 'update':
-            batch.update(docRef, {
-              ...op.data,
-              updatedAt: serverTimestamp()
-            });
-            break;
-          case 'delete':
-            batch.delete(docRef);
-            break;
-        }
+      if (operations.some(op => op.maximum)) {
+        // Keeping a maximum needs the stored value, so read and write in one transaction
+        await runTransaction(db, async transaction => {
+          const stored = await Promise.all(
+            operations.map(op => op.maximum ? transaction.get(doc(db, op.collection, op.id)) : undefined)
+          );
+          operations.forEach((op, index) => this.writeOperation(transaction, op, stored[index]));
+        });
+      } else {
+        const batch = writeBatch(db);
+        operations.forEach(op => this.writeOperation(batch, op));
+        await batch.commit();
       }
 
-      await batch.commit();
-
       // Invalidate relevant cache entries
       for (const op of operations) {
         this.cache.invalidate(this.getCacheKey(op.collection, op.id));
@@ -451,6 +469,39 @@ export class FirestoreService {
     }
   }
 
+  private writeOperation(writer: DocumentWriter, op: BatchOperation, stored?: DocumentSnapshot): void {
+    const docRef = doc(db, op.collection, op.id);
+    const data = { ...op.data };
+
+    for (const [field, value] of Object.entries(op.maximum || {})) {
+      const current = stored?.get(field);
+      data[field] = typeof current === 'number' ? Math.max(current, value) : value;
+    }
+
+    switch (op.type) {
+      case 'set':
+        if (op.merge) {
+          writer.set(docRef, { ...data, updatedAt: serverTimestamp() }, { merge: true });
+        } else {
+          writer.set(docRef, {
+            ...data,
+            createdAt: serverTimestamp(),
+            updatedAt: serverTimestamp()
+          });
+        }
+        break;
+      case 'update':
+        writer.update(docRef, {
+          ...data,
+          updatedAt: serverTimestamp()
+        });
+        break;
+      case 'delete':
+        writer.delete(docRef);
+        break;
+    }
+  }
+
   /**
    * Transaction operations
    */
@@ -562,6 +613,38 @@ export class FirestoreService {
     });
   }
 
+  async getMeterReadingsByDateRange(
+    smartMeterId: string,
+    startDate: Timestamp,
+    endDate: Timestamp
+  ): Promise<EnergyReading[]> {
+    return this.query<EnergyReading>(COLLECTIONS.READINGS, {
+      where: [
+        ['smartMeterId', '==', smartMeterId],
+        ['reading.timestamp', '>=', startDate],
+        ['reading.timestamp', '<=', endDate]
+      ],
+      orderBy: [['reading.timestamp', 'asc']]
+    });
+  }
+
+  async getReadingRollups(
+    smartMeterId: string,
+    resolution: RollupResolution,
+    startDate: Timestamp,
+    endDate: Timestamp
+  ): Promise<ReadingRollup[]> {
+    return this.query<ReadingRollup>(COLLECTIONS.READING_ROLLUPS, {
+      where: [
+        ['smartMeterId', '==', smartMeterId],
+        ['resolution', '==', resolution],
+        ['periodStart', '>=', startDate],
+        ['periodStart', '<=', endDate]
+      ],
+      orderBy: [['periodStart', 'asc']]
+    });
+  }
+
   /**
    * Quest System
    */
@@ -631,6 +714,113 @@ export class FirestoreService {
     });
   }
 
+  /**
+   * Power Quality Events
+   */
+  async savePowerQualityEvent(
+    event: Omit<PowerQualityEvent, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<PowerQualityEvent> {
+    return this.create<PowerQualityEvent>(COLLECTIONS.POWER_QUALITY_EVENTS, event);
+  }
+
+  async getPowerQualityEvents(smartMeterId: string, limit: number = 100): Promise<PowerQualityEvent[]> {
+    return this.query<PowerQualityEvent>(COLLECTIONS.POWER_QUALITY_EVENTS, {
+      where: [['smartMeterId', '==', smartMeterId]],
+      orderBy: [['event.startTime', 'desc']],
+      limit
+    });
+  }
+
+  /**
+   * Outage Events
+   */
+  async saveOutageEvent(
+    event: Omit<OutageEvent, 'id' | 'createdAt' | 'updatedAt'>,
+    eventId?: string
+  ): Promise<OutageEvent> {
+    return this.create<OutageEvent>(COLLECTIONS.OUTAGE_EVENTS, event, eventId);
+  }
+
+  async updateOutageEvent(eventId: string, updates: Partial<OutageEvent>): Promise<void> {
+    return this.update<OutageEvent>(COLLECTIONS.OUTAGE_EVENTS, eventId, updates);
+  }
+
+  async getOutageEvents(smartMeterId: string, limit: number = 50): Promise<OutageEvent[]> {
+    return this.query<OutageEvent>(COLLECTIONS.OUTAGE_EVENTS, {
+      where: [['smartMeterId', '==', smartMeterId]],
+      orderBy: [['outage.startTime', 'desc']],
+      limit
+    });
+  }
+
+  async getOngoingOutages(userId: string): Promise<OutageEvent[]> {
+    return this.query<OutageEvent>(COLLECTIONS.OUTAGE_EVENTS, {
+      where: [
+        ['userId', '==', userId],
+        ['outage.ongoing', '==', true]
+      ]
+    });
+  }
+
+  /**
+   * Automation Audit Log
+   */
+  async saveAutomationAuditRecords(
+    records: Omit<AutomationAuditRecord, 'id' | 'createdAt' | 'updatedAt'>[]
+  ): Promise<void> {
+    // One evaluation and at most one action per rule per check, so a retried write replaces rather than repeats
+    const operations: BatchOperation[] = records.map(record => ({
+      type: 'set',
+      collection: COLLECTIONS.AUTOMATION_AUDIT,
+      id: `${record.userId}_${record.ruleId}_${record.at.toMillis()}_${record.kind}`,
+      data: record
+    }));
+
+    for (let i = 0; i < operations.length; i += this.config.batchSize) {
+      await this.batch(operations.slice(i, i + this.config.batchSize));
+    }
+  }
+
+  /**
+   * Delete a user's audit records from before `before`; returns how many were deleted
+   */
+  async deleteAutomationAuditRecordsBefore(userId: string, before: Timestamp): Promise<number> {
+    let deleted = 0;
+
+    while (true) {
+      const expired = await this.query<AutomationAuditRecord>(COLLECTIONS.AUTOMATION_AUDIT, {
+        where: [['userId', '==', userId], ['at', '<', before]],
+        orderBy: [['at', 'desc']], // the index the log's own queries use
+        limit: this.config.batchSize
+      });
+      if (expired.length === 0) return deleted;
+
+      await this.batch(expired.map(record => ({
+        type: 'delete' as const,
+        collection: COLLECTIONS.AUTOMATION_AUDIT,
+        id: record.id
+      })));
+      deleted += expired.length;
+      if (expired.length < this.config.batchSize) return deleted;
+    }
+  }
+
+  async getAutomationAuditRecords(
+    userId: string,
+    options: { ruleId?: string; kind?: AutomationAuditRecord['kind']; since?: Timestamp; limit?: number } = {}
+  ): Promise<AutomationAuditRecord[]> {
+    const where: [string, any, any][] = [['userId', '==', userId]];
+    if (options.ruleId) where.push(['ruleId', '==', options.ruleId]);
+    if (options.kind) where.push(['kind', '==', options.kind]);
+    if (options.since) where.push(['at', '>=', options.since]);
+
+    return this.query<AutomationAuditRecord>(COLLECTIONS.AUTOMATION_AUDIT, {
+      where,
+      orderBy: [['at', 'desc']],
+      limit: options.limit ?? 200
+    });
+  }
+
   /**
    * Notifications
    */
@@ -707,6 +897,15 @@ export interface BatchOperation {
   collection: string;
   id: string;
   data?: any;
+  merge?: boolean; // 'set' only: merge into an existing document (field transforms such as increment())
+  maximum?: Record<string, number>; // fields written as the larger of this and the stored value; the batch runs as a transaction
+}
+
+// A write batch or a transaction
+interface DocumentWriter {
+  set(docRef: DocumentReference, data: any, options?: SetOptions): unknown;
+  update(docRef: DocumentReference, data: any): unknown;
+  delete(docRef: DocumentReference): unknown;
 }
 
 // Export singleton instance
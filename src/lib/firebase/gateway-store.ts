@@ -0,0 +1,163 @@
+/**
+ * Meter Gateway Store
+ *
+ * The gateway's API keys, request logs and usage counters, kept through the
+ * Firebase Admin SDK. The collections are closed to clients by the security
+ * rules (see TEST_API_ENDPOINTS.md), so nobody can mint a key by writing a
+ * hash of their choosing, or reset a quota, from a browser; only the
+ * gateway's service account reads and writes them. Documents keep the
+ * client SDK's `Timestamp` shape of the schema types; timestamps are
+ * converted on the way in and out.
+ */
+
+import { Timestamp } from 'firebase/firestore';
+import { FieldValue, Timestamp as AdminTimestamp, type DocumentSnapshot } from 'firebase-admin/firestore';
+import { adminFirestore } from './admin';
+import { COLLECTIONS, type ApiKey, type ApiRequestLog, type ApiUsage, type BaseDocument } from './schema';
+
+function toStored(value: any): any {
+  if (value instanceof Timestamp) return new AdminTimestamp(value.seconds, value.nanoseconds);
+  if (Array.isArray(value)) return value.map(toStored);
+  if (value && typeof value === 'object' && value.constructor === Object) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => entry !== undefined)
+        .map(([key, entry]) => [key, toStored(entry)])
+    );
+  }
+  return value;
+}
+
+function fromStored(value: any): any {
+  if (value instanceof AdminTimestamp) return new Timestamp(value.seconds, value.nanoseconds);
+  if (Array.isArray(value)) return value.map(fromStored);
+  if (value && typeof value === 'object' && value.constructor === Object) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, fromStored(entry)]));
+  }
+  return value;
+}
+
+function fromSnapshot<T extends BaseDocument>(snapshot: DocumentSnapshot): T {
+  return { id: snapshot.id, ...fromStored(snapshot.data()) } as T;
+}
+
+export class GatewayStore {
+  async createApiKey(key: Omit<ApiKey, 'id' | 'createdAt' | 'updatedAt'>): Promise<ApiKey> {
+    const now = Timestamp.now();
+    const data = { ...key, createdAt: now, updatedAt: now };
+    const ref = await adminFirestore().collection(COLLECTIONS.API_KEYS).add(toStored(data));
+    return { id: ref.id, ...data };
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+    const snapshot = await adminFirestore()
+      .collection(COLLECTIONS.API_KEYS)
+      .where('keyHash', '==', keyHash)
+      .limit(1)
+      .get();
+    return snapshot.empty ? null : fromSnapshot<ApiKey>(snapshot.docs[0]);
+  }
+
+  async getApiKeysByUser(userId: string): Promise<ApiKey[]> {
+    const snapshot = await adminFirestore()
+      .collection(COLLECTIONS.API_KEYS)
+      .where('userId', '==', userId)
+      .orderBy('createdAt', 'desc')
+      .get();
+    return snapshot.docs.map(doc => fromSnapshot<ApiKey>(doc));
+  }
+
+  async getApiKey(keyId: string): Promise<ApiKey | null> {
+    const snapshot = await adminFirestore().collection(COLLECTIONS.API_KEYS).doc(keyId).get();
+    return snapshot.exists ? fromSnapshot<ApiKey>(snapshot) : null;
+  }
+
+  async updateApiKey(keyId: string, updates: Partial<ApiKey>): Promise<void> {
+    await adminFirestore()
+      .collection(COLLECTIONS.API_KEYS)
+      .doc(keyId)
+      .update(toStored({ ...updates, updatedAt: Timestamp.now() }));
+  }
+
+  async saveApiRequestLog(log: Omit<ApiRequestLog, 'id' | 'createdAt' | 'updatedAt'>): Promise<void> {
+    const now = Timestamp.now();
+    await adminFirestore().collection(COLLECTIONS.API_REQUEST_LOGS).add(toStored({ ...log, createdAt: now, updatedAt: now }));
+  }
+
+  async getApiRequestLogs(apiKeyId: string, limit: number = 100): Promise<ApiRequestLog[]> {
+    const snapshot = await adminFirestore()
+      .collection(COLLECTIONS.API_REQUEST_LOGS)
+      .where('caller.apiKeyId', '==', apiKeyId)
+      .orderBy('timestamp', 'desc')
+      .limit(limit)
+      .get();
+    return snapshot.docs.map(doc => fromSnapshot<ApiRequestLog>(doc));
+  }
+
+  /**
+   * Count one request against a key's daily allowance if it has any left.
+   * The read and the increment are one transaction, so concurrent requests
+   * can't both take the last one. Returns the day's count including this
+   * request, or the full count when refused.
+   */
+  async consumeApiQuota(apiKeyId: string, period: string, dailyLimit: number): Promise<{ allowed: boolean; used: number }> {
+    const db = adminFirestore();
+    const ref = db.collection(COLLECTIONS.API_USAGE).doc(`${apiKeyId}_${period}`);
+
+    return db.runTransaction(async transaction => {
+      const snapshot = await transaction.get(ref);
+      const used: number = snapshot.data()?.requests ?? 0;
+      if (used >= dailyLimit) return { allowed: false, used };
+
+      const now = AdminTimestamp.now();
+      transaction.set(ref, {
+        apiKeyId,
+        period,
+        requests: used + 1,
+        updatedAt: now,
+        ...(!snapshot.exists && { createdAt: now })
+      }, { merge: true });
+      return { allowed: true, used: used + 1 };
+    });
+  }
+
+  /**
+   * Add a finished request's outcome to a key's daily usage. The request
+   * itself was counted by consumeApiQuota; throttled requests are counted
+   * separately and don't use up the allowance.
+   */
+  async addApiUsageOutcome(
+    apiKeyId: string,
+    period: string,
+    usage: { endpoint: string; latencyMs: number; error: boolean; throttled: boolean }
+  ): Promise<void> {
+    await adminFirestore().collection(COLLECTIONS.API_USAGE).doc(`${apiKeyId}_${period}`).set({
+      apiKeyId,
+      period,
+      errors: FieldValue.increment(usage.error && !usage.throttled ? 1 : 0),
+      throttled: FieldValue.increment(usage.throttled ? 1 : 0),
+      totalLatencyMs: FieldValue.increment(usage.throttled ? 0 : usage.latencyMs),
+      endpoints: { [usage.endpoint]: FieldValue.increment(usage.throttled ? 0 : 1) },
+      lastRequestAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp()
+    }, { merge: true });
+  }
+
+  async getApiUsage(apiKeyId: string, startPeriod: string, endPeriod: string): Promise<ApiUsage[]> {
+    const snapshot = await adminFirestore()
+      .collection(COLLECTIONS.API_USAGE)
+      .where('apiKeyId', '==', apiKeyId)
+      .where('period', '>=', startPeriod)
+      .where('period', '<=', endPeriod)
+      .orderBy('period', 'asc')
+      .get();
+    // A day with only throttled requests has no request count
+    return snapshot.docs.map(doc => {
+      const usage = fromSnapshot<ApiUsage>(doc);
+      return { ...usage, requests: usage.requests ?? 0 };
+    });
+  }
+}
+
+// Export singleton instance
+export const gatewayStore = new GatewayStore();
@@ -6,6 +6,8 @@
  */
 
 import { Timestamp } from 'firebase/firestore';
+import type { StoredAutomationRule } from '../automation/automation-rule';
+import type { AutomationAuditEntry } from '../automation/audit-log';
 
 // Collection Names
 export const COLLECTIONS = {
@@ -13,13 +15,20 @@ export const COLLECTIONS = {
   SMART_METERS: 'smartMeters',
   DEVICES: 'devices',
   READINGS: 'readings',
+  READING_ROLLUPS: 'readingRollups',
   QUESTS: 'quests',
   USER_QUESTS: 'userQuests',
   ANALYTICS: 'analytics',
   NOTIFICATIONS: 'notifications',
   BILLING: 'billing',
   ENERGY_TIPS: 'energyTips',
-  LEADERBOARD: 'leaderboard'
+  LEADERBOARD: 'leaderboard',
+  POWER_QUALITY_EVENTS: 'powerQualityEvents',
+  OUTAGE_EVENTS: 'outageEvents',
+  AUTOMATION_AUDIT: 'automationAudit',
+  API_REQUEST_LOGS: 'apiRequestLogs',
+  API_USAGE: 'apiUsage',
+  API_KEYS: 'apiKeys'
 } as const;
 
 // Base Document Interface
@@ -72,6 +81,7 @@ export interface UserProfile extends BaseDocument {
       hasSmartThermostat: boolean;
       hasSmartLights: boolean;
     };
+    solarCapacity?: number; // kWp, when hasSolarPanels
   };
   
   // Preferences and Settings
@@ -110,6 +120,7 @@ export interface UserProfile extends BaseDocument {
     achievements: string[];
     streakDays: number;
     lastActiveDate: Timestamp;
+    streakPausedAt?: Timestamp; // set during a supply outage; days it covers don't break the streak
   };
   
   // Status and Metadata
@@ -168,6 +179,20 @@ export interface SmartMeter extends BaseDocument {
     firmwareVersion?: string;
     signalStrength?: number;
     batteryLevel?: number;
+    // Tamper events reported by the meter, newest first
+    tamper?: {
+      active: boolean;
+      events: Array<{
+        eventId: string;
+        type: 'magnetic' | 'cover_open' | 'neutral_disturbance' | 'reverse_current';
+        code: string; // provider's original tamper code
+        active: boolean;
+        detectedAt: Timestamp;
+        clearedAt?: Timestamp;
+        notifiedAt?: Timestamp;
+      }>;
+      lastCheckedAt: Timestamp;
+    };
   };
   
   // Aggregated Data (for performance)
@@ -180,6 +205,17 @@ export interface SmartMeter extends BaseDocument {
     peakDemand: number; // kW
     efficiencyScore: number; // 0-10
   };
+  
+  // Prepaid Account (prepaid connections only)
+  prepaid?: {
+    balance: number;
+    currency: string;
+    daysRemaining: number | null; // null when there is no recent consumption to forecast from
+    alertLevel: 'ok' | 'low' | 'critical' | 'depleted';
+    lastCheckedAt: Timestamp;
+    lastRechargeDate?: Timestamp;
+    lastAlertAt?: Timestamp;
+  };
 }
 
 // Device Management
@@ -266,18 +302,12 @@ export interface Device extends BaseDocument {
       action: string;
       parameters: Record<string, any>;
     }[];
-    rules: {
-      id: string;
-      name: string;
-      enabled: boolean;
-      trigger: string;
-      condition: string;
-      action: string;
-      parameters: Record<string, any>;
-    }[];
+    rules: StoredAutomationRule[]; // see automation/automation-rule
   };
 }
 
+export type DeviceType = Device['info']['type'];
+
 // Energy Readings
 export interface EnergyReading extends BaseDocument {
   userId: string;
@@ -334,6 +364,97 @@ export interface EnergyReading extends BaseDocument {
   };
 }
 
+// Reading Rollups
+export type RollupResolution = '15m' | '1h' | '1d';
+
+// Aggregated readings for one meter (or one device on it) over one period.
+// Sums are kept instead of averages so rollups can be updated incrementally.
+export interface ReadingRollup extends BaseDocument {
+  userId: string;
+  smartMeterId: string;
+  deviceId?: string; // absent for meter-level readings
+  resolution: RollupResolution;
+  periodStart: Timestamp; // bucket start; daily buckets follow local midnight
+
+  samples: number;
+  energy: number; // kWh
+  cost: number; // Currency units
+  co2Emissions: number; // kg CO2
+  powerSum: number; // kW, divide by samples for the average
+  peakPower: number; // kW
+  voltageSum: number; // V
+  powerFactorSum: number;
+}
+
+// Power Quality Events
+export interface PowerQualityEvent extends BaseDocument {
+  userId: string;
+  smartMeterId: string;
+
+  // Event Details
+  event: {
+    type: 'phase_imbalance' | 'voltage_sag' | 'voltage_swell' | 'under_frequency' | 'over_frequency' | 'low_power_factor';
+    severity: 'low' | 'medium' | 'high' | 'critical';
+    phase?: 'r' | 'y' | 'b';
+    startTime: Timestamp;
+    endTime: Timestamp;
+    duration: number; // seconds
+    ongoing: boolean;
+  };
+
+  // Measurements over the episode
+  measurements: {
+    worstValue: number; // V, Hz, % imbalance or power factor depending on type
+    averageValue: number;
+    threshold: number;
+    nominal?: number;
+    samples: number;
+  };
+
+  // Estimated financial impact (PF penalties)
+  impact?: {
+    estimatedPenalty: number; // Currency units
+    currency: string;
+  };
+}
+
+// Supply Outages
+export interface OutageEvent extends BaseDocument {
+  userId: string;
+  smartMeterId: string;
+
+  // Outage Details
+  outage: {
+    cause: 'reading_gap' | 'zero_voltage' | 'provider_reported';
+    type: 'planned' | 'unplanned' | 'unknown';
+    startTime: Timestamp;
+    endTime?: Timestamp;
+    duration?: number; // seconds, once restored
+    ongoing: boolean;
+    phasesAffected?: ('r' | 'y' | 'b')[];
+  };
+
+  // As reported by the provider, when it publishes outage status
+  provider?: {
+    outageId: string;
+    reason?: string;
+    area?: string;
+    estimatedRestoration?: Timestamp;
+  };
+
+  // Gamification paused while the supply was down
+  impact: {
+    questsPaused: number;
+    streaksPaused: boolean;
+  };
+}
+
+// Automation Audit Log: one rule evaluation or action, see automation/audit-log
+export interface AutomationAuditRecord extends BaseDocument, Omit<AutomationAuditEntry, 'seq' | 'at'> {
+  userId: string;
+  at: Timestamp;
+}
+
 // Quest System
 export interface Quest extends BaseDocument {
   // Quest Definition
@@ -418,6 +539,15 @@ export interface UserQuest extends BaseDocument {
     deviceIds: string[]; // Devices involved
   };
   
+  // Progress is frozen while the user's supply is out
+  pause?: {
+    active: boolean;
+    reason: 'outage';
+    since?: Timestamp; // set while active
+    outageEventIds: string[];
+    totalPausedSeconds: number; // excluded from completion time
+  };
+  
   // Results
   results?: {
     energySaved: number; // kWh
@@ -630,6 +760,65 @@ export interface BillingInfo extends BaseDocument {
   };
 }
 
+// Meter Gateway API Keys
+export type ApiKeyScope = 'realtime:read' | 'history:read' | 'control';
+
+export interface ApiKey extends BaseDocument {
+  userId: string; // owner
+  name: string;
+  prefix: string; // first characters of the key, shown so users can tell keys apart
+  keyHash: string; // SHA-256 of the key; the key itself is only shown once, at creation
+  scopes: ApiKeyScope[];
+  status: 'active' | 'revoked';
+  expiresAt?: Timestamp;
+  rateLimit?: {
+    dailyRequests: number;
+    requestsPerMinute: number;
+  };
+  lastUsedAt?: Timestamp;
+  revokedAt?: Timestamp;
+}
+
+// Meter Gateway Request Log
+export interface ApiRequestLog extends BaseDocument {
+  // Caller
+  caller: {
+    apiKeyId: string; // ApiKey ID (a fingerprint for demo keys, never the key itself); 'anonymous' without a key, 'unauthenticated' when it failed
+    userId?: string;
+    ip?: string;
+    userAgent?: string;
+  };
+
+  // Request
+  request: {
+    endpoint: string; // e.g. unifiedMeterGateway
+    method: string;
+    meterId?: string;
+    brand?: string;
+  };
+
+  // Response
+  response: {
+    status: number;
+    latencyMs: number;
+    errorCode?: string;
+  };
+
+  timestamp: Timestamp;
+}
+
+// Meter Gateway Usage (one document per API key per day)
+export interface ApiUsage extends BaseDocument {
+  apiKeyId: string;
+  period: string; // YYYY-MM-DD (UTC)
+  requests: number;
+  errors: number; // responses with status >= 400
+  throttled: number; // requests rejected for exceeding a quota
+  totalLatencyMs: number;
+  endpoints: Record<string, number>;
+  lastRequestAt: Timestamp;
+}
+
 // Type Guards
 export const isUserProfile = (doc: any): doc is UserProfile => {
   return doc && typeof doc.uid === 'string' && typeof doc.email === 'string';
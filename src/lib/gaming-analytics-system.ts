@@ -35,6 +35,7 @@ export interface UserStreak {
   lastUpdated: Date;
   isActive: boolean;
   multiplier: number;
+  pausedAt?: Date; // set during a supply outage
 }
 
 export interface Badge {
@@ -637,6 +638,34 @@ export class GamingAnalyticsSystem {
     this.updateInsights(userId);
   }
 
+  /**
+   * Freeze the user's streaks (e.g. during a supply outage)
+   */
+  pauseStreaks(userId: string, at: Date = new Date()): void {
+    const progression = this.userProgressions[userId];
+    if (!progression) return;
+
+    Object.values(progression.streaks).forEach(streak => {
+      if (!streak.pausedAt) streak.pausedAt = at;
+    });
+  }
+
+  /**
+   * Unfreeze streaks, moving lastUpdated forward by the paused time so the
+   * pause doesn't count as a missed day
+   */
+  resumeStreaks(userId: string, at: Date = new Date()): void {
+    const progression = this.userProgressions[userId];
+    if (!progression) return;
+
+    Object.values(progression.streaks).forEach(streak => {
+      if (!streak.pausedAt) return;
+      const pausedMs = Math.max(0, at.getTime() - streak.pausedAt.getTime());
+      streak.lastUpdated = new Date(streak.lastUpdated.getTime() + pausedMs);
+      delete streak.pausedAt;
+    });
+  }
+
   private checkBadgeProgress(userId: string, action: GamingAction): void {
     const progression = this.userProgressions[userId];
     
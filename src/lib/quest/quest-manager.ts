@@ -183,6 +183,12 @@ export class QuestManager {
         return;
       }
 
+      // Readings during a supply outage don't count towards (or against) the quest
+      if (currentUserQuest.pause?.active) {
+        this.energyDataBuffer.set(userId, []);
+        return;
+      }
+
       // Process buffered energy readings
       for (const energyReading of bufferedData.slice(-10)) { // Process last 10 readings
         await this.analyzeProgressForQuest(currentUserQuest, energyReading);
@@ -206,6 +206,9 @@ export class QuestService {
       const activeUserQuests = await firestoreService.getUserQuests(userId, 'active');
 
       for (const userQuest of activeUserQuests) {
+        // No progress (or penalties) while the supply is out
+        if (userQuest.pause?.active) continue;
+
         const quest = await firestoreService.get<Quest>(COLLECTIONS.QUESTS, userQuest.questId);
         if (!quest) continue;
 
@@ -226,6 +229,59 @@ export class QuestService {
     }
   }
 
+  /**
+   * Freeze progress on the user's active quests during a supply outage.
+   * Returns the number of quests paused.
+   */
+  async pauseQuestsForOutage(userId: string, outageEventId: string): Promise<number> {
+    const activeUserQuests = await firestoreService.getUserQuests(userId, 'active');
+    let paused = 0;
+
+    for (const userQuest of activeUserQuests) {
+      const pause = userQuest.pause;
+      if (pause?.outageEventIds.includes(outageEventId)) continue;
+
+      await firestoreService.update<UserQuest>(COLLECTIONS.USER_QUESTS, userQuest.id, {
+        pause: {
+          active: true,
+          reason: 'outage',
+          since: pause?.active && pause.since ? pause.since : Timestamp.now(),
+          outageEventIds: [...(pause?.outageEventIds || []), outageEventId],
+          totalPausedSeconds: pause?.totalPausedSeconds || 0
+        }
+      });
+      paused++;
+    }
+
+    return paused;
+  }
+
+  /**
+   * Resume quests paused for outages, excluding the paused time from the
+   * quest clock
+   */
+  async resumeQuestsAfterOutage(userId: string): Promise<void> {
+    const activeUserQuests = await firestoreService.getUserQuests(userId, 'active');
+
+    for (const userQuest of activeUserQuests) {
+      const pause = userQuest.pause;
+      if (!pause?.active) continue;
+
+      const pausedSeconds = pause.since
+        ? Math.max(0, (Date.now() - pause.since.toMillis()) / 1000)
+        : 0;
+
+      await firestoreService.update<UserQuest>(COLLECTIONS.USER_QUESTS, userQuest.id, {
+        pause: {
+          active: false,
+          reason: 'outage',
+          outageEventIds: pause.outageEventIds,
+          totalPausedSeconds: Math.round(pause.totalPausedSeconds + pausedSeconds)
+        }
+      });
+    }
+  }
+
   /**
    * Complete a quest and award rewards
    */
@@ -525,15 +581,15 @@ export class QuestService {
 
     if (readings.length > 0) {
       // Calculate average daily usage
-      const totalConsumption = readings.reduce((sum, reading) => sum + reading.reading.consumption, 0);
+      const totalConsumption = readings.reduce((sum, reading) => sum + reading.reading.energy, 0);
       analysis.averageDailyUsage = totalConsumption / Math.max(1, readings.length / 24);
 
       // Analyze trends
       const recent = readings.slice(0, Math.floor(readings.length / 2));
       const older = readings.slice(Math.floor(readings.length / 2));
       
-      const recentAvg = recent.reduce((sum, r) => sum + r.reading.consumption, 0) / recent.length;
-      const olderAvg = older.reduce((sum, r) => sum + r.reading.consumption, 0) / older.length;
+      const recentAvg = recent.reduce((sum, r) => sum + r.reading.energy, 0) / recent.length;
+      const olderAvg = older.reduce((sum, r) => sum + r.reading.energy, 0) / older.length;
 
       if (recentAvg > olderAvg * 1.05) {
         analysis.recentTrends.increasing = true;
@@ -802,7 +858,8 @@ export class QuestService {
 
     // Calculate completion time bonus
     const startTime = userQuest.progress.startedAt.toDate();
-    const completionTime = (Date.now() - startTime.getTime()) / (1000 * 60 * 60); // hours
+    const pausedMs = (userQuest.pause?.totalPausedSeconds || 0) * 1000; // outages don't count
+    const completionTime = (Date.now() - startTime.getTime() - pausedMs) / (1000 * 60 * 60); // hours
     const timeBonus = completionTime < quest.definition.duration * 0.8 ? 1.2 : 1.0;
 
     return {
@@ -1,12 +1,52 @@
 'use client';
 
 import { toast } from 'sonner';
+import {
+  compileRuleExpression,
+  ruleTextLiteral,
+  CompiledRuleExpression,
+  RuleContext,
+  RuleExpressionError,
+  RuleValue,
+  RULE_DAYS
+} from './automation/rule-expression';
+import { DEFAULT_TARIFF_PLAN, TariffPlan, TariffPrice, tariffAt } from './automation/tariff-bands';
+import {
+  DEFAULT_WEATHER_LOCATION,
+  WeatherConditions,
+  WeatherLocation,
+  fetchWeatherConditions
+} from './automation/weather-conditions';
+import {
+  isValidTimeZone,
+  localTimeZone,
+  occurrenceAt,
+  parseClockTime,
+  scheduleOccurrences,
+  zonedDate
+} from './automation/schedule-times';
+import { automationAuditLog, AuditDeviceState, AuditOutcome } from './automation/audit-log';
+import type { DryRunAction, DryRunDay, DryRunResult } from './automation/rule-dry-run';
+import { AutomationRule, automationRuleId } from './automation/automation-rule';
+
+export type { AutomationRule } from './automation/automation-rule';
+
+const WEATHER_REFRESH_INTERVAL = 10 * 60 * 1000; // ms between weather requests
+const WEATHER_MAX_AGE = 60 * 60 * 1000; // ms; older conditions count as unknown
+
+const SCHEDULE_CATCH_UP_LIMIT = 24 * 60 * 60 * 1000; // ms; schedule events missed longer ago than this are dropped
+const SCHEDULE_LATE_AFTER = 2 * 60 * 1000; // ms; an event run this long after its time was missed (sleep, closed tab)
+const SCHEDULE_HISTORY_LIMIT = 50; // executions kept per schedule
+const DEFAULT_SCHEDULE_PRIORITY = 5;
+
+// Triggers that describe events: they fire when their condition becomes true, not on every check while it stays true
+const EVENT_TRIGGERS = new Set<AutomationRule['trigger']['type']>(['usage', 'energy_price', 'weather', 'device_state']);
 
 // Enhanced Smart Home Device Types
 export interface SmartDevice {
   id: string;
   name: string;
-  type: 'ac' | 'light' | 'fan' | 'tv' | 'refrigerator' | 'washing_machine' | 'water_heater' | 'dishwasher' | 'microwave' | 'router';
+  type: 'ac' | 'light' | 'fan' | 'tv' | 'refrigerator' | 'washing_machine' | 'water_heater' | 'dishwasher' | 'microwave' | 'router' | 'appliance';
   brand: string;
   model: string;
   room: string;
@@ -54,24 +94,19 @@ export interface DeviceSchedule {
   action: 'turn_on' | 'turn_off' | 'set_temperature' | 'set_brightness' | 'set_mode';
   parameters?: Record<string, any>;
   isActive: boolean;
-  repeatWeekly: boolean;
+  repeatWeekly: boolean; // false: runs once, then deactivates
+  priority?: number; // 1-10; when schedules overlap on a device the highest one is in control
+  timeZone?: string; // IANA zone for the times; defaults to the controller's zone
 }
 
-export interface AutomationRule {
-  id: string;
-  name: string;
-  deviceId: string;
-  trigger: {
-    type: 'time' | 'temperature' | 'occupancy' | 'energy_price' | 'weather' | 'device_state';
-    condition: string; // e.g., "temperature > 28", "time = 18:00", "occupancy = false"
-    value: any;
-  };
-  action: {
-    type: 'turn_on' | 'turn_off' | 'adjust_temperature' | 'adjust_brightness' | 'change_mode' | 'notify';
-    parameters: Record<string, any>;
-  };
-  isActive: boolean;
-  priority: number; // 1-10
+export interface ScheduleExecution {
+  scheduleId: string;
+  event: 'start' | 'end';
+  scheduledFor: Date;
+  executedAt: Date;
+  action: DeviceSchedule['action'] | 'restore'; // restore: undo a set_* action at the end of its window
+  outcome: 'executed' | 'overridden' | 'missed' | 'failed';
+  detail?: string;
 }
 
 export interface EnergyOptimization {
@@ -99,8 +134,19 @@ class SmartHomeController {
   private devices: Map<string, SmartDevice> = new Map();
   private rooms: Map<string, Room> = new Map();
   private schedules: Map<string, DeviceSchedule> = new Map();
+  private scheduleHistory: Map<string, ScheduleExecution[]> = new Map();
+  private scheduleRestore: Map<string, Partial<SmartDevice>> = new Map(); // device settings a running set_* schedule replaced
+  private scheduleTimeZone = localTimeZone();
+  private lastScheduleCheck = new Date();
   private automationRules: Map<string, AutomationRule> = new Map();
+  private ruleConditions: Map<string, CompiledRuleExpression> = new Map();
+  private ruleOutcomes: Map<string, boolean> = new Map(); // condition at the previous check
+  private deviceSnapshots: Map<string, DeviceSnapshot> = new Map(); // device states at the previous check
   private optimizations: EnergyOptimization[] = [];
+  private tariffPlan: TariffPlan = DEFAULT_TARIFF_PLAN;
+  private weatherLocation: WeatherLocation = DEFAULT_WEATHER_LOCATION;
+  private weather: WeatherConditions | null = null;
+  private weatherRequestedAt = 0;
 
   constructor() {
     this.initializeDevices();
@@ -290,6 +336,26 @@ class SmartHomeController {
     });
   }
 
+  /**
+   * Control a device added outside the controller, such as one registered
+   * through the device registry. A device already controlled is left as it is.
+   */
+  addDevice(device: SmartDevice): void {
+    if (this.devices.has(device.id)) return;
+    this.devices.set(device.id, { ...device, schedule: device.schedule ?? [], automationRules: [] });
+  }
+
+  /**
+   * Stop controlling a device, with its automation rules
+   */
+  removeDevice(deviceId: string): boolean {
+    if (!this.devices.has(deviceId)) return false;
+
+    this.getAutomationRules(deviceId).forEach(rule => this.removeAutomationRule(rule.id));
+    this.devices.delete(deviceId);
+    return true;
+  }
+
   // Device Control Methods
   async toggleDevice(deviceId: string): Promise<boolean> {
     const device = this.devices.get(deviceId);
@@ -386,7 +452,27 @@ class SmartHomeController {
   }
 
   // Scheduling Methods
+  /**
+   * Add a schedule; throws when its days, times, priority or time zone
+   * aren't valid
+   */
   async createSchedule(schedule: Omit<DeviceSchedule, 'id'>): Promise<string> {
+    if (schedule.days.length === 0 || schedule.days.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      throw new Error('Choose at least one day for the schedule');
+    }
+    if (parseClockTime(schedule.startTime) === null || parseClockTime(schedule.endTime) === null) {
+      throw new Error('Schedule times must be HH:MM');
+    }
+    if (schedule.startTime === schedule.endTime) {
+      throw new Error('Schedule start and end times must differ');
+    }
+    if (schedule.priority !== undefined && (schedule.priority < 1 || schedule.priority > 10)) {
+      throw new Error('Schedule priority must be between 1 and 10');
+    }
+    if (schedule.timeZone && !isValidTimeZone(schedule.timeZone)) {
+      throw new Error(`Unknown time zone "${schedule.timeZone}"`);
+    }
+
     const scheduleId = `schedule_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const newSchedule: DeviceSchedule = {
       ...schedule,
@@ -406,15 +492,64 @@ class SmartHomeController {
     return scheduleId;
   }
 
+  getAllSchedules(): DeviceSchedule[] {
+    return Array.from(this.schedules.values());
+  }
+
+  /**
+   * Start and end executions of a schedule, oldest first
+   */
+  getScheduleHistory(scheduleId: string): ScheduleExecution[] {
+    return this.scheduleHistory.get(scheduleId) ?? [];
+  }
+
+  /**
+   * Zone for schedules that don't name their own and for the `time` and
+   * `day` rule variables, e.g. the home's zone when the browser is elsewhere
+   */
+  setScheduleTimeZone(timeZone: string): void {
+    if (!isValidTimeZone(timeZone)) {
+      throw new Error(`Unknown time zone "${timeZone}"`);
+    }
+    this.scheduleTimeZone = timeZone;
+  }
+
+  /**
+   * Add an automation rule; throws a RuleExpressionError when its condition
+   * isn't a valid rule expression
+   */
   async createAutomationRule(rule: Omit<AutomationRule, 'id'>): Promise<string> {
-    const ruleId = `rule_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const ruleId = automationRuleId();
+    this.registerAutomationRule({ ...rule, id: ruleId });
+
+    toast.success(`Automation rule "${rule.name}" created`);
+    return ruleId;
+  }
+
+  /**
+   * Run a rule that already has an ID — one attached through the device
+   * registry or loaded from a device document — replacing any rule with
+   * the same ID. Throws like createAutomationRule.
+   */
+  registerAutomationRule(rule: AutomationRule): void {
+    const condition = compileRuleExpression(ruleCondition(rule.trigger));
+    const watchesSource = condition.variables.some(name => name.startsWith('source.'));
+    if (rule.trigger.type === 'device_state' && !this.devices.has(rule.trigger.sourceDeviceId ?? '')) {
+      throw new Error('Choose the device whose state the rule watches');
+    }
+    if (watchesSource && rule.trigger.type !== 'device_state') {
+      throw new Error('source.* variables can only be used in device state rules');
+    }
+
+    this.removeAutomationRule(rule.id);
+
     const newRule: AutomationRule = {
       ...rule,
-      id: ruleId
+      trigger: { ...rule.trigger, condition: condition.source }
     };
+    this.automationRules.set(rule.id, newRule);
+    this.ruleConditions.set(rule.id, condition);
 
-    this.automationRules.set(ruleId, newRule);
-    
     // Add to device
     const device = this.devices.get(rule.deviceId);
     if (device) {
@@ -422,8 +557,53 @@ class SmartHomeController {
       device.automationRules.push(newRule);
     }
 
-    toast.success(`Automation rule "${rule.name}" created`);
-    return ruleId;
+    // Weather rules shouldn't wait for the next refresh to have conditions to check
+    this.refreshWeather();
+  }
+
+  removeAutomationRule(ruleId: string): boolean {
+    const rule = this.automationRules.get(ruleId);
+    if (!rule) return false;
+
+    this.automationRules.delete(ruleId);
+    this.ruleConditions.delete(ruleId);
+    this.ruleOutcomes.delete(ruleId);
+
+    const device = this.devices.get(rule.deviceId);
+    if (device?.automationRules) {
+      device.automationRules = device.automationRules.filter(existing => existing.id !== ruleId);
+    }
+    return true;
+  }
+
+  getAutomationRules(deviceId?: string): AutomationRule[] {
+    const rules = Array.from(this.automationRules.values());
+    return deviceId ? rules.filter(rule => rule.deviceId === deviceId) : rules;
+  }
+
+  /**
+   * Price bands for energy price rules, usually from the meter's tariff
+   */
+  setTariffPlan(plan: TariffPlan): void {
+    this.tariffPlan = plan;
+  }
+
+  getCurrentTariff(): TariffPrice {
+    return tariffAt(this.tariffPlan, new Date());
+  }
+
+  setWeatherLocation(location: WeatherLocation): void {
+    this.weatherLocation = location;
+    this.weatherRequestedAt = 0;
+    this.refreshWeather();
+  }
+
+  getWeatherLocation(): WeatherLocation {
+    return this.weatherLocation;
+  }
+
+  getWeather(): WeatherConditions | null {
+    return this.weather;
   }
 
   // Energy Optimization
@@ -486,73 +666,476 @@ class SmartHomeController {
   // Automation Engine
   private startAutomationEngine(): void {
     setInterval(() => {
+      this.processSchedules();
       this.processAutomationRules();
       this.updateDeviceStates();
     }, 60000); // Check every minute
   }
 
+  /**
+   * Run the start and end events that fell due since the last check, in
+   * time order. After a gap (the machine slept, the tab was suspended) a
+   * schedule's earlier missed events are recorded but only its latest one
+   * runs, so the device ends up where the schedule says it should be now.
+   */
+  private processSchedules(now: Date = new Date()): void {
+    const from = new Date(Math.max(this.lastScheduleCheck.getTime(), now.getTime() - SCHEDULE_CATCH_UP_LIMIT));
+    this.lastScheduleCheck = now;
+
+    const events: ScheduleEvent[] = [];
+    this.schedules.forEach(schedule => {
+      if (!schedule.isActive) return;
+
+      scheduleOccurrences(schedule, from, now, this.timeZoneOf(schedule)).forEach(occurrence => {
+        if (occurrence.start > from && occurrence.start <= now) {
+          events.push({ schedule, event: 'start', at: occurrence.start });
+        }
+        if (occurrence.end > from && occurrence.end <= now) {
+          events.push({ schedule, event: 'end', at: occurrence.end });
+        }
+      });
+    });
+
+    // Ends first at the same instant, so back-to-back schedules hand over cleanly
+    events.sort((a, b) => a.at.getTime() - b.at.getTime() || (a.event === 'end' ? -1 : 1));
+
+    events.forEach((event, index) => {
+      const late = now.getTime() - event.at.getTime() > SCHEDULE_LATE_AFTER;
+      const superseded = events.slice(index + 1).some(later => later.schedule.id === event.schedule.id);
+
+      if (late && superseded) {
+        this.recordScheduleExecution(event, event.event === 'start' ? event.schedule.action : endAction(event.schedule), 'missed', 'A later event of this schedule replaced it');
+        return;
+      }
+
+      if (event.event === 'start') {
+        this.runScheduleStart(event);
+      } else {
+        this.runScheduleEnd(event);
+      }
+    });
+  }
+
+  /**
+   * The schedule in control of a device at an instant: of those whose window
+   * is in progress, the highest priority, then the one that started last
+   */
+  private scheduleInControl(deviceId: string, at: Date): DeviceSchedule | null {
+    let winner: DeviceSchedule | null = null;
+    let winnerStart = 0;
+
+    for (const schedule of Array.from(this.schedules.values())) {
+      if (!schedule.isActive || schedule.deviceId !== deviceId) continue;
+
+      const occurrence = occurrenceAt(schedule, at, this.timeZoneOf(schedule));
+      if (!occurrence) continue;
+
+      const priority = schedule.priority ?? DEFAULT_SCHEDULE_PRIORITY;
+      const winnerPriority = winner?.priority ?? DEFAULT_SCHEDULE_PRIORITY;
+      if (!winner || priority > winnerPriority || (priority === winnerPriority && occurrence.start.getTime() > winnerStart)) {
+        winner = schedule;
+        winnerStart = occurrence.start.getTime();
+      }
+    }
+
+    return winner;
+  }
+
+  private runScheduleStart(event: ScheduleEvent): void {
+    const { schedule } = event;
+    const inControl = this.scheduleInControl(schedule.deviceId, event.at);
+
+    if (inControl && inControl.id !== schedule.id) {
+      this.recordScheduleExecution(event, schedule.action, 'overridden', `"${inControl.name}" has priority`);
+      return;
+    }
+
+    this.applyScheduleAction(event, schedule.action);
+  }
+
+  private runScheduleEnd(event: ScheduleEvent): void {
+    const { schedule } = event;
+    const wasInControl = this.scheduleInControl(schedule.deviceId, new Date(event.at.getTime() - 1))?.id === schedule.id;
+    const inControl = this.scheduleInControl(schedule.deviceId, event.at);
+
+    if (!wasInControl) {
+      this.recordScheduleExecution(event, endAction(schedule), 'overridden', inControl ? `"${inControl.name}" is in control` : undefined);
+    } else if (inControl) {
+      // Another window is still open: the device goes back to what that schedule wants,
+      // and what this one replaced is put back when that one ends
+      const restore = this.scheduleRestore.get(schedule.id);
+      this.scheduleRestore.delete(schedule.id);
+      this.recordScheduleExecution(event, endAction(schedule), 'overridden', `Handed over to "${inControl.name}"`);
+      this.applyScheduleAction({ schedule: inControl, event: 'start', at: event.at }, inControl.action, `Resumed after "${schedule.name}" ended`);
+      if (restore) {
+        this.scheduleRestore.set(inControl.id, restore);
+      }
+    } else {
+      this.applyScheduleAction(event, endAction(schedule));
+    }
+
+    if (!schedule.repeatWeekly) {
+      schedule.isActive = false;
+    }
+  }
+
+  private applyScheduleAction(event: ScheduleEvent, action: ScheduleExecution['action'], detail?: string): void {
+    const { schedule } = event;
+    const device = this.devices.get(schedule.deviceId);
+    if (!device || !device.isOnline) {
+      this.recordScheduleExecution(event, action, 'failed', 'Device is offline or not found');
+      return;
+    }
+
+    const parameters = schedule.parameters ?? {};
+    switch (action) {
+      case 'turn_on':
+        if (!device.isOn) this.toggleDevice(device.id);
+        break;
+      case 'turn_off':
+        if (device.isOn) this.toggleDevice(device.id);
+        break;
+      case 'set_temperature':
+        if (typeof parameters.temperature !== 'number') {
+          this.recordScheduleExecution(event, action, 'failed', 'No temperature set');
+          return;
+        }
+        this.scheduleRestore.set(schedule.id, { targetTemperature: device.targetTemperature });
+        this.setDeviceTemperature(device.id, parameters.temperature);
+        break;
+      case 'set_brightness':
+        if (typeof parameters.brightness !== 'number') {
+          this.recordScheduleExecution(event, action, 'failed', 'No brightness set');
+          return;
+        }
+        this.scheduleRestore.set(schedule.id, { brightness: device.brightness });
+        this.setDeviceBrightness(device.id, parameters.brightness);
+        break;
+      case 'set_mode':
+        if (typeof parameters.mode !== 'string') {
+          this.recordScheduleExecution(event, action, 'failed', 'No mode set');
+          return;
+        }
+        this.scheduleRestore.set(schedule.id, { mode: device.mode });
+        device.mode = parameters.mode;
+        device.lastUpdated = new Date();
+        break;
+      case 'restore': {
+        const previous = this.scheduleRestore.get(schedule.id);
+        this.scheduleRestore.delete(schedule.id);
+        if (!previous) {
+          this.recordScheduleExecution(event, action, 'executed', detail ?? 'Nothing to restore');
+          return;
+        }
+        if (previous.targetTemperature !== undefined) this.setDeviceTemperature(device.id, previous.targetTemperature);
+        if (previous.brightness !== undefined) this.setDeviceBrightness(device.id, previous.brightness);
+        if ('mode' in previous) {
+          device.mode = previous.mode;
+          device.lastUpdated = new Date();
+        }
+        break;
+      }
+    }
+
+    this.recordScheduleExecution(event, action, 'executed', detail);
+  }
+
+  private recordScheduleExecution(
+    event: ScheduleEvent,
+    action: ScheduleExecution['action'],
+    outcome: ScheduleExecution['outcome'],
+    detail?: string
+  ): void {
+    const history = this.scheduleHistory.get(event.schedule.id) ?? [];
+    history.push({
+      scheduleId: event.schedule.id,
+      event: event.event,
+      scheduledFor: event.at,
+      executedAt: new Date(),
+      action,
+      outcome,
+      detail
+    });
+    this.scheduleHistory.set(event.schedule.id, history.slice(-SCHEDULE_HISTORY_LIMIT));
+  }
+
+  private timeZoneOf(schedule: DeviceSchedule): string {
+    return schedule.timeZone || this.scheduleTimeZone;
+  }
+
   private processAutomationRules(): void {
     const now = new Date();
-    const currentHour = now.getHours();
-    const currentMinute = now.getMinutes();
-    const currentTime = `${currentHour.toString().padStart(2, '0')}:${currentMinute.toString().padStart(2, '0')}`;
+    const tariff = tariffAt(this.tariffPlan, now);
+    const previous = this.deviceSnapshots;
+
+    // Taken before any action runs, so changes made by this check's actions are seen by the next one
+    this.deviceSnapshots = new Map(Array.from(this.devices.values()).map(device => [device.id, snapshotOf(device)]));
+    this.refreshWeather();
 
     this.automationRules.forEach(rule => {
       if (!rule.isActive) return;
 
       const device = this.devices.get(rule.deviceId);
-      if (!device || !device.isOnline) return;
+      const condition = this.ruleConditions.get(rule.id);
+      if (!device || !device.isOnline || !condition) return;
 
-      let shouldTrigger = false;
+      const context = this.ruleContext(rule, device, now, tariff, previous);
+      const result = condition.test(context);
+      const met = result === true;
+      const fire = EVENT_TRIGGERS.has(rule.trigger.type) ? met && !this.ruleOutcomes.get(rule.id) : met;
+      this.ruleOutcomes.set(rule.id, met);
 
-      switch (rule.trigger.type) {
-        case 'time':
-          shouldTrigger = rule.trigger.value === currentTime;
-          break;
-        case 'temperature':
-          const room = this.rooms.get(device.room);
-          if (room && room.temperature) {
-            const condition = rule.trigger.condition.replace('temperature', room.temperature.toString());
-            shouldTrigger = eval(condition);
-          }
-          break;
-        case 'occupancy':
-          const deviceRoom = this.rooms.get(device.room);
-          shouldTrigger = deviceRoom ? deviceRoom.occupancy === rule.trigger.value : false;
-          break;
-      }
+      const entry = {
+        at: now.getTime(),
+        ruleId: rule.id,
+        ruleName: rule.name,
+        deviceId: device.id,
+        inputs: ruleInputs(condition.variables, context)
+      };
+      const outcome: AuditOutcome = result === undefined ? 'unknown' : !met ? 'not_met' : fire ? 'met' : 'already_fired';
+      automationAuditLog.record({ ...entry, kind: 'evaluation', outcome });
 
-      if (shouldTrigger) {
-        this.executeAutomationAction(rule, device);
+      if (fire) {
+        const changed = this.executeAutomationAction(rule, device);
+        automationAuditLog.record({
+          ...entry,
+          kind: 'action',
+          outcome: changed ? 'executed' : 'no_change',
+          action: rule.action.type,
+          deviceState: auditState(device)
+        });
       }
     });
+
+    void automationAuditLog.flush();
+  }
+
+  /**
+   * Replay a draft rule over a past day, minute by minute as the engine
+   * checks, against a copy of its device. The meter's readings and the
+   * day's weather stand in for the live values; room and watched-device
+   * values have no history, so conditions on them are unknown. Nothing is
+   * changed or recorded. Throws a RuleExpressionError when the condition
+   * isn't valid.
+   */
+  dryRunAutomationRule(rule: Omit<AutomationRule, 'id'>, day: DryRunDay): DryRunResult {
+    const live = this.devices.get(rule.deviceId);
+    if (!live) {
+      throw new Error('Device not found');
+    }
+
+    const condition = compileRuleExpression(ruleCondition(rule.trigger));
+    const draft: AutomationRule = { ...rule, id: 'dry_run' };
+    const device: SmartDevice = { ...live, dailyEnergyUsage: 0 };
+    const baseline: SmartDevice = { ...live };
+    device.currentPowerUsage = simulatedPower(device);
+    baseline.currentPowerUsage = simulatedPower(baseline);
+
+    const unavailable = condition.variables.filter(name =>
+      name.startsWith('room.') || name.startsWith('source.')
+      || (name.startsWith('weather.') && day.weather.length === 0)
+      || (name.startsWith('meter.') && day.readings.length === 0)
+    );
+
+    const actions: DryRunAction[] = [];
+    let evaluations = 0;
+    let metCount = 0;
+    let wasMet = false;
+    let readingIndex = -1;
+    let weatherIndex = -1;
+    let meterEnergy = 0;
+    let energyImpact = 0;
+    let costImpact = 0;
+
+    for (let at = day.start.getTime(); at < day.end.getTime(); at += 60000) {
+      const now = new Date(at);
+      const tariff = tariffAt(this.tariffPlan, now);
+
+      while (readingIndex + 1 < day.readings.length && day.readings[readingIndex + 1].timestamp.getTime() <= at) {
+        readingIndex++;
+        meterEnergy += day.readings[readingIndex].energy;
+      }
+      while (weatherIndex + 1 < day.weather.length && day.weather[weatherIndex + 1].observedAt.getTime() <= at) {
+        weatherIndex++;
+      }
+      const reading = readingIndex >= 0 ? day.readings[readingIndex] : undefined;
+      const weather = weatherIndex >= 0 ? day.weather[weatherIndex] : undefined;
+
+      const context: RuleContext = {
+        ...this.ruleContext(draft, device, now, tariff, new Map()),
+        'room.temperature': undefined,
+        'room.humidity': undefined,
+        'room.lightLevel': undefined,
+        'room.occupancy': undefined,
+        'meter.power': reading?.power,
+        'meter.dailyEnergy': reading ? meterEnergy : undefined,
+        'weather.temperature': weather?.temperature,
+        'weather.humidity': weather?.humidity,
+        'weather.condition': weather?.condition,
+        'source.isOn': undefined,
+        'source.wasOn': undefined,
+        'source.power': undefined,
+        'source.previousPower': undefined,
+        'source.mode': undefined
+      };
+
+      const met = condition.evaluate(context);
+      const fire = EVENT_TRIGGERS.has(rule.trigger.type) ? met && !wasMet : met;
+      wasMet = met;
+      evaluations++;
+      if (met) metCount++;
+
+      if (fire && simulateAction(device, rule.action)) {
+        actions.push({
+          at: now,
+          action: rule.action.type,
+          inputs: ruleInputs(condition.variables, context),
+          deviceState: auditState(device)
+        });
+      }
+
+      const minuteEnergy = (device.currentPowerUsage - baseline.currentPowerUsage) / 1000 / 60;
+      device.dailyEnergyUsage += device.currentPowerUsage / 1000 / 60;
+      energyImpact += minuteEnergy;
+      costImpact += minuteEnergy * tariff.rate;
+    }
+
+    return {
+      ruleName: rule.name,
+      deviceId: rule.deviceId,
+      start: day.start,
+      end: day.end,
+      evaluations,
+      met: metCount,
+      actions,
+      energyImpact: Math.round(energyImpact * 1000) / 1000,
+      costImpact: Math.round(costImpact * 100) / 100,
+      meteredEnergy: Math.round(day.readings.reduce((total, reading) => total + reading.energy, 0) * 1000) / 1000,
+      unavailable
+    };
   }
 
-  private executeAutomationAction(rule: AutomationRule, device: SmartDevice): void {
+  /**
+   * Current values of the rule expression variables for a rule
+   */
+  private ruleContext(
+    rule: AutomationRule,
+    device: SmartDevice,
+    now: Date,
+    tariff: TariffPrice,
+    previous: Map<string, DeviceSnapshot>
+  ): RuleContext {
+    const room = this.rooms.get(device.room);
+    const sourceId = rule.trigger.type === 'device_state' ? rule.trigger.sourceDeviceId : undefined;
+    const source = sourceId ? this.devices.get(sourceId) : undefined;
+    const sourceBefore = sourceId ? previous.get(sourceId) : undefined;
+    const weather = this.weather && now.getTime() - this.weather.observedAt.getTime() <= WEATHER_MAX_AGE
+      ? this.weather
+      : null;
+
+    // Rules read the clock in the home's zone, like schedules, not the browser's
+    const local = zonedDate(now, this.scheduleTimeZone);
+
+    return {
+      time: local.minutes,
+      day: RULE_DAYS[local.weekday],
+      'room.temperature': room?.temperature,
+      'room.humidity': room?.humidity,
+      'room.lightLevel': room?.lightLevel,
+      'room.occupancy': room?.occupancy,
+      'device.isOn': device.isOn,
+      'device.power': device.currentPowerUsage,
+      'device.temperature': device.temperature,
+      'device.targetTemperature': device.targetTemperature,
+      'device.brightness': device.brightness,
+      'device.mode': device.mode,
+      'device.dailyEnergy': device.dailyEnergyUsage,
+      'device.ratedPower': device.powerRating,
+      'meter.power': this.getTotalPowerConsumption() / 1000,
+      'meter.dailyEnergy': this.getDailyEnergyConsumption(),
+      'tariff.rate': tariff.rate,
+      'tariff.band': tariff.band,
+      'tariff.peak': tariff.peak,
+      'weather.temperature': weather?.temperature,
+      'weather.humidity': weather?.humidity,
+      'weather.condition': weather?.condition,
+      'source.isOn': source?.isOn,
+      'source.wasOn': sourceBefore?.isOn,
+      'source.power': source?.currentPowerUsage,
+      'source.previousPower': sourceBefore?.power,
+      'source.mode': source?.mode
+    };
+  }
+
+  /**
+   * Fetch weather conditions when an active rule reads them and the last
+   * request is older than the refresh interval. Browser only: the weather
+   * route is relative to the page.
+   */
+  private refreshWeather(): void {
+    const needed = Array.from(this.automationRules.values()).some(rule =>
+      rule.isActive && this.ruleConditions.get(rule.id)?.variables.some(name => name.startsWith('weather.'))
+    );
+    if (!needed || typeof window === 'undefined' || Date.now() - this.weatherRequestedAt < WEATHER_REFRESH_INTERVAL) {
+      return;
+    }
+
+    this.weatherRequestedAt = Date.now();
+    fetchWeatherConditions(this.weatherLocation)
+      .then(conditions => {
+        this.weather = conditions;
+      })
+      .catch(error => {
+        console.warn('Could not refresh weather for automation rules:', error);
+      });
+  }
+
+  /**
+   * Carry out a rule's action; false when the device was already as the
+   * action asks, or the action lacks the parameter it needs. Notifications
+   * always go out.
+   */
+  private executeAutomationAction(rule: AutomationRule, device: SmartDevice): boolean {
     switch (rule.action.type) {
       case 'turn_on':
         if (!device.isOn) {
           this.toggleDevice(device.id);
+          return true;
         }
-        break;
+        return false;
       case 'turn_off':
         if (device.isOn) {
           this.toggleDevice(device.id);
+          return true;
         }
-        break;
+        return false;
       case 'adjust_temperature':
-        if (rule.action.parameters.temperature) {
+        if (rule.action.parameters.temperature && rule.action.parameters.temperature !== device.targetTemperature) {
           this.setDeviceTemperature(device.id, rule.action.parameters.temperature);
+          return true;
         }
-        break;
+        return false;
       case 'adjust_brightness':
-        if (rule.action.parameters.brightness) {
+        if (rule.action.parameters.brightness && rule.action.parameters.brightness !== device.brightness) {
           this.setDeviceBrightness(device.id, rule.action.parameters.brightness);
+          return true;
         }
-        break;
+        return false;
+      case 'change_mode':
+        if (rule.action.parameters.mode && rule.action.parameters.mode !== device.mode) {
+          device.mode = rule.action.parameters.mode;
+          device.lastUpdated = new Date();
+          toast.success(`${device.name} set to ${device.mode} mode`);
+          return true;
+        }
+        return false;
+      case 'notify':
+        toast.warning(rule.action.parameters.message || `${rule.name}: ${device.name}`);
+        return true;
     }
   }
 
+
   private updateDeviceStates(): void {
     // Simulate device state changes and energy consumption
     this.devices.forEach(device => {
@@ -615,6 +1198,142 @@ class SmartHomeController {
   }
 }
 
+interface ScheduleEvent {
+  schedule: DeviceSchedule;
+  event: ScheduleExecution['event'];
+  at: Date;
+}
+
+/**
+ * What a schedule does when its window ends: the opposite of switching,
+ * or putting back the setting it changed
+ */
+function endAction(schedule: DeviceSchedule): ScheduleExecution['action'] {
+  switch (schedule.action) {
+    case 'turn_on':
+      return 'turn_off';
+    case 'turn_off':
+      return 'turn_on';
+    default:
+      return 'restore';
+  }
+}
+
+function ruleInputs(variables: string[], context: RuleContext): Record<string, RuleValue | null> {
+  return Object.fromEntries(variables.map(name => [name, context[name] ?? null]));
+}
+
+function auditState(device: SmartDevice): AuditDeviceState {
+  return {
+    isOn: device.isOn,
+    power: device.currentPowerUsage,
+    targetTemperature: device.targetTemperature,
+    brightness: device.brightness,
+    mode: device.mode
+  };
+}
+
+/**
+ * Power draw of a device in its current state, by the same models the
+ * controls use; for dry runs, where nothing is switched for real
+ */
+function simulatedPower(device: SmartDevice): number {
+  if (!device.isOn) {
+    return device.type === 'refrigerator' ? device.powerRating * 0.3 : 0;
+  }
+
+  switch (device.type) {
+    case 'ac': {
+      const tempDiff = Math.abs((device.temperature || 25) - (device.targetTemperature || 24));
+      return device.powerRating * Math.min(1, 0.6 + tempDiff * 0.1) * (device.energySavingMode ? 0.8 : 1);
+    }
+    case 'light':
+      return device.powerRating * ((device.brightness ?? 100) / 100);
+    case 'fan':
+      return device.powerRating * ((device.speed ?? 5) / 5);
+    default:
+      return device.powerRating * (device.energySavingMode ? 0.8 : 1);
+  }
+}
+
+/**
+ * A rule action applied to a device copy, mirroring executeAutomationAction;
+ * false when it does nothing
+ */
+function simulateAction(device: SmartDevice, action: AutomationRule['action']): boolean {
+  switch (action.type) {
+    case 'turn_on':
+    case 'turn_off':
+      if (device.isOn === (action.type === 'turn_on')) return false;
+      device.isOn = action.type === 'turn_on';
+      break;
+    case 'adjust_temperature': {
+      if (!action.parameters.temperature || !['ac', 'water_heater'].includes(device.type)) return false;
+      const temperature = Math.max(16, Math.min(30, action.parameters.temperature));
+      if (device.targetTemperature === temperature) return false;
+      device.targetTemperature = temperature;
+      break;
+    }
+    case 'adjust_brightness': {
+      if (!action.parameters.brightness || device.type !== 'light') return false;
+      const brightness = Math.max(0, Math.min(100, action.parameters.brightness));
+      if (device.brightness === brightness) return false;
+      device.brightness = brightness;
+      break;
+    }
+    case 'change_mode':
+      if (!action.parameters.mode || device.mode === action.parameters.mode) return false;
+      device.mode = action.parameters.mode;
+      break;
+    case 'notify':
+      return true;
+    default:
+      return false;
+  }
+
+  device.currentPowerUsage = simulatedPower(device);
+  return true;
+}
+
+interface DeviceSnapshot {
+  isOn: boolean;
+  power: number;
+}
+
+function snapshotOf(device: SmartDevice): DeviceSnapshot {
+  return { isOn: device.isOn, power: device.currentPowerUsage };
+}
+
+/**
+ * The rule's condition; rules without one fall back to their trigger value:
+ * a time, an occupancy, a price band, a weather condition, or 'on'/'off'
+ * for the watched device. The value is written as a literal of its type,
+ * never pasted in as condition text.
+ */
+function ruleCondition(trigger: AutomationRule['trigger']): string {
+  if (trigger.condition.trim() !== '') return trigger.condition.trim();
+
+  switch (trigger.type) {
+    case 'time': {
+      const minutes = parseClockTime(String(trigger.value ?? ''));
+      if (minutes === null) {
+        throw new RuleExpressionError(`"${trigger.value}" is not a time`, 0, String(trigger.value));
+      }
+      return `time = ${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
+    }
+    case 'occupancy':
+      return `room.occupancy = ${trigger.value === true || trigger.value === 'true'}`;
+    case 'energy_price':
+      return `tariff.band = ${ruleTextLiteral(String(trigger.value ?? ''))}`;
+    case 'weather':
+      return `weather.condition = ${ruleTextLiteral(String(trigger.value ?? ''))}`;
+    case 'device_state':
+      return trigger.value === 'off' ? 'source.wasOn and not source.isOn' : 'not source.wasOn and source.isOn';
+    default:
+      return '';
+  }
+}
+
 // Export singleton instance
 export const smartHomeController = new SmartHomeController();
 export default SmartHomeController;
\ No newline at end of file
@@ -3,6 +3,29 @@
  * Supports: Tata Power, Adani, BSES, HPL, and other major utilities
  */
 
+import { providerRegistry, getProviderAdapter } from './smart-meter/providers/registry';
+import { providerDetector } from './smart-meter/providers/detection';
+import { providerTokenManager, ProviderTokenManager, TokenSource } from './smart-meter/providers/token-manager';
+import {
+  providerHttpClient,
+  toSmartMeterErrorDetails,
+  ProviderRequestError,
+  SmartMeterErrorDetails
+} from './smart-meter/providers/http-client';
+import type {
+  ProviderAdapter,
+  ProviderBillingInfo,
+  ProviderCapabilities,
+  ProviderCredentials,
+  PrepaidBalance,
+  ProviderOutageStatus,
+  ProviderRequestContext,
+  ProviderTamperStatus,
+  ProviderToken,
+  RealTimeConsumption,
+  RechargeRecord
+} from './smart-meter/providers/types';
+
 export interface SmartMeterReading {
   consumerId: string;
   timestamp: string;
@@ -26,7 +49,16 @@ export interface SmartMeterReading {
   frequency?: number;
   energyImported: number;
   energyExported?: number;
+  solarGeneration?: number; // kWh from the rooftop PV generation meter, where available
   reactivePower?: number;
+  estimated?: (keyof SmartMeterReading)[]; // fields the provider didn't report, derived or 0
+}
+
+export interface ConsumerIdFormat {
+  pattern: RegExp;
+  description: string;
+  example: string;
+  generic?: boolean; // plain numeric formats shared with other DISCOMs
 }
 
 export interface SmartMeterProvider {
@@ -36,112 +68,54 @@ export interface SmartMeterProvider {
   authType: 'apiKey' | 'oauth' | 'basic' | 'jwt';
   regions: string[];
   supportedFeatures: string[];
+  consumerIdFormats?: ConsumerIdFormat[];
 }
 
 // Known Indian Smart Meter Providers Configuration
-export const SMART_METER_PROVIDERS: SmartMeterProvider[] = [
-  {
-    id: 'tata_power',
-    name: 'Tata Power',
-    baseUrl: 'https://wss.tatapower.com/api/smartmeter',
-    authType: 'jwt',
-    regions: ['Mumbai', 'Delhi', 'Odisha', 'Jharkhand'],
-    supportedFeatures: ['realtime', 'billing', 'demand', 'quality', 'outage']
-  },
-  {
-    id: 'adani',
-    name: 'Adani Electricity',
-    baseUrl: 'https://online.adanielectricity.com/api/meter',
-    authType: 'oauth',
-    regions: ['Mumbai Suburban', 'Ahmedabad', 'Surat'],
-    supportedFeatures: ['realtime', 'billing', 'demand', 'prepaid']
-  },
-  {
-    id: 'bses',
-    name: 'BSES Delhi',
-    baseUrl: 'https://www.bsesdelhi.com/api/smartgrid',
-    authType: 'apiKey',
-    regions: ['Delhi South', 'Delhi West'],
-    supportedFeatures: ['realtime', 'billing', 'outage', 'complaints']
-  },
-  {
-    id: 'hpl',
-    name: 'Haryana Power Limited',
-    baseUrl: 'https://hplonline.in/api/meters',
-    authType: 'basic',
-    regions: ['Gurgaon', 'Faridabad', 'Sonipat'],
-    supportedFeatures: ['realtime', 'billing']
-  },
-  {
-    id: 'secure_meters',
-    name: 'Secure Meters (L&T)',
-    baseUrl: 'https://securemeters.com/api/energy',
-    authType: 'jwt',
-    regions: ['Pan India'],
-    supportedFeatures: ['realtime', 'analytics', 'billing', 'quality', 'tamper']
-  },
-  {
-    id: 'genus',
-    name: 'Genus Power',
-    baseUrl: 'https://api.genuspower.com/smartmeters',
-    authType: 'apiKey',
-    regions: ['Pan India'],
-    supportedFeatures: ['realtime', 'prepaid', 'billing', 'remote_control']
-  },
-  {
-    id: 'qube',
-    name: 'Qube Energy Solutions',
-    baseUrl: 'https://qube-energy.com/api/v1/meters',
-    authType: 'oauth',
-    regions: ['Maharashtra', 'Karnataka', 'Tamil Nadu'],
-    supportedFeatures: ['realtime', 'analytics', 'billing']
-  }
-];
+// Each provider is defined by its adapter in ./smart-meter/providers
+export const SMART_METER_PROVIDERS: SmartMeterProvider[] = providerRegistry.list().map(adapter => adapter.provider);
+
+export interface SmartMeterAPIOptions {
+  // Return generated mock data instead of throwing when a provider call fails;
+  // for demo screens only, where made-up readings can't be taken for real ones
+  fallbackToMock: boolean;
+}
 
 export class SmartMeterAPI {
   private provider: SmartMeterProvider;
-  private credentials: {
-    apiKey?: string;
-    username?: string;
-    password?: string;
-    clientId?: string;
-    clientSecret?: string;
-    token?: string;
-  };
-
-  constructor(providerId: string, credentials: any) {
-    const provider = SMART_METER_PROVIDERS.find(p => p.id === providerId);
-    if (!provider) {
-      throw new Error(`Provider ${providerId} not supported`);
-    }
-    this.provider = provider;
+  private adapter: ProviderAdapter;
+  private credentials: ProviderCredentials;
+  private options: SmartMeterAPIOptions;
+  private lastError: SmartMeterErrorDetails | null = null;
+
+  constructor(providerId: string, credentials: any, options: Partial<SmartMeterAPIOptions> = {}) {
+    this.adapter = getProviderAdapter(providerId);
+    this.provider = this.adapter.provider;
     this.credentials = credentials;
+    this.options = { fallbackToMock: false, ...options };
   }
 
   /**
-   * Check if we should use mock API (for development/testing)
+   * Details of the most recent failed provider call, if any
    */
-  private shouldUseMockAPI(): boolean {
-    return process.env.NODE_ENV === 'development' || 
-           process.env.NEXT_PUBLIC_USE_MOCK_SMART_METER === 'true' ||
-           !this.hasValidCredentials();
+  getLastError(): SmartMeterErrorDetails | null {
+    return this.lastError;
   }
 
   /**
-   * Check if user has provided valid credentials
+   * Features the provider's API supports
    */
-  private hasValidCredentials(): boolean {
-    switch (this.provider.authType) {
-      case 'apiKey':
-        return !!this.credentials.apiKey;
-      case 'basic':
-      case 'jwt':
-        return !!(this.credentials.username && this.credentials.password);
-      case 'oauth':
-        return !!(this.credentials.clientId && this.credentials.clientSecret);
-      default:
-        return false;
-    }
+  get capabilities(): ProviderCapabilities {
+    return this.adapter.capabilities;
+  }
+
+  /**
+   * Check if we should use mock API (for development/testing)
+   */
+  private shouldUseMockAPI(): boolean {
+    return process.env.NODE_ENV === 'development' || 
+           process.env.NEXT_PUBLIC_USE_MOCK_SMART_METER === 'true' ||
+           !this.adapter.hasValidCredentials(this.credentials);
   }
 
   /**
@@ -155,48 +129,93 @@ export class SmartMeterAPI {
   }
 
   /**
-   * Authenticate with the smart meter provider
+   * Build the request context for an adapter call. When credentials are
+   * available the cached provider token is attached, and a 401 response
+   * triggers one retry with a renewed token.
    */
-  async authenticate(): Promise<string> {
-    const authUrl = `${this.provider.baseUrl}/auth`;
-    
-    try {
-      switch (this.provider.authType) {
-        case 'apiKey':
-          return this.credentials.apiKey || '';
-
-        case 'basic':
-          const basicAuth = btoa(`${this.credentials.username}:${this.credentials.password}`);
-          return `Basic ${basicAuth}`;
-
-        case 'oauth':
-          const oauthResponse = await fetch(`${authUrl}/oauth/token`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              grant_type: 'client_credentials',
-              client_id: this.credentials.clientId,
-              client_secret: this.credentials.clientSecret
-            })
-          });
-          const oauthData = await oauthResponse.json();
-          return oauthData.access_token;
-
-        case 'jwt':
-          const jwtResponse = await fetch(`${authUrl}/login`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              username: this.credentials.username,
-              password: this.credentials.password
-            })
-          });
-          const jwtData = await jwtResponse.json();
-          return jwtData.token;
-
-        default:
-          throw new Error('Unsupported authentication type');
+  private async createRequestContext(consumerId: string): Promise<ProviderRequestContext> {
+    const context = this.createBaseContext();
+    const baseFetch = context.fetch;
+
+    // Without credentials only the mock API can be used, and it does not require a token
+    if (!this.adapter.hasValidCredentials(this.credentials)) {
+      return context;
+    }
+
+    const tokenKey = ProviderTokenManager.key(this.provider.id, consumerId);
+    const tokenSource = this.createTokenSource(context);
+    let token = await providerTokenManager.getToken(tokenKey, tokenSource);
+    context.headers = this.adapter.buildHeaders(token.accessToken);
+
+    context.fetch = async (url, init) => {
+      const response = await baseFetch(url, { ...init, headers: context.headers });
+
+      // Static credentials (API keys, basic auth) cannot be renewed
+      if (response.status !== 401 || !this.isRenewable(token)) {
+        return response;
       }
+
+      token = await providerTokenManager.handleRejected(tokenKey, token, tokenSource);
+      context.headers = this.adapter.buildHeaders(token.accessToken);
+      return baseFetch(url, { ...init, headers: context.headers });
+    };
+
+    return context;
+  }
+
+  private createBaseContext(): ProviderRequestContext {
+    return {
+      providerId: this.provider.id,
+      baseUrl: this.getAPIBaseURL(),
+      mock: this.shouldUseMockAPI(),
+      headers: { 'Content-Type': 'application/json' },
+      fetch: (url, init) => providerHttpClient.fetch(this.provider.id, url, init)
+    };
+  }
+
+  private createTokenSource(context: ProviderRequestContext): TokenSource {
+    // Token requests never go through the 401-retrying wrapper
+    const authContext = { ...context, fetch: this.createBaseContext().fetch };
+
+    return {
+      authenticate: () => this.adapter.authenticate(this.credentials, authContext),
+      refresh: this.adapter.refreshToken
+        ? (token: ProviderToken) => this.adapter.refreshToken!(token, this.credentials, authContext)
+        : undefined
+    };
+  }
+
+  /**
+   * Record a failed provider call and either fall back to mock data or throw
+   * it as a ProviderRequestError
+   */
+  private handleFailure<T>(operation: string, error: unknown, fallback: () => T): T {
+    this.lastError = toSmartMeterErrorDetails(error);
+    console.error(`Failed to get ${operation} from ${this.provider.name}:`, error);
+
+    if (!this.options.fallbackToMock) {
+      throw error instanceof ProviderRequestError
+        ? error
+        : new ProviderRequestError(this.lastError.message, 'UNKNOWN', { providerId: this.provider.id, originalError: error });
+    }
+    return fallback();
+  }
+
+  private isRenewable(token: ProviderToken): boolean {
+    return token.expiresAt !== undefined || token.refreshToken !== undefined;
+  }
+
+  /**
+   * Authenticate with the smart meter provider, reusing a cached token
+   * while it is still valid
+   */
+  async authenticate(consumerId: string = 'default'): Promise<string> {
+    try {
+      const token = await providerTokenManager.getToken(
+        ProviderTokenManager.key(this.provider.id, consumerId),
+        this.createTokenSource(this.createBaseContext())
+      );
+      return token.accessToken;
     } catch (error) {
       console.error(`Authentication failed for ${this.provider.name}:`, error);
       throw error;
@@ -208,39 +227,13 @@ export class SmartMeterAPI {
    */
   async getCurrentReading(consumerId: string): Promise<SmartMeterReading> {
     try {
-      if (this.shouldUseMockAPI()) {
-        // Use local test API
-        const response = await fetch(
-          `${this.getAPIBaseURL()}?endpoint=current&consumerId=${consumerId}&provider=${this.provider.id}`
-        );
-        
-        if (!response.ok) {
-          throw new Error(`Mock API error: ${response.status}`);
-        }
-        
-        const data = await response.json();
-        return this.normalizeReading(data, consumerId);
-      } else {
-        // Use real provider API
-        const token = await this.authenticate();
-        const headers = this.buildHeaders(token);
-        
-        const response = await fetch(
-          `${this.provider.baseUrl}/consumers/${consumerId}/current`,
-          { headers }
-        );
-
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-
-        const data = await response.json();
-        return this.normalizeReading(data, consumerId);
-      }
+      const context = await this.createRequestContext(consumerId);
+      const reading = await this.adapter.getCurrentReading(context, consumerId);
+      this.lastError = null;
+      return reading;
     } catch (error) {
-      console.error(`Failed to get current reading from ${this.provider.name}:`, error);
       // Fallback to built-in mock data
-      return this.getMockReading(consumerId);
+      return this.handleFailure('current reading', error, () => this.getMockReading(consumerId));
     }
   }
 
@@ -252,179 +245,178 @@ export class SmartMeterAPI {
     startDate: string, 
     endDate: string
   ): Promise<SmartMeterReading[]> {
-     // For demo purposes, we will use mock data
-    // try {
-    //   const token = await this.authenticate();
-    //   const headers = this.buildHeaders(token);
-      
-    //   const response = await fetch(
-    //     `${this.provider.baseUrl}/consumers/${consumerId}/history?start=${startDate}&end=${endDate}`,
-    //     { headers }
-    //   );
-
-    //   if (!response.ok) {
-    //     throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    //   }
-
-    //   const data = await response.json();
-    //   return data.readings.map((reading: any) => this.normalizeReading(reading, consumerId));
-
-    // } catch (error) {
-    //   console.error(`Failed to get historical readings from ${this.provider.name}:`, error);
-      
+    try {
+      const context = await this.createRequestContext(consumerId);
+      const readings = await this.adapter.getHistoricalReadings(context, consumerId, startDate, endDate);
+      this.lastError = null;
+      return readings;
+    } catch (error) {
       // Return mock historical data
-      return this.getMockHistoricalReadings(consumerId, startDate, endDate);
-    // }
+      return this.handleFailure('historical readings', error, () =>
+        this.getMockHistoricalReadings(consumerId, startDate, endDate)
+      );
+    }
   }
 
   /**
    * Get real-time energy consumption (if supported)
    */
-  async getRealTimeConsumption(consumerId: string): Promise<{
-    instantPower: number;
-    voltage: number;
-    current: number;
-    frequency: number;
-    powerFactor: number;
-    timestamp: string;
-  }> {
-    if (!this.provider.supportedFeatures.includes('realtime')) {
+  async getRealTimeConsumption(consumerId: string): Promise<RealTimeConsumption> {
+    if (!this.capabilities.realtime) {
       throw new Error(`Real-time data not supported by ${this.provider.name}`);
     }
 
-    // For demo purposes, we will use mock data
-    // try {
-    //   const token = await this.authenticate();
-    //   const headers = this.buildHeaders(token);
-      
-    //   const response = await fetch(
-    //     `${this.provider.baseUrl}/consumers/${consumerId}/realtime`,
-    //     { headers }
-    //   );
-
-    //   if (!response.ok) {
-    //     throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    //   }
-
-    //   const data = await response.json();
-    //   return {
-    //     instantPower: data.instantPower || data.power || Math.random() * 5000,
-    //     voltage: data.voltage || 230 + Math.random() * 10,
-    //     current: data.current || Math.random() * 20,
-    //     frequency: data.frequency || 50 + Math.random() * 0.5,
-    //     powerFactor: data.powerFactor || 0.85 + Math.random() * 0.1,
-    //     timestamp: new Date().toISOString()
-    //   };
-
-    // } catch (error) {
-    //   console.error(`Failed to get real-time data from ${this.provider.name}:`, error);
-      
+    try {
+      const context = await this.createRequestContext(consumerId);
+      const realTime = await this.adapter.getRealTimeConsumption(context, consumerId);
+      this.lastError = null;
+      return realTime;
+    } catch (error) {
       // Return mock real-time data
-      return {
+      return this.handleFailure('real-time data', error, () => ({
         instantPower: Math.random() * 5000,
         voltage: 230 + Math.random() * 10,
         current: Math.random() * 20,
         frequency: 50 + Math.random() * 0.5,
         powerFactor: 0.85 + Math.random() * 0.1,
         timestamp: new Date().toISOString()
-      };
-    // }
+      }));
+    }
   }
 
   /**
    * Get billing information
    */
-  async getBillingInfo(consumerId: string, month?: string): Promise<{
-    billNumber: string;
-    billDate: string;
-    dueDate: string;
-    unitsConsumed: number;
-    amount: number;
-    status: 'paid' | 'unpaid' | 'overdue';
-    tariffDetails: any;
-  }> {
-    // For demo purposes, we will use mock data
-    // try {
-    //   const token = await this.authenticate();
-    //   const headers = this.buildHeaders(token);
-      
-    //   const monthParam = month ? `?month=${month}` : '';
-    //   const response = await fetch(
-    //     `${this.provider.baseUrl}/consumers/${consumerId}/billing${monthParam}`,
-    //     { headers }
-    //   );
-
-    //   if (!response.ok) {
-    //     throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    //   }
-
-    //   const data = await response.json();
-    //   return {
-    //     billNumber: data.billNumber || `BILL${Date.now()}`,
-    //     billDate: data.billDate || new Date().toISOString().split('T')[0],
-    //     dueDate: data.dueDate || new Date(Date.now() + 15 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-    //     unitsConsumed: data.unitsConsumed || Math.floor(Math.random() * 500) + 200,
-    //     amount: data.amount || Math.floor(Math.random() * 5000) + 2000,
-    //     status: data.status || 'unpaid',
-    //     tariffDetails: data.tariffDetails || { rate: 6.5, fixedCharge: 150 }
-    //   };
-
-    // } catch (error) {
-    //   console.error(`Failed to get billing info from ${this.provider.name}:`, error);
-      
+  async getBillingInfo(consumerId: string, month?: string): Promise<ProviderBillingInfo> {
+    try {
+      const context = await this.createRequestContext(consumerId);
+      const billing = await this.adapter.getBillingInfo(context, consumerId, month);
+      this.lastError = null;
+      return billing;
+    } catch (error) {
       // Return mock billing data
-      const unitsConsumed = Math.floor(Math.random() * 500) + 200;
-      return {
-        billNumber: `BILL${Date.now()}`,
-        billDate: new Date().toISOString().split('T')[0],
-        dueDate: new Date(Date.now() + 15 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-        unitsConsumed,
-        amount: Math.floor(unitsConsumed * 6.5) + 150,
-        status: 'unpaid',
-        tariffDetails: { rate: 6.5, fixedCharge: 150 }
-      };
-    // }
+      return this.handleFailure('billing info', error, () => {
+        const unitsConsumed = Math.floor(Math.random() * 500) + 200;
+        return {
+          billNumber: `BILL${Date.now()}`,
+          billDate: new Date().toISOString().split('T')[0],
+          dueDate: new Date(Date.now() + 15 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+          unitsConsumed,
+          amount: Math.floor(unitsConsumed * 6.5) + 150,
+          status: 'unpaid' as const,
+          tariffDetails: { rate: 6.5, fixedCharge: 150 }
+        };
+      });
+    }
   }
 
-  private buildHeaders(token: string): HeadersInit {
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json'
-    };
+  /**
+   * Get the prepaid balance (if supported)
+   */
+  async getPrepaidBalance(consumerId: string): Promise<PrepaidBalance> {
+    if (!this.capabilities.prepaid) {
+      throw new Error(`Prepaid metering not supported by ${this.provider.name}`);
+    }
 
-    switch (this.provider.authType) {
-      case 'apiKey':
-        headers['X-API-Key'] = token;
-        break;
-      case 'basic':
-        headers['Authorization'] = token;
-        break;
-      case 'oauth':
-      case 'jwt':
-        headers['Authorization'] = `Bearer ${token}`;
-        break;
+    try {
+      const context = await this.createRequestContext(consumerId);
+      const balance = await this.adapter.getPrepaidBalance(context, consumerId);
+      this.lastError = null;
+      return balance;
+    } catch (error) {
+      // Return mock prepaid balance
+      return this.handleFailure('prepaid balance', error, () => {
+        const balance = Math.round(Math.random() * 800 + 50);
+        return {
+          balance,
+          currency: 'INR',
+          emergencyCredit: 100,
+          tariffRate: 6.5,
+          status: balance < 200 ? 'low' as const : 'active' as const,
+          lastRecharge: {
+            amount: 1000,
+            date: new Date(Date.now() - 12 * 24 * 60 * 60 * 1000).toISOString()
+          },
+          timestamp: new Date().toISOString()
+        };
+      });
     }
+  }
 
-    return headers;
+  /**
+   * Get prepaid recharge history, newest first (if supported)
+   */
+  async getRechargeHistory(consumerId: string, startDate?: string, endDate?: string): Promise<RechargeRecord[]> {
+    if (!this.capabilities.prepaid) {
+      throw new Error(`Prepaid metering not supported by ${this.provider.name}`);
+    }
+
+    try {
+      const context = await this.createRequestContext(consumerId);
+      const recharges = await this.adapter.getRechargeHistory(context, consumerId, startDate, endDate);
+      this.lastError = null;
+      return recharges;
+    } catch (error) {
+      // Return mock recharge history
+      return this.handleFailure('recharge history', error, () =>
+        [12, 42, 73].map((daysAgo, index) => ({
+          transactionId: `TXN${Date.now() - index}`,
+          amount: 1000,
+          unitsCredited: Math.round(1000 / 6.5),
+          date: new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000).toISOString(),
+          channel: 'upi',
+          status: 'success' as const
+        }))
+      );
+    }
   }
 
-  private normalizeReading(data: any, consumerId: string): SmartMeterReading {
-    return {
-      consumerId,
-      timestamp: data.timestamp || new Date().toISOString(),
-      currentReading: data.currentReading || data.reading || Math.floor(Math.random() * 10000),
-      previousReading: data.previousReading || data.lastReading || Math.floor(Math.random() * 9000),
-      unitsConsumed: data.unitsConsumed || data.consumption || Math.floor(Math.random() * 500),
-      tariffRate: data.tariffRate || data.rate || 6.5,
-      billAmount: data.billAmount || data.amount || Math.floor(Math.random() * 3000),
-      powerFactor: data.powerFactor || 0.85,
-      maxDemand: data.maxDemand || Math.random() * 10,
-      voltage: data.voltage || { r: 230, y: 235, b: 228 },
-      current: data.current || { r: 15, y: 18, b: 16 },
-      frequency: data.frequency || 50.2,
-      energyImported: data.energyImported || data.imported || Math.random() * 1000,
-      energyExported: data.energyExported || data.exported || 0,
-      reactivePower: data.reactivePower || Math.random() * 100
-    };
+  /**
+   * Get supply outage status from the provider (if supported)
+   */
+  async getOutageStatus(consumerId: string): Promise<ProviderOutageStatus> {
+    if (!this.capabilities.outage) {
+      throw new Error(`Outage status not supported by ${this.provider.name}`);
+    }
+
+    try {
+      const context = await this.createRequestContext(consumerId);
+      const status = await this.adapter.getOutageStatus(context, consumerId);
+      this.lastError = null;
+      return status;
+    } catch (error) {
+      // Assume supply is available when the provider can't be reached
+      return this.handleFailure('outage status', error, () => ({
+        consumerId,
+        supplyAvailable: true,
+        outages: [],
+        timestamp: new Date().toISOString()
+      }));
+    }
+  }
+
+  /**
+   * Get tamper events reported by the meter (if supported)
+   */
+  async getTamperStatus(consumerId: string): Promise<ProviderTamperStatus> {
+    if (!this.capabilities.tamper) {
+      throw new Error(`Tamper detection not supported by ${this.provider.name}`);
+    }
+
+    try {
+      const context = await this.createRequestContext(consumerId);
+      const status = await this.adapter.getTamperStatus(context, consumerId);
+      this.lastError = null;
+      return status;
+    } catch (error) {
+      // Report no tamper when the provider can't be reached, rather than a false alarm
+      return this.handleFailure('tamper status', error, () => ({
+        consumerId,
+        tampered: false,
+        events: [],
+        timestamp: new Date().toISOString()
+      }));
+    }
   }
 
   private getMockReading(consumerId: string): SmartMeterReading {
@@ -487,28 +479,13 @@ export class SmartMeterAPI {
   }
 }
 
-// Utility function to detect provider from consumer ID or location
+// Utility function to detect provider from consumer ID or location.
+// See providerDetector for ranked candidates with confidence scores.
 export function detectProvider(consumerId: string, location?: string): string {
-  // Consumer ID patterns for different providers
-  if (consumerId.match(/^TP\d+/)) return 'tata_power';
-  if (consumerId.match(/^AD\d+/)) return 'adani';
-  if (consumerId.match(/^BS\d+/)) return 'bses';
-  if (consumerId.match(/^HP\d+/)) return 'hpl';
-  if (consumerId.match(/^GN\d+/)) return 'genus';
-  if (consumerId.match(/^QE\d+/)) return 'qube';
-  if (consumerId.match(/^SM\d+/)) return 'secure_meters';
-
-  // Location-based detection
-  if (location) {
-    const loc = location.toLowerCase();
-    if (loc.includes('mumbai') || loc.includes('delhi')) return 'tata_power';
-    if (loc.includes('ahmedabad') || loc.includes('surat')) return 'adani';
-    if (loc.includes('delhi')) return 'bses';
-    if (loc.includes('gurgaon') || loc.includes('faridabad')) return 'hpl';
-  }
+  const [best] = providerDetector.detect({ consumerId, location });
 
   // Default to a generic provider
-  return 'genus';
+  return best?.providerId || 'genus';
 }
 
 export default SmartMeterAPI;
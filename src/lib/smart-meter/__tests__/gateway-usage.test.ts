@@ -0,0 +1,110 @@
+/**
+ * Tests for meter gateway quotas
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { gatewayStore } from '../../firebase/gateway-store';
+import { GatewayUsageMeter, UNAUTHENTICATED_CALLER } from '../gateway-usage';
+
+vi.mock('../../firebase/gateway-store', () => ({
+  gatewayStore: {
+    consumeApiQuota: vi.fn(),
+    getApiUsage: vi.fn()
+  }
+}));
+
+const consumeApiQuota = vi.mocked(gatewayStore.consumeApiQuota);
+const getApiUsage = vi.mocked(gatewayStore.getApiUsage);
+
+const NOW = new Date('2026-10-19T23:59:00Z');
+const later = (seconds: number) => new Date(NOW.getTime() + seconds * 1000);
+
+describe('GatewayUsageMeter.consumeQuota', () => {
+  let meter: GatewayUsageMeter;
+
+  beforeEach(() => {
+    meter = new GatewayUsageMeter();
+    consumeApiQuota.mockReset();
+    getApiUsage.mockReset();
+    consumeApiQuota.mockImplementation(async () => ({ allowed: true, used: 1 }));
+  });
+
+  it("counts an allowed request against the key's daily allowance", async () => {
+    consumeApiQuota.mockResolvedValue({ allowed: true, used: 10 });
+
+    expect(await meter.consumeQuota('key-1', undefined, NOW)).toEqual({
+      allowed: true,
+      quota: { dailyRequests: 5000, requestsPerMinute: 120 },
+      dailyUsed: 10,
+      dailyRemaining: 4990,
+      minuteRemaining: 119,
+      resetAt: '2026-10-20T00:00:00.000Z'
+    });
+    expect(consumeApiQuota).toHaveBeenCalledWith('key-1', '2026-10-19', 5000);
+  });
+
+  it("uses the key's own rate limit, then overrides, then the defaults", async () => {
+    const custom = new GatewayUsageMeter({ keyQuotas: { 'key-2': { dailyRequests: 50 } } });
+
+    expect((await custom.consumeQuota('key-1', { dailyRequests: 10, requestsPerMinute: 2 }, NOW)).quota)
+      .toEqual({ dailyRequests: 10, requestsPerMinute: 2 });
+    expect((await custom.consumeQuota('key-2', undefined, NOW)).quota).toEqual({ dailyRequests: 50, requestsPerMinute: 120 });
+    expect((await custom.consumeQuota(UNAUTHENTICATED_CALLER, undefined, NOW)).quota)
+      .toEqual({ dailyRequests: 500, requestsPerMinute: 20 });
+  });
+
+  it('rejects requests over the per-minute limit without touching the daily count', async () => {
+    const rateLimit = { dailyRequests: 100, requestsPerMinute: 2 };
+    getApiUsage.mockResolvedValue([{ requests: 2 } as any]);
+
+    await meter.consumeQuota('key-1', rateLimit, NOW);
+    await meter.consumeQuota('key-1', rateLimit, later(10));
+    const check = await meter.consumeQuota('key-1', rateLimit, later(20));
+
+    expect(check).toMatchObject({ allowed: false, dailyUsed: 2, dailyRemaining: 98, minuteRemaining: 0, retryAfterSeconds: 40 });
+    expect(consumeApiQuota).toHaveBeenCalledTimes(2);
+    expect(getApiUsage).toHaveBeenCalledWith('key-1', '2026-10-19', '2026-10-19');
+  });
+
+  it('frees minute slots as they age out', async () => {
+    const rateLimit = { dailyRequests: 100, requestsPerMinute: 2 };
+    getApiUsage.mockResolvedValue([]);
+
+    await meter.consumeQuota('key-1', rateLimit, NOW);
+    await meter.consumeQuota('key-1', rateLimit, later(30));
+
+    expect((await meter.consumeQuota('key-1', rateLimit, later(59))).allowed).toBe(false);
+    expect(await meter.consumeQuota('key-1', rateLimit, later(60))).toMatchObject({ allowed: true, minuteRemaining: 0 });
+  });
+
+  it('keeps a separate minute window for each key', async () => {
+    const rateLimit = { dailyRequests: 100, requestsPerMinute: 1 };
+
+    expect((await meter.consumeQuota('key-1', rateLimit, NOW)).allowed).toBe(true);
+    expect((await meter.consumeQuota('key-2', rateLimit, NOW)).allowed).toBe(true);
+  });
+
+  it('rejects requests over the daily allowance until midnight UTC and gives the minute slot back', async () => {
+    const rateLimit = { dailyRequests: 100, requestsPerMinute: 2 };
+    consumeApiQuota.mockResolvedValueOnce({ allowed: false, used: 100 });
+
+    expect(await meter.consumeQuota('key-1', rateLimit, NOW)).toMatchObject({
+      allowed: false,
+      dailyUsed: 100,
+      dailyRemaining: 0,
+      minuteRemaining: 2,
+      retryAfterSeconds: 60
+    });
+    expect(await meter.consumeQuota('key-1', rateLimit, later(1))).toMatchObject({ allowed: true, minuteRemaining: 1 });
+  });
+
+  it('lets requests through when the store is unreachable', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    consumeApiQuota.mockRejectedValue(new Error('unavailable'));
+
+    expect(await meter.consumeQuota('key-1', undefined, NOW)).toMatchObject({ allowed: true, dailyUsed: 0 });
+    expect(consoleError).toHaveBeenCalledWith('Failed to count gateway usage:', expect.any(Error));
+
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Tests for the reading ingestion pipeline
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { firestoreService, BatchOperation } from '../../firebase/firestore-service';
+import { COLLECTIONS } from '../../firebase/schema';
+import { ReadingData, ReadingIngestionPipeline } from '../reading-ingestion';
+
+vi.mock('../../firebase/firestore-service', () => ({
+  firestoreService: {
+    existingIds: vi.fn(),
+    batch: vi.fn(),
+    getReadingRollups: vi.fn()
+  }
+}));
+
+const existingIds = vi.mocked(firestoreService.existingIds);
+const batch = vi.mocked(firestoreService.batch);
+
+const START = Date.parse('2026-10-19T00:00:00Z');
+const MINUTE_MS = 60 * 1000;
+
+const reading = (minutes: number, instantPower = 1.5, smartMeterId = 'meter-1'): ReadingData => ({
+  userId: 'user-1',
+  smartMeterId,
+  reading: {
+    timestamp: Timestamp.fromMillis(START + minutes * MINUTE_MS),
+    instantPower,
+    energy: 0.1,
+    voltage: { average: 230 },
+    current: { average: 6.5 },
+    frequency: 50,
+    powerFactor: 0.95
+  },
+  metrics: { cost: 0.65, co2Emissions: 0.08, efficiency: 8, demand: instantPower },
+  quality: { reliability: 1, accuracy: 0.99, source: 'meter', confidence: 0.98 },
+  context: { timeOfUse: 'standard', season: 'autumn' }
+});
+
+const writes = (call: number, collection: string): BatchOperation[] =>
+  batch.mock.calls[call][0].filter(op => op.collection === collection);
+
+describe('ReadingIngestionPipeline', () => {
+  let pipeline: ReadingIngestionPipeline;
+
+  beforeEach(() => {
+    pipeline = new ReadingIngestionPipeline({ batchSize: 10000, flushInterval: 60 * MINUTE_MS });
+    existingIds.mockReset();
+    batch.mockReset();
+    existingIds.mockResolvedValue(new Set());
+    batch.mockResolvedValue(undefined);
+  });
+
+  it('rejects invalid and future readings', () => {
+    const now = new Date(START);
+
+    expect(pipeline.ingest({ ...reading(0), userId: '' }, now)).toMatchObject({ accepted: false, reason: 'invalid' });
+    expect(pipeline.ingest(reading(10), now)).toMatchObject({
+      accepted: false,
+      reason: 'invalid',
+      issues: [{ message: 'Reading timestamp is in the future' }]
+    });
+    expect(pipeline.bufferedCount).toBe(0);
+  });
+
+  it('skips repeats while buffered and after they are written', async () => {
+    expect(pipeline.ingest(reading(0))).toEqual({ accepted: true, id: `meter-1_${START}` });
+    expect(pipeline.ingest(reading(0))).toMatchObject({ accepted: false, reason: 'duplicate' });
+
+    await pipeline.flush();
+
+    expect(pipeline.ingest(reading(0))).toMatchObject({ accepted: false, reason: 'duplicate' });
+    expect(existingIds).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips readings another client already stored', async () => {
+    pipeline.ingest(reading(0));
+    pipeline.ingest(reading(1));
+    existingIds.mockResolvedValue(new Set([`meter-1_${START}`]));
+
+    expect(await pipeline.flush()).toMatchObject({
+      written: 1,
+      skipped: 1,
+      skippedIds: [`meter-1_${START}`],
+      meterIds: ['meter-1']
+    });
+    expect(existingIds).toHaveBeenCalledWith(
+      COLLECTIONS.READINGS,
+      [`meter-1_${START}`, `meter-1_${START + MINUTE_MS}`],
+      [['userId', '==', 'user-1'], ['smartMeterId', '==', 'meter-1']]
+    );
+    expect(writes(0, COLLECTIONS.READINGS).map(op => op.id)).toEqual([`meter-1_${START + MINUTE_MS}`]);
+  });
+
+  it('writes one rollup per bucket with the peak power as a maximum', async () => {
+    pipeline.ingest(reading(1, 2));
+    pipeline.ingest(reading(7, 4.5));
+    pipeline.ingest(reading(16, 1));
+
+    expect(await pipeline.flush()).toMatchObject({ written: 3, rollupsUpdated: 4 });
+
+    const rollups = writes(0, COLLECTIONS.READING_ROLLUPS);
+    expect(rollups.map(op => [op.data.resolution, op.data.periodStart.toMillis(), op.maximum])).toEqual([
+      ['15m', START, { peakPower: 4.5 }],
+      ['1h', START - 30 * MINUTE_MS, { peakPower: 4.5 }], // 05:00 in Kolkata
+      ['1d', Date.parse('2026-10-18T18:30:00Z'), { peakPower: 4.5 }], // midnight in Kolkata
+      ['15m', START + 15 * MINUTE_MS, { peakPower: 1 }]
+    ]);
+    expect(rollups.every(op => op.merge)).toBe(true);
+  });
+
+  it('follows the meter time zone for rollup buckets', async () => {
+    pipeline.setMeterTimeZone('meter-1', 'America/New_York');
+    pipeline.ingest(reading(0));
+    await pipeline.flush();
+
+    const daily = writes(0, COLLECTIONS.READING_ROLLUPS).find(op => op.data.resolution === '1d');
+    expect(daily?.data.periodStart.toMillis()).toBe(Date.parse('2026-10-18T04:00:00Z'));
+  });
+
+  it('splits large flushes into batches of at most 500 writes', async () => {
+    // A reading every 15 minutes: each adds itself, a 15-minute rollup and every fourth an hourly one
+    for (let i = 0; i < 400; i++) pipeline.ingest(reading(i * 15 - 400 * 15));
+
+    expect(await pipeline.flush()).toMatchObject({ written: 400, failed: 0 });
+    expect(batch.mock.calls.length).toBeGreaterThan(1);
+    batch.mock.calls.forEach(([operations]) => expect(operations.length).toBeLessThanOrEqual(500));
+    expect(batch.mock.calls.flatMap((_, call) => writes(call, COLLECTIONS.READINGS))).toHaveLength(400);
+  });
+
+  it('keeps readings whose write failed for the next flush', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    pipeline.ingest(reading(0));
+    pipeline.ingest(reading(0, 1.5, 'meter-2'));
+    batch.mockRejectedValueOnce(new Error('unavailable'));
+
+    expect(await pipeline.flush()).toMatchObject({ written: 1, failed: 1, meterIds: ['meter-2'] });
+    expect(pipeline.isBuffered(`meter-1_${START}`)).toBe(true);
+
+    expect(await pipeline.flush()).toMatchObject({ written: 1, failed: 0, meterIds: ['meter-1'] });
+    expect(pipeline.bufferedCount).toBe(0);
+
+    consoleError.mockRestore();
+  });
+});
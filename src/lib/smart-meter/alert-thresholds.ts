@@ -0,0 +1,402 @@
+/**
+ * Per-Meter Alert Thresholds
+ *
+ * Evaluates readings against the meter's own `config.alertThresholds`
+ * (high usage, low/high voltage, power factor) and the supply standards of
+ * its region (nominal voltage, frequency band). A condition raises one
+ * notification when it starts; it only clears once the value is back inside
+ * the threshold by a hysteresis margin, and the same condition on the same
+ * meter is not notified again until its cooldown has passed, so a reading
+ * hovering around a threshold doesn't produce an alert storm.
+ */
+
+import { firestoreService } from '../firebase/firestore-service';
+import type { Notification, SmartMeter } from '../firebase/schema';
+
+export type AlertThresholds = SmartMeter['config']['alertThresholds'];
+export type AlertRegion = 'IN' | 'EU' | 'US';
+export type ThresholdMetric = 'high_usage' | 'low_voltage' | 'high_voltage' | 'low_power_factor' | 'frequency';
+
+export interface RegionProfile {
+  label: string;
+  nominalVoltage: number; // V, phase-to-neutral
+  nominalFrequency: number; // Hz
+  frequencyTolerance: number; // Hz either side of nominal
+  currency: string;
+  tariffRate: number; // typical price per kWh, for meters set up without one
+  thresholds: AlertThresholds; // defaults for new meters
+}
+
+// Where meters are assumed to be when nothing says otherwise
+export const DEFAULT_REGION: AlertRegion = 'IN';
+
+export const REGION_PROFILES: Record<AlertRegion, RegionProfile> = {
+  // CEA supply code: 230 V ±10%, 50 Hz within 49.5–50.5 Hz; most DISCOMs bill PF below 0.9
+  IN: {
+    label: 'India (230 V / 50 Hz)',
+    nominalVoltage: 230,
+    nominalFrequency: 50,
+    frequencyTolerance: 0.5,
+    currency: 'INR',
+    tariffRate: 6.5,
+    thresholds: { highUsage: 5, lowVoltage: 207, highVoltage: 253, powerFactor: 0.9 }
+  },
+  // EN 50160: 230 V ±10%, 50 Hz ±1%
+  EU: {
+    label: 'Europe (230 V / 50 Hz)',
+    nominalVoltage: 230,
+    nominalFrequency: 50,
+    frequencyTolerance: 0.5,
+    currency: 'EUR',
+    tariffRate: 0.25,
+    thresholds: { highUsage: 7, lowVoltage: 207, highVoltage: 253, powerFactor: 0.85 }
+  },
+  // ANSI C84.1 range A: 120 V ±5%
+  US: {
+    label: 'North America (120 V / 60 Hz)',
+    nominalVoltage: 120,
+    nominalFrequency: 60,
+    frequencyTolerance: 0.5,
+    currency: 'USD',
+    tariffRate: 0.12,
+    thresholds: { highUsage: 10, lowVoltage: 114, highVoltage: 126, powerFactor: 0.85 }
+  }
+};
+
+// Thresholds for one meter: its own limits plus the region's supply standards
+export interface EffectiveThresholds extends AlertThresholds {
+  region: AlertRegion;
+  nominalVoltage: number;
+  nominalFrequency: number;
+  frequencyTolerance: number;
+}
+
+export interface ThresholdSample {
+  timestamp: Date;
+  voltage: number; // V
+  frequency: number; // Hz
+  powerFactor: number;
+  power?: number; // kW, whole-meter demand; high usage isn't checked without it
+}
+
+export interface ThresholdViolation {
+  metric: ThresholdMetric;
+  value: number;
+  threshold: number;
+}
+
+export interface ThresholdEvaluation {
+  violations: ThresholdViolation[];
+  raised: ThresholdViolation[]; // started and notified
+  suppressed: ThresholdViolation[]; // started again within the cooldown
+  cleared: ThresholdMetric[];
+  notifications: Notification[];
+}
+
+// Engine Configuration
+interface AlertThresholdConfig {
+  defaultRegion: AlertRegion; // for readings whose meter isn't known
+  cooldown: number; // ms before the same condition on a meter is notified again
+  outageVoltage: number; // V, below this the supply is off and outage detection takes over
+  hysteresis: {
+    voltage: number; // fraction of nominal voltage
+    frequency: number; // Hz
+    powerFactor: number;
+    usage: number; // fraction of the high usage threshold
+  };
+}
+
+const DEFAULT_CONFIG: AlertThresholdConfig = {
+  defaultRegion: DEFAULT_REGION,
+  cooldown: 30 * 60 * 1000,
+  outageVoltage: 10,
+  hysteresis: {
+    voltage: 0.01,
+    frequency: 0.1,
+    powerFactor: 0.02,
+    usage: 0.1
+  }
+};
+
+const METRIC_LABELS: Record<ThresholdMetric, string> = {
+  high_usage: 'High power usage',
+  low_voltage: 'Low voltage',
+  high_voltage: 'High voltage',
+  low_power_factor: 'Low power factor',
+  frequency: 'Supply frequency out of range'
+};
+
+const METRIC_CLASSIFICATION: Record<ThresholdMetric, Pick<Notification['classification'], 'priority' | 'category'>> = {
+  high_usage: { priority: 'medium', category: 'energy' },
+  low_voltage: { priority: 'medium', category: 'system' },
+  high_voltage: { priority: 'high', category: 'system' },
+  low_power_factor: { priority: 'low', category: 'billing' },
+  frequency: { priority: 'medium', category: 'system' }
+};
+
+interface ConditionState {
+  active: boolean;
+  lastNotifiedAt: number | null;
+}
+
+/**
+ * The region a meter is installed in: Indian providers bill in INR, and
+ * otherwise the supply voltage tells 230 V regions from 120 V ones
+ */
+export function meterRegion(meter: {
+  config: Pick<SmartMeter['config'], 'currency' | 'timezone'>;
+  installation: Pick<SmartMeter['installation'], 'voltage'>;
+}): AlertRegion {
+  if (meter.config.currency === 'INR' || /^Asia\/(Kolkata|Calcutta)$/.test(meter.config.timezone)) return 'IN';
+  return meter.installation.voltage >= 180 ? 'EU' : 'US';
+}
+
+/**
+ * The region for a meter being set up, from whatever is known about it: a
+ * region's currency, an Indian time zone, a 120 V supply. Other currencies
+ * go by voltage as in meterRegion; meters nothing else is known about are
+ * taken to be in the default region.
+ */
+export function newMeterRegion(info: { currency?: string; voltage?: number; timezone?: string }): AlertRegion {
+  const byCurrency = (Object.keys(REGION_PROFILES) as AlertRegion[])
+    .find(region => REGION_PROFILES[region].currency === info.currency);
+  if (byCurrency) return byCurrency;
+  if (info.timezone && /^Asia\/(Kolkata|Calcutta)$/.test(info.timezone)) return 'IN';
+  if (info.voltage !== undefined && info.voltage < 180) return 'US';
+  return info.currency ? 'EU' : DEFAULT_REGION;
+}
+
+/**
+ * Thresholds a new meter starts with
+ */
+export function defaultAlertThresholds(region: AlertRegion): AlertThresholds {
+  return { ...REGION_PROFILES[region].thresholds };
+}
+
+/**
+ * Problems with a set of thresholds, as messages for the editor; empty when valid
+ */
+export function validateAlertThresholds(thresholds: AlertThresholds): string[] {
+  const problems: string[] = [];
+  if (!(thresholds.highUsage > 0)) problems.push('High usage must be above 0 kW');
+  if (!(thresholds.lowVoltage >= 0)) problems.push('Low voltage cannot be negative');
+  if (!(thresholds.highVoltage > thresholds.lowVoltage)) problems.push('High voltage must be above low voltage');
+  if (!(thresholds.powerFactor >= 0 && thresholds.powerFactor <= 1)) problems.push('Power factor must be between 0 and 1');
+  return problems;
+}
+
+export class AlertThresholdEngine {
+  private config: AlertThresholdConfig;
+  private conditions: Map<string, ConditionState> = new Map();
+
+  constructor(config: Partial<AlertThresholdConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * The meter's thresholds, or the default region's when the meter isn't known
+   */
+  thresholdsFor(meter?: Pick<SmartMeter, 'config' | 'installation'> | null): EffectiveThresholds {
+    const region = meter ? meterRegion(meter) : this.config.defaultRegion;
+    const { thresholds, label, currency, tariffRate, ...supply } = REGION_PROFILES[region];
+
+    return {
+      ...thresholds,
+      ...meter?.config.alertThresholds,
+      ...supply,
+      region
+    };
+  }
+
+  /**
+   * Thresholds the sample is beyond, without hysteresis or cooldown. A sample
+   * without supply has none: that is an outage, not a voltage problem.
+   */
+  violations(thresholds: EffectiveThresholds, sample: ThresholdSample): ThresholdViolation[] {
+    return this.check(thresholds, sample, () => false);
+  }
+
+  /**
+   * Update the meter's alert conditions with a reading and notify the user
+   * about conditions that started
+   */
+  async evaluate(
+    userId: string,
+    meter: SmartMeter,
+    sample: ThresholdSample
+  ): Promise<ThresholdEvaluation> {
+    const thresholds = this.thresholdsFor(meter);
+    const evaluation = this.transition(meter.id, thresholds, sample);
+
+    for (const violation of evaluation.raised) {
+      evaluation.notifications.push(
+        await firestoreService.createNotification(this.toNotification(userId, meter, thresholds, violation, sample))
+      );
+    }
+
+    return evaluation;
+  }
+
+  /**
+   * Apply a sample to the meter's condition state. Active conditions stay
+   * active until the value clears the threshold by the hysteresis margin.
+   */
+  transition(meterId: string, thresholds: EffectiveThresholds, sample: ThresholdSample): ThresholdEvaluation {
+    const now = sample.timestamp.getTime();
+    const violations = this.check(thresholds, sample, metric => !!this.conditions.get(`${meterId}:${metric}`)?.active);
+    const evaluation: ThresholdEvaluation = { violations, raised: [], suppressed: [], cleared: [], notifications: [] };
+
+    // Without supply nothing can be judged, so conditions are left as they are
+    if (sample.voltage < this.config.outageVoltage) return evaluation;
+
+    const violated = new Set(violations.map(violation => violation.metric));
+    for (const [key, state] of this.conditions) {
+      const [conditionMeter, metric] = key.split(':') as [string, ThresholdMetric];
+      if (conditionMeter === meterId && state.active && !violated.has(metric) && this.isChecked(metric, sample)) {
+        state.active = false;
+        evaluation.cleared.push(metric);
+      }
+    }
+
+    for (const violation of violations) {
+      const key = `${meterId}:${violation.metric}`;
+      const state = this.conditions.get(key) || { active: false, lastNotifiedAt: null };
+      if (state.active) continue;
+
+      state.active = true;
+      if (state.lastNotifiedAt !== null && now - state.lastNotifiedAt < this.config.cooldown) {
+        evaluation.suppressed.push(violation);
+      } else {
+        state.lastNotifiedAt = now;
+        evaluation.raised.push(violation);
+      }
+      this.conditions.set(key, state);
+    }
+
+    return evaluation;
+  }
+
+  /**
+   * Forget a meter's conditions, e.g. after its thresholds change
+   */
+  reset(meterId: string): void {
+    for (const key of [...this.conditions.keys()]) {
+      if (key.startsWith(`${meterId}:`)) this.conditions.delete(key);
+    }
+  }
+
+  toNotification(
+    userId: string,
+    meter: SmartMeter,
+    thresholds: EffectiveThresholds,
+    violation: ThresholdViolation,
+    sample: ThresholdSample
+  ): Omit<Notification, 'id' | 'createdAt' | 'updatedAt'> {
+    const classification = METRIC_CLASSIFICATION[violation.metric];
+    const urgent = classification.priority === 'high';
+
+    return {
+      userId,
+      content: {
+        type: urgent ? 'alert' : 'warning',
+        title: `${METRIC_LABELS[violation.metric]} on meter ${meter.meterId}`,
+        message: this.describe(violation, thresholds),
+        icon: violation.metric === 'high_usage' ? 'zap' : 'alert-triangle',
+        actionUrl: '/dashboard/smart-meter',
+        actionText: 'Review thresholds'
+      },
+      channels: {
+        inApp: true,
+        email: false,
+        push: urgent,
+        sms: false
+      },
+      status: {
+        isRead: false,
+        deliveryStatus: 'pending'
+      },
+      classification: {
+        ...classification,
+        tags: ['threshold', violation.metric, thresholds.region]
+      },
+      context: {
+        triggeredBy: 'threshold_check',
+        relatedEntity: {
+          type: 'smartMeter',
+          id: meter.id
+        },
+        metadata: {
+          metric: violation.metric,
+          value: violation.value,
+          threshold: violation.threshold,
+          region: thresholds.region,
+          readingAt: sample.timestamp.toISOString()
+        }
+      }
+    };
+  }
+
+  private check(
+    thresholds: EffectiveThresholds,
+    sample: ThresholdSample,
+    isActive: (metric: ThresholdMetric) => boolean
+  ): ThresholdViolation[] {
+    if (sample.voltage < this.config.outageVoltage) return [];
+
+    const { hysteresis } = this.config;
+    // An active condition needs the value back past the threshold by the margin to clear
+    const margin = (metric: ThresholdMetric, amount: number) => isActive(metric) ? amount : 0;
+    const violations: ThresholdViolation[] = [];
+
+    const voltageMargin = thresholds.nominalVoltage * hysteresis.voltage;
+    if (sample.voltage < thresholds.lowVoltage + margin('low_voltage', voltageMargin)) {
+      violations.push({ metric: 'low_voltage', value: sample.voltage, threshold: thresholds.lowVoltage });
+    }
+    if (sample.voltage > thresholds.highVoltage - margin('high_voltage', voltageMargin)) {
+      violations.push({ metric: 'high_voltage', value: sample.voltage, threshold: thresholds.highVoltage });
+    }
+
+    const deviation = Math.abs(sample.frequency - thresholds.nominalFrequency);
+    if (deviation > thresholds.frequencyTolerance - margin('frequency', hysteresis.frequency)) {
+      violations.push({ metric: 'frequency', value: sample.frequency, threshold: thresholds.frequencyTolerance });
+    }
+
+    if (sample.powerFactor > 0 &&
+        sample.powerFactor < thresholds.powerFactor + margin('low_power_factor', hysteresis.powerFactor)) {
+      violations.push({ metric: 'low_power_factor', value: sample.powerFactor, threshold: thresholds.powerFactor });
+    }
+
+    if (sample.power !== undefined &&
+        sample.power > thresholds.highUsage * (1 - margin('high_usage', hysteresis.usage))) {
+      violations.push({ metric: 'high_usage', value: sample.power, threshold: thresholds.highUsage });
+    }
+
+    return violations;
+  }
+
+  // Whether a sample says anything about the metric; device readings carry no meter demand
+  private isChecked(metric: ThresholdMetric, sample: ThresholdSample): boolean {
+    if (metric === 'high_usage') return sample.power !== undefined;
+    if (metric === 'low_power_factor') return sample.powerFactor > 0;
+    return true;
+  }
+
+  private describe(violation: ThresholdViolation, thresholds: EffectiveThresholds): string {
+    const value = Math.round(violation.value * 100) / 100;
+    switch (violation.metric) {
+      case 'high_usage':
+        return `Your home is drawing ${value} kW, above your ${violation.threshold} kW limit. Switching off heavy appliances you aren't using will bring it down.`;
+      case 'low_voltage':
+        return `Supply voltage dropped to ${value} V (limit ${violation.threshold} V). Motors and compressors can overheat on low voltage; consider a stabiliser.`;
+      case 'high_voltage':
+        return `Supply voltage rose to ${value} V (limit ${violation.threshold} V). Sustained overvoltage can damage electronics; report it to your utility if it persists.`;
+      case 'low_power_factor':
+        return `Power factor fell to ${value} (target ${violation.threshold}). A low power factor can attract a penalty on your bill.`;
+      case 'frequency':
+        return `Supply frequency is ${value} Hz, outside ${thresholds.nominalFrequency} ± ${violation.threshold} Hz.`;
+    }
+  }
+}
+
+// Export singleton instance
+export const alertThresholdEngine = new AlertThresholdEngine();
@@ -0,0 +1,296 @@
+/**
+ * Meter Gateway API Keys
+ *
+ * Issues, verifies and revokes API keys for the meter gateway. Keys are
+ * random secrets shown to the user once; only their SHA-256 hash is stored,
+ * server-side (see firebase/gateway-store).
+ * Each key carries scopes, an optional expiry and an optional rate limit
+ * that replaces the default gateway quota.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { Timestamp } from 'firebase/firestore';
+import { gatewayStore } from '../firebase/gateway-store';
+import type { ApiKey, ApiKeyScope } from '../firebase/schema';
+import { ANONYMOUS_CALLER, type GatewayQuota } from './gateway-usage';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['realtime:read', 'history:read', 'control'];
+
+const KEY_PREFIX = 'eqk_';
+
+// Key Manager Configuration
+interface GatewayKeyConfig {
+  maxKeysPerUser: number;
+  maxRateLimit: GatewayQuota; // upper bound for per-key rate limits
+  cacheTTL: number; // ms a verified key is trusted before re-reading it
+  // Built-in demo keys for the simulated brand APIs, honoured outside production only
+  demoKeys: Record<string, ApiKeyScope[]>;
+  allowDemoAccess: boolean; // demo keys, and read-only anonymous access
+}
+
+const DEFAULT_CONFIG: GatewayKeyConfig = {
+  maxKeysPerUser: 10,
+  maxRateLimit: { dailyRequests: 50000, requestsPerMinute: 600 },
+  cacheTTL: 30 * 1000,
+  demoKeys: {
+    qube_demo_key: ['realtime:read', 'history:read'],
+    secure_demo_token_2024: ['realtime:read', 'history:read'],
+    LT_demo_key: ['realtime:read', 'history:read']
+  },
+  allowDemoAccess: process.env.NODE_ENV !== 'production'
+};
+
+export class GatewayKeyError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'GatewayKeyError';
+  }
+}
+
+export interface IssueKeyOptions {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresInDays?: number;
+  rateLimit?: GatewayQuota;
+}
+
+// Key as returned to its owner; the hash stays server-side
+export type ApiKeySummary = Omit<ApiKey, 'keyHash'>;
+
+export interface IssuedKey {
+  apiKey: string; // shown once
+  key: ApiKeySummary;
+}
+
+export type KeyAuthResult =
+  | {
+      ok: true;
+      keyId: string; // ApiKey document ID; a fingerprint for demo keys; 'anonymous' without a key
+      userId?: string;
+      scopes: ApiKeyScope[];
+      rateLimit?: GatewayQuota;
+    }
+  | {
+      ok: false;
+      keyId: string;
+      status: number;
+      code: string;
+      error: string;
+    };
+
+/**
+ * API key presented with a gateway request: `apiKey` query parameter,
+ * `X-API-Key` or one of the brand-specific key headers
+ */
+export function extractApiKey(request: Request): string | null {
+  const { searchParams } = new URL(request.url);
+  return searchParams.get('apiKey') ||
+    request.headers.get('x-api-key') ||
+    request.headers.get('x-secure-token') ||
+    request.headers.get('l-t-api-key');
+}
+
+export class GatewayKeyManager {
+  private config: GatewayKeyConfig;
+  private cache = new Map<string, { key: ApiKey | null; fetchedAt: number }>();
+  private lastUsedWrites = new Map<string, number>();
+
+  constructor(config: Partial<GatewayKeyConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  static hash(apiKey: string): string {
+    return createHash('sha256').update(apiKey).digest('hex');
+  }
+
+  /**
+   * Short, non-reversible identifier for keys that have no document
+   * (demo and unknown keys), for logs and usage counters
+   */
+  static fingerprint(apiKey: string): string {
+    return `key_${GatewayKeyManager.hash(apiKey).slice(0, 16)}`;
+  }
+
+  /**
+   * Create a key for a user. The returned `apiKey` is the only copy of the secret.
+   */
+  async issue(userId: string, options: IssueKeyOptions): Promise<IssuedKey> {
+    const name = options.name?.trim();
+    if (!name) {
+      throw new GatewayKeyError('Key name is required', 'INVALID_NAME', 400);
+    }
+
+    const scopes = Array.from(new Set(options.scopes));
+    if (scopes.length === 0 || scopes.some(scope => !API_KEY_SCOPES.includes(scope))) {
+      throw new GatewayKeyError(`Scopes must be one or more of: ${API_KEY_SCOPES.join(', ')}`, 'INVALID_SCOPES', 400);
+    }
+
+    if (options.expiresInDays !== undefined && !(options.expiresInDays > 0)) {
+      throw new GatewayKeyError('expiresInDays must be positive', 'INVALID_EXPIRY', 400);
+    }
+
+    if (options.rateLimit && !this.isValidRateLimit(options.rateLimit)) {
+      const max = this.config.maxRateLimit;
+      throw new GatewayKeyError(
+        `Rate limit must be at most ${max.dailyRequests}/day and ${max.requestsPerMinute}/minute`,
+        'INVALID_RATE_LIMIT',
+        400
+      );
+    }
+
+    const existing = await gatewayStore.getApiKeysByUser(userId);
+    if (existing.filter(key => key.status === 'active').length >= this.config.maxKeysPerUser) {
+      throw new GatewayKeyError(`At most ${this.config.maxKeysPerUser} active keys per user`, 'KEY_LIMIT_REACHED', 409);
+    }
+
+    const apiKey = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const key = await gatewayStore.createApiKey({
+      userId,
+      name,
+      prefix: apiKey.slice(0, KEY_PREFIX.length + 6),
+      keyHash: GatewayKeyManager.hash(apiKey),
+      scopes,
+      status: 'active',
+      ...(options.expiresInDays !== undefined && {
+        expiresAt: Timestamp.fromMillis(Date.now() + options.expiresInDays * 24 * 60 * 60 * 1000)
+      }),
+      ...(options.rateLimit && { rateLimit: options.rateLimit })
+    });
+
+    return { apiKey, key: this.toSummary(key) };
+  }
+
+  async list(userId: string): Promise<ApiKeySummary[]> {
+    const keys = await gatewayStore.getApiKeysByUser(userId);
+    return keys.map(key => this.toSummary(key));
+  }
+
+  /**
+   * Revoke one of a user's keys. Takes effect on this server immediately and
+   * elsewhere within the cache TTL.
+   */
+  async revoke(userId: string, keyId: string): Promise<ApiKeySummary> {
+    const key = await gatewayStore.getApiKey(keyId);
+    if (!key || key.userId !== userId) {
+      throw new GatewayKeyError('API key not found', 'KEY_NOT_FOUND', 404);
+    }
+
+    if (key.status !== 'revoked') {
+      const revokedAt = Timestamp.now();
+      await gatewayStore.updateApiKey(keyId, { status: 'revoked', revokedAt });
+      key.status = 'revoked';
+      key.revokedAt = revokedAt;
+    }
+    this.cache.delete(key.keyHash);
+
+    return this.toSummary(key);
+  }
+
+  /**
+   * Authenticate a gateway request and check it has the required scope
+   * (any valid key when no scope is given)
+   */
+  async authenticate(request: Request, scope?: ApiKeyScope): Promise<KeyAuthResult> {
+    const apiKey = extractApiKey(request);
+
+    if (!apiKey) {
+      // Without a key only demo access (development) is allowed, and only for reads
+      if (this.config.allowDemoAccess && scope !== 'control') {
+        return { ok: true, keyId: ANONYMOUS_CALLER, scopes: ['realtime:read', 'history:read'] };
+      }
+      return { ok: false, keyId: ANONYMOUS_CALLER, status: 401, code: 'MISSING_API_KEY', error: 'API key required' };
+    }
+
+    const demoScopes = this.config.demoKeys[apiKey];
+    if (demoScopes && this.config.allowDemoAccess) {
+      return this.checkScope({ ok: true, keyId: GatewayKeyManager.fingerprint(apiKey), scopes: demoScopes }, scope);
+    }
+
+    const keyHash = GatewayKeyManager.hash(apiKey);
+    const key = await this.lookup(keyHash);
+    if (!key) {
+      return {
+        ok: false,
+        keyId: GatewayKeyManager.fingerprint(apiKey),
+        status: 401,
+        code: 'INVALID_API_KEY',
+        error: 'Invalid API key'
+      };
+    }
+
+    if (key.status === 'revoked') {
+      return { ok: false, keyId: key.id, status: 401, code: 'API_KEY_REVOKED', error: 'API key has been revoked' };
+    }
+
+    if (key.expiresAt && key.expiresAt.toMillis() <= Date.now()) {
+      return { ok: false, keyId: key.id, status: 401, code: 'API_KEY_EXPIRED', error: 'API key has expired' };
+    }
+
+    this.touch(key.id);
+
+    return this.checkScope({
+      ok: true,
+      keyId: key.id,
+      userId: key.userId,
+      scopes: key.scopes,
+      ...(key.rateLimit && { rateLimit: key.rateLimit })
+    }, scope);
+  }
+
+  private checkScope(result: Extract<KeyAuthResult, { ok: true }>, scope?: ApiKeyScope): KeyAuthResult {
+    if (!scope || result.scopes.includes(scope)) return result;
+
+    return {
+      ok: false,
+      keyId: result.keyId,
+      status: 403,
+      code: 'INSUFFICIENT_SCOPE',
+      error: `API key lacks the '${scope}' scope`
+    };
+  }
+
+  private async lookup(keyHash: string): Promise<ApiKey | null> {
+    const cached = this.cache.get(keyHash);
+    if (cached && Date.now() - cached.fetchedAt < this.config.cacheTTL) {
+      return cached.key;
+    }
+
+    const key = await gatewayStore.getApiKeyByHash(keyHash);
+    this.cache.set(keyHash, { key, fetchedAt: Date.now() });
+    return key;
+  }
+
+  /**
+   * Record when a key was last used, at most once a minute per key
+   */
+  private touch(keyId: string): void {
+    const now = Date.now();
+    if (now - (this.lastUsedWrites.get(keyId) ?? 0) < 60 * 1000) return;
+
+    this.lastUsedWrites.set(keyId, now);
+    gatewayStore.updateApiKey(keyId, { lastUsedAt: Timestamp.fromMillis(now) })
+      .catch(error => console.error('Failed to update API key usage time:', error));
+  }
+
+  private isValidRateLimit(rateLimit: GatewayQuota): boolean {
+    const max = this.config.maxRateLimit;
+    return Number.isInteger(rateLimit.dailyRequests) &&
+      Number.isInteger(rateLimit.requestsPerMinute) &&
+      rateLimit.dailyRequests > 0 &&
+      rateLimit.requestsPerMinute > 0 &&
+      rateLimit.dailyRequests <= max.dailyRequests &&
+      rateLimit.requestsPerMinute <= max.requestsPerMinute;
+  }
+
+  private toSummary(key: ApiKey): ApiKeySummary {
+    const { keyHash, ...summary } = key;
+    return summary;
+  }
+}
+
+// Export singleton instance
+export const gatewayKeyManager = new GatewayKeyManager();
@@ -0,0 +1,237 @@
+/**
+ * Unified Meter Gateway Schema
+ *
+ * Versioned canonical reading schema for the meter gateway
+ * (/api/smart-meter/*). Every brand-specific payload is mapped into the
+ * canonical shape and validated here, so consumers never need to know which
+ * brand a reading came from.
+ */
+
+import { z } from 'zod';
+
+export const METER_BRANDS = ['QUBE', 'SECURE', 'LNT'] as const;
+export type MeterBrand = typeof METER_BRANDS[number];
+
+export const CanonicalReadingV1Schema = z.object({
+  schemaVersion: z.literal('1.0'),
+  meter: z.object({
+    id: z.string().min(1),
+    brand: z.enum(METER_BRANDS),
+    model: z.string().optional(),
+    userId: z.string().optional()
+  }),
+  timestamp: z.string().datetime(),
+  power: z.object({
+    activeKw: z.number().nonnegative(),
+    apparentKva: z.number().nonnegative().optional(),
+    reactiveKvar: z.number().optional(),
+    powerFactor: z.number().min(0).max(1).optional()
+  }),
+  electrical: z.object({
+    voltageV: z.number().nonnegative().optional(),
+    currentA: z.number().nonnegative().optional(),
+    frequencyHz: z.number().positive().optional()
+  }),
+  energy: z.object({
+    todayKwh: z.number().nonnegative().optional(),
+    cumulativeKwh: z.number().nonnegative().optional()
+  }),
+  billing: z.object({
+    costToday: z.number().nonnegative().optional(),
+    tariffRate: z.number().nonnegative().optional(),
+    isPeakHour: z.boolean().optional()
+  }).optional(),
+  status: z.object({
+    connection: z.enum(['online', 'offline']),
+    quality: z.string().optional(),
+    tamper: z.array(z.string()) // raw provider tamper codes; empty when clear
+  }),
+  source: z.object({
+    api: z.string(),
+    apiVersion: z.string().optional()
+  })
+});
+
+export type CanonicalReadingV1 = z.infer<typeof CanonicalReadingV1Schema>;
+
+// Schemas by version; add new versions here and bump the latest
+export const CANONICAL_READING_SCHEMAS = {
+  '1.0': CanonicalReadingV1Schema
+} as const;
+
+export type CanonicalReadingVersion = keyof typeof CANONICAL_READING_SCHEMAS;
+export const LATEST_CANONICAL_VERSION: CanonicalReadingVersion = '1.0';
+
+export const CanonicalReadingSchema = CANONICAL_READING_SCHEMAS[LATEST_CANONICAL_VERSION];
+export type CanonicalReading = CanonicalReadingV1;
+
+export class GatewaySchemaError extends Error {
+  constructor(
+    message: string,
+    public brand: string,
+    public issues: z.ZodIssue[] = []
+  ) {
+    super(message);
+    this.name = 'GatewaySchemaError';
+  }
+}
+
+export function isMeterBrand(brand: string): brand is MeterBrand {
+  return (METER_BRANDS as readonly string[]).includes(brand);
+}
+
+/**
+ * Resolve a requested schema version ('1', '1.0'); defaults to the latest
+ */
+export function resolveCanonicalVersion(requested?: string | null): CanonicalReadingVersion | null {
+  if (!requested) return LATEST_CANONICAL_VERSION;
+
+  const version = requested.includes('.') ? requested : `${requested}.0`;
+  return version in CANONICAL_READING_SCHEMAS ? version as CanonicalReadingVersion : null;
+}
+
+interface CanonicalContext {
+  meterId: string;
+  userId?: string;
+}
+
+const splitTamper = (value: unknown): string[] =>
+  typeof value === 'string'
+    ? value.split(',').map(code => code.trim()).filter(code => code && code !== 'normal')
+    : [];
+
+/**
+ * Qube: values nested under `data.instantaneous`, `data.energy` and `data.billing`
+ */
+function fromQube(raw: any, context: CanonicalContext): Omit<CanonicalReading, 'schemaVersion'> {
+  const data = raw?.data || {};
+
+  return {
+    meter: { id: raw?.meter_id || context.meterId, brand: 'QUBE', model: raw?.model, userId: context.userId },
+    timestamp: raw?.timestamp || new Date().toISOString(),
+    power: {
+      activeKw: data.instantaneous?.active_power ?? 0,
+      powerFactor: data.instantaneous?.power_factor
+    },
+    electrical: {
+      voltageV: data.instantaneous?.voltage,
+      currentA: data.instantaneous?.current,
+      frequencyHz: data.instantaneous?.frequency
+    },
+    energy: {
+      todayKwh: data.energy?.active_energy_today,
+      cumulativeKwh: data.energy?.active_energy_total
+    },
+    billing: {
+      costToday: data.billing?.cost_today,
+      tariffRate: data.billing?.tariff_rate,
+      isPeakHour: data.billing?.is_peak_hour
+    },
+    status: {
+      connection: raw?.status === 'success' ? 'online' : 'offline',
+      quality: data.status?.connection_quality,
+      tamper: splitTamper(data.status?.tamper_status)
+    },
+    source: { api: 'qube', apiVersion: raw?.metadata?.api_version }
+  };
+}
+
+/**
+ * Secure: unit-suffixed keys under `readings`, tamper log under `status`
+ */
+function fromSecure(raw: any, context: CanonicalContext): Omit<CanonicalReading, 'schemaVersion'> {
+  const readings = raw?.readings || {};
+  const tamperEvents: any[] = raw?.status?.tamper_events || [];
+
+  return {
+    meter: { id: raw?.device_id || context.meterId, brand: 'SECURE', userId: context.userId },
+    timestamp: raw?.timestamp || new Date().toISOString(),
+    power: {
+      activeKw: readings.active_power_kw ?? 0,
+      powerFactor: readings.power_factor
+    },
+    electrical: {
+      voltageV: readings.voltage_v,
+      currentA: readings.current_a,
+      frequencyHz: readings.frequency_hz
+    },
+    energy: {
+      todayKwh: readings.energy_kwh,
+      cumulativeKwh: readings.cumulative_kwh
+    },
+    status: {
+      connection: raw?.status?.device_status === 'online' ? 'online' : 'offline',
+      quality: raw?.status?.connection_quality,
+      tamper: tamperEvents.filter(event => !event.restored_at).map(event => String(event.tamper_code))
+    },
+    source: { api: 'secure' }
+  };
+}
+
+/**
+ * L&T: electrical parameters grouped under `data.electrical_parameters`
+ */
+function fromLnt(raw: any, context: CanonicalContext): Omit<CanonicalReading, 'schemaVersion'> {
+  const params = raw?.data?.electrical_parameters || {};
+
+  return {
+    meter: { id: raw?.meter_id || context.meterId, brand: 'LNT', userId: context.userId },
+    timestamp: raw?.timestamp || new Date().toISOString(),
+    power: {
+      activeKw: params.power?.active_kw ?? 0,
+      apparentKva: params.power?.apparent_kva,
+      reactiveKvar: params.power?.reactive_kvar,
+      powerFactor: params.power?.power_factor
+    },
+    electrical: {
+      voltageV: params.voltage?.average_v,
+      currentA: params.current?.average_a,
+      frequencyHz: params.frequency_hz
+    },
+    energy: {
+      todayKwh: raw?.data?.energy?.today_kwh,
+      cumulativeKwh: raw?.data?.energy?.cumulative_kwh
+    },
+    status: {
+      connection: raw?.status === 'success' ? 'online' : 'offline',
+      tamper: splitTamper(raw?.data?.status?.tamper)
+    },
+    source: { api: 'lnt' }
+  };
+}
+
+const MAPPERS: Record<MeterBrand, (raw: any, context: CanonicalContext) => Omit<CanonicalReading, 'schemaVersion'>> = {
+  QUBE: fromQube,
+  SECURE: fromSecure,
+  LNT: fromLnt
+};
+
+/**
+ * Map a brand-specific payload into a validated canonical reading.
+ * Throws GatewaySchemaError when the mapped payload fails validation.
+ */
+export function toCanonicalReading(
+  brand: MeterBrand,
+  raw: unknown,
+  context: CanonicalContext,
+  version: CanonicalReadingVersion = LATEST_CANONICAL_VERSION
+): CanonicalReading {
+  const result = CANONICAL_READING_SCHEMAS[version].safeParse({
+    schemaVersion: version,
+    ...MAPPERS[brand](raw, context)
+  });
+
+  if (!result.success) {
+    throw new GatewaySchemaError(`Invalid ${brand} payload for canonical schema ${version}`, brand, result.error.issues);
+  }
+
+  return result.data;
+}
+
+/**
+ * Validate a canonical reading received from the gateway
+ */
+export function parseCanonicalReading(payload: unknown): CanonicalReading | null {
+  const result = CanonicalReadingSchema.safeParse(payload);
+  return result.success ? result.data : null;
+}
@@ -0,0 +1,336 @@
+/**
+ * Meter Gateway Usage Metering
+ *
+ * Logs every request to the meter gateway routes (caller, meter, endpoint,
+ * latency, status, error code), keeps per-API-key daily usage counters in
+ * Firestore and enforces per-key quotas: a daily request allowance and a
+ * per-minute burst limit. Keys with their own rate limit use it instead.
+ * Usage is charged to the authenticated key. Requests whose key fails
+ * authentication are rejected before any quota is taken and are only logged
+ * (under one shared caller ID, so made-up keys can't create counters).
+ */
+
+import { Timestamp } from 'firebase/firestore';
+import { gatewayStore } from '../firebase/gateway-store';
+import type { ApiRequestLog, ApiUsage } from '../firebase/schema';
+import type { KeyAuthResult } from './gateway-keys';
+
+export const ANONYMOUS_CALLER = 'anonymous';
+export const UNAUTHENTICATED_CALLER = 'unauthenticated';
+
+export interface GatewayQuota {
+  dailyRequests: number;
+  requestsPerMinute: number;
+}
+
+// Usage Configuration
+interface GatewayUsageConfig {
+  defaultQuota: GatewayQuota;
+  anonymousQuota: GatewayQuota;
+  keyQuotas: Record<string, Partial<GatewayQuota>>; // overrides by key ID
+}
+
+const DEFAULT_CONFIG: GatewayUsageConfig = {
+  defaultQuota: { dailyRequests: 5000, requestsPerMinute: 120 },
+  anonymousQuota: { dailyRequests: 500, requestsPerMinute: 20 },
+  keyQuotas: {}
+};
+
+const MINUTE_MS = 60 * 1000;
+
+export interface GatewayCaller {
+  apiKeyId: string;
+  userId?: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface QuotaCheck {
+  allowed: boolean;
+  quota: GatewayQuota;
+  dailyUsed: number;
+  dailyRemaining: number;
+  minuteRemaining: number;
+  retryAfterSeconds?: number;
+  resetAt: string; // next UTC midnight
+}
+
+export interface GatewayRequestRecord {
+  caller: GatewayCaller;
+  endpoint: string;
+  method: string;
+  meterId?: string;
+  brand?: string;
+  status: number;
+  latencyMs: number;
+  errorCode?: string;
+  throttled?: boolean;
+}
+
+export interface UsageReport {
+  apiKeyId: string;
+  quota: GatewayQuota;
+  period: { start: string; end: string };
+  days: Array<{
+    period: string;
+    requests: number;
+    errors: number;
+    throttled: number;
+    averageLatencyMs: number;
+  }>;
+  totals: {
+    requests: number;
+    errors: number;
+    throttled: number;
+    errorRate: number; // 0-1
+    averageLatencyMs: number;
+  };
+  endpoints: Record<string, number>;
+  today: { used: number; remaining: number; resetAt: string };
+  recentErrors: Array<{ timestamp: string; endpoint: string; status: number; errorCode?: string }>;
+}
+
+export class GatewayUsageMeter {
+  private config: GatewayUsageConfig;
+  // Request times in the last minute, by key; keys without any are dropped
+  private recentRequests = new Map<string, number[]>();
+
+  constructor(config: Partial<GatewayUsageConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Describe the caller of a request from its authentication (see
+   * gateway-keys): the key and its owner, never identifiers the request
+   * claims for itself
+   */
+  identifyCaller(request: Request, auth: KeyAuthResult): GatewayCaller {
+    return {
+      apiKeyId: auth.ok ? auth.keyId : UNAUTHENTICATED_CALLER,
+      ...(auth.ok && auth.userId && { userId: auth.userId }),
+      ...(request.headers.get('x-forwarded-for') && {
+        ip: request.headers.get('x-forwarded-for')!.split(',')[0].trim()
+      }),
+      ...(request.headers.get('user-agent') && { userAgent: request.headers.get('user-agent')! })
+    };
+  }
+
+  /**
+   * Quota for a key: its own rate limit when it has one, otherwise the
+   * configured override or default
+   */
+  getQuota(apiKeyId: string, rateLimit?: GatewayQuota): GatewayQuota {
+    if (rateLimit) return { ...rateLimit };
+
+    const base = apiKeyId === ANONYMOUS_CALLER || apiKeyId === UNAUTHENTICATED_CALLER
+      ? this.config.anonymousQuota
+      : this.config.defaultQuota;
+    return { ...base, ...this.config.keyQuotas[apiKeyId] };
+  }
+
+  /**
+   * Check a request against the caller's per-minute and daily quotas and,
+   * when it is allowed, count it. The daily count is taken in a Firestore
+   * transaction, so concurrent requests can't overrun the allowance; if the
+   * store can't be reached the request is let through.
+   */
+  async consumeQuota(apiKeyId: string, rateLimit?: GatewayQuota, now: Date = new Date()): Promise<QuotaCheck> {
+    const quota = this.getQuota(apiKeyId, rateLimit);
+    const period = this.periodOf(now);
+    const resetAt = this.nextMidnight(now);
+    const recent = this.pruneRecent(apiKeyId, now);
+
+    if (recent.length >= quota.requestsPerMinute) {
+      const dailyUsed = await this.getDailyCount(apiKeyId, period);
+      return this.quotaCheck(quota, dailyUsed, 0, resetAt, Math.max(1, Math.ceil((recent[0] + MINUTE_MS - now.getTime()) / 1000)));
+    }
+
+    // Take the minute slot before waiting on Firestore, so concurrent requests see it
+    recent.push(now.getTime());
+    this.recentRequests.set(apiKeyId, recent);
+    const minuteRemaining = quota.requestsPerMinute - recent.length;
+
+    let daily = { allowed: true, used: 0 };
+    try {
+      daily = await gatewayStore.consumeApiQuota(apiKeyId, period, quota.dailyRequests);
+    } catch (error) {
+      console.error('Failed to count gateway usage:', error);
+    }
+
+    if (!daily.allowed) {
+      // Give the minute slot back; other requests may have replaced the list meanwhile
+      const current = this.recentRequests.get(apiKeyId) ?? [];
+      if (current.includes(now.getTime())) current.splice(current.indexOf(now.getTime()), 1);
+      if (current.length === 0) this.recentRequests.delete(apiKeyId);
+      return this.quotaCheck(quota, daily.used, minuteRemaining + 1, resetAt, Math.ceil((resetAt.getTime() - now.getTime()) / 1000));
+    }
+    return this.quotaCheck(quota, daily.used, minuteRemaining, resetAt);
+  }
+
+  /**
+   * Persist a request log entry and add its outcome to the caller's usage
+   * (the request itself was counted by consumeQuota).
+   * Failures are logged, never thrown, so metering can't break the gateway.
+   */
+  async record(entry: GatewayRequestRecord, now: Date = new Date()): Promise<void> {
+    const { apiKeyId } = entry.caller;
+    const period = this.periodOf(now);
+
+    const log: Omit<ApiRequestLog, 'id' | 'createdAt' | 'updatedAt'> = {
+      caller: entry.caller,
+      request: {
+        endpoint: entry.endpoint,
+        method: entry.method,
+        ...(entry.meterId && { meterId: entry.meterId }),
+        ...(entry.brand && { brand: entry.brand })
+      },
+      response: {
+        status: entry.status,
+        latencyMs: Math.round(entry.latencyMs),
+        ...(entry.errorCode && { errorCode: entry.errorCode })
+      },
+      timestamp: Timestamp.fromDate(now)
+    };
+
+    try {
+      await Promise.all([
+        gatewayStore.saveApiRequestLog(log),
+        gatewayStore.addApiUsageOutcome(apiKeyId, period, {
+          endpoint: entry.endpoint,
+          latencyMs: Math.round(entry.latencyMs),
+          error: entry.status >= 400,
+          throttled: !!entry.throttled
+        })
+      ]);
+    } catch (error) {
+      console.error('Failed to record gateway request:', error);
+    }
+  }
+
+  /**
+   * Usage for a key over the last `days` days (including today)
+   */
+  async getUsageReport(
+    apiKeyId: string,
+    days: number = 7,
+    rateLimit?: GatewayQuota,
+    now: Date = new Date()
+  ): Promise<UsageReport> {
+    const end = this.periodOf(now);
+    const start = this.periodOf(new Date(now.getTime() - (days - 1) * 24 * 60 * MINUTE_MS));
+    const [usage, logs] = await Promise.all([
+      gatewayStore.getApiUsage(apiKeyId, start, end),
+      gatewayStore.getApiRequestLogs(apiKeyId, 50)
+    ]);
+
+    const totals = usage.reduce(
+      (acc, day) => ({
+        requests: acc.requests + day.requests,
+        errors: acc.errors + day.errors,
+        throttled: acc.throttled + (day.throttled ?? 0),
+        latency: acc.latency + day.totalLatencyMs
+      }),
+      { requests: 0, errors: 0, throttled: 0, latency: 0 }
+    );
+
+    const endpoints: Record<string, number> = {};
+    for (const day of usage) {
+      for (const [endpoint, count] of Object.entries(day.endpoints || {})) {
+        endpoints[endpoint] = (endpoints[endpoint] ?? 0) + count;
+      }
+    }
+
+    const quota = this.getQuota(apiKeyId, rateLimit);
+    const todayUsed = usage.find(day => day.period === end)?.requests ?? 0;
+
+    return {
+      apiKeyId,
+      quota,
+      period: { start, end },
+      days: usage.map(day => ({
+        period: day.period,
+        requests: day.requests,
+        errors: day.errors,
+        throttled: day.throttled ?? 0,
+        averageLatencyMs: this.averageLatency(day)
+      })),
+      totals: {
+        requests: totals.requests,
+        errors: totals.errors,
+        throttled: totals.throttled,
+        errorRate: totals.requests > 0 ? Math.round(totals.errors / totals.requests * 1000) / 1000 : 0,
+        averageLatencyMs: totals.requests > 0 ? Math.round(totals.latency / totals.requests) : 0
+      },
+      endpoints,
+      today: {
+        used: todayUsed,
+        remaining: Math.max(0, quota.dailyRequests - todayUsed),
+        resetAt: this.nextMidnight(now).toISOString()
+      },
+      recentErrors: logs
+        .filter(log => log.response.status >= 400)
+        .slice(0, 10)
+        .map(log => ({
+          timestamp: log.timestamp.toDate().toISOString(),
+          endpoint: log.request.endpoint,
+          status: log.response.status,
+          ...(log.response.errorCode && { errorCode: log.response.errorCode })
+        }))
+    };
+  }
+
+  private quotaCheck(
+    quota: GatewayQuota,
+    dailyUsed: number,
+    minuteRemaining: number,
+    resetAt: Date,
+    retryAfterSeconds?: number
+  ): QuotaCheck {
+    return {
+      allowed: retryAfterSeconds === undefined,
+      quota,
+      dailyUsed,
+      dailyRemaining: Math.max(0, quota.dailyRequests - dailyUsed),
+      minuteRemaining: Math.max(0, minuteRemaining),
+      ...(retryAfterSeconds !== undefined && { retryAfterSeconds }),
+      resetAt: resetAt.toISOString()
+    };
+  }
+
+  private async getDailyCount(apiKeyId: string, period: string): Promise<number> {
+    try {
+      const [usage] = await gatewayStore.getApiUsage(apiKeyId, period, period);
+      return usage?.requests ?? 0;
+    } catch (error) {
+      console.error('Failed to load gateway usage:', error);
+      return 0;
+    }
+  }
+
+  private pruneRecent(apiKeyId: string, now: Date): number[] {
+    const recent = (this.recentRequests.get(apiKeyId) || []).filter(time => now.getTime() - time < MINUTE_MS);
+    if (recent.length > 0) {
+      this.recentRequests.set(apiKeyId, recent);
+    } else {
+      this.recentRequests.delete(apiKeyId);
+    }
+    return recent;
+  }
+
+  private averageLatency(usage: ApiUsage): number {
+    return usage.requests > 0 ? Math.round(usage.totalLatencyMs / usage.requests) : 0;
+  }
+
+  private periodOf(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+
+  private nextMidnight(now: Date): Date {
+    const next = new Date(now);
+    next.setUTCHours(24, 0, 0, 0);
+    return next;
+  }
+}
+
+// Export singleton instance with default quotas
+export const gatewayUsageMeter = new GatewayUsageMeter();
@@ -0,0 +1,346 @@
+/**
+ * Historical Reading Backfill
+ *
+ * Pages through a provider's reading history in date chunks, reconciles it
+ * with the readings collection and fills gaps with interpolated points.
+ * Readings are written through the ingestion pipeline, which uses a
+ * deterministic meter+timestamp ID so re-running the job never duplicates them.
+ */
+
+import { Timestamp } from 'firebase/firestore';
+import { firestoreService } from '../firebase/firestore-service';
+import { EnergyReading } from '../firebase/schema';
+import { SmartMeterAPI, SmartMeterReading } from '../smart-meter-apis';
+import { readingIngestion, ReadingIngestionPipeline } from './reading-ingestion';
+import type { ProviderCredentials } from './providers/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CO2_PER_KWH = 0.82; // kg CO2 per kWh (India grid average)
+
+export interface BackfillOptions {
+  userId: string;
+  smartMeterId: string;
+  providerId: string;
+  consumerId: string;
+  credentials: ProviderCredentials;
+  startDate?: Date; // defaults to 12 months before endDate
+  endDate?: Date; // defaults to now
+  chunkDays?: number;
+  intervalMs?: number; // expected spacing between provider readings
+  onProgress?: (progress: BackfillProgress) => void;
+}
+
+export interface BackfillProgress {
+  chunk: number;
+  totalChunks: number;
+  chunkStart: Date;
+  chunkEnd: Date;
+  written: number;
+}
+
+export interface ReadingGap {
+  start: Date;
+  end: Date;
+  missingPoints: number;
+}
+
+export interface BackfillResult {
+  fetched: number;
+  written: number;
+  skipped: number;
+  interpolated: number;
+  gaps: ReadingGap[];
+  failedChunks: { start: Date; end: Date; error: string }[];
+}
+
+type ReadingData = Omit<EnergyReading, 'id' | 'createdAt' | 'updatedAt'>;
+
+interface SeriesPoint {
+  timestamp: number;
+  reading: ReadingData;
+}
+
+export class HistoryBackfillJob {
+  private options: Required<Omit<BackfillOptions, 'onProgress'>> & Pick<BackfillOptions, 'onProgress'>;
+  private api: SmartMeterAPI;
+
+  constructor(options: BackfillOptions) {
+    const endDate = options.endDate || new Date();
+    const startDate = options.startDate || new Date(
+      endDate.getFullYear() - 1, endDate.getMonth(), endDate.getDate()
+    );
+
+    this.options = {
+      ...options,
+      chunkDays: options.chunkDays ?? 30,
+      intervalMs: options.intervalMs ?? DAY_MS,
+      startDate,
+      endDate
+    };
+
+    // Never persist generated mock data as if the meter had reported it
+    this.api = new SmartMeterAPI(options.providerId, options.credentials, { fallbackToMock: false });
+  }
+
+  /**
+   * Run the backfill across the whole date range
+   */
+  async run(): Promise<BackfillResult> {
+    const result: BackfillResult = {
+      fetched: 0,
+      written: 0,
+      skipped: 0,
+      interpolated: 0,
+      gaps: [],
+      failedChunks: []
+    };
+
+    const chunks = this.buildChunks();
+    let previous: SeriesPoint | null = null;
+
+    for (let i = 0; i < chunks.length; i++) {
+      const { start, end } = chunks[i];
+
+      try {
+        const providerReadings = await this.api.getHistoricalReadings(
+          this.options.consumerId,
+          this.formatDate(start),
+          this.formatDate(end)
+        );
+        result.fetched += providerReadings.length;
+
+        const points = this.dedupe(providerReadings.map(reading => this.toSeriesPoint(reading)));
+        const { filled, gaps } = this.fillGaps(previous, points);
+        result.gaps.push(...gaps);
+
+        // Interpolated points may fall before this chunk when a gap spans chunks
+        const rangeStart = filled.length > 0 ? new Date(Math.min(filled[0].timestamp, start.getTime())) : start;
+        const existing = await this.getExistingTimestamps(rangeStart, end);
+        const toWrite = filled.filter(point => !existing.has(point.timestamp));
+        result.skipped += filled.length - toWrite.length;
+        result.interpolated += toWrite.filter(point => point.reading.quality.source === 'interpolated').length;
+
+        result.written += await this.writePoints(toWrite);
+
+        if (points.length > 0) {
+          previous = points[points.length - 1];
+        }
+      } catch (error) {
+        console.error('Error backfilling readings chunk:', error);
+        result.failedChunks.push({
+          start,
+          end,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+
+      this.options.onProgress?.({
+        chunk: i + 1,
+        totalChunks: chunks.length,
+        chunkStart: start,
+        chunkEnd: end,
+        written: result.written
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Deterministic document ID for a meter reading
+   */
+  static readingId(smartMeterId: string, timestamp: number): string {
+    return ReadingIngestionPipeline.readingId(smartMeterId, timestamp);
+  }
+
+  private buildChunks(): { start: Date; end: Date }[] {
+    const chunks: { start: Date; end: Date }[] = [];
+    const chunkMs = this.options.chunkDays * DAY_MS;
+    const endMs = this.options.endDate.getTime();
+
+    for (let start = this.options.startDate.getTime(); start <= endMs; start += chunkMs) {
+      chunks.push({
+        start: new Date(start),
+        end: new Date(Math.min(start + chunkMs - 1, endMs))
+      });
+    }
+
+    return chunks;
+  }
+
+  private dedupe(points: SeriesPoint[]): SeriesPoint[] {
+    const byTimestamp = new Map<number, SeriesPoint>();
+    for (const point of points) {
+      byTimestamp.set(point.timestamp, point);
+    }
+    return Array.from(byTimestamp.values()).sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Insert linearly interpolated points wherever consecutive readings are
+   * further apart than the expected interval
+   */
+  private fillGaps(
+    previous: SeriesPoint | null,
+    points: SeriesPoint[]
+  ): { filled: SeriesPoint[]; gaps: ReadingGap[] } {
+    const interval = this.options.intervalMs;
+    const filled: SeriesPoint[] = [];
+    const gaps: ReadingGap[] = [];
+    let last = previous;
+
+    for (const point of points) {
+      if (last && point.timestamp - last.timestamp > interval * 1.5) {
+        const missingPoints = Math.round((point.timestamp - last.timestamp) / interval) - 1;
+        gaps.push({
+          start: new Date(last.timestamp),
+          end: new Date(point.timestamp),
+          missingPoints
+        });
+
+        for (let step = 1; step <= missingPoints; step++) {
+          filled.push(this.interpolate(last, point, step / (missingPoints + 1), missingPoints));
+        }
+      }
+
+      filled.push(point);
+      last = point;
+    }
+
+    return { filled, gaps };
+  }
+
+  private interpolate(from: SeriesPoint, to: SeriesPoint, ratio: number, gapLength: number): SeriesPoint {
+    const lerp = (a: number, b: number) => a + (b - a) * ratio;
+    const timestamp = Math.round(lerp(from.timestamp, to.timestamp));
+    const a = from.reading;
+    const b = to.reading;
+    const energy = lerp(a.reading.energy, b.reading.energy);
+
+    return {
+      timestamp,
+      reading: {
+        ...a,
+        reading: {
+          timestamp: Timestamp.fromMillis(timestamp),
+          instantPower: lerp(a.reading.instantPower, b.reading.instantPower),
+          energy,
+          voltage: { average: lerp(a.reading.voltage.average, b.reading.voltage.average) },
+          current: { average: lerp(a.reading.current.average, b.reading.current.average) },
+          frequency: lerp(a.reading.frequency, b.reading.frequency),
+          powerFactor: lerp(a.reading.powerFactor, b.reading.powerFactor)
+        },
+        metrics: {
+          cost: lerp(a.metrics.cost, b.metrics.cost),
+          co2Emissions: energy * CO2_PER_KWH,
+          efficiency: lerp(a.metrics.efficiency, b.metrics.efficiency),
+          demand: lerp(a.metrics.demand, b.metrics.demand)
+        },
+        quality: {
+          reliability: 0.5,
+          accuracy: 0.7,
+          source: 'interpolated',
+          // Longer gaps make interpolated values less trustworthy
+          confidence: Math.max(0.2, 0.8 - gapLength * 0.05)
+        },
+        context: {
+          timeOfUse: 'standard',
+          season: this.getSeason(new Date(timestamp))
+        }
+      }
+    };
+  }
+
+  private toSeriesPoint(reading: SmartMeterReading): SeriesPoint {
+    const timestamp = new Date(reading.timestamp).getTime();
+    const intervalHours = this.options.intervalMs / (60 * 60 * 1000);
+    const energy = reading.unitsConsumed;
+    const averagePower = energy / intervalHours;
+    const powerFactor = reading.powerFactor ?? 0.9;
+    const phaseAverage = (phases?: { r: number; y: number; b: number }) =>
+      phases ? (phases.r + phases.y + phases.b) / 3 : undefined;
+
+    return {
+      timestamp,
+      reading: {
+        userId: this.options.userId,
+        smartMeterId: this.options.smartMeterId,
+        reading: {
+          timestamp: Timestamp.fromMillis(timestamp),
+          instantPower: averagePower,
+          energy,
+          voltage: { ...reading.voltage, average: phaseAverage(reading.voltage) ?? 230 },
+          current: { ...reading.current, average: phaseAverage(reading.current) ?? 0 },
+          frequency: reading.frequency ?? 50,
+          powerFactor
+        },
+        metrics: {
+          cost: energy * reading.tariffRate,
+          co2Emissions: energy * CO2_PER_KWH,
+          efficiency: Math.round(powerFactor * 100) / 10,
+          demand: reading.maxDemand ?? averagePower
+        },
+        quality: {
+          reliability: 1,
+          accuracy: 0.98,
+          source: 'meter',
+          confidence: 1
+        },
+        context: {
+          timeOfUse: 'standard',
+          season: this.getSeason(new Date(timestamp))
+        }
+      }
+    };
+  }
+
+  private async getExistingTimestamps(start: Date, end: Date): Promise<Set<number>> {
+    const readings = await firestoreService.getMeterReadingsByDateRange(
+      this.options.smartMeterId,
+      Timestamp.fromDate(start),
+      Timestamp.fromDate(end)
+    );
+    return new Set(readings.map(reading => reading.reading.timestamp.toMillis()));
+  }
+
+  /**
+   * Write through the ingestion pipeline so the history is rolled up too;
+   * returns the number of readings written
+   */
+  private async writePoints(points: SeriesPoint[]): Promise<number> {
+    let accepted = 0;
+    for (const point of points) {
+      const ingested = readingIngestion.ingest(point.reading);
+      if (ingested.accepted) {
+        accepted++;
+      } else if (ingested.reason === 'invalid') {
+        console.warn(`Skipping invalid reading at ${new Date(point.timestamp).toISOString()}:`, ingested.issues);
+      }
+    }
+
+    const flushed = await readingIngestion.flush();
+    if (flushed.failed > 0) {
+      throw new Error(`Failed to write ${flushed.failed} readings`);
+    }
+    return accepted;
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+
+  private getSeason(date: Date): EnergyReading['context']['season'] {
+    const month = date.getMonth();
+    if (month >= 2 && month <= 4) return 'spring';
+    if (month >= 5 && month <= 7) return 'summer';
+    if (month >= 8 && month <= 10) return 'autumn';
+    return 'winter';
+  }
+}
+
+/**
+ * Load the last 12 months of readings for a meter
+ */
+export function backfillMeterHistory(options: BackfillOptions): Promise<BackfillResult> {
+  return new HistoryBackfillJob(options).run();
+}
@@ -0,0 +1,464 @@
+/**
+ * Legacy Document Migration
+ *
+ * Earlier versions of SmartMeterService stored meters with `serialNumber`,
+ * `info`, `configuration` and `statistics`, devices with `info.location`,
+ * `status`, `configuration` and `statistics`, and readings with
+ * `reading.consumption` (Wh) and `reading.power` (W); devices' automation
+ * rules had string triggers and actions. This rewrites those documents in
+ * place into the shapes of the Firestore schema, keeping their IDs, so the
+ * analytics code and the automation engine can read them. Because readings
+ * keep their IDs, rollups only cover readings written through the ingestion
+ * pipeline.
+ */
+
+import { Timestamp, deleteField } from 'firebase/firestore';
+import { firestoreService, BatchOperation } from '../firebase/firestore-service';
+import { BaseDocument, COLLECTIONS, Device, DeviceType } from '../firebase/schema';
+import {
+  QUALITY_CONFIDENCE,
+  ReadingData,
+  ReadingDataSchema,
+  ReadingQuality,
+  readingContext,
+  readingReliability
+} from './reading-ingestion';
+import {
+  DeviceData,
+  DeviceDataSchema,
+  DeviceSchedule,
+  POWER_SAVING_MODE,
+  SmartMeterData,
+  usageAlertRule,
+  validateDevice,
+  validateSmartMeter
+} from './meter-documents';
+import { AlertRegion, DEFAULT_REGION, REGION_PROFILES, RegionProfile } from './alert-thresholds';
+import { convertLegacyStoredRule, isLegacyStoredRule } from '../automation/automation-rule';
+import { isValidTimeZone, localTimeZone } from '../automation/schedule-times';
+
+const CO2_PER_KWH = 0.82; // kg CO2 per kWh
+
+// Fields only the legacy shapes have; removed once a document is converted
+const LEGACY_METER_FIELDS = ['serialNumber', 'info', 'configuration', 'statistics'];
+const LEGACY_DEVICE_FIELDS = ['status', 'configuration', 'statistics'];
+
+// Legacy device types, as the old device cards knew them
+const LEGACY_DEVICE_TYPES: Record<string, { type: DeviceType; category: Device['info']['category'] }> = {
+  lighting: { type: 'light', category: 'essential' },
+  heating: { type: 'ac_meter', category: 'comfort' },
+  cooling: { type: 'ac_meter', category: 'comfort' },
+  appliance: { type: 'appliance_meter', category: 'essential' },
+  water_heater: { type: 'appliance_meter', category: 'comfort' },
+  entertainment: { type: 'plug_meter', category: 'entertainment' },
+  security: { type: 'plug_meter', category: 'essential' }
+};
+
+// Migration Configuration
+interface MigrationConfig {
+  batchSize: number; // documents per Firestore batch
+  region: AlertRegion; // supply, currency and tariff rate when a legacy document doesn't say
+}
+
+const DEFAULT_CONFIG: MigrationConfig = {
+  batchSize: 400,
+  region: DEFAULT_REGION
+};
+
+export interface MigrationResult {
+  meters: number;
+  devices: number;
+  readings: number;
+  failed: Array<{ collection: string; id: string; error: string }>;
+}
+
+type StoredDocument = BaseDocument & Record<string, any>;
+
+const toTimestamp = (value: unknown): Timestamp | undefined => {
+  if (value instanceof Timestamp) return value;
+  if (value instanceof Date && !isNaN(value.getTime())) return Timestamp.fromDate(value);
+  return undefined;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const finite = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+export class LegacyDocumentMigration {
+  private config: MigrationConfig;
+  private runs = new Map<string, Promise<MigrationResult>>();
+
+  constructor(config: Partial<MigrationConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Supply and billing defaults for documents that don't say
+   */
+  private get region(): RegionProfile {
+    return REGION_PROFILES[this.config.region];
+  }
+
+  /**
+   * Migrate a user's documents once per session; later calls share the first run
+   */
+  ensureMigrated(userId: string): Promise<MigrationResult> {
+    let run = this.runs.get(userId);
+    if (!run) {
+      run = this.migrateUser(userId).catch(error => {
+        this.runs.delete(userId);
+        throw error;
+      });
+      this.runs.set(userId, run);
+    }
+    return run;
+  }
+
+  /**
+   * Convert every legacy meter, device and reading of a user. Documents that
+   * can't be converted are reported and left as they are.
+   */
+  async migrateUser(userId: string): Promise<MigrationResult> {
+    const result: MigrationResult = { meters: 0, devices: 0, readings: 0, failed: [] };
+
+    const [meters, devices] = await Promise.all([
+      firestoreService.query<StoredDocument>(COLLECTIONS.SMART_METERS, { where: [['userId', '==', userId]] }),
+      firestoreService.query<StoredDocument>(COLLECTIONS.DEVICES, { where: [['userId', '==', userId]] })
+    ]);
+
+    // Devices first: converted meters count their devices' on/off state
+    const deviceOps: BatchOperation[] = [];
+    const deviceStates = new Map<string, boolean[]>();
+    for (const device of devices) {
+      const legacy = this.isLegacyDevice(device);
+      const data = legacy ? this.tryConvert(result, COLLECTIONS.DEVICES, device.id, () => this.convertDevice(device)) : null;
+      const isOn = data ? data.state.isOn : !!device.state?.isOn;
+      deviceStates.set(device.smartMeterId, [...(deviceStates.get(device.smartMeterId) ?? []), isOn]);
+
+      if (data) {
+        deviceOps.push(this.replaceOperation(COLLECTIONS.DEVICES, device.id, data, LEGACY_DEVICE_FIELDS));
+      }
+    }
+    result.devices = await this.commit(deviceOps);
+
+    const meterOps: BatchOperation[] = [];
+    for (const meter of meters.filter(meter => this.isLegacySmartMeter(meter))) {
+      const data = this.tryConvert(result, COLLECTIONS.SMART_METERS, meter.id, () =>
+        this.convertSmartMeter(meter, deviceStates.get(meter.id) ?? [])
+      );
+      if (data) {
+        meterOps.push(this.replaceOperation(COLLECTIONS.SMART_METERS, meter.id, data, LEGACY_METER_FIELDS));
+      }
+    }
+    result.meters = await this.commit(meterOps);
+
+    const tariffs = new Map(meters.map(meter => [
+      meter.id,
+      finite(meter.config?.tariffRate, this.region.tariffRate)
+    ]));
+    // Converted meters without a config take this runtime's zone, so their readings do too
+    const timeZones = new Map(meters.map(meter => [
+      meter.id,
+      isValidTimeZone(meter.config?.timezone ?? '') ? meter.config.timezone : localTimeZone()
+    ]));
+    result.readings = await this.migrateReadings(userId, tariffs, timeZones, result);
+
+    return result;
+  }
+
+  isLegacySmartMeter(meter: StoredDocument): boolean {
+    return LEGACY_METER_FIELDS.some(field => field in meter) || !meter.installation || !meter.aggregated;
+  }
+
+  isLegacyDevice(device: StoredDocument): boolean {
+    return LEGACY_DEVICE_FIELDS.some(field => field in device) || !device.specs || !device.usage
+      || (device.automation?.rules ?? []).some(isLegacyStoredRule);
+  }
+
+  isLegacyReading(reading: StoredDocument): boolean {
+    return typeof reading.reading?.consumption === 'number' || typeof reading.reading?.power === 'number';
+  }
+
+  convertSmartMeter(meter: StoredDocument, deviceStates: boolean[]): SmartMeterData {
+    const info = meter.info ?? {};
+    const status = meter.status ?? {};
+    const configuration = meter.configuration ?? {};
+    const thresholds = configuration.alertThresholds ?? {};
+    const statistics = meter.statistics ?? {};
+    const voltage = finite(meter.installation?.voltage, this.region.nominalVoltage);
+    const lastMaintenanceDate = toTimestamp(info.lastMaintenance);
+
+    const data: SmartMeterData = {
+      userId: meter.userId,
+      meterId: meter.meterId ?? meter.serialNumber ?? meter.id,
+      providerId: meter.providerId ?? 'unknown',
+      installation: meter.installation ?? {
+        installDate: toTimestamp(info.installationDate) ?? meter.createdAt,
+        location: info.location ?? '',
+        meterType: info.model ?? 'smart',
+        voltage,
+        phases: 1,
+        maxCapacity: 60
+      },
+      config: meter.config ?? {
+        tariffRate: this.region.tariffRate,
+        currency: this.region.currency,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        billingCycle: 'monthly',
+        readingInterval: Math.max(1, finite(configuration.updateInterval, 60000) / 60000),
+        alertThresholds: {
+          highUsage: finite(thresholds.highUsage, 5000) / 1000, // stored in W
+          lowVoltage: finite(thresholds.lowVoltage, voltage * 0.9),
+          highVoltage: finite(thresholds.highVoltage, voltage * 1.1),
+          powerFactor: 0.8
+        }
+      },
+      status: {
+        isOnline: !!status.isOnline,
+        lastReading: toTimestamp(status.lastReading) ?? meter.updatedAt,
+        ...(lastMaintenanceDate && { lastMaintenanceDate }),
+        firmwareVersion: info.firmwareVersion ?? status.firmwareVersion ?? '1.0.0',
+        ...(typeof status.signalStrength === 'number' && { signalStrength: clamp(status.signalStrength, 0, 100) }),
+        ...(typeof status.batteryLevel === 'number' && { batteryLevel: clamp(status.batteryLevel, 0, 100) }),
+        ...(status.tamper && { tamper: status.tamper })
+      },
+      aggregated: meter.aggregated ?? {
+        totalDevices: deviceStates.length,
+        activeDevices: deviceStates.filter(Boolean).length,
+        todayUsage: 0,
+        monthlyUsage: 0,
+        averageUsage: Math.max(0, finite(statistics.averageDailyUsage, 0)) / 1000, // stored in Wh
+        peakDemand: Math.max(0, finite(statistics.peakUsage, 0)) / 1000, // stored in W
+        efficiencyScore: clamp(finite(statistics.efficiency, 0), 0, 10)
+      },
+      ...(meter.prepaid && { prepaid: meter.prepaid })
+    };
+
+    validateSmartMeter(data);
+    return data;
+  }
+
+  convertDevice(device: StoredDocument): DeviceData {
+    const info = device.info ?? {};
+    const status = device.status ?? {};
+    const configuration = device.configuration ?? {};
+    const statistics = device.statistics ?? {};
+    const legacyType = LEGACY_DEVICE_TYPES[info.type];
+    const type: DeviceType = DeviceDataSchema.shape.info.shape.type.safeParse(info.type).success
+      ? info.type
+      : legacyType?.type ?? 'plug_meter';
+    const healthScore = finite(status.healthScore, 100);
+    const lastMaintenance = toTimestamp(statistics.lastMaintenanceDate);
+    const installDate = toTimestamp(info.installationDate ?? info.installDate);
+    const totalUsage = Math.max(0, finite(statistics.totalEnergyConsumed, 0)) / 1000; // stored in Wh
+
+    const data: DeviceData = {
+      userId: device.userId,
+      smartMeterId: device.smartMeterId,
+      deviceId: device.deviceId ?? device.id,
+      info: {
+        name: info.name || 'Device',
+        brand: info.brand ?? info.manufacturer ?? 'Unknown',
+        ...(info.model && { model: info.model }),
+        category: info.category ?? legacyType?.category ?? 'essential',
+        type,
+        room: info.room ?? info.location ?? '',
+        ...(installDate && { installDate })
+      },
+      specs: device.specs ?? {
+        ratedPower: Math.max(0, finite(info.powerRating, 0)),
+        voltage: this.region.nominalVoltage
+      },
+      state: device.state ?? {
+        isOnline: !!status.isOnline,
+        isOn: !!status.isActive,
+        currentPower: Math.max(0, finite(statistics.averagePowerUsage, 0)),
+        ...(configuration.powerSavingMode && { mode: POWER_SAVING_MODE }),
+        lastStateChange: toTimestamp(status.lastReading) ?? device.updatedAt
+      },
+      usage: device.usage ?? {
+        dailyUsage: 0,
+        weeklyUsage: 0,
+        monthlyUsage: 0,
+        yearlyUsage: 0,
+        totalUsage,
+        operatingHours: Math.max(0, finite(statistics.operatingHours, 0))
+      },
+      smart: device.smart ?? {
+        isSmartEnabled: true,
+        hasScheduling: true,
+        hasRemoteControl: true,
+        hasEnergyMonitoring: true,
+        supportedFeatures: ['scheduling', 'remote_control', 'energy_monitoring']
+      },
+      health: device.health ?? {
+        status: healthScore >= 90 ? 'excellent'
+          : healthScore >= 75 ? 'good'
+          : healthScore >= 60 ? 'fair'
+          : healthScore >= 40 ? 'poor'
+          : 'critical',
+        ...(lastMaintenance && { lastMaintenance }),
+        maintenanceHistory: [],
+        alerts: status.errorCode ? [String(status.errorCode)] : []
+      },
+      // Legacy automation held rules, triggers and actions without schedules
+      automation: Array.isArray(device.automation?.schedules) ? {
+        ...device.automation,
+        rules: (device.automation.rules ?? []).map((rule: unknown) =>
+          isLegacyStoredRule(rule) ? convertLegacyStoredRule(rule) : rule
+        )
+      } : {
+        schedules: this.convertSchedule(configuration),
+        rules: [usageAlertRule(configuration.alertsEnabled ?? true)]
+      }
+    };
+
+    validateDevice(data);
+    return data;
+  }
+
+  convertReading(
+    reading: StoredDocument,
+    tariffRate: number = this.region.tariffRate,
+    timeZone: string = localTimeZone()
+  ): ReadingData {
+    const legacy = reading.reading;
+    const timestamp = toTimestamp(legacy.timestamp) ?? reading.createdAt;
+    if (!timestamp) throw new Error('Reading has no timestamp');
+    const energy = Math.max(0, finite(legacy.consumption, 0)) / 1000; // stored in Wh
+    const instantPower = Math.max(0, finite(legacy.power, 0)) / 1000; // stored in W
+    const powerFactor = clamp(finite(legacy.powerFactor, 1), 0, 1);
+    const confidence = QUALITY_CONFIDENCE[legacy.quality as ReadingQuality] ?? QUALITY_CONFIDENCE.good;
+    const anomalies: unknown[] = Array.isArray(reading.metadata?.anomalies) ? reading.metadata.anomalies : [];
+
+    const data: ReadingData = {
+      userId: reading.userId,
+      smartMeterId: reading.smartMeterId,
+      ...(reading.deviceId && { deviceId: reading.deviceId }),
+      reading: {
+        timestamp,
+        instantPower,
+        energy,
+        voltage: { average: Math.max(0, finite(legacy.voltage, 0)) },
+        current: { average: Math.max(0, finite(legacy.current, 0)) },
+        frequency: Math.max(0, finite(legacy.frequency, 0)),
+        powerFactor
+      },
+      metrics: {
+        cost: energy * tariffRate,
+        co2Emissions: energy * CO2_PER_KWH,
+        efficiency: Math.round(powerFactor * 100) / 10,
+        demand: instantPower
+      },
+      quality: {
+        reliability: readingReliability(anomalies.length),
+        accuracy: confidence,
+        source: 'meter',
+        confidence
+      },
+      context: readingContext(timestamp.toDate(), timeZone)
+    };
+
+    const parsed = ReadingDataSchema.safeParse(data);
+    if (!parsed.success) {
+      throw new Error(parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '));
+    }
+    return data;
+  }
+
+  /**
+   * Legacy readings page by page. A range filter on `reading.consumption` only
+   * matches documents that still have it, so converted readings drop out of
+   * the next page on their own.
+   */
+  private async migrateReadings(
+    userId: string,
+    tariffs: Map<string, number>,
+    timeZones: Map<string, string>,
+    result: MigrationResult
+  ): Promise<number> {
+    const skipped = new Set<string>();
+    let migrated = 0;
+
+    while (true) {
+      const page = await firestoreService.query<StoredDocument>(COLLECTIONS.READINGS, {
+        where: [['userId', '==', userId], ['reading.consumption', '>=', 0]],
+        limit: this.config.batchSize + skipped.size
+      });
+      const pending = page.filter(reading => !skipped.has(reading.id) && this.isLegacyReading(reading));
+      if (pending.length === 0) break;
+
+      const ops: BatchOperation[] = [];
+      for (const reading of pending) {
+        const data = this.tryConvert(result, COLLECTIONS.READINGS, reading.id, () =>
+          this.convertReading(reading, tariffs.get(reading.smartMeterId), timeZones.get(reading.smartMeterId))
+        );
+        if (!data) {
+          skipped.add(reading.id);
+          continue;
+        }
+        ops.push(this.replaceOperation(COLLECTIONS.READINGS, reading.id, data, [
+          'metadata',
+          ...(reading.deviceId === null ? ['deviceId'] : [])
+        ]));
+      }
+      migrated += await this.commit(ops);
+    }
+
+    return migrated;
+  }
+
+  /**
+   * Old schedules were free-form; cron strings carry over, anything else is
+   * kept disabled with the original value in its parameters
+   */
+  private convertSchedule(configuration: Record<string, any>): DeviceSchedule[] {
+    const { schedule, enableSchedule } = configuration;
+    if (!schedule) return [];
+
+    const isCron = typeof schedule === 'string';
+    return [{
+      id: 'migrated_schedule',
+      name: 'Schedule',
+      enabled: isCron && !!enableSchedule,
+      schedule: isCron ? schedule : '0 0 * * *',
+      action: 'turn_on',
+      parameters: isCron ? {} : { legacySchedule: schedule }
+    }];
+  }
+
+  /**
+   * Update that writes every schema section and deletes the legacy-only fields
+   */
+  private replaceOperation(collection: string, id: string, data: object, legacyFields: string[]): BatchOperation {
+    return {
+      type: 'update',
+      collection,
+      id,
+      data: {
+        ...data,
+        ...Object.fromEntries(legacyFields.map(field => [field, deleteField()]))
+      }
+    };
+  }
+
+  private tryConvert<T>(result: MigrationResult, collection: string, id: string, convert: () => T): T | null {
+    try {
+      return convert();
+    } catch (error) {
+      result.failed.push({ collection, id, error: error instanceof Error ? error.message : String(error) });
+      return null;
+    }
+  }
+
+  private async commit(operations: BatchOperation[]): Promise<number> {
+    for (let i = 0; i < operations.length; i += this.config.batchSize) {
+      await firestoreService.batch(operations.slice(i, i + this.config.batchSize));
+    }
+    return operations.length;
+  }
+}
+
+// Export singleton instance
+export const legacyDocumentMigration = new LegacyDocumentMigration();
@@ -0,0 +1,206 @@
+/**
+ * Local Meter Bridge
+ *
+ * Connects a local source (MQTT or Modbus-TCP) to the smart meter service:
+ * each sample is completed with the region's nominal supply values where
+ * the meter doesn't report them, turned into canonical `EnergyData` and
+ * recorded through `recordEnergyReading`, so it goes through the same
+ * ingestion, rollups and alert thresholds as provider readings.
+ *
+ * Interval energy comes from the meter's cumulative register when it has
+ * one; otherwise, and across a register reset, power is integrated over the
+ * time since the previous sample.
+ */
+
+import { REGION_PROFILES, AlertRegion } from '../alert-thresholds';
+import { smartMeterService, EnergyData } from '../smart-meter-service';
+import {
+  BridgeSample,
+  BridgeSource,
+  BridgeSourceState,
+  BridgeStatus,
+  BridgeTarget
+} from './types';
+
+export type BridgeRecorder = (target: BridgeTarget, energyData: EnergyData) => Promise<unknown>;
+
+type BridgeStatusListener = (status: BridgeStatus) => void;
+
+// Bridge Configuration
+interface LocalBridgeConfig {
+  region: AlertRegion; // supplies voltage and frequency the meter doesn't report
+  minInterval: number; // ms; samples arriving faster than this are dropped
+  maxGap: number; // ms; power isn't integrated across a longer silence
+  recorder: BridgeRecorder;
+}
+
+const DEFAULT_CONFIG: LocalBridgeConfig = {
+  region: 'IN',
+  minInterval: 1000,
+  maxGap: 5 * 60 * 1000,
+  recorder: (target, energyData) => smartMeterService.recordEnergyReading(
+    target.userId,
+    target.smartMeterId,
+    target.deviceId,
+    energyData
+  )
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Complete a sample and turn it into `EnergyData`; null when it can't be
+ * recorded. `previous` is the last sample recorded from the same source.
+ */
+export function toEnergyData(
+  sample: BridgeSample,
+  previous: BridgeSample | null,
+  region: AlertRegion = DEFAULT_CONFIG.region,
+  maxGap = DEFAULT_CONFIG.maxGap
+): EnergyData | null {
+  if (!Number.isFinite(sample.power) || sample.power < 0 || Number.isNaN(sample.timestamp.getTime())) {
+    return null;
+  }
+
+  const profile = REGION_PROFILES[region];
+  const voltage = sample.voltage ?? profile.nominalVoltage;
+  // Meters sign the power factor for leading/lagging load
+  const powerFactor = Math.min(1, Math.abs(sample.powerFactor ?? 1)) || 1;
+  const current = sample.current ?? (voltage > 0 ? sample.power / (voltage * powerFactor) : 0);
+
+  let consumption = 0; // Wh since the previous sample
+  if (previous) {
+    const elapsed = sample.timestamp.getTime() - previous.timestamp.getTime();
+    const registerDelta = sample.energyTotal !== undefined && previous.energyTotal !== undefined
+      ? sample.energyTotal - previous.energyTotal
+      : undefined;
+
+    if (registerDelta !== undefined && registerDelta >= 0) {
+      consumption = registerDelta * 1000;
+    } else if (elapsed > 0 && elapsed <= maxGap) {
+      consumption = ((sample.power + previous.power) / 2) * (elapsed / HOUR_MS);
+    }
+  }
+
+  return {
+    consumption,
+    voltage,
+    current,
+    power: sample.power,
+    frequency: sample.frequency ?? profile.nominalFrequency,
+    powerFactor,
+    timestamp: sample.timestamp
+  };
+}
+
+export class LocalMeterBridge {
+  private config: LocalBridgeConfig;
+  private previous: BridgeSample | null = null;
+  private listeners: BridgeStatusListener[] = [];
+  private running = false;
+  private status: BridgeStatus;
+
+  constructor(
+    private source: BridgeSource,
+    private target: BridgeTarget,
+    config: Partial<LocalBridgeConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.status = {
+      source: source.description,
+      state: 'idle',
+      samples: 0,
+      recorded: 0,
+      rejected: 0,
+      lastSampleAt: null,
+      lastError: null
+    };
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    this.source.start({
+      onSample: sample => void this.handleSample(sample),
+      onState: (state, error) => this.handleState(state, error)
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+
+    await this.source.stop();
+    this.previous = null;
+    this.setStatus({ state: 'idle' });
+  }
+
+  getStatus(): BridgeStatus {
+    return { ...this.status };
+  }
+
+  /**
+   * Be told whenever the bridge status changes; called once right away
+   */
+  subscribe(listener: BridgeStatusListener): () => void {
+    this.listeners.push(listener);
+    listener(this.getStatus());
+
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  private async handleSample(sample: BridgeSample): Promise<void> {
+    this.setStatus({ samples: this.status.samples + 1 });
+
+    if (this.previous && sample.timestamp.getTime() - this.previous.timestamp.getTime() < this.config.minInterval) {
+      return;
+    }
+
+    const energyData = toEnergyData(sample, this.previous, this.config.region, this.config.maxGap);
+    if (!energyData) {
+      this.setStatus({
+        rejected: this.status.rejected + 1,
+        lastError: sample.power < 0
+          ? 'Negative power; export isn\'t recorded, check the CT clamp orientation'
+          : 'Sample has no usable power or timestamp'
+      });
+      return;
+    }
+
+    // Set before the write so a slow write can't make the next sample count the interval again
+    this.previous = sample;
+
+    try {
+      await this.config.recorder(this.target, energyData);
+      this.setStatus({ recorded: this.status.recorded + 1, lastSampleAt: sample.timestamp, lastError: null });
+    } catch (error) {
+      console.error('Error recording local meter reading:', error);
+      this.setStatus({
+        rejected: this.status.rejected + 1,
+        lastError: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private handleState(state: BridgeSourceState, error?: Error): void {
+    if (error) {
+      console.warn(`Local meter source ${this.source.description}: ${error.message}`);
+    }
+    this.setStatus({ state, ...(error && { lastError: error.message }) });
+  }
+
+  private setStatus(updates: Partial<BridgeStatus>): void {
+    this.status = { ...this.status, ...updates };
+    const status = this.getStatus();
+    this.listeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error('Error in bridge status listener:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Local Meter Bridge CLI
+ *
+ *   npm run meter:sim                                  Modbus on :5020, MQTT on :1883
+ *   npm run meter:bridge -- mqtt --user <uid> --meter <smartMeterId> [--device <deviceId>]
+ *   npm run meter:bridge -- modbus --host 192.168.1.50 --map pzem-016 --unit 2 --dry-run
+ *
+ * `--dry-run` prints readings instead of recording them, which together
+ * with the simulator needs neither hardware nor a signed-in account.
+ */
+
+import { parseArgs } from 'util';
+import { LocalMeterBridge, BridgeRecorder } from './bridge';
+import { ModbusMeterSource } from './modbus-tcp';
+import { MqttMeterSource, PAYLOAD_FORMATS } from './mqtt';
+import { REGISTER_MAPS } from './register-maps';
+import { LocalMeterSimulator } from './simulator';
+import { BridgeSource } from './types';
+
+const USAGE = `Usage:
+  cli.ts simulate [--modbus-port 5020] [--mqtt-port 1883] [--map eastron-sdm120] [--format generic|tasmota]
+                  [--topic ecoquest/meter/SIM-001/state] [--interval 5000] [--unit 1]
+  cli.ts mqtt   [--host localhost] [--port 1883] [--topic <filter>] [--format generic|tasmota]
+                [--username <name>] [--password <secret>] (--user <uid> --meter <id> [--device <id>] | --dry-run)
+  cli.ts modbus [--host localhost] [--port 502] [--unit 1] [--map ${Object.keys(REGISTER_MAPS).join('|')}]
+                [--interval 5000] (--user <uid> --meter <id> [--device <id>] | --dry-run)`;
+
+const { positionals, values } = parseArgs({
+  allowPositionals: true,
+  options: {
+    host: { type: 'string' },
+    port: { type: 'string' },
+    topic: { type: 'string' },
+    format: { type: 'string' },
+    username: { type: 'string' },
+    password: { type: 'string' },
+    unit: { type: 'string' },
+    map: { type: 'string' },
+    interval: { type: 'string' },
+    'modbus-port': { type: 'string' },
+    'mqtt-port': { type: 'string' },
+    user: { type: 'string' },
+    meter: { type: 'string' },
+    device: { type: 'string' },
+    'dry-run': { type: 'boolean' }
+  }
+});
+
+function payloadFormat(name = 'generic') {
+  if (name !== 'generic' && name !== 'tasmota') {
+    throw new Error(`Unknown payload format ${name}; use generic or tasmota`);
+  }
+  return PAYLOAD_FORMATS[name];
+}
+
+async function simulate(): Promise<() => Promise<void>> {
+  const simulator = new LocalMeterSimulator({
+    ...(values['modbus-port'] && { modbusPort: Number(values['modbus-port']) }),
+    ...(values['mqtt-port'] && { mqttPort: Number(values['mqtt-port']) }),
+    ...(values.map && { registerMap: values.map }),
+    ...(values.topic && { topic: values.topic }),
+    ...(values.interval && { publishInterval: Number(values.interval) }),
+    ...(values.unit && { unitId: Number(values.unit) }),
+    payload: payloadFormat(values.format)
+  });
+
+  const { modbusPort, mqttPort } = await simulator.start();
+  console.log(`Simulated Modbus meter on 127.0.0.1:${modbusPort}, MQTT broker on 127.0.0.1:${mqttPort}`);
+  return () => simulator.stop();
+}
+
+function bridge(source: BridgeSource): () => Promise<void> {
+  const dryRun = values['dry-run'] === true;
+  if (!dryRun && (!values.user || !values.meter)) {
+    throw new Error('--user and --meter are required unless --dry-run is given');
+  }
+
+  const printReading: BridgeRecorder = async (_target, energyData) => {
+    console.log(
+      `${energyData.timestamp.toISOString()}  ${energyData.power.toFixed(0)} W  ${energyData.voltage.toFixed(1)} V  ` +
+      `${energyData.current.toFixed(2)} A  pf ${energyData.powerFactor.toFixed(2)}  +${energyData.consumption.toFixed(2)} Wh`
+    );
+  };
+
+  const localBridge = new LocalMeterBridge(
+    source,
+    { userId: values.user ?? 'dry-run', smartMeterId: values.meter ?? 'dry-run', deviceId: values.device ?? null },
+    dryRun ? { recorder: printReading } : {}
+  );
+
+  let lastState = '';
+  localBridge.subscribe(status => {
+    if (status.state !== lastState) {
+      lastState = status.state;
+      console.log(`${status.source}: ${status.state}${status.lastError ? ` (${status.lastError})` : ''}`);
+    }
+  });
+  localBridge.start();
+  return () => localBridge.stop();
+}
+
+async function main(): Promise<void> {
+  let stop: () => Promise<void>;
+
+  switch (positionals[0]) {
+    case 'simulate':
+      stop = await simulate();
+      break;
+    case 'mqtt':
+      stop = bridge(new MqttMeterSource({
+        ...(values.host && { host: values.host }),
+        ...(values.port && { port: Number(values.port) }),
+        ...(values.topic && { topic: values.topic }),
+        ...(values.username && { username: values.username }),
+        ...(values.password && { password: values.password }),
+        payload: payloadFormat(values.format)
+      }));
+      break;
+    case 'modbus':
+      stop = bridge(new ModbusMeterSource({
+        ...(values.host && { host: values.host }),
+        ...(values.port && { port: Number(values.port) }),
+        ...(values.unit && { unitId: Number(values.unit) }),
+        ...(values.map && { registerMap: values.map }),
+        ...(values.interval && { pollInterval: Number(values.interval) })
+      }));
+      break;
+    default:
+      console.log(USAGE);
+      process.exitCode = 1;
+      return;
+  }
+
+  const shutdown = async () => {
+    await stop();
+    process.exit(0);
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,19 @@
+export * from './types';
+export {
+  REGISTER_MAPS,
+  MAX_REGISTERS_PER_READ,
+  validateRegisterMap,
+  planRegisterReads,
+  decodeRegister,
+  encodeRegister,
+  registerWidth
+} from './register-maps';
+export type { RegisterBlock, RegisterField, RegisterMap, RegisterType } from './register-maps';
+export { ModbusTcpClient, ModbusMeterSource } from './modbus-tcp';
+export type { ModbusSourceConfig } from './modbus-tcp';
+export { MqttMeterSource, PAYLOAD_FORMATS, parsePayload, topicMatches } from './mqtt';
+export type { MqttSourceConfig, PayloadMapping } from './mqtt';
+export { LocalMeterBridge, toEnergyData } from './bridge';
+export type { BridgeRecorder } from './bridge';
+export { LocalMeterSimulator } from './simulator';
+export type { SimulatorAddresses } from './simulator';
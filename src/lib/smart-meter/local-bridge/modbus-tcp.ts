@@ -0,0 +1,282 @@
+/**
+ * Modbus-TCP Meter Source
+ *
+ * Polls an energy meter's registers over Modbus-TCP, either a meter with
+ * an Ethernet port or an RS485 meter behind a serial-to-TCP gateway. Only
+ * the read functions are implemented (3, read holding registers and 4, read
+ * input registers); the bridge never writes to a meter.
+ */
+
+import { Socket, createConnection } from 'net';
+import {
+  REGISTER_MAPS,
+  RegisterMap,
+  decodeRegister,
+  planRegisterReads,
+  validateRegisterMap
+} from './register-maps';
+import { BridgeError, BridgeSample, BridgeSource, BridgeSourceHandlers } from './types';
+
+// MBAP header: transaction, protocol, length, unit
+export const MBAP_HEADER_LENGTH = 7;
+
+const EXCEPTION_CODES: Record<number, string> = {
+  1: 'illegal function',
+  2: 'illegal data address',
+  3: 'illegal data value',
+  4: 'server device failure',
+  6: 'server device busy',
+  10: 'gateway path unavailable',
+  11: 'gateway target device failed to respond'
+};
+
+interface PendingRequest {
+  functionCode: number;
+  resolve: (data: Buffer) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export class ModbusTcpClient {
+  private socket: Socket | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending = new Map<number, PendingRequest>();
+  private nextTransaction = 1;
+
+  constructor(private host: string, private port: number, private timeout: number) {}
+
+  get isConnected(): boolean {
+    return this.socket !== null && !this.socket.connecting;
+  }
+
+  connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = createConnection({ host: this.host, port: this.port });
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new BridgeError(`Timed out connecting to ${this.host}:${this.port}`, 'timeout'));
+      }, this.timeout);
+
+      socket.once('connect', () => {
+        clearTimeout(timer);
+        this.socket = socket;
+        this.buffer = Buffer.alloc(0);
+        resolve();
+      });
+      // Errors after connecting are followed by 'close', which fails pending requests
+      socket.on('error', error => {
+        clearTimeout(timer);
+        reject(new BridgeError(error.message, 'connection'));
+      });
+      socket.on('data', chunk => this.handleData(chunk));
+      socket.on('close', () => {
+        if (this.socket === socket) this.socket = null;
+        this.rejectAll(new BridgeError('Connection to meter closed', 'connection'));
+      });
+    });
+  }
+
+  /**
+   * Read `count` registers starting at `address`; resolves with their raw bytes
+   */
+  readRegisters(unitId: number, functionCode: 3 | 4, address: number, count: number): Promise<Buffer> {
+    const socket = this.socket;
+    if (!socket) {
+      return Promise.reject(new BridgeError('Not connected to meter', 'connection'));
+    }
+
+    const transactionId = this.nextTransaction;
+    this.nextTransaction = (this.nextTransaction % 0xffff) + 1;
+
+    const request = Buffer.alloc(MBAP_HEADER_LENGTH + 5);
+    request.writeUInt16BE(transactionId, 0);
+    request.writeUInt16BE(0, 2);
+    request.writeUInt16BE(6, 4);
+    request.writeUInt8(unitId, 6);
+    request.writeUInt8(functionCode, 7);
+    request.writeUInt16BE(address, 8);
+    request.writeUInt16BE(count, 10);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(transactionId);
+        reject(new BridgeError(`No response reading ${count} registers at ${address}`, 'timeout'));
+      }, this.timeout);
+
+      this.pending.set(transactionId, { functionCode, resolve, reject, timer });
+      socket.write(request);
+    });
+  }
+
+  close(): Promise<void> {
+    const socket = this.socket;
+    this.socket = null;
+    this.rejectAll(new BridgeError('Connection closed', 'connection'));
+    if (!socket || socket.destroyed) return Promise.resolve();
+
+    return new Promise(resolve => {
+      socket.once('close', () => resolve());
+      socket.end();
+      socket.destroy();
+    });
+  }
+
+  private handleData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (this.buffer.length >= MBAP_HEADER_LENGTH) {
+      const length = this.buffer.readUInt16BE(4);
+      const frameLength = 6 + length;
+      if (this.buffer.length < frameLength) return;
+
+      const frame = this.buffer.subarray(0, frameLength);
+      this.buffer = this.buffer.subarray(frameLength);
+      this.handleFrame(frame);
+    }
+  }
+
+  private handleFrame(frame: Buffer): void {
+    const request = this.pending.get(frame.readUInt16BE(0));
+    if (!request) return; // answered after its timeout
+
+    this.pending.delete(frame.readUInt16BE(0));
+    clearTimeout(request.timer);
+
+    const functionCode = frame.readUInt8(7);
+    if (functionCode === (request.functionCode | 0x80)) {
+      const code = frame.readUInt8(8);
+      request.reject(new BridgeError(`Meter returned exception: ${EXCEPTION_CODES[code] || `code ${code}`}`, 'protocol'));
+      return;
+    }
+    if (functionCode !== request.functionCode) {
+      request.reject(new BridgeError(`Unexpected function code ${functionCode} in response`, 'protocol'));
+      return;
+    }
+
+    const byteCount = frame.readUInt8(8);
+    request.resolve(frame.subarray(9, 9 + byteCount));
+  }
+
+  private rejectAll(error: Error): void {
+    this.pending.forEach(request => {
+      clearTimeout(request.timer);
+      request.reject(error);
+    });
+    this.pending.clear();
+  }
+}
+
+// Source Configuration
+export interface ModbusSourceConfig {
+  host: string;
+  port: number;
+  unitId: number; // slave address; matters behind RS485 gateways
+  registerMap: string | RegisterMap; // preset id or a custom map
+  pollInterval: number; // ms
+  timeout: number; // ms, per connect and per request
+  reconnectDelay: number; // ms
+}
+
+const DEFAULT_CONFIG: ModbusSourceConfig = {
+  host: 'localhost',
+  port: 502,
+  unitId: 1,
+  registerMap: 'eastron-sdm120',
+  pollInterval: 5000,
+  timeout: 3000,
+  reconnectDelay: 10000
+};
+
+export class ModbusMeterSource implements BridgeSource {
+  readonly kind = 'modbus';
+  private config: ModbusSourceConfig;
+  private map: RegisterMap;
+  private client: ModbusTcpClient;
+  private handlers: BridgeSourceHandlers | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(config: Partial<ModbusSourceConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+
+    const map = typeof this.config.registerMap === 'string'
+      ? REGISTER_MAPS[this.config.registerMap]
+      : this.config.registerMap;
+    if (!map) {
+      throw new BridgeError(
+        `Unknown register map ${this.config.registerMap}; use one of ${Object.keys(REGISTER_MAPS).join(', ')}`,
+        'config'
+      );
+    }
+    const errors = validateRegisterMap(map);
+    if (errors.length > 0) {
+      throw new BridgeError(`Invalid register map ${map.id}: ${errors.join('; ')}`, 'config');
+    }
+
+    this.map = map;
+    this.client = new ModbusTcpClient(this.config.host, this.config.port, this.config.timeout);
+  }
+
+  get description(): string {
+    return `modbus://${this.config.host}:${this.config.port}/${this.config.unitId} (${this.map.label})`;
+  }
+
+  start(handlers: BridgeSourceHandlers): void {
+    if (this.handlers) return;
+    this.handlers = handlers;
+    void this.poll();
+  }
+
+  async stop(): Promise<void> {
+    this.handlers = null;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.client.close();
+  }
+
+  /**
+   * Read every block of the register map into one sample
+   */
+  async readSample(): Promise<BridgeSample> {
+    const sample: Partial<BridgeSample> = { timestamp: new Date() };
+
+    for (const block of planRegisterReads(this.map)) {
+      const data = await this.client.readRegisters(this.config.unitId, this.map.functionCode, block.address, block.count);
+      if (data.length < block.count * 2) {
+        throw new BridgeError(`Short response: ${data.length} bytes for ${block.count} registers`, 'protocol');
+      }
+      for (const field of block.fields) {
+        sample[field] = decodeRegister(this.map.fields[field]!, data, block.address);
+      }
+    }
+
+    return sample as BridgeSample;
+  }
+
+  // One poll, then schedule the next; sequential so slow meters never see overlapping requests
+  private async poll(): Promise<void> {
+    if (!this.handlers) return;
+    let delay = this.config.pollInterval;
+
+    try {
+      if (!this.client.isConnected) {
+        this.handlers.onState('connecting');
+        await this.client.connect();
+        this.handlers?.onState('connected');
+      }
+      const sample = await this.readSample();
+      this.handlers?.onSample(sample);
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error));
+      this.handlers?.onState('error', failure);
+      // A timed out or refused request may leave the stream out of step, so start over
+      await this.client.close();
+      delay = this.config.reconnectDelay;
+    }
+
+    if (this.handlers) {
+      this.timer = setTimeout(() => void this.poll(), delay);
+    }
+  }
+}
@@ -0,0 +1,441 @@
+/**
+ * MQTT Meter Source
+ *
+ * Subscribes to an MQTT broker for readings published by DIY meters
+ * (ESP32/ESP8266 CT-clamp builds, Tasmota plugs, gateways relaying a
+ * meter). Implements the subset of MQTT 3.1.1 a subscriber needs — connect,
+ * subscribe, QoS 0/1 delivery and keep-alive — over a plain TCP socket, and
+ * maps each JSON payload onto a `BridgeSample` with a payload mapping.
+ */
+
+import { Socket, createConnection } from 'net';
+import {
+  BridgeError,
+  BridgeSample,
+  BridgeSampleField,
+  BridgeSource,
+  BridgeSourceHandlers
+} from './types';
+
+export const MQTT_PACKET = {
+  CONNECT: 1,
+  CONNACK: 2,
+  PUBLISH: 3,
+  PUBACK: 4,
+  SUBSCRIBE: 8,
+  SUBACK: 9,
+  PINGREQ: 12,
+  PINGRESP: 13,
+  DISCONNECT: 14
+} as const;
+
+export interface MqttPacket {
+  type: number;
+  flags: number; // low nibble of the fixed header
+  body: Buffer;
+}
+
+export interface MqttPublish {
+  topic: string;
+  payload: Buffer;
+  qos: number;
+  packetId?: number;
+}
+
+const CONNACK_ERRORS: Record<number, string> = {
+  1: 'unacceptable protocol version',
+  2: 'client identifier rejected',
+  3: 'server unavailable',
+  4: 'bad user name or password',
+  5: 'not authorized'
+};
+
+/**
+ * Dotted paths into a JSON payload for each sample field; `timestamp` is
+ * optional and the time of receipt is used without it
+ */
+export type PayloadMapping = { power: string } & Partial<Record<Exclude<BridgeSampleField, 'power'> | 'timestamp', string>>;
+
+export const PAYLOAD_FORMATS: Record<'generic' | 'tasmota', PayloadMapping> = {
+  // {"power": 1520, "voltage": 231.4, "current": 6.9, "pf": 0.95, "energy": 1834.2}
+  generic: {
+    power: 'power',
+    voltage: 'voltage',
+    current: 'current',
+    frequency: 'frequency',
+    powerFactor: 'pf',
+    energyTotal: 'energy',
+    timestamp: 'timestamp'
+  },
+  // Tasmota tele/<device>/SENSOR; its Time is local time without a zone, so it isn't used
+  tasmota: {
+    power: 'ENERGY.Power',
+    voltage: 'ENERGY.Voltage',
+    current: 'ENERGY.Current',
+    frequency: 'ENERGY.Frequency',
+    powerFactor: 'ENERGY.Factor',
+    energyTotal: 'ENERGY.Total'
+  }
+};
+
+// Codec
+
+export function encodeString(value: string): Buffer {
+  const bytes = Buffer.from(value, 'utf8');
+  const length = Buffer.alloc(2);
+  length.writeUInt16BE(bytes.length, 0);
+  return Buffer.concat([length, bytes]);
+}
+
+export function encodePacket(type: number, flags: number, body: Buffer): Buffer {
+  const length: number[] = [];
+  let remaining = body.length;
+  do {
+    let byte = remaining % 128;
+    remaining = Math.floor(remaining / 128);
+    if (remaining > 0) byte |= 0x80;
+    length.push(byte);
+  } while (remaining > 0);
+
+  return Buffer.concat([Buffer.from([(type << 4) | flags, ...length]), body]);
+}
+
+/**
+ * Split complete packets off the front of a stream buffer
+ */
+export function readPackets(buffer: Buffer): { packets: MqttPacket[]; rest: Buffer } {
+  const packets: MqttPacket[] = [];
+  let offset = 0;
+
+  while (offset + 2 <= buffer.length) {
+    let length = 0;
+    let multiplier = 1;
+    let cursor = offset + 1;
+    let complete = false;
+
+    for (let i = 0; i < 4 && cursor < buffer.length; i++) {
+      const byte = buffer[cursor++];
+      length += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+      if ((byte & 0x80) === 0) {
+        complete = true;
+        break;
+      }
+    }
+    if (!complete) {
+      if (cursor - offset > 4) throw new BridgeError('Malformed MQTT remaining length', 'protocol');
+      break;
+    }
+    if (cursor + length > buffer.length) break;
+
+    packets.push({
+      type: buffer[offset] >> 4,
+      flags: buffer[offset] & 0x0f,
+      body: buffer.subarray(cursor, cursor + length)
+    });
+    offset = cursor + length;
+  }
+
+  return { packets, rest: buffer.subarray(offset) };
+}
+
+export function encodePublish(topic: string, payload: Buffer | string, qos = 0, packetId = 0): Buffer {
+  const parts = [encodeString(topic)];
+  if (qos > 0) {
+    const id = Buffer.alloc(2);
+    id.writeUInt16BE(packetId, 0);
+    parts.push(id);
+  }
+  parts.push(Buffer.isBuffer(payload) ? payload : Buffer.from(payload, 'utf8'));
+  return encodePacket(MQTT_PACKET.PUBLISH, qos << 1, Buffer.concat(parts));
+}
+
+export function decodePublish(packet: MqttPacket): MqttPublish {
+  const qos = (packet.flags >> 1) & 0x03;
+  const topicLength = packet.body.readUInt16BE(0);
+  const topic = packet.body.toString('utf8', 2, 2 + topicLength);
+  let offset = 2 + topicLength;
+  let packetId: number | undefined;
+
+  if (qos > 0) {
+    packetId = packet.body.readUInt16BE(offset);
+    offset += 2;
+  }
+
+  return { topic, payload: packet.body.subarray(offset), qos, packetId };
+}
+
+/**
+ * Whether a topic matches a subscription filter with `+` and `#` wildcards
+ */
+export function topicMatches(filter: string, topic: string): boolean {
+  const filterLevels = filter.split('/');
+  const topicLevels = topic.split('/');
+
+  for (let i = 0; i < filterLevels.length; i++) {
+    if (filterLevels[i] === '#') return true;
+    if (i >= topicLevels.length) return false;
+    if (filterLevels[i] !== '+' && filterLevels[i] !== topicLevels[i]) return false;
+  }
+  return filterLevels.length === topicLevels.length;
+}
+
+function valueAt(payload: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    payload
+  );
+}
+
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Map a JSON payload onto a sample; null when it has no usable power value
+ */
+export function parsePayload(payload: Buffer | string, mapping: PayloadMapping, receivedAt = new Date()): BridgeSample | null {
+  let json: unknown;
+  try {
+    json = JSON.parse(payload.toString());
+  } catch {
+    return null;
+  }
+
+  const power = toNumber(valueAt(json, mapping.power));
+  if (power === undefined) return null;
+
+  const sample: BridgeSample = { timestamp: receivedAt, power };
+  for (const field of ['voltage', 'current', 'frequency', 'powerFactor', 'energyTotal'] as const) {
+    const path = mapping[field];
+    const value = path ? toNumber(valueAt(json, path)) : undefined;
+    if (value !== undefined) sample[field] = value;
+  }
+
+  if (mapping.timestamp) {
+    const raw = valueAt(json, mapping.timestamp);
+    // Epoch seconds or milliseconds, or an ISO string
+    const millis = typeof raw === 'number' ? (raw < 1e12 ? raw * 1000 : raw)
+      : typeof raw === 'string' ? Date.parse(raw)
+      : NaN;
+    if (Number.isFinite(millis)) sample.timestamp = new Date(millis);
+  }
+
+  return sample;
+}
+
+// Source Configuration
+export interface MqttSourceConfig {
+  host: string;
+  port: number;
+  topic: string; // subscription filter, wildcards allowed
+  qos: 0 | 1;
+  clientId: string;
+  username?: string;
+  password?: string;
+  keepAlive: number; // seconds
+  connectTimeout: number; // ms
+  reconnectDelay: number; // ms
+  payload: PayloadMapping;
+}
+
+const DEFAULT_CONFIG: MqttSourceConfig = {
+  host: 'localhost',
+  port: 1883,
+  topic: 'ecoquest/meter/+/state',
+  qos: 0,
+  clientId: `ecoquest-bridge-${Math.random().toString(16).slice(2, 10)}`,
+  keepAlive: 30,
+  connectTimeout: 10000,
+  reconnectDelay: 5000,
+  payload: PAYLOAD_FORMATS.generic
+};
+
+export class MqttMeterSource implements BridgeSource {
+  readonly kind = 'mqtt';
+  private config: MqttSourceConfig;
+  private socket: Socket | null = null;
+  private handlers: BridgeSourceHandlers | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private connected = false;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private connectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private awaitingPong = false;
+
+  constructor(config: Partial<MqttSourceConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  get description(): string {
+    return `mqtt://${this.config.host}:${this.config.port}/${this.config.topic}`;
+  }
+
+  start(handlers: BridgeSourceHandlers): void {
+    if (this.handlers) return;
+    this.handlers = handlers;
+    this.connect();
+  }
+
+  async stop(): Promise<void> {
+    this.handlers = null;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const socket = this.socket;
+    if (!socket) return;
+
+    await new Promise<void>(resolve => {
+      socket.once('close', () => resolve());
+      if (this.connected) {
+        socket.end(encodePacket(MQTT_PACKET.DISCONNECT, 0, Buffer.alloc(0)));
+      } else {
+        socket.destroy();
+      }
+    });
+  }
+
+  private connect(): void {
+    if (!this.handlers) return;
+    this.handlers.onState('connecting');
+
+    const socket = createConnection({ host: this.config.host, port: this.config.port });
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+
+    this.connectTimer = setTimeout(() => {
+      this.fail(new BridgeError(`No CONNACK from ${this.config.host}:${this.config.port}`, 'timeout'));
+    }, this.config.connectTimeout);
+
+    socket.on('connect', () => socket.write(this.connectPacket()));
+    socket.on('data', chunk => {
+      try {
+        const { packets, rest } = readPackets(Buffer.concat([this.buffer, chunk]));
+        this.buffer = rest;
+        packets.forEach(packet => this.handlePacket(packet));
+      } catch (error) {
+        this.fail(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+    socket.on('error', error => this.fail(new BridgeError(error.message, 'connection')));
+    socket.on('close', () => {
+      if (this.socket === socket) this.fail(new BridgeError('Connection to broker closed', 'connection'));
+    });
+  }
+
+  private connectPacket(): Buffer {
+    const { clientId, username, password, keepAlive } = this.config;
+    const flags = 0x02 | (username ? 0x80 : 0) | (password ? 0x40 : 0); // clean session
+    const header = Buffer.alloc(4);
+    header.writeUInt8(4, 0); // protocol level 3.1.1
+    header.writeUInt8(flags, 1);
+    header.writeUInt16BE(keepAlive, 2);
+
+    return encodePacket(MQTT_PACKET.CONNECT, 0, Buffer.concat([
+      encodeString('MQTT'),
+      header,
+      encodeString(clientId),
+      ...(username ? [encodeString(username)] : []),
+      ...(password ? [encodeString(password)] : [])
+    ]));
+  }
+
+  private handlePacket(packet: MqttPacket): void {
+    switch (packet.type) {
+      case MQTT_PACKET.CONNACK: {
+        const code = packet.body[1];
+        if (code !== 0) {
+          this.fail(new BridgeError(`Broker refused connection: ${CONNACK_ERRORS[code] || `code ${code}`}`, 'connection'));
+          return;
+        }
+        this.subscribe();
+        break;
+      }
+      case MQTT_PACKET.SUBACK: {
+        if (packet.body[2] === 0x80) {
+          this.fail(new BridgeError(`Broker refused subscription to ${this.config.topic}`, 'protocol'));
+          return;
+        }
+        if (this.connectTimer) {
+          clearTimeout(this.connectTimer);
+          this.connectTimer = null;
+        }
+        this.connected = true;
+        this.startKeepAlive();
+        this.handlers?.onState('connected');
+        break;
+      }
+      case MQTT_PACKET.PUBLISH: {
+        const message = decodePublish(packet);
+        if (message.qos === 1 && message.packetId !== undefined) {
+          const id = Buffer.alloc(2);
+          id.writeUInt16BE(message.packetId, 0);
+          this.socket?.write(encodePacket(MQTT_PACKET.PUBACK, 0, id));
+        }
+        this.handleMessage(message);
+        break;
+      }
+      case MQTT_PACKET.PINGRESP:
+        this.awaitingPong = false;
+        break;
+    }
+  }
+
+  private subscribe(): void {
+    const packetId = Buffer.alloc(2);
+    packetId.writeUInt16BE(1, 0);
+    this.socket?.write(encodePacket(MQTT_PACKET.SUBSCRIBE, 0x02, Buffer.concat([
+      packetId,
+      encodeString(this.config.topic),
+      Buffer.from([this.config.qos])
+    ])));
+  }
+
+  private handleMessage(message: MqttPublish): void {
+    const sample = parsePayload(message.payload, this.config.payload);
+    if (sample) {
+      this.handlers?.onSample(sample);
+    } else {
+      console.warn(`Ignoring MQTT message on ${message.topic}: no power value in payload`);
+    }
+  }
+
+  private startKeepAlive(): void {
+    if (this.config.keepAlive <= 0) return;
+
+    this.awaitingPong = false;
+    this.pingTimer = setInterval(() => {
+      if (this.awaitingPong) {
+        this.fail(new BridgeError('Broker stopped answering keep-alive pings', 'timeout'));
+        return;
+      }
+      this.awaitingPong = true;
+      this.socket?.write(encodePacket(MQTT_PACKET.PINGREQ, 0, Buffer.alloc(0)));
+    }, this.config.keepAlive * 1000);
+  }
+
+  /**
+   * Drop the connection and try again after the reconnect delay
+   */
+  private fail(error: Error): void {
+    if (this.pingTimer) clearInterval(this.pingTimer);
+    if (this.connectTimer) clearTimeout(this.connectTimer);
+    this.pingTimer = null;
+    this.connectTimer = null;
+    this.connected = false;
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.destroy();
+
+    if (!this.handlers || this.reconnectTimer) return;
+    this.handlers.onState('error', error);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, this.config.reconnectDelay);
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Modbus Register Maps
+ *
+ * Where a Modbus energy meter keeps each quantity and how it is encoded.
+ * Presets cover the meters most DIY setups use; anything else can be
+ * described with a custom map. Values are scaled to the units of
+ * `BridgeSample` (W, V, A, Hz, kWh).
+ */
+
+import type { BridgeSampleField } from './types';
+
+export type RegisterType = 'uint16' | 'int16' | 'uint32' | 'int32' | 'float32';
+
+export interface RegisterField {
+  address: number; // zero-based register address, as sent on the wire
+  type: RegisterType;
+  scale?: number; // raw value × scale = value in sample units; defaults to 1
+  wordOrder?: 'high_first' | 'low_first'; // for 32-bit values; defaults to high_first
+}
+
+export interface RegisterMap {
+  id: string;
+  label: string;
+  functionCode: 3 | 4; // read holding / input registers
+  fields: { power: RegisterField } & Partial<Record<Exclude<BridgeSampleField, 'power'>, RegisterField>>;
+}
+
+export interface RegisterBlock {
+  address: number;
+  count: number;
+  fields: BridgeSampleField[];
+}
+
+// Largest read the Modbus spec allows in one request
+export const MAX_REGISTERS_PER_READ = 125;
+
+const REGISTER_WIDTH: Record<RegisterType, number> = {
+  uint16: 1,
+  int16: 1,
+  uint32: 2,
+  int32: 2,
+  float32: 2
+};
+
+export const REGISTER_MAPS: Record<string, RegisterMap> = {
+  // Eastron SDM120 / SDM230 single-phase DIN rail meters
+  'eastron-sdm120': {
+    id: 'eastron-sdm120',
+    label: 'Eastron SDM120 / SDM230',
+    functionCode: 4,
+    fields: {
+      voltage: { address: 0x0000, type: 'float32' },
+      current: { address: 0x0006, type: 'float32' },
+      power: { address: 0x000c, type: 'float32' },
+      powerFactor: { address: 0x001e, type: 'float32' },
+      frequency: { address: 0x0046, type: 'float32' },
+      energyTotal: { address: 0x0048, type: 'float32' }
+    }
+  },
+  // Eastron SDM630 three-phase; voltage is phase 1, current the sum of lines
+  'eastron-sdm630': {
+    id: 'eastron-sdm630',
+    label: 'Eastron SDM630 (three-phase)',
+    functionCode: 4,
+    fields: {
+      voltage: { address: 0x0000, type: 'float32' },
+      power: { address: 0x0034, type: 'float32' },
+      powerFactor: { address: 0x003e, type: 'float32' },
+      frequency: { address: 0x0046, type: 'float32' },
+      energyTotal: { address: 0x0048, type: 'float32' },
+      current: { address: 0x00e0, type: 'float32' }
+    }
+  },
+  // Peacefair PZEM-016 / PZEM-004T v3, usually behind an RS485-to-TCP gateway
+  'pzem-016': {
+    id: 'pzem-016',
+    label: 'Peacefair PZEM-016 / PZEM-004T',
+    functionCode: 4,
+    fields: {
+      voltage: { address: 0x0000, type: 'uint16', scale: 0.1 },
+      current: { address: 0x0001, type: 'uint32', scale: 0.001, wordOrder: 'low_first' },
+      power: { address: 0x0003, type: 'uint32', scale: 0.1, wordOrder: 'low_first' },
+      energyTotal: { address: 0x0005, type: 'uint32', scale: 0.001, wordOrder: 'low_first' },
+      frequency: { address: 0x0007, type: 'uint16', scale: 0.1 },
+      powerFactor: { address: 0x0008, type: 'uint16', scale: 0.01 }
+    }
+  }
+};
+
+export function registerWidth(type: RegisterType): number {
+  return REGISTER_WIDTH[type];
+}
+
+function mapFields(map: RegisterMap): [BridgeSampleField, RegisterField][] {
+  return Object.entries(map.fields) as [BridgeSampleField, RegisterField][];
+}
+
+/**
+ * Problems with a custom register map; empty when it can be polled
+ */
+export function validateRegisterMap(map: RegisterMap): string[] {
+  const errors: string[] = [];
+
+  if (map.functionCode !== 3 && map.functionCode !== 4) {
+    errors.push('Function code must be 3 (holding registers) or 4 (input registers)');
+  }
+  if (!map.fields.power) {
+    errors.push('A power register is required');
+  }
+
+  for (const [field, register] of mapFields(map)) {
+    if (!(register.type in REGISTER_WIDTH)) {
+      errors.push(`${field}: unknown register type ${register.type}`);
+    }
+    if (!Number.isInteger(register.address) || register.address < 0 ||
+        register.address + (REGISTER_WIDTH[register.type] ?? 1) > 0x10000) {
+      errors.push(`${field}: register address must be between 0 and 65535`);
+    }
+    if (register.scale !== undefined && !(Number.isFinite(register.scale) && register.scale !== 0)) {
+      errors.push(`${field}: scale must be a non-zero number`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Group a map's registers into as few reads as the request size allows.
+ * Gaps between fields are read along with them rather than split off.
+ */
+export function planRegisterReads(map: RegisterMap, maxRegisters = MAX_REGISTERS_PER_READ): RegisterBlock[] {
+  const fields = mapFields(map).sort(([, a], [, b]) => a.address - b.address);
+  const blocks: RegisterBlock[] = [];
+
+  for (const [field, register] of fields) {
+    const end = register.address + REGISTER_WIDTH[register.type];
+    const block = blocks[blocks.length - 1];
+
+    if (block && end - block.address <= maxRegisters) {
+      block.count = Math.max(block.count, end - block.address);
+      block.fields.push(field);
+    } else {
+      blocks.push({ address: register.address, count: end - register.address, fields: [field] });
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Decode one field from the raw bytes of a block read starting at `blockAddress`
+ */
+export function decodeRegister(register: RegisterField, data: Buffer, blockAddress: number): number {
+  const offset = (register.address - blockAddress) * 2;
+  let raw: number;
+
+  if (REGISTER_WIDTH[register.type] === 1) {
+    raw = register.type === 'int16' ? data.readInt16BE(offset) : data.readUInt16BE(offset);
+  } else {
+    const words = Buffer.from(data.subarray(offset, offset + 4));
+    if (register.wordOrder === 'low_first') words.swap32().swap16();
+
+    raw = register.type === 'float32' ? words.readFloatBE(0)
+      : register.type === 'int32' ? words.readInt32BE(0)
+      : words.readUInt32BE(0);
+  }
+
+  return raw * (register.scale ?? 1);
+}
+
+/**
+ * Encode a value into a register buffer; used by the simulator to serve a map
+ */
+export function encodeRegister(register: RegisterField, value: number, data: Buffer, blockAddress: number): void {
+  const offset = (register.address - blockAddress) * 2;
+  const raw = value / (register.scale ?? 1);
+
+  if (REGISTER_WIDTH[register.type] === 1) {
+    if (register.type === 'int16') {
+      data.writeInt16BE(Math.round(raw), offset);
+    } else {
+      data.writeUInt16BE(Math.round(raw) & 0xffff, offset);
+    }
+    return;
+  }
+
+  const words = Buffer.alloc(4);
+  if (register.type === 'float32') {
+    words.writeFloatBE(raw, 0);
+  } else if (register.type === 'int32') {
+    words.writeInt32BE(Math.round(raw), 0);
+  } else {
+    words.writeUInt32BE(Math.round(raw) >>> 0, 0);
+  }
+  if (register.wordOrder === 'low_first') words.swap32().swap16();
+  words.copy(data, offset);
+}
@@ -0,0 +1,316 @@
+/**
+ * Local Meter Simulator
+ *
+ * Stands in for local hardware while developing the bridge: a Modbus-TCP
+ * server exposing a simulated meter through one of the register maps, and
+ * a small MQTT broker that publishes the same readings the way a DIY meter
+ * would. The broker also relays messages other clients publish, so a real
+ * ESP32 build can be pointed at it too. Load follows the same daily profile
+ * as the gateway simulator, and the energy register accumulates over time.
+ */
+
+import { Server, Socket, createServer } from 'net';
+import { generateRealisticData } from '../gateway-simulator';
+import {
+  REGISTER_MAPS,
+  RegisterField,
+  RegisterMap,
+  encodeRegister,
+  registerWidth
+} from './register-maps';
+import { MBAP_HEADER_LENGTH } from './modbus-tcp';
+import {
+  MQTT_PACKET,
+  PAYLOAD_FORMATS,
+  PayloadMapping,
+  decodePublish,
+  encodePacket,
+  encodePublish,
+  readPackets,
+  topicMatches
+} from './mqtt';
+import { BridgeError, BridgeSample, BridgeSampleField } from './types';
+
+export interface SimulatorAddresses {
+  modbusPort: number | null;
+  mqttPort: number | null;
+}
+
+// Simulator Configuration
+interface SimulatorConfig {
+  meterId: string;
+  host: string;
+  modbusPort: number | null; // null to skip the Modbus server; 0 for any free port
+  mqttPort: number | null; // null to skip the MQTT broker; 0 for any free port
+  unitId: number;
+  registerMap: string | RegisterMap;
+  topic: string;
+  payload: PayloadMapping;
+  publishInterval: number; // ms
+  hour?: number; // pin the load profile to one hour of the day
+}
+
+const DEFAULT_CONFIG: SimulatorConfig = {
+  meterId: 'SIM-001',
+  host: '127.0.0.1',
+  modbusPort: 5020,
+  mqttPort: 1883,
+  unitId: 1,
+  registerMap: 'eastron-sdm120',
+  topic: 'ecoquest/meter/SIM-001/state',
+  payload: PAYLOAD_FORMATS.generic,
+  publishInterval: 5000
+};
+
+interface BrokerClient {
+  socket: Socket;
+  buffer: Buffer;
+  subscriptions: string[];
+}
+
+function setValueAt(target: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let node = target;
+  keys.slice(0, -1).forEach(key => {
+    if (typeof node[key] !== 'object' || node[key] === null) node[key] = {};
+    node = node[key] as Record<string, unknown>;
+  });
+  node[keys[keys.length - 1]] = value;
+}
+
+export class LocalMeterSimulator {
+  private config: SimulatorConfig;
+  private map: RegisterMap;
+  private modbusServer: Server | null = null;
+  private mqttServer: Server | null = null;
+  private sockets = new Set<Socket>();
+  private brokerClients = new Set<BrokerClient>();
+  private publishTimer: ReturnType<typeof setInterval> | null = null;
+  private energyTotal = 1250 + Math.random() * 500; // kWh on the register at start
+  private current: BridgeSample | null = null;
+
+  constructor(config: Partial<SimulatorConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+
+    const map = typeof this.config.registerMap === 'string'
+      ? REGISTER_MAPS[this.config.registerMap]
+      : this.config.registerMap;
+    if (!map) {
+      throw new BridgeError(`Unknown register map ${this.config.registerMap}`, 'config');
+    }
+    this.map = map;
+  }
+
+  /**
+   * Start the enabled servers; resolves with the ports they listen on
+   */
+  async start(): Promise<SimulatorAddresses> {
+    const addresses: SimulatorAddresses = { modbusPort: null, mqttPort: null };
+
+    if (this.config.modbusPort !== null && !this.modbusServer) {
+      this.modbusServer = createServer(socket => this.acceptModbus(socket));
+      addresses.modbusPort = await this.listen(this.modbusServer, this.config.modbusPort);
+    }
+    if (this.config.mqttPort !== null && !this.mqttServer) {
+      this.mqttServer = createServer(socket => this.acceptMqtt(socket));
+      addresses.mqttPort = await this.listen(this.mqttServer, this.config.mqttPort);
+
+      this.publishTimer = setInterval(() => this.publishSample(), this.config.publishInterval);
+    }
+
+    return addresses;
+  }
+
+  async stop(): Promise<void> {
+    if (this.publishTimer) {
+      clearInterval(this.publishTimer);
+      this.publishTimer = null;
+    }
+    this.sockets.forEach(socket => socket.destroy());
+    this.sockets.clear();
+    this.brokerClients.clear();
+
+    const servers = [this.modbusServer, this.mqttServer].filter((server): server is Server => server !== null);
+    this.modbusServer = null;
+    this.mqttServer = null;
+    await Promise.all(servers.map(server => new Promise<void>(resolve => server.close(() => resolve()))));
+  }
+
+  /**
+   * The meter's readings right now; the energy register advances with the
+   * time since the previous call
+   */
+  sample(): BridgeSample {
+    const now = new Date();
+    const data = generateRealisticData(this.config.meterId, 'LOCAL', this.config.hour);
+    const power = data.activePower * 1000;
+
+    if (this.current) {
+      const hours = (now.getTime() - this.current.timestamp.getTime()) / (60 * 60 * 1000);
+      this.energyTotal += ((this.current.power + power) / 2 / 1000) * hours;
+    }
+
+    this.current = {
+      timestamp: now,
+      power,
+      voltage: data.voltage,
+      current: data.current,
+      frequency: data.frequency,
+      powerFactor: data.powerFactor,
+      energyTotal: this.energyTotal
+    };
+    return this.current;
+  }
+
+  private listen(server: Server, port: number): Promise<number> {
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, this.config.host, () => {
+        server.off('error', reject);
+        const address = server.address();
+        resolve(typeof address === 'object' && address ? address.port : port);
+      });
+    });
+  }
+
+  private track(socket: Socket): void {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', () => socket.destroy());
+  }
+
+  // Modbus-TCP server
+
+  private acceptModbus(socket: Socket): void {
+    this.track(socket);
+    let buffer = Buffer.alloc(0);
+
+    socket.on('data', chunk => {
+      buffer = Buffer.concat([buffer, chunk]);
+      while (buffer.length >= MBAP_HEADER_LENGTH) {
+        const frameLength = 6 + buffer.readUInt16BE(4);
+        if (buffer.length < frameLength) return;
+
+        const response = this.handleModbusRequest(buffer.subarray(0, frameLength));
+        buffer = buffer.subarray(frameLength);
+        if (response) socket.write(response);
+      }
+    });
+  }
+
+  private handleModbusRequest(frame: Buffer): Buffer | null {
+    const unitId = frame.readUInt8(6);
+    const functionCode = frame.readUInt8(7);
+    // A gateway with nothing at this address
+    if (unitId !== this.config.unitId) return this.modbusResponse(frame, functionCode | 0x80, Buffer.from([11]));
+    if (functionCode !== this.map.functionCode) return this.modbusResponse(frame, functionCode | 0x80, Buffer.from([1]));
+
+    const address = frame.readUInt16BE(8);
+    const count = frame.readUInt16BE(10);
+    if (count < 1 || count > 125 || address + count > 0x10000) {
+      return this.modbusResponse(frame, functionCode | 0x80, Buffer.from([3]));
+    }
+
+    const sample = this.sample();
+    const data = Buffer.alloc(count * 2);
+    for (const [field, register] of Object.entries(this.map.fields) as [BridgeSampleField, RegisterField][]) {
+      const value = sample[field];
+      if (value !== undefined && register.address >= address && register.address + registerWidth(register.type) <= address + count) {
+        encodeRegister(register, value, data, address);
+      }
+    }
+
+    return this.modbusResponse(frame, functionCode, Buffer.concat([Buffer.from([data.length]), data]));
+  }
+
+  private modbusResponse(request: Buffer, functionCode: number, payload: Buffer): Buffer {
+    const response = Buffer.alloc(MBAP_HEADER_LENGTH + 1 + payload.length);
+    request.copy(response, 0, 0, 4); // transaction and protocol
+    response.writeUInt16BE(2 + payload.length, 4);
+    response.writeUInt8(request.readUInt8(6), 6);
+    response.writeUInt8(functionCode, 7);
+    payload.copy(response, 8);
+    return response;
+  }
+
+  // MQTT broker
+
+  private acceptMqtt(socket: Socket): void {
+    this.track(socket);
+    const client: BrokerClient = { socket, buffer: Buffer.alloc(0), subscriptions: [] };
+    this.brokerClients.add(client);
+    socket.on('close', () => this.brokerClients.delete(client));
+
+    socket.on('data', chunk => {
+      try {
+        const { packets, rest } = readPackets(Buffer.concat([client.buffer, chunk]));
+        client.buffer = rest;
+        packets.forEach(packet => {
+          switch (packet.type) {
+            case MQTT_PACKET.CONNECT:
+              socket.write(encodePacket(MQTT_PACKET.CONNACK, 0, Buffer.from([0, 0])));
+              break;
+            case MQTT_PACKET.SUBSCRIBE: {
+              const filters: string[] = [];
+              let offset = 2;
+              while (offset < packet.body.length) {
+                const length = packet.body.readUInt16BE(offset);
+                filters.push(packet.body.toString('utf8', offset + 2, offset + 2 + length));
+                offset += 2 + length + 1;
+              }
+              client.subscriptions.push(...filters);
+              // Everything is delivered at QoS 0
+              socket.write(encodePacket(MQTT_PACKET.SUBACK, 0, Buffer.concat([
+                packet.body.subarray(0, 2),
+                Buffer.alloc(filters.length)
+              ])));
+              break;
+            }
+            case MQTT_PACKET.PUBLISH: {
+              const message = decodePublish(packet);
+              if (message.qos === 1 && message.packetId !== undefined) {
+                const id = Buffer.alloc(2);
+                id.writeUInt16BE(message.packetId, 0);
+                socket.write(encodePacket(MQTT_PACKET.PUBACK, 0, id));
+              }
+              this.route(message.topic, message.payload);
+              break;
+            }
+            case MQTT_PACKET.PINGREQ:
+              socket.write(encodePacket(MQTT_PACKET.PINGRESP, 0, Buffer.alloc(0)));
+              break;
+            case MQTT_PACKET.DISCONNECT:
+              socket.end();
+              break;
+          }
+        });
+      } catch {
+        socket.destroy();
+      }
+    });
+  }
+
+  private route(topic: string, payload: Buffer | string): void {
+    const packet = encodePublish(topic, payload);
+    this.brokerClients.forEach(client => {
+      if (client.subscriptions.some(filter => topicMatches(filter, topic))) {
+        client.socket.write(packet);
+      }
+    });
+  }
+
+  private publishSample(): void {
+    const sample = this.sample();
+    const payload: Record<string, unknown> = {};
+
+    for (const [field, path] of Object.entries(this.config.payload)) {
+      if (!path) continue;
+      const value = field === 'timestamp' ? sample.timestamp.getTime() : sample[field as BridgeSampleField];
+      if (value !== undefined) {
+        setValueAt(payload, path, typeof value === 'number' ? Math.round(value * 1000) / 1000 : value);
+      }
+    }
+
+    this.route(this.config.topic, JSON.stringify(payload));
+  }
+}
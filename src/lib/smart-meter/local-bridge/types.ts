@@ -0,0 +1,77 @@
+/**
+ * Local Meter Bridge Types
+ *
+ * Shared shapes for meters read over the local network rather than through
+ * a provider API: DIY CT-clamp meters publishing to an MQTT broker and
+ * Modbus-TCP energy meters (directly or behind an RS485 gateway).
+ */
+
+/**
+ * One reading as the meter reports it, before it becomes `EnergyData`.
+ * CT-clamp builds often only measure current and power, so everything but
+ * power is optional and filled in by the bridge.
+ */
+export interface BridgeSample {
+  timestamp: Date;
+  power: number; // W, active power
+  voltage?: number; // V
+  current?: number; // A
+  frequency?: number; // Hz
+  powerFactor?: number; // 0-1
+  energyTotal?: number; // kWh, the meter's cumulative import register
+}
+
+export type BridgeSampleField = keyof Omit<BridgeSample, 'timestamp'>;
+
+export const BRIDGE_SAMPLE_FIELDS: BridgeSampleField[] = [
+  'power',
+  'voltage',
+  'current',
+  'frequency',
+  'powerFactor',
+  'energyTotal'
+];
+
+export type BridgeSourceState = 'idle' | 'connecting' | 'connected' | 'error';
+
+export interface BridgeSourceHandlers {
+  onSample: (sample: BridgeSample) => void;
+  onState: (state: BridgeSourceState, error?: Error) => void;
+}
+
+/**
+ * A transport that produces samples until stopped. Sources reconnect on
+ * their own; errors are reported through `onState`, never thrown.
+ */
+export interface BridgeSource {
+  readonly kind: 'mqtt' | 'modbus';
+  readonly description: string;
+  start(handlers: BridgeSourceHandlers): void;
+  stop(): Promise<void>;
+}
+
+/**
+ * Where the bridge records readings
+ */
+export interface BridgeTarget {
+  userId: string;
+  smartMeterId: string;
+  deviceId: string | null; // null for whole-meter readings
+}
+
+export interface BridgeStatus {
+  source: string;
+  state: BridgeSourceState;
+  samples: number; // received from the source
+  recorded: number; // accepted by the smart meter service
+  rejected: number; // invalid samples and failed writes
+  lastSampleAt: Date | null;
+  lastError: string | null;
+}
+
+export class BridgeError extends Error {
+  constructor(message: string, public code: 'connection' | 'protocol' | 'timeout' | 'config') {
+    super(message);
+    this.name = 'BridgeError';
+  }
+}
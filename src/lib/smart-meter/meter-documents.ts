@@ -0,0 +1,258 @@
+/**
+ * Smart Meter and Device Documents
+ *
+ * Runtime counterparts of the SmartMeter and Device interfaces in the
+ * Firestore schema. The service validates every document and update before
+ * writing it, so fields from older document shapes (`serialNumber`,
+ * `configuration`, `statistics`, ...) can't find their way back into storage.
+ */
+
+import { z } from 'zod';
+import type { Device, SmartMeter } from '../firebase/schema';
+import { timestampSchema } from './reading-ingestion';
+import { DEFAULT_RULE_PRIORITY, RULE_ACTION_TYPES, RULE_TRIGGER_TYPES } from '../automation/automation-rule';
+
+export type SmartMeterData = Omit<SmartMeter, 'id' | 'createdAt' | 'updatedAt'>;
+export type DeviceData = Omit<Device, 'id' | 'createdAt' | 'updatedAt'>;
+export type DeviceSchedule = Device['automation']['schedules'][number];
+export type DeviceRule = Device['automation']['rules'][number];
+
+// Device settings the controls expose, stored in the state and automation sections
+export interface DeviceSettings {
+  schedule: DeviceSchedule | null; // the schedule currently in effect
+  powerSavingMode: boolean;
+  alertsEnabled: boolean;
+}
+
+export const POWER_SAVING_MODE = 'power_saving';
+export const USAGE_ALERT_RULE_ID = 'usage_alerts';
+
+const ratioSchema = z.number().min(0).max(1);
+const percentSchema = z.number().min(0).max(100);
+
+const tamperEventSchema = z.object({
+  eventId: z.string().min(1),
+  type: z.enum(['magnetic', 'cover_open', 'neutral_disturbance', 'reverse_current']),
+  code: z.string(),
+  active: z.boolean(),
+  detectedAt: timestampSchema,
+  clearedAt: timestampSchema.optional(),
+  notifiedAt: timestampSchema.optional()
+});
+
+// Unknown top-level keys are rejected: they are what older document shapes left behind
+export const SmartMeterDataSchema = z.object({
+  userId: z.string().min(1),
+  meterId: z.string().min(1),
+  providerId: z.string().min(1),
+  installation: z.object({
+    installDate: timestampSchema,
+    location: z.string(),
+    meterType: z.string().min(1),
+    voltage: z.number().positive(),
+    phases: z.union([z.literal(1), z.literal(3)]),
+    maxCapacity: z.number().positive()
+  }),
+  config: z.object({
+    tariffRate: z.number().nonnegative(),
+    currency: z.string().length(3),
+    timezone: z.string().min(1),
+    billingCycle: z.enum(['monthly', 'quarterly', 'annually']),
+    readingInterval: z.number().positive(),
+    alertThresholds: z.object({
+      highUsage: z.number().positive(),
+      lowVoltage: z.number().nonnegative(),
+      highVoltage: z.number().positive(),
+      powerFactor: ratioSchema
+    })
+  }),
+  status: z.object({
+    isOnline: z.boolean(),
+    lastReading: timestampSchema,
+    lastMaintenanceDate: timestampSchema.optional(),
+    nextMaintenanceDate: timestampSchema.optional(),
+    firmwareVersion: z.string().optional(),
+    signalStrength: percentSchema.optional(),
+    batteryLevel: percentSchema.optional(),
+    tamper: z.object({
+      active: z.boolean(),
+      events: z.array(tamperEventSchema),
+      lastCheckedAt: timestampSchema
+    }).optional()
+  }),
+  aggregated: z.object({
+    totalDevices: z.number().int().nonnegative(),
+    activeDevices: z.number().int().nonnegative(),
+    todayUsage: z.number().nonnegative(),
+    monthlyUsage: z.number().nonnegative(),
+    averageUsage: z.number().nonnegative(),
+    peakDemand: z.number().nonnegative(),
+    efficiencyScore: z.number().min(0).max(10)
+  }),
+  prepaid: z.object({
+    balance: z.number(),
+    currency: z.string().length(3),
+    daysRemaining: z.number().nonnegative().nullable(),
+    alertLevel: z.enum(['ok', 'low', 'critical', 'depleted']),
+    lastCheckedAt: timestampSchema,
+    lastRechargeDate: timestampSchema.optional(),
+    lastAlertAt: timestampSchema.optional()
+  }).optional()
+}).strict();
+
+export const DeviceDataSchema = z.object({
+  userId: z.string().min(1),
+  smartMeterId: z.string().min(1),
+  deviceId: z.string().min(1),
+  info: z.object({
+    name: z.string().min(1),
+    brand: z.string(),
+    model: z.string().optional(),
+    category: z.enum(['essential', 'comfort', 'entertainment', 'productivity']),
+    type: z.enum(['ac_meter', 'light', 'appliance_meter', 'plug_meter', 'outlet', 'main_meter']),
+    room: z.string(),
+    installDate: timestampSchema.optional()
+  }),
+  specs: z.object({
+    ratedPower: z.number().nonnegative(),
+    voltage: z.number().positive(),
+    energyRating: z.string().optional(),
+    estimatedLifespan: z.number().positive().optional(),
+    warrantyExpiry: timestampSchema.optional()
+  }),
+  state: z.object({
+    isOnline: z.boolean(),
+    isOn: z.boolean(),
+    currentPower: z.number().nonnegative(),
+    temperature: z.number().optional(),
+    brightness: percentSchema.optional(),
+    speed: z.number().int().min(1).max(5).optional(),
+    mode: z.string().optional(),
+    lastStateChange: timestampSchema
+  }),
+  usage: z.object({
+    dailyUsage: z.number().nonnegative(),
+    weeklyUsage: z.number().nonnegative(),
+    monthlyUsage: z.number().nonnegative(),
+    yearlyUsage: z.number().nonnegative(),
+    totalUsage: z.number().nonnegative(),
+    operatingHours: z.number().nonnegative(),
+    cycleCount: z.number().int().nonnegative().optional()
+  }),
+  smart: z.object({
+    isSmartEnabled: z.boolean(),
+    hasScheduling: z.boolean(),
+    hasRemoteControl: z.boolean(),
+    hasEnergyMonitoring: z.boolean(),
+    supportedFeatures: z.array(z.string()),
+    firmwareVersion: z.string().optional()
+  }),
+  health: z.object({
+    status: z.enum(['excellent', 'good', 'fair', 'poor', 'critical']),
+    lastMaintenance: timestampSchema.optional(),
+    nextMaintenance: timestampSchema.optional(),
+    maintenanceHistory: z.array(z.object({
+      date: timestampSchema,
+      type: z.string(),
+      notes: z.string(),
+      cost: z.number().nonnegative().optional()
+    })),
+    alerts: z.array(z.string())
+  }),
+  automation: z.object({
+    energyGoal: z.number().positive().optional(),
+    schedules: z.array(z.object({
+      id: z.string().min(1),
+      name: z.string(),
+      enabled: z.boolean(),
+      schedule: z.string().min(1),
+      action: z.string().min(1),
+      parameters: z.record(z.any())
+    })),
+    rules: z.array(z.object({
+      id: z.string().min(1),
+      name: z.string(),
+      trigger: z.object({
+        type: z.enum(RULE_TRIGGER_TYPES),
+        condition: z.string(),
+        value: z.any(),
+        sourceDeviceId: z.string().min(1).optional()
+      }).strict(),
+      action: z.object({
+        type: z.enum(RULE_ACTION_TYPES),
+        parameters: z.record(z.any())
+      }).strict(),
+      isActive: z.boolean(),
+      priority: z.number().int().min(1).max(10)
+    }).strict())
+  })
+}).strict();
+
+export class MeterDocumentError extends Error {
+  constructor(
+    message: string,
+    public collection: 'smartMeters' | 'devices',
+    public issues: z.ZodIssue[] = []
+  ) {
+    super(message);
+    this.name = 'MeterDocumentError';
+  }
+}
+
+function check(schema: z.ZodTypeAny, data: unknown, collection: MeterDocumentError['collection']): void {
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    const summary = parsed.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new MeterDocumentError(`Invalid ${collection} document: ${summary}`, collection, parsed.error.issues);
+  }
+}
+
+/**
+ * Throw a MeterDocumentError unless `data` is a complete smart meter document
+ */
+export function validateSmartMeter(data: SmartMeterData): void {
+  check(SmartMeterDataSchema, data, 'smartMeters');
+}
+
+/**
+ * Validate an update. Top-level sections replace the stored ones, so each
+ * section present must be complete.
+ */
+export function validateSmartMeterUpdate(updates: Partial<SmartMeterData>): void {
+  check(SmartMeterDataSchema.partial(), updates, 'smartMeters');
+}
+
+export function validateDevice(data: DeviceData): void {
+  check(DeviceDataSchema, data, 'devices');
+}
+
+export function validateDeviceUpdate(updates: Partial<DeviceData>): void {
+  check(DeviceDataSchema.partial(), updates, 'devices');
+}
+
+/**
+ * Device settings as the controls show them
+ */
+export function getDeviceSettings(device: Pick<Device, 'state' | 'automation'>): DeviceSettings {
+  return {
+    schedule: device.automation.schedules.find(schedule => schedule.enabled) ?? null,
+    powerSavingMode: device.state.mode === POWER_SAVING_MODE,
+    alertsEnabled: device.automation.rules.some(rule => rule.id === USAGE_ALERT_RULE_ID && rule.isActive)
+  };
+}
+
+/**
+ * Rule that notifies when a device draws more than its rated power
+ */
+export function usageAlertRule(enabled: boolean): DeviceRule {
+  return {
+    id: USAGE_ALERT_RULE_ID,
+    name: 'Usage alerts',
+    trigger: { type: 'usage', condition: 'device.power > device.ratedPower', value: null },
+    action: { type: 'notify', parameters: {} },
+    isActive: enabled,
+    priority: DEFAULT_RULE_PRIORITY
+  };
+}
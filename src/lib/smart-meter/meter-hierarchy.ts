@@ -0,0 +1,177 @@
+/**
+ * Meter Hierarchy
+ *
+ * Accounts with more than one meter: a main meter with sub-meters behind it
+ * (one per floor, or per rented-out unit) and further properties with main
+ * meters of their own. Everything a sub-meter records is also recorded by
+ * the meters above it, so totals only add up root meters, and a meter's
+ * unmetered load is what it records minus what its direct sub-meters record.
+ *
+ * Accounting groups split the bill: each meter's unmetered share is charged
+ * to the meter's group, so a rented floor on its own sub-meter is billed to
+ * the tenant and drops out of the household's usage.
+ */
+
+export const HOUSEHOLD_GROUP = 'household';
+
+// Sub-meters may record slightly more than their parent between readings
+const CONSISTENCY_TOLERANCE = 0.05; // fraction of the parent's reading
+const CONSISTENCY_FLOOR = 0.01; // kW / kWh
+
+export interface MeterNode {
+  meterId: string;
+  label: string;
+  propertyId: string;
+  parentMeterId: string | null;
+  accountingGroup: string;
+}
+
+export interface MeterUsage {
+  power: number; // kW, current demand
+  energy: number; // kWh, today
+}
+
+export interface MeterSummary extends MeterNode {
+  depth: number;
+  childIds: string[];
+  measured: MeterUsage; // recorded by the meter itself
+  submetered: MeterUsage; // recorded by its direct sub-meters
+  unmetered: MeterUsage; // measured minus submetered, never negative
+  inconsistent: boolean; // sub-meters record noticeably more than the meter
+}
+
+export interface GroupSummary {
+  accountingGroup: string;
+  meterIds: string[];
+  usage: MeterUsage;
+  cost: number; // today's energy at each meter's tariff
+}
+
+export interface PropertySummary {
+  propertyId: string;
+  rootMeterIds: string[];
+  usage: MeterUsage;
+}
+
+export interface HierarchySummary {
+  meters: MeterSummary[]; // depth-first, parents before their sub-meters
+  properties: PropertySummary[];
+  groups: GroupSummary[];
+  total: MeterUsage;
+}
+
+export class MeterHierarchyError extends Error {
+  constructor(message: string, public meterId: string) {
+    super(message);
+    this.name = 'MeterHierarchyError';
+  }
+}
+
+const ZERO_USAGE: MeterUsage = { power: 0, energy: 0 };
+
+function addUsage(a: MeterUsage, b: MeterUsage): MeterUsage {
+  return { power: a.power + b.power, energy: a.energy + b.energy };
+}
+
+function exceeds(value: number, limit: number): boolean {
+  return value - limit > Math.max(CONSISTENCY_FLOOR, limit * CONSISTENCY_TOLERANCE);
+}
+
+/**
+ * Throw a MeterHierarchyError unless every parent exists, sits on the same
+ * property as its sub-meters and no meter is its own ancestor
+ */
+export function validateHierarchy(nodes: MeterNode[]): void {
+  const byId = new Map<string, MeterNode>();
+  for (const node of nodes) {
+    if (byId.has(node.meterId)) {
+      throw new MeterHierarchyError(`Meter ${node.meterId} is listed twice`, node.meterId);
+    }
+    byId.set(node.meterId, node);
+  }
+
+  for (const node of nodes) {
+    if (node.parentMeterId === null) continue;
+
+    const parent = byId.get(node.parentMeterId);
+    if (!parent) {
+      throw new MeterHierarchyError(`Parent meter ${node.parentMeterId} of ${node.meterId} does not exist`, node.meterId);
+    }
+    if (parent.propertyId !== node.propertyId) {
+      throw new MeterHierarchyError(`Meter ${node.meterId} and its parent are on different properties`, node.meterId);
+    }
+
+    const seen = new Set([node.meterId]);
+    for (let ancestor: MeterNode | undefined = parent; ancestor; ancestor = byId.get(ancestor.parentMeterId ?? '')) {
+      if (seen.has(ancestor.meterId)) {
+        throw new MeterHierarchyError(`Meter ${node.meterId} is its own ancestor`, node.meterId);
+      }
+      seen.add(ancestor.meterId);
+    }
+  }
+}
+
+/**
+ * Per-meter, per-property and per-accounting-group usage for a valid hierarchy
+ */
+export function summarizeHierarchy(
+  nodes: MeterNode[],
+  usage: (meterId: string) => MeterUsage,
+  tariff: (meterId: string) => number = () => 0
+): HierarchySummary {
+  validateHierarchy(nodes);
+
+  const childIds = new Map<string, string[]>(nodes.map(node => [node.meterId, []]));
+  for (const node of nodes) {
+    if (node.parentMeterId !== null) childIds.get(node.parentMeterId)!.push(node.meterId);
+  }
+
+  const byId = new Map(nodes.map(node => [node.meterId, node]));
+  const meters: MeterSummary[] = [];
+  const visit = (node: MeterNode, depth: number) => {
+    const children = childIds.get(node.meterId)!;
+    const measured = usage(node.meterId);
+    const submetered = children.map(usage).reduce(addUsage, ZERO_USAGE);
+
+    meters.push({
+      ...node,
+      depth,
+      childIds: children,
+      measured,
+      submetered,
+      unmetered: {
+        power: Math.max(0, measured.power - submetered.power),
+        energy: Math.max(0, measured.energy - submetered.energy)
+      },
+      inconsistent: exceeds(submetered.power, measured.power) || exceeds(submetered.energy, measured.energy)
+    });
+    children.forEach(childId => visit(byId.get(childId)!, depth + 1));
+  };
+  const roots = nodes.filter(node => node.parentMeterId === null);
+  roots.forEach(root => visit(root, 0));
+
+  const properties = new Map<string, PropertySummary>();
+  for (const root of meters.filter(meter => meter.depth === 0)) {
+    const property = properties.get(root.propertyId) || { propertyId: root.propertyId, rootMeterIds: [], usage: ZERO_USAGE };
+    property.rootMeterIds.push(root.meterId);
+    property.usage = addUsage(property.usage, root.measured);
+    properties.set(root.propertyId, property);
+  }
+
+  const groups = new Map<string, GroupSummary>();
+  for (const meter of meters) {
+    const group = groups.get(meter.accountingGroup) ||
+      { accountingGroup: meter.accountingGroup, meterIds: [], usage: ZERO_USAGE, cost: 0 };
+    group.meterIds.push(meter.meterId);
+    group.usage = addUsage(group.usage, meter.unmetered);
+    group.cost += meter.unmetered.energy * tariff(meter.meterId);
+    groups.set(meter.accountingGroup, group);
+  }
+
+  return {
+    meters,
+    properties: [...properties.values()],
+    groups: [...groups.values()],
+    total: [...properties.values()].map(property => property.usage).reduce(addUsage, ZERO_USAGE)
+  };
+}
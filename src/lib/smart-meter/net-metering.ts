@@ -0,0 +1,298 @@
+/**
+ * Net Metering and Rooftop Solar Accounting
+ *
+ * Builds import/export/net series from meter readings, settles billing
+ * cycles under net metering (exported units banked and carried forward) or
+ * net billing (exports credited at the feed-in tariff), and computes solar
+ * self-consumption ratios.
+ */
+
+import type { SmartMeterReading } from '../smart-meter-apis';
+
+export type NetMeteringMode = 'net_metering' | 'net_billing';
+
+// Net Metering Configuration
+export interface NetMeteringConfig {
+  mode: NetMeteringMode;
+  importTariff: number; // per kWh
+  feedInTariff: number; // per kWh credited for exports / settled surplus
+  bankingCycles: number; // billing cycles a banked unit is carried forward before settlement
+  currency: string;
+}
+
+const DEFAULT_CONFIG: NetMeteringConfig = {
+  mode: 'net_metering',
+  importTariff: 6.5,
+  feedInTariff: 3.0,
+  bankingCycles: 12, // settled annually, as under most state net metering regulations
+  currency: 'INR'
+};
+
+export interface NetEnergyPoint {
+  timestamp: string;
+  imported: number; // kWh drawn from the grid
+  exported: number; // kWh fed into the grid
+  net: number; // imported - exported
+  generation?: number; // kWh produced by the rooftop system, when known
+  selfConsumed?: number; // kWh of generation used on site
+}
+
+export interface BillingCycleUsage {
+  period: string; // YYYY-MM
+  imported: number;
+  exported: number;
+  generation?: number;
+}
+
+export interface BankedUnits {
+  period: string; // cycle the units were exported in
+  units: number;
+  cyclesRemaining: number;
+}
+
+export interface NetMeteringStatement {
+  period: string;
+  imported: number;
+  exported: number;
+  netUnits: number; // imported - exported for the cycle
+  bankedUsed: number; // banked units drawn to offset imports
+  bankedAdded: number; // surplus exported units banked this cycle
+  expiredUnits: number; // banked units settled at the feed-in tariff this cycle
+  billedUnits: number;
+  bankBalance: number; // units carried into the next cycle
+  energyCharges: number;
+  exportCredit: number;
+  netAmount: number; // energyCharges - exportCredit
+}
+
+export interface NetMeteringSettlement {
+  statements: NetMeteringStatement[];
+  closingBank: BankedUnits[];
+  totals: {
+    imported: number;
+    exported: number;
+    billedUnits: number;
+    energyCharges: number;
+    exportCredit: number;
+    netAmount: number;
+  };
+}
+
+export interface SolarSelfConsumption {
+  generation: number;
+  selfConsumed: number;
+  exported: number;
+  imported: number;
+  selfConsumptionRatio: number; // share of generation used on site, 0-1
+  selfSufficiencyRatio: number; // share of household demand met by solar, 0-1
+}
+
+/**
+ * Relative output of a rooftop PV system for a given hour (0-1 of rated
+ * capacity), a clear-sky bell curve between 06:00 and 18:00
+ */
+export function solarGenerationFactor(hour: number, condition?: string): number {
+  if (hour < 6 || hour > 18) return 0;
+
+  const clearSky = Math.sin(Math.PI * (hour - 6) / 12);
+  const cloudFactor = condition === 'cloudy' ? 0.35 : condition === 'partly_cloudy' ? 0.7 : 1;
+  // Inverter/soiling/temperature losses keep real output below nameplate
+  return Math.max(0, clearSky * cloudFactor * 0.8);
+}
+
+export class NetMeteringCalculator {
+  private config: NetMeteringConfig;
+
+  constructor(config: Partial<NetMeteringConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  getConfig(): NetMeteringConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Import/export/net series from interval readings. `unitsConsumed` is the
+   * interval import and `energyExported` the interval export.
+   */
+  toNetSeries(readings: SmartMeterReading[]): NetEnergyPoint[] {
+    return [...readings]
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+      .map(reading => {
+        const imported = reading.unitsConsumed;
+        const exported = reading.energyExported ?? 0;
+        const point: NetEnergyPoint = {
+          timestamp: reading.timestamp,
+          imported,
+          exported,
+          net: imported - exported
+        };
+
+        if (reading.solarGeneration !== undefined) {
+          point.generation = reading.solarGeneration;
+          point.selfConsumed = Math.max(0, reading.solarGeneration - exported);
+        }
+
+        return point;
+      });
+  }
+
+  /**
+   * Group a series into monthly billing cycles
+   */
+  groupByCycle(series: NetEnergyPoint[]): BillingCycleUsage[] {
+    const cycles = new Map<string, BillingCycleUsage>();
+
+    for (const point of series) {
+      const period = point.timestamp.slice(0, 7);
+      const cycle = cycles.get(period) || { period, imported: 0, exported: 0 };
+      cycle.imported += point.imported;
+      cycle.exported += point.exported;
+      if (point.generation !== undefined) {
+        cycle.generation = (cycle.generation || 0) + point.generation;
+      }
+      cycles.set(period, cycle);
+    }
+
+    return Array.from(cycles.values()).sort((a, b) => a.period.localeCompare(b.period));
+  }
+
+  /**
+   * Settle consecutive billing cycles. Pass the previous settlement's
+   * closingBank as openingBank to continue across calls.
+   */
+  settle(cycles: BillingCycleUsage[], openingBank: BankedUnits[] = []): NetMeteringSettlement {
+    const bank = openingBank.map(entry => ({ ...entry }));
+    const statements = cycles.map(cycle =>
+      this.config.mode === 'net_billing'
+        ? this.settleNetBilling(cycle, bank)
+        : this.settleNetMetering(cycle, bank)
+    );
+
+    const sum = (key: keyof NetMeteringStatement) =>
+      this.round(statements.reduce((total, statement) => total + (statement[key] as number), 0));
+
+    return {
+      statements,
+      closingBank: bank,
+      totals: {
+        imported: sum('imported'),
+        exported: sum('exported'),
+        billedUnits: sum('billedUnits'),
+        energyCharges: sum('energyCharges'),
+        exportCredit: sum('exportCredit'),
+        netAmount: sum('netAmount')
+      }
+    };
+  }
+
+  /**
+   * Solar self-consumption and self-sufficiency for a series
+   */
+  selfConsumption(series: NetEnergyPoint[]): SolarSelfConsumption {
+    const totals = series.reduce(
+      (acc, point) => ({
+        generation: acc.generation + (point.generation ?? 0),
+        selfConsumed: acc.selfConsumed + (point.selfConsumed ?? 0),
+        exported: acc.exported + point.exported,
+        imported: acc.imported + point.imported
+      }),
+      { generation: 0, selfConsumed: 0, exported: 0, imported: 0 }
+    );
+
+    const demand = totals.selfConsumed + totals.imported;
+
+    return {
+      generation: this.round(totals.generation),
+      selfConsumed: this.round(totals.selfConsumed),
+      exported: this.round(totals.exported),
+      imported: this.round(totals.imported),
+      selfConsumptionRatio: totals.generation > 0 ? this.round(totals.selfConsumed / totals.generation) : 0,
+      selfSufficiencyRatio: demand > 0 ? this.round(totals.selfConsumed / demand) : 0
+    };
+  }
+
+  private settleNetMetering(cycle: BillingCycleUsage, bank: BankedUnits[]): NetMeteringStatement {
+    const netUnits = cycle.imported - cycle.exported;
+    let bankedUsed = 0;
+    let bankedAdded = 0;
+
+    if (netUnits > 0) {
+      // Offset the shortfall with the oldest banked units first
+      let remaining = netUnits;
+      for (const entry of bank) {
+        if (remaining <= 0) break;
+        const used = Math.min(entry.units, remaining);
+        entry.units -= used;
+        remaining -= used;
+        bankedUsed += used;
+      }
+    } else if (netUnits < 0) {
+      bankedAdded = -netUnits;
+      bank.push({ period: cycle.period, units: bankedAdded, cyclesRemaining: this.config.bankingCycles });
+    }
+
+    // Age the bank; units past the banking period are paid out at the feed-in tariff
+    let expiredUnits = 0;
+    for (const entry of bank) {
+      if (entry.period !== cycle.period) entry.cyclesRemaining--;
+      if (entry.cyclesRemaining <= 0) {
+        expiredUnits += entry.units;
+        entry.units = 0;
+      }
+    }
+    this.compactBank(bank);
+
+    const billedUnits = Math.max(0, netUnits - bankedUsed);
+    const energyCharges = billedUnits * this.config.importTariff;
+    const exportCredit = expiredUnits * this.config.feedInTariff;
+
+    return {
+      period: cycle.period,
+      imported: this.round(cycle.imported),
+      exported: this.round(cycle.exported),
+      netUnits: this.round(netUnits),
+      bankedUsed: this.round(bankedUsed),
+      bankedAdded: this.round(bankedAdded),
+      expiredUnits: this.round(expiredUnits),
+      billedUnits: this.round(billedUnits),
+      bankBalance: this.round(bank.reduce((total, entry) => total + entry.units, 0)),
+      energyCharges: this.round(energyCharges),
+      exportCredit: this.round(exportCredit),
+      netAmount: this.round(energyCharges - exportCredit)
+    };
+  }
+
+  private settleNetBilling(cycle: BillingCycleUsage, bank: BankedUnits[]): NetMeteringStatement {
+    const energyCharges = cycle.imported * this.config.importTariff;
+    const exportCredit = cycle.exported * this.config.feedInTariff;
+
+    return {
+      period: cycle.period,
+      imported: this.round(cycle.imported),
+      exported: this.round(cycle.exported),
+      netUnits: this.round(cycle.imported - cycle.exported),
+      bankedUsed: 0,
+      bankedAdded: 0,
+      expiredUnits: 0,
+      billedUnits: this.round(cycle.imported),
+      bankBalance: this.round(bank.reduce((total, entry) => total + entry.units, 0)),
+      energyCharges: this.round(energyCharges),
+      exportCredit: this.round(exportCredit),
+      netAmount: this.round(energyCharges - exportCredit)
+    };
+  }
+
+  private compactBank(bank: BankedUnits[]): void {
+    for (let i = bank.length - 1; i >= 0; i--) {
+      if (bank[i].units <= 1e-9) bank.splice(i, 1);
+    }
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+// Export singleton instance with default DISCOM net metering terms
+export const netMeteringCalculator = new NetMeteringCalculator();
@@ -0,0 +1,404 @@
+/**
+ * Durable Offline Reading Queue
+ *
+ * Readings recorded while the browser is offline are kept in IndexedDB so
+ * they survive a reload, and are replayed through the ingestion pipeline in
+ * the order they were queued once the connection is back. Every entry is
+ * keyed by the reading's deterministic ID, which doubles as its idempotency
+ * key: queuing the same reading twice keeps one entry, and a reading that is
+ * already stored (synced earlier, or by another client) is dropped in favour
+ * of the stored copy and counted as a conflict.
+ */
+
+import { Timestamp } from 'firebase/firestore';
+import { readingIngestion, ReadingIngestionPipeline, ReadingData } from './reading-ingestion';
+
+export type SyncState = 'synced' | 'pending' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  online: boolean;
+  pending: number; // readings waiting in the queue
+  lastSyncedAt: Date | null;
+  lastError: string | null;
+  conflicts: number; // queued readings replaced by an already stored copy, this session
+  durable: boolean; // false when IndexedDB is unavailable and the queue only lives in memory
+}
+
+export interface EnqueueResult {
+  key: string;
+  replaced: boolean; // a queued reading with the same key was updated
+}
+
+export interface ReplayResult {
+  synced: number;
+  conflicts: number; // already stored; the stored copy was kept
+  rejected: number; // failed validation and were dropped
+  remaining: number;
+}
+
+type SyncListener = (status: SyncStatus) => void;
+
+// Timestamps don't survive structured cloning, so they are stored as epoch ms
+type SerializedReading = Omit<ReadingData, 'reading'> & {
+  reading: Omit<ReadingData['reading'], 'timestamp'> & { timestamp: number };
+};
+
+interface QueuedReading {
+  seq?: number; // assigned on insert; replay follows it
+  key: string;
+  reading: SerializedReading;
+  enqueuedAt: number;
+}
+
+interface QueueStore {
+  readonly durable: boolean;
+  upsert(entry: QueuedReading): Promise<boolean>; // true when an entry with the key existed
+  oldest(limit: number): Promise<QueuedReading[]>;
+  remove(seqs: number[]): Promise<void>;
+  count(): Promise<number>;
+}
+
+// Queue Configuration
+interface OfflineQueueConfig {
+  databaseName: string;
+  replayBatchSize: number; // readings replayed, then flushed, at a time
+  syncInterval: number; // ms between replay attempts while readings are queued
+}
+
+const DEFAULT_CONFIG: OfflineQueueConfig = {
+  databaseName: 'ecoquest-offline',
+  replayBatchSize: 100,
+  syncInterval: 30000
+};
+
+const DB_VERSION = 1;
+const STORE_NAME = 'readings';
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+class IndexedDbQueueStore implements QueueStore {
+  readonly durable = true;
+
+  private constructor(private db: IDBDatabase) {}
+
+  static async open(name: string): Promise<IndexedDbQueueStore> {
+    const request = indexedDB.open(name, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'seq', autoIncrement: true });
+      store.createIndex('key', 'key', { unique: true });
+    };
+    return new IndexedDbQueueStore(await requestResult(request));
+  }
+
+  async upsert(entry: QueuedReading): Promise<boolean> {
+    const transaction = this.db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const existing = await requestResult<QueuedReading | undefined>(store.index('key').get(entry.key));
+
+    // A newer copy of a queued reading keeps its place in the replay order
+    store.put(existing ? { ...entry, seq: existing.seq } : entry);
+    await transactionDone(transaction);
+    return !!existing;
+  }
+
+  async oldest(limit: number): Promise<QueuedReading[]> {
+    const store = this.db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    return requestResult<QueuedReading[]>(store.getAll(undefined, limit));
+  }
+
+  async remove(seqs: number[]): Promise<void> {
+    if (seqs.length === 0) return;
+
+    const transaction = this.db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    seqs.forEach(seq => store.delete(seq));
+    await transactionDone(transaction);
+  }
+
+  count(): Promise<number> {
+    return requestResult(this.db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).count());
+  }
+}
+
+// Used when IndexedDB is unavailable (server rendering, some private browsing modes)
+class MemoryQueueStore implements QueueStore {
+  readonly durable = false;
+  private entries: QueuedReading[] = [];
+  private nextSeq = 1;
+
+  async upsert(entry: QueuedReading): Promise<boolean> {
+    const index = this.entries.findIndex(existing => existing.key === entry.key);
+    if (index >= 0) {
+      this.entries[index] = { ...entry, seq: this.entries[index].seq };
+      return true;
+    }
+    this.entries.push({ ...entry, seq: this.nextSeq++ });
+    return false;
+  }
+
+  async oldest(limit: number): Promise<QueuedReading[]> {
+    return this.entries.slice(0, limit);
+  }
+
+  async remove(seqs: number[]): Promise<void> {
+    const removed = new Set(seqs);
+    this.entries = this.entries.filter(entry => !removed.has(entry.seq!));
+  }
+
+  async count(): Promise<number> {
+    return this.entries.length;
+  }
+}
+
+export class OfflineReadingQueue {
+  private config: OfflineQueueConfig;
+  private store: Promise<QueueStore> | null = null;
+  private listeners: SyncListener[] = [];
+  private replaying: Promise<ReplayResult> | null = null;
+  private syncTimer: ReturnType<typeof setInterval> | null = null;
+  private status: SyncStatus = {
+    state: 'synced',
+    online: true,
+    pending: 0,
+    lastSyncedAt: null,
+    lastError: null,
+    conflicts: 0,
+    durable: false
+  };
+
+  constructor(config: Partial<OfflineQueueConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Whether the browser reports a connection; always true outside the browser
+   */
+  get isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine;
+  }
+
+  /**
+   * Watch connectivity and replay queued readings when it returns, and
+   * periodically while any are queued. Does nothing outside the browser.
+   */
+  start(): void {
+    if (typeof window === 'undefined' || this.syncTimer) return;
+
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
+
+    this.syncTimer = setInterval(() => {
+      if (this.status.pending > 0) void this.replay();
+    }, this.config.syncInterval);
+
+    // Readings left from an earlier session
+    void this.replay();
+  }
+
+  stop(): void {
+    if (!this.syncTimer) return;
+
+    clearInterval(this.syncTimer);
+    this.syncTimer = null;
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('offline', this.handleOffline);
+  }
+
+  /**
+   * Persist a reading for later replay
+   */
+  async enqueue(reading: ReadingData): Promise<EnqueueResult> {
+    const key = ReadingIngestionPipeline.readingId(
+      reading.smartMeterId,
+      reading.reading.timestamp.toMillis(),
+      reading.deviceId
+    );
+    const store = await this.getStore();
+    const replaced = await store.upsert({
+      key,
+      reading: { ...reading, reading: { ...reading.reading, timestamp: reading.reading.timestamp.toMillis() } },
+      enqueuedAt: Date.now()
+    });
+
+    await this.refreshStatus();
+    return { key, replaced };
+  }
+
+  /**
+   * Replay queued readings oldest first. A batch that fails to write stays
+   * queued and stops the replay, so later readings never overtake it.
+   */
+  replay(): Promise<ReplayResult> {
+    if (!this.replaying) {
+      this.replaying = this.drain().finally(() => {
+        this.replaying = null;
+        void this.refreshStatus();
+      });
+    }
+    return this.replaying;
+  }
+
+  getStatus(): SyncStatus {
+    return { ...this.status };
+  }
+
+  /**
+   * Be told whenever the sync status changes; called once right away
+   */
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.push(listener);
+    listener(this.getStatus());
+    void this.refreshStatus();
+
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  private handleOnline = (): void => {
+    void this.refreshStatus();
+    void this.replay();
+  };
+
+  private handleOffline = (): void => {
+    void this.refreshStatus();
+  };
+
+  private async drain(): Promise<ReplayResult> {
+    const store = await this.getStore();
+    const result: ReplayResult = { synced: 0, conflicts: 0, rejected: 0, remaining: 0 };
+
+    result.remaining = await store.count();
+    if (!this.isOnline || result.remaining === 0) return result;
+
+    this.setStatus({ state: 'syncing' });
+
+    // Readings the pipeline found already stored, whichever flush wrote the batch
+    const alreadyStored = new Set<string>();
+    const unsubscribe = readingIngestion.onFlush(flush => {
+      flush.skippedIds.forEach(id => alreadyStored.add(id));
+    });
+
+    let lastError: string | null = null;
+    try {
+      while (this.isOnline) {
+        const batch = await store.oldest(this.config.replayBatchSize);
+        if (batch.length === 0) break;
+
+        const finished: number[] = [];
+        const submitted: QueuedReading[] = [];
+        for (const entry of batch) {
+          const ingest = readingIngestion.ingest(this.deserialize(entry.reading));
+          if (ingest.reason === 'invalid') {
+            console.error(`Dropping invalid queued reading ${entry.key}:`, ingest.issues);
+            result.rejected++;
+            finished.push(entry.seq!);
+          } else {
+            // 'duplicate' means it is already buffered or written; the flush below settles which
+            submitted.push(entry);
+          }
+        }
+
+        await readingIngestion.flush();
+
+        let failed = false;
+        for (const entry of submitted) {
+          if (readingIngestion.isBuffered(entry.key)) {
+            failed = true;
+          } else {
+            if (alreadyStored.has(entry.key)) {
+              result.conflicts++;
+            } else {
+              result.synced++;
+            }
+            finished.push(entry.seq!);
+          }
+        }
+
+        await store.remove(finished);
+        if (failed) {
+          lastError = 'Some readings could not be written; they will be retried';
+          break;
+        }
+      }
+    } catch (error) {
+      console.error('Error replaying offline readings:', error);
+      lastError = error instanceof Error ? error.message : String(error);
+    } finally {
+      unsubscribe();
+    }
+
+    result.remaining = await store.count();
+    this.setStatus({
+      lastError,
+      conflicts: this.status.conflicts + result.conflicts,
+      ...(result.synced + result.conflicts > 0 && { lastSyncedAt: new Date() })
+    });
+
+    return result;
+  }
+
+  private deserialize(reading: SerializedReading): ReadingData {
+    return { ...reading, reading: { ...reading.reading, timestamp: Timestamp.fromMillis(reading.reading.timestamp) } };
+  }
+
+  private getStore(): Promise<QueueStore> {
+    if (!this.store) {
+      this.store = (typeof indexedDB === 'undefined'
+        ? Promise.resolve<QueueStore>(new MemoryQueueStore())
+        : IndexedDbQueueStore.open(this.config.databaseName).catch(error => {
+          console.warn('IndexedDB unavailable, offline readings will not survive a reload:', error);
+          return new MemoryQueueStore();
+        })
+      ).then(store => {
+        this.setStatus({ durable: store.durable });
+        return store;
+      });
+    }
+    return this.store;
+  }
+
+  private async refreshStatus(): Promise<void> {
+    try {
+      const pending = await (await this.getStore()).count();
+      const online = this.isOnline;
+      const state: SyncState = this.replaying && online ? 'syncing'
+        : !online ? 'offline'
+        : this.status.lastError ? 'error'
+        : pending > 0 ? 'pending'
+        : 'synced';
+      this.setStatus({ pending, online, state });
+    } catch (error) {
+      console.error('Error reading offline queue status:', error);
+    }
+  }
+
+  private setStatus(updates: Partial<SyncStatus>): void {
+    this.status = { ...this.status, ...updates };
+    const status = this.getStatus();
+    this.listeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error('Error in sync status listener:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const offlineReadingQueue = new OfflineReadingQueue();
@@ -0,0 +1,411 @@
+/**
+ * Supply Outage Detection
+ *
+ * Infers outages from smart meter readings (gaps in the reading stream and
+ * zero-voltage samples), merges them with provider-reported outages,
+ * persists start/end events per meter and pauses quests and streaks while
+ * a user's supply is down so they aren't penalised for it.
+ */
+
+import { Timestamp } from 'firebase/firestore';
+import { firestoreService } from '../firebase/firestore-service';
+import type { OutageEvent, UserProfile } from '../firebase/schema';
+import type { SmartMeterReading } from '../smart-meter-apis';
+import type { ProviderOutageStatus } from './providers/types';
+import { questService } from '../quest/quest-service';
+import { gamingAnalyticsSystem } from '../gaming-analytics-system';
+
+export type OutageCause = OutageEvent['outage']['cause'];
+type Phase = 'r' | 'y' | 'b';
+
+const PHASES: Phase[] = ['r', 'y', 'b'];
+
+// Detected starts within this of a stored event are the same outage (the
+// inferred start shifts slightly as more readings arrive)
+const MATCH_TOLERANCE_MS = 15 * 60 * 1000;
+
+// Detector Configuration
+interface OutageDetectionConfig {
+  phases: 1 | 3;
+  expectedInterval?: number; // ms between readings; inferred from the readings when omitted
+  gapFactor: number; // a gap longer than this many intervals is an outage
+  zeroVoltageThreshold: number; // V, a phase below this is dead
+  minOutageDuration: number; // ms, shorter interruptions are ignored
+}
+
+const DEFAULT_CONFIG: OutageDetectionConfig = {
+  phases: 3,
+  gapFactor: 3,
+  zeroVoltageThreshold: 10,
+  minOutageDuration: 60 * 1000
+};
+
+export interface DetectedOutage {
+  cause: OutageCause;
+  startTime: Date;
+  endTime: Date | null; // null while ongoing
+  durationSeconds: number; // so far, for ongoing outages
+  ongoing: boolean;
+  phasesAffected?: Phase[];
+}
+
+export interface OutageSyncResult {
+  started: OutageEvent[];
+  ended: OutageEvent[];
+  ongoing: OutageEvent[];
+}
+
+export class OutageDetector {
+  private config: OutageDetectionConfig;
+
+  constructor(config: Partial<OutageDetectionConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Detect outages in a reading series. `now` closes the series: if the
+   * last reading is older than the gap threshold the supply is treated as
+   * still out.
+   */
+  detect(readings: SmartMeterReading[], now: Date = new Date()): DetectedOutage[] {
+    const sorted = [...readings].sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+    if (sorted.length === 0) return [];
+
+    const interval = this.config.expectedInterval ?? this.inferInterval(sorted);
+    const outages = [
+      ...this.detectGaps(sorted, interval, now),
+      ...this.detectZeroVoltage(sorted, now)
+    ];
+
+    return this.merge(outages, now)
+      .filter(outage => outage.ongoing || outage.durationSeconds * 1000 >= this.config.minOutageDuration);
+  }
+
+  /**
+   * Whether a single reading shows the supply as down
+   */
+  isSupplyDown(reading: SmartMeterReading): boolean {
+    return this.deadPhases(reading).length > 0 &&
+      this.deadPhases(reading).length === this.activePhases().length;
+  }
+
+  private detectGaps(readings: SmartMeterReading[], interval: number, now: Date): DetectedOutage[] {
+    if (interval <= 0) return [];
+
+    const threshold = interval * this.config.gapFactor;
+    const outages: DetectedOutage[] = [];
+    const times = readings.map(reading => new Date(reading.timestamp).getTime());
+
+    for (let i = 1; i < times.length; i++) {
+      if (times[i] - times[i - 1] > threshold) {
+        // The supply was lost some time after the last reading that arrived
+        outages.push(this.toOutage('reading_gap', times[i - 1] + interval, times[i], now));
+      }
+    }
+
+    const last = times[times.length - 1];
+    if (now.getTime() - last > threshold) {
+      outages.push(this.toOutage('reading_gap', last + interval, null, now));
+    }
+
+    return outages;
+  }
+
+  private detectZeroVoltage(readings: SmartMeterReading[], now: Date): DetectedOutage[] {
+    const outages: DetectedOutage[] = [];
+    let start: number | null = null;
+    let phases = new Set<Phase>();
+
+    for (const reading of readings) {
+      const time = new Date(reading.timestamp).getTime();
+
+      if (this.isSupplyDown(reading)) {
+        if (start === null) start = time;
+        this.deadPhases(reading).forEach(phase => phases.add(phase));
+      } else if (start !== null) {
+        outages.push({ ...this.toOutage('zero_voltage', start, time, now), phasesAffected: Array.from(phases) });
+        start = null;
+        phases = new Set();
+      }
+    }
+
+    if (start !== null) {
+      outages.push({ ...this.toOutage('zero_voltage', start, null, now), phasesAffected: Array.from(phases) });
+    }
+
+    return outages;
+  }
+
+  /**
+   * Merge overlapping outages; zero-voltage evidence wins over a gap
+   */
+  private merge(outages: DetectedOutage[], now: Date): DetectedOutage[] {
+    const sorted = [...outages].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    const merged: DetectedOutage[] = [];
+
+    for (const outage of sorted) {
+      const previous = merged[merged.length - 1];
+      const previousEnd = previous?.endTime?.getTime() ?? Infinity;
+
+      if (previous && outage.startTime.getTime() <= previousEnd) {
+        const end = previous.ongoing || outage.ongoing
+          ? null
+          : Math.max(previousEnd, outage.endTime!.getTime());
+        merged[merged.length - 1] = {
+          ...this.toOutage(
+            previous.cause === 'zero_voltage' || outage.cause === 'zero_voltage' ? 'zero_voltage' : 'reading_gap',
+            previous.startTime.getTime(),
+            end,
+            now
+          ),
+          ...((previous.phasesAffected || outage.phasesAffected) && {
+            phasesAffected: Array.from(new Set([...(previous.phasesAffected || []), ...(outage.phasesAffected || [])]))
+          })
+        };
+      } else {
+        merged.push(outage);
+      }
+    }
+
+    return merged;
+  }
+
+  private toOutage(cause: OutageCause, start: number, end: number | null, now: Date): DetectedOutage {
+    return {
+      cause,
+      startTime: new Date(start),
+      endTime: end === null ? null : new Date(end),
+      durationSeconds: Math.max(0, Math.round(((end ?? now.getTime()) - start) / 1000)),
+      ongoing: end === null
+    };
+  }
+
+  private activePhases(): Phase[] {
+    return this.config.phases === 3 ? PHASES : ['r'];
+  }
+
+  private deadPhases(reading: SmartMeterReading): Phase[] {
+    if (!reading.voltage) return [];
+    return this.activePhases().filter(phase => reading.voltage![phase] < this.config.zeroVoltageThreshold);
+  }
+
+  /**
+   * Median spacing between readings
+   */
+  private inferInterval(readings: SmartMeterReading[]): number {
+    const diffs: number[] = [];
+    for (let i = 1; i < readings.length; i++) {
+      diffs.push(new Date(readings[i].timestamp).getTime() - new Date(readings[i - 1].timestamp).getTime());
+    }
+    if (diffs.length === 0) return 0;
+
+    diffs.sort((a, b) => a - b);
+    return diffs[Math.floor(diffs.length / 2)];
+  }
+}
+
+/**
+ * Keeps a meter's stored outage events in step with what the detector and
+ * provider report, and pauses gamification while any outage is open
+ */
+export class OutageMonitor {
+  constructor(private detector: OutageDetector = new OutageDetector()) {}
+
+  /**
+   * Deterministic event ID so repeated syncs update rather than duplicate
+   */
+  static eventId(smartMeterId: string, startTime: Date, providerOutageId?: string): string {
+    return providerOutageId
+      ? `${smartMeterId}_provider_${providerOutageId}`
+      : `${smartMeterId}_${startTime.getTime()}`;
+  }
+
+  /**
+   * Detect outages in recent readings, merge in provider-reported outages
+   * and persist start/end events for the meter
+   */
+  async sync(
+    userId: string,
+    smartMeterId: string,
+    readings: SmartMeterReading[],
+    providerStatus?: ProviderOutageStatus | null,
+    now: Date = new Date()
+  ): Promise<OutageSyncResult> {
+    const detected = this.detector.detect(readings, now);
+    const stored = await firestoreService.getOutageEvents(smartMeterId);
+    const storedById = new Map(stored.map(event => [event.id, event]));
+    const seen = new Set<string>();
+    const result: OutageSyncResult = { started: [], ended: [], ongoing: [] };
+
+    for (const outage of detected) {
+      const existing = storedById.get(OutageMonitor.eventId(smartMeterId, outage.startTime)) ||
+        stored.find(event =>
+          !event.provider &&
+          Math.abs(event.outage.startTime.toMillis() - outage.startTime.getTime()) <= MATCH_TOLERANCE_MS
+        );
+      const id = existing?.id || OutageMonitor.eventId(smartMeterId, outage.startTime);
+      seen.add(id);
+      await this.apply(userId, smartMeterId, id, outage, existing, result);
+    }
+
+    // Provider-reported outages that have started (planned ones can be announced ahead)
+    const reported = (providerStatus?.outages || [])
+      .filter(outage => new Date(outage.startTime).getTime() <= now.getTime());
+    for (const outage of reported) {
+      const startTime = new Date(outage.startTime);
+      const id = OutageMonitor.eventId(smartMeterId, startTime, outage.outageId);
+      seen.add(id);
+
+      await this.apply(userId, smartMeterId, id, {
+        cause: 'provider_reported',
+        startTime,
+        endTime: null,
+        durationSeconds: Math.round((now.getTime() - startTime.getTime()) / 1000),
+        ongoing: true
+      }, storedById.get(id), result, {
+        type: outage.type,
+        provider: {
+          outageId: outage.outageId,
+          ...(outage.reason && { reason: outage.reason }),
+          ...(outage.area && { area: outage.area }),
+          ...(outage.estimatedRestoration && {
+            estimatedRestoration: Timestamp.fromDate(new Date(outage.estimatedRestoration))
+          })
+        }
+      });
+    }
+
+    // Stored outages no longer reported as ongoing have been restored
+    for (const event of stored) {
+      if (!event.outage.ongoing || seen.has(event.id)) continue;
+      result.ended.push(await this.close(event, this.restoredAt(event, readings, now)));
+    }
+
+    await this.updateGamificationPause(userId, result);
+    return result;
+  }
+
+  private async apply(
+    userId: string,
+    smartMeterId: string,
+    id: string,
+    outage: DetectedOutage,
+    existing: OutageEvent | undefined,
+    result: OutageSyncResult,
+    extra: Partial<Pick<OutageEvent['outage'], 'type'>> & Pick<Partial<OutageEvent>, 'provider'> = {}
+  ): Promise<void> {
+    if (!existing) {
+      const event = await firestoreService.saveOutageEvent({
+        userId,
+        smartMeterId,
+        outage: {
+          cause: outage.cause,
+          type: extra.type || 'unknown',
+          startTime: Timestamp.fromDate(outage.startTime),
+          ...(outage.endTime && { endTime: Timestamp.fromDate(outage.endTime) }),
+          ...(!outage.ongoing && { duration: outage.durationSeconds }),
+          ongoing: outage.ongoing,
+          ...(outage.phasesAffected && { phasesAffected: outage.phasesAffected })
+        },
+        ...(extra.provider && { provider: extra.provider }),
+        impact: { questsPaused: 0, streaksPaused: false }
+      }, id);
+
+      if (event.outage.ongoing) {
+        result.started.push(event);
+        result.ongoing.push(event);
+      }
+      return;
+    }
+
+    if (existing.outage.ongoing && !outage.ongoing && outage.endTime) {
+      result.ended.push(await this.close(existing, outage.endTime));
+    } else if (existing.outage.ongoing) {
+      result.ongoing.push(existing);
+    }
+  }
+
+  private async close(event: OutageEvent, endTime: Date): Promise<OutageEvent> {
+    const outage = {
+      ...event.outage,
+      endTime: Timestamp.fromDate(endTime),
+      duration: Math.max(0, Math.round((endTime.getTime() - event.outage.startTime.toMillis()) / 1000)),
+      ongoing: false
+    };
+
+    await firestoreService.updateOutageEvent(event.id, { outage });
+    return { ...event, outage };
+  }
+
+  /**
+   * First live reading after the outage started, or now
+   */
+  private restoredAt(event: OutageEvent, readings: SmartMeterReading[], now: Date): Date {
+    const start = event.outage.startTime.toMillis();
+    const restored = readings
+      .filter(reading => new Date(reading.timestamp).getTime() > start && !this.detector.isSupplyDown(reading))
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())[0];
+
+    return restored ? new Date(restored.timestamp) : now;
+  }
+
+  /**
+   * Pause quests and streaks when an outage starts; resume them once none
+   * of the user's meters has an ongoing outage
+   */
+  private async updateGamificationPause(userId: string, result: OutageSyncResult): Promise<void> {
+    try {
+      for (const event of result.started) {
+        const questsPaused = await questService.pauseQuestsForOutage(userId, event.id);
+        await this.setStreakPause(userId, true);
+        await firestoreService.updateOutageEvent(event.id, {
+          impact: { questsPaused, streaksPaused: true }
+        });
+      }
+
+      if (result.ended.length > 0) {
+        const stillOut = await firestoreService.getOngoingOutages(userId);
+        if (stillOut.length === 0) {
+          await questService.resumeQuestsAfterOutage(userId);
+          await this.setStreakPause(userId, false);
+        }
+      }
+    } catch (error) {
+      console.error('Error updating quest/streak pause for outage:', error);
+    }
+  }
+
+  private async setStreakPause(userId: string, paused: boolean): Promise<void> {
+    const profile = await firestoreService.getUserProfile(userId);
+    if (!profile) return;
+
+    const { streakPausedAt, ...gamification } = profile.gamification;
+
+    if (paused) {
+      gamingAnalyticsSystem.pauseStreaks(userId);
+      if (streakPausedAt) return;
+
+      await firestoreService.updateUserProfile(userId, {
+        gamification: { ...gamification, streakPausedAt: Timestamp.now() }
+      });
+      return;
+    }
+
+    gamingAnalyticsSystem.resumeStreaks(userId);
+    if (!streakPausedAt) return;
+
+    // Move the last active date forward so outage days aren't counted as missed
+    const pausedMs = Math.max(0, Date.now() - streakPausedAt.toMillis());
+    const updated: UserProfile['gamification'] = {
+      ...gamification,
+      lastActiveDate: Timestamp.fromMillis(gamification.lastActiveDate.toMillis() + pausedMs)
+    };
+    await firestoreService.updateUserProfile(userId, { gamification: updated });
+  }
+}
+
+// Export singleton instances with default thresholds
+export const outageDetector = new OutageDetector();
+export const outageMonitor = new OutageMonitor(outageDetector);
@@ -0,0 +1,483 @@
+/**
+ * Three-Phase Power Quality Analytics
+ *
+ * Analyses per-phase voltage/current, frequency and power factor from
+ * smart meter readings and groups out-of-limit samples into episodes:
+ * phase imbalance, voltage sags/swells, frequency excursions and low
+ * power factor (with the PF penalty it is likely to attract).
+ */
+
+import { Timestamp } from 'firebase/firestore';
+import { firestoreService } from '../firebase/firestore-service';
+import type { PowerQualityEvent } from '../firebase/schema';
+import type { SmartMeterReading } from '../smart-meter-apis';
+
+export type PowerQualityEventType = PowerQualityEvent['event']['type'];
+export type PowerQualitySeverity = PowerQualityEvent['event']['severity'];
+type Phase = 'r' | 'y' | 'b';
+
+const PHASES: Phase[] = ['r', 'y', 'b'];
+
+// Analyzer Configuration
+interface PowerQualityConfig {
+  phases: 1 | 3;
+  nominalVoltage: number; // V, phase-to-neutral
+  nominalFrequency: number; // Hz
+  sagThreshold: number; // fraction of nominal voltage
+  swellThreshold: number; // fraction of nominal voltage
+  minFrequency: number; // Hz
+  maxFrequency: number; // Hz
+  voltageImbalanceLimit: number; // percent
+  currentImbalanceLimit: number; // percent
+  minImbalanceCurrent: number; // A, average phase current below which imbalance is ignored
+  powerFactorLimit: number;
+  penaltyPerHundredth: number; // fraction of energy charges per 0.01 PF below the limit
+  currency: string;
+}
+
+const DEFAULT_CONFIG: PowerQualityConfig = {
+  phases: 3,
+  nominalVoltage: 230,
+  nominalFrequency: 50,
+  sagThreshold: 0.9,
+  swellThreshold: 1.1,
+  minFrequency: 49.5,
+  maxFrequency: 50.5,
+  voltageImbalanceLimit: 2,
+  currentImbalanceLimit: 10,
+  minImbalanceCurrent: 1,
+  powerFactorLimit: 0.9,
+  penaltyPerHundredth: 0.01,
+  currency: 'INR'
+};
+
+export interface DetectedPowerQualityEvent {
+  type: PowerQualityEventType;
+  severity: PowerQualitySeverity;
+  phase?: Phase;
+  startTime: Date;
+  endTime: Date;
+  durationSeconds: number;
+  ongoing: boolean;
+  worstValue: number;
+  averageValue: number;
+  threshold: number;
+  nominal?: number;
+  samples: number;
+  estimatedPenalty?: number;
+}
+
+export interface PowerQualitySummary {
+  samples: number;
+  voltageImbalance: { average: number; max: number }; // percent
+  currentImbalance: { average: number; max: number }; // percent
+  frequency: { min: number; max: number; average: number }; // Hz
+  powerFactor: { min: number; average: number };
+  eventCounts: Record<PowerQualityEventType, number>;
+  estimatedPenalty: number;
+  score: number; // 0-100
+}
+
+export interface PowerQualityReport {
+  summary: PowerQualitySummary;
+  events: DetectedPowerQualityEvent[];
+}
+
+interface Sample {
+  value: number;
+  reading: SmartMeterReading;
+}
+
+interface Condition {
+  key: string;
+  type: PowerQualityEventType;
+  phase?: Phase;
+  value: number;
+  threshold: number;
+  nominal?: number;
+}
+
+interface OpenEpisode {
+  condition: Condition;
+  samples: Sample[];
+}
+
+export class PowerQualityAnalyzer {
+  private config: PowerQualityConfig;
+
+  constructor(config: Partial<PowerQualityConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Percentage imbalance: maximum deviation from the phase average,
+   * relative to the average (NEMA MG-1 definition)
+   */
+  static imbalance(values: { r: number; y: number; b: number }): number {
+    const phases = [values.r, values.y, values.b];
+    const average = phases.reduce((sum, value) => sum + value, 0) / 3;
+    if (average <= 0) return 0;
+
+    const maxDeviation = Math.max(...phases.map(value => Math.abs(value - average)));
+    return (maxDeviation / average) * 100;
+  }
+
+  /**
+   * Analyse a series of readings and return summary statistics plus the
+   * power quality episodes found in them
+   */
+  analyze(readings: SmartMeterReading[]): PowerQualityReport {
+    const sorted = [...readings].sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+
+    const open = new Map<string, OpenEpisode>();
+    const events: DetectedPowerQualityEvent[] = [];
+
+    for (const reading of sorted) {
+      const active = this.evaluate(reading);
+      const activeKeys = new Set(active.map(condition => condition.key));
+
+      // Close episodes whose condition has cleared
+      for (const [key, episode] of open) {
+        if (!activeKeys.has(key)) {
+          events.push(this.toEvent(episode, reading, false));
+          open.delete(key);
+        }
+      }
+
+      for (const condition of active) {
+        const episode = open.get(condition.key);
+        if (episode) {
+          episode.samples.push({ value: condition.value, reading });
+        } else {
+          open.set(condition.key, { condition, samples: [{ value: condition.value, reading }] });
+        }
+      }
+    }
+
+    // Anything still out of limits at the last reading is ongoing
+    for (const episode of open.values()) {
+      events.push(this.toEvent(episode, null, true));
+    }
+
+    events.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+    return {
+      summary: this.summarize(sorted, events),
+      events
+    };
+  }
+
+  /**
+   * Persist detected events for a meter
+   */
+  async recordEvents(
+    userId: string,
+    smartMeterId: string,
+    events: DetectedPowerQualityEvent[]
+  ): Promise<PowerQualityEvent[]> {
+    return Promise.all(events.map(event =>
+      firestoreService.savePowerQualityEvent(this.toDocument(userId, smartMeterId, event))
+    ));
+  }
+
+  toDocument(
+    userId: string,
+    smartMeterId: string,
+    event: DetectedPowerQualityEvent
+  ): Omit<PowerQualityEvent, 'id' | 'createdAt' | 'updatedAt'> {
+    return {
+      userId,
+      smartMeterId,
+      event: {
+        type: event.type,
+        severity: event.severity,
+        ...(event.phase && { phase: event.phase }),
+        startTime: Timestamp.fromDate(event.startTime),
+        endTime: Timestamp.fromDate(event.endTime),
+        duration: event.durationSeconds,
+        ongoing: event.ongoing
+      },
+      measurements: {
+        worstValue: event.worstValue,
+        averageValue: event.averageValue,
+        threshold: event.threshold,
+        ...(event.nominal !== undefined && { nominal: event.nominal }),
+        samples: event.samples
+      },
+      ...(event.estimatedPenalty !== undefined && {
+        impact: {
+          estimatedPenalty: event.estimatedPenalty,
+          currency: this.config.currency
+        }
+      })
+    };
+  }
+
+  /**
+   * List the out-of-limit conditions present in a single reading
+   */
+  private evaluate(reading: SmartMeterReading): Condition[] {
+    const conditions: Condition[] = [];
+    const { nominalVoltage } = this.config;
+    const phases = this.config.phases === 3 ? PHASES : PHASES.slice(0, 1);
+
+    if (reading.voltage) {
+      for (const phase of phases) {
+        const voltage = reading.voltage[phase];
+        if (voltage < nominalVoltage * this.config.sagThreshold) {
+          conditions.push({
+            key: `voltage_sag:${phase}`,
+            type: 'voltage_sag',
+            phase,
+            value: voltage,
+            threshold: nominalVoltage * this.config.sagThreshold,
+            nominal: nominalVoltage
+          });
+        } else if (voltage > nominalVoltage * this.config.swellThreshold) {
+          conditions.push({
+            key: `voltage_swell:${phase}`,
+            type: 'voltage_swell',
+            phase,
+            value: voltage,
+            threshold: nominalVoltage * this.config.swellThreshold,
+            nominal: nominalVoltage
+          });
+        }
+      }
+    }
+
+    if (this.config.phases === 3) {
+      const imbalance = this.getImbalance(reading);
+      if (imbalance) {
+        conditions.push({
+          key: 'phase_imbalance',
+          type: 'phase_imbalance',
+          phase: imbalance.phase,
+          value: imbalance.value,
+          threshold: imbalance.threshold
+        });
+      }
+    }
+
+    if (reading.frequency !== undefined) {
+      if (reading.frequency < this.config.minFrequency) {
+        conditions.push({
+          key: 'under_frequency',
+          type: 'under_frequency',
+          value: reading.frequency,
+          threshold: this.config.minFrequency,
+          nominal: this.config.nominalFrequency
+        });
+      } else if (reading.frequency > this.config.maxFrequency) {
+        conditions.push({
+          key: 'over_frequency',
+          type: 'over_frequency',
+          value: reading.frequency,
+          threshold: this.config.maxFrequency,
+          nominal: this.config.nominalFrequency
+        });
+      }
+    }
+
+    if (reading.powerFactor !== undefined && reading.powerFactor < this.config.powerFactorLimit) {
+      conditions.push({
+        key: 'low_power_factor',
+        type: 'low_power_factor',
+        value: reading.powerFactor,
+        threshold: this.config.powerFactorLimit
+      });
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Voltage imbalance takes precedence; current imbalance is only checked
+   * when the load is large enough for the percentage to be meaningful
+   */
+  private getImbalance(reading: SmartMeterReading): { value: number; threshold: number; phase: Phase } | null {
+    if (reading.voltage) {
+      const value = PowerQualityAnalyzer.imbalance(reading.voltage);
+      if (value > this.config.voltageImbalanceLimit) {
+        return { value, threshold: this.config.voltageImbalanceLimit, phase: this.worstPhase(reading.voltage) };
+      }
+    }
+
+    if (reading.current) {
+      const average = (reading.current.r + reading.current.y + reading.current.b) / 3;
+      const value = PowerQualityAnalyzer.imbalance(reading.current);
+      if (average >= this.config.minImbalanceCurrent && value > this.config.currentImbalanceLimit) {
+        return { value, threshold: this.config.currentImbalanceLimit, phase: this.worstPhase(reading.current) };
+      }
+    }
+
+    return null;
+  }
+
+  private worstPhase(values: { r: number; y: number; b: number }): Phase {
+    const average = (values.r + values.y + values.b) / 3;
+    return PHASES.reduce((worst, phase) =>
+      Math.abs(values[phase] - average) > Math.abs(values[worst] - average) ? phase : worst
+    );
+  }
+
+  private toEvent(
+    episode: OpenEpisode,
+    clearedBy: SmartMeterReading | null,
+    ongoing: boolean
+  ): DetectedPowerQualityEvent {
+    const { condition, samples } = episode;
+    const startTime = new Date(samples[0].reading.timestamp);
+    // An episode lasts until the first reading back within limits
+    const endTime = new Date((clearedBy || samples[samples.length - 1].reading).timestamp);
+    const values = samples.map(sample => sample.value);
+    const lowerIsWorse = ['voltage_sag', 'under_frequency', 'low_power_factor'].includes(condition.type);
+    const worstValue = lowerIsWorse ? Math.min(...values) : Math.max(...values);
+
+    const event: DetectedPowerQualityEvent = {
+      type: condition.type,
+      severity: this.getSeverity(condition.type, worstValue),
+      phase: condition.phase,
+      startTime,
+      endTime,
+      durationSeconds: Math.max(0, Math.round((endTime.getTime() - startTime.getTime()) / 1000)),
+      ongoing,
+      worstValue: this.round(worstValue),
+      averageValue: this.round(values.reduce((sum, value) => sum + value, 0) / values.length),
+      threshold: this.round(condition.threshold),
+      nominal: condition.nominal,
+      samples: samples.length
+    };
+
+    if (condition.type === 'low_power_factor') {
+      event.estimatedPenalty = this.round(
+        samples.reduce((sum, sample) => sum + this.getPowerFactorPenalty(sample.reading), 0)
+      );
+    }
+
+    return event;
+  }
+
+  /**
+   * Surcharge on energy charges for running below the PF limit, as applied
+   * by most Indian DISCOMs to commercial and industrial connections
+   */
+  private getPowerFactorPenalty(reading: SmartMeterReading): number {
+    if (reading.powerFactor === undefined || reading.powerFactor >= this.config.powerFactorLimit) {
+      return 0;
+    }
+
+    const hundredthsBelow = Math.ceil((this.config.powerFactorLimit - reading.powerFactor) * 100 - 1e-9);
+    const energyCharges = reading.unitsConsumed * reading.tariffRate;
+    return energyCharges * hundredthsBelow * this.config.penaltyPerHundredth;
+  }
+
+  private getSeverity(type: PowerQualityEventType, worst: number): PowerQualitySeverity {
+    const { nominalVoltage, nominalFrequency, powerFactorLimit } = this.config;
+
+    switch (type) {
+      case 'voltage_sag': {
+        const ratio = worst / nominalVoltage;
+        if (ratio < 0.5) return 'critical';
+        if (ratio < 0.7) return 'high';
+        if (ratio < 0.85) return 'medium';
+        return 'low';
+      }
+      case 'voltage_swell': {
+        const ratio = worst / nominalVoltage;
+        if (ratio > 1.3) return 'critical';
+        if (ratio > 1.2) return 'high';
+        if (ratio > 1.15) return 'medium';
+        return 'low';
+      }
+      case 'under_frequency':
+      case 'over_frequency': {
+        const deviation = Math.abs(worst - nominalFrequency);
+        if (deviation > 2) return 'critical';
+        if (deviation > 1) return 'high';
+        if (deviation > 0.75) return 'medium';
+        return 'low';
+      }
+      case 'phase_imbalance':
+        if (worst > 20) return 'critical';
+        if (worst > 10) return 'high';
+        if (worst > 5) return 'medium';
+        return 'low';
+      case 'low_power_factor': {
+        const shortfall = powerFactorLimit - worst;
+        if (shortfall > 0.2) return 'critical';
+        if (shortfall > 0.1) return 'high';
+        if (shortfall > 0.05) return 'medium';
+        return 'low';
+      }
+      default:
+        return 'low';
+    }
+  }
+
+  private summarize(readings: SmartMeterReading[], events: DetectedPowerQualityEvent[]): PowerQualitySummary {
+    const average = (values: number[]) =>
+      values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+    const voltageImbalance = readings
+      .filter(reading => reading.voltage)
+      .map(reading => PowerQualityAnalyzer.imbalance(reading.voltage!));
+    const currentImbalance = readings
+      .filter(reading => reading.current)
+      .map(reading => PowerQualityAnalyzer.imbalance(reading.current!));
+    const frequencies = readings
+      .filter(reading => reading.frequency !== undefined)
+      .map(reading => reading.frequency!);
+    const powerFactors = readings
+      .filter(reading => reading.powerFactor !== undefined)
+      .map(reading => reading.powerFactor!);
+
+    const eventCounts: Record<PowerQualityEventType, number> = {
+      phase_imbalance: 0,
+      voltage_sag: 0,
+      voltage_swell: 0,
+      under_frequency: 0,
+      over_frequency: 0,
+      low_power_factor: 0
+    };
+    for (const event of events) {
+      eventCounts[event.type]++;
+    }
+
+    const severityWeight: Record<PowerQualitySeverity, number> = { low: 2, medium: 5, high: 10, critical: 20 };
+    const score = Math.max(0, 100 - events.reduce((sum, event) => sum + severityWeight[event.severity], 0));
+
+    return {
+      samples: readings.length,
+      voltageImbalance: {
+        average: this.round(average(voltageImbalance)),
+        max: this.round(voltageImbalance.length ? Math.max(...voltageImbalance) : 0)
+      },
+      currentImbalance: {
+        average: this.round(average(currentImbalance)),
+        max: this.round(currentImbalance.length ? Math.max(...currentImbalance) : 0)
+      },
+      frequency: {
+        min: this.round(frequencies.length ? Math.min(...frequencies) : this.config.nominalFrequency),
+        max: this.round(frequencies.length ? Math.max(...frequencies) : this.config.nominalFrequency),
+        average: this.round(frequencies.length ? average(frequencies) : this.config.nominalFrequency)
+      },
+      powerFactor: {
+        min: this.round(powerFactors.length ? Math.min(...powerFactors) : 1),
+        average: this.round(powerFactors.length ? average(powerFactors) : 1)
+      },
+      eventCounts,
+      estimatedPenalty: this.round(events.reduce((sum, event) => sum + (event.estimatedPenalty || 0), 0)),
+      score
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+// Export singleton instance with Indian grid defaults (230V / 50Hz)
+export const powerQualityAnalyzer = new PowerQualityAnalyzer();
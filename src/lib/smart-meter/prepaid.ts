@@ -0,0 +1,255 @@
+/**
+ * Prepaid Balance Monitoring
+ *
+ * Forecasts how many days a prepaid meter's balance will last from the
+ * recent consumption rate and raises low-balance notifications as the
+ * balance crosses configured thresholds, once per level until the next
+ * recharge.
+ */
+
+import { Timestamp } from 'firebase/firestore';
+import { firestoreService } from '../firebase/firestore-service';
+import type { Notification, SmartMeter } from '../firebase/schema';
+import type { SmartMeterReading } from '../smart-meter-apis';
+import type { PrepaidBalance } from './providers/types';
+
+export type PrepaidAlertLevel = NonNullable<SmartMeter['prepaid']>['alertLevel'];
+
+// Monitor Configuration
+interface PrepaidMonitorConfig {
+  lowBalance: number; // currency units
+  criticalBalance: number; // currency units
+  lowDays: number; // days of balance remaining
+  criticalDays: number; // days of balance remaining
+  forecastWindowDays: number; // recent history used for the consumption rate
+}
+
+const DEFAULT_CONFIG: PrepaidMonitorConfig = {
+  lowBalance: 200,
+  criticalBalance: 50,
+  lowDays: 5,
+  criticalDays: 2,
+  forecastWindowDays: 7
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Severity order, used to avoid re-alerting for the same or a better level
+const LEVEL_RANK: Record<PrepaidAlertLevel, number> = {
+  ok: 0,
+  low: 1,
+  critical: 2,
+  depleted: 3
+};
+
+export interface PrepaidForecast {
+  balance: number;
+  dailyUnits: number; // kWh/day over the forecast window
+  dailySpend: number; // currency/day at the meter's tariff
+  daysRemaining: number | null; // null when there is no recent consumption
+  depletionDate: Date | null;
+  basedOnDays: number; // days of history the rate was computed from
+}
+
+export interface PrepaidStatus {
+  balance: PrepaidBalance;
+  forecast: PrepaidForecast;
+  alertLevel: PrepaidAlertLevel;
+  notification: Notification | null; // raised by this check, if any
+}
+
+export class PrepaidBalanceMonitor {
+  private config: PrepaidMonitorConfig;
+
+  constructor(config: Partial<PrepaidMonitorConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Forecast days of balance remaining from readings in the forecast window.
+   * Readings are interval readings; `unitsConsumed` is the interval usage.
+   */
+  forecast(balance: PrepaidBalance, readings: SmartMeterReading[], now: Date = new Date()): PrepaidForecast {
+    const windowStart = now.getTime() - this.config.forecastWindowDays * DAY_MS;
+    const recent = readings
+      .filter(reading => {
+        const time = new Date(reading.timestamp).getTime();
+        return time >= windowStart && time <= now.getTime();
+      })
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    // Span covered by the readings, at least one day so a single reading counts as a day
+    const span = recent.length > 0
+      ? Math.max(DAY_MS, now.getTime() - new Date(recent[0].timestamp).getTime())
+      : 0;
+    const basedOnDays = span / DAY_MS;
+    const totalUnits = recent.reduce((sum, reading) => sum + reading.unitsConsumed, 0);
+    const dailyUnits = basedOnDays > 0 ? totalUnits / basedOnDays : 0;
+    const dailySpend = dailyUnits * balance.tariffRate;
+
+    // Emergency credit keeps supply on after the balance runs out
+    const available = Math.max(0, balance.balance + balance.emergencyCredit);
+    const daysRemaining = dailySpend > 0 ? available / dailySpend : null;
+
+    return {
+      balance: balance.balance,
+      dailyUnits: this.round(dailyUnits),
+      dailySpend: this.round(dailySpend),
+      daysRemaining: daysRemaining === null ? null : this.round(daysRemaining),
+      depletionDate: daysRemaining === null ? null : new Date(now.getTime() + daysRemaining * DAY_MS),
+      basedOnDays: this.round(basedOnDays)
+    };
+  }
+
+  /**
+   * Alert level for a balance and its forecast; whichever of the balance
+   * and days-remaining thresholds is worse wins
+   */
+  getAlertLevel(balance: PrepaidBalance, forecast: PrepaidForecast): PrepaidAlertLevel {
+    if (balance.balance <= 0 || balance.status === 'disconnected') return 'depleted';
+
+    const days = forecast.daysRemaining;
+    if (balance.balance <= this.config.criticalBalance || (days !== null && days <= this.config.criticalDays)) {
+      return 'critical';
+    }
+    if (balance.balance <= this.config.lowBalance || (days !== null && days <= this.config.lowDays)) {
+      return 'low';
+    }
+    return 'ok';
+  }
+
+  /**
+   * Forecast the balance, notify the user if it has dropped to a worse
+   * level than the last alert (since the last recharge) and store the
+   * result on the smart meter
+   */
+  async check(
+    userId: string,
+    meter: SmartMeter,
+    balance: PrepaidBalance,
+    readings: SmartMeterReading[]
+  ): Promise<PrepaidStatus> {
+    const forecast = this.forecast(balance, readings);
+    const alertLevel = this.getAlertLevel(balance, forecast);
+    // Re-read the meter so alerts raised by other tabs/sessions are seen
+    const latest = await firestoreService.getSmartMeter(meter.id);
+    const previous = (latest || meter).prepaid;
+
+    // A recharge since the last check resets the alert level
+    const rechargedSince = !!balance.lastRecharge && !!previous?.lastRechargeDate &&
+      new Date(balance.lastRecharge.date).getTime() > previous.lastRechargeDate.toMillis();
+    const previousLevel: PrepaidAlertLevel = rechargedSince ? 'ok' : previous?.alertLevel || 'ok';
+
+    let notification: Notification | null = null;
+    if (LEVEL_RANK[alertLevel] > LEVEL_RANK[previousLevel]) {
+      notification = await firestoreService.createNotification(
+        this.toNotification(userId, meter, balance, forecast, alertLevel)
+      );
+    }
+
+    // Keep the worst level until the balance recovers, so brief upticks don't re-alert
+    const storedLevel = alertLevel === 'ok' || LEVEL_RANK[alertLevel] > LEVEL_RANK[previousLevel]
+      ? alertLevel
+      : previousLevel;
+
+    await firestoreService.updateSmartMeter(meter.id, {
+      prepaid: {
+        balance: balance.balance,
+        currency: balance.currency,
+        daysRemaining: forecast.daysRemaining,
+        alertLevel: storedLevel,
+        lastCheckedAt: Timestamp.now(),
+        ...(balance.lastRecharge && { lastRechargeDate: Timestamp.fromDate(new Date(balance.lastRecharge.date)) }),
+        ...(notification
+          ? { lastAlertAt: Timestamp.now() }
+          : previous?.lastAlertAt && { lastAlertAt: previous.lastAlertAt })
+      }
+    });
+
+    return { balance, forecast, alertLevel, notification };
+  }
+
+  toNotification(
+    userId: string,
+    meter: SmartMeter,
+    balance: PrepaidBalance,
+    forecast: PrepaidForecast,
+    level: PrepaidAlertLevel
+  ): Omit<Notification, 'id' | 'createdAt' | 'updatedAt'> {
+    const amount = `₹${balance.balance.toFixed(0)}`;
+    const days = forecast.daysRemaining !== null
+      ? ` - about ${Math.max(0, Math.floor(forecast.daysRemaining))} day(s) left at your current usage`
+      : '';
+
+    const content = {
+      low: {
+        type: 'warning' as const,
+        title: 'Prepaid balance running low',
+        message: `Your prepaid balance is ${amount}${days}. Recharge soon to avoid disconnection.`
+      },
+      critical: {
+        type: 'alert' as const,
+        title: 'Prepaid balance critically low',
+        message: `Only ${amount} left${days}. Recharge now to avoid disconnection.`
+      },
+      depleted: {
+        type: 'alert' as const,
+        title: 'Prepaid balance exhausted',
+        message: balance.emergencyCredit > 0
+          ? `Your balance has run out and you are using ₹${balance.emergencyCredit.toFixed(0)} emergency credit. Recharge now.`
+          : 'Your balance has run out. Recharge to restore supply.'
+      },
+      ok: {
+        type: 'info' as const,
+        title: 'Prepaid balance',
+        message: `Your prepaid balance is ${amount}${days}.`
+      }
+    }[level];
+
+    return {
+      userId,
+      content: {
+        ...content,
+        icon: 'wallet',
+        actionUrl: '/dashboard/smart-meter',
+        actionText: 'Recharge'
+      },
+      channels: {
+        inApp: true,
+        email: level !== 'low',
+        push: true,
+        sms: level === 'depleted'
+      },
+      status: {
+        isRead: false,
+        deliveryStatus: 'pending'
+      },
+      classification: {
+        priority: level === 'depleted' ? 'urgent' : level === 'critical' ? 'high' : 'medium',
+        category: 'billing',
+        tags: ['prepaid', 'low_balance', level]
+      },
+      context: {
+        triggeredBy: 'prepaid_balance_check',
+        relatedEntity: {
+          type: 'smartMeter',
+          id: meter.id
+        },
+        metadata: {
+          balance: balance.balance,
+          currency: balance.currency,
+          daysRemaining: forecast.daysRemaining,
+          dailySpend: forecast.dailySpend,
+          level
+        }
+      }
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+// Export singleton instance with default thresholds
+export const prepaidBalanceMonitor = new PrepaidBalanceMonitor();
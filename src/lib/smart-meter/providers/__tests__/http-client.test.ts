@@ -0,0 +1,192 @@
+/**
+ * Tests for the provider HTTP client and its circuit breaker
+ */
+
+import { describe, it, expect, vi, beforeAll, afterEach, afterAll } from 'vitest';
+import { CircuitBreaker, ProviderHttpClient, ProviderRequestError, parseRetryAfter } from '../http-client';
+
+describe('CircuitBreaker', () => {
+  const clock = () => {
+    let time = 0;
+    return { now: () => time, advance: (ms: number) => { time += ms; } };
+  };
+
+  it('opens after the failure threshold and stays open until the reset timeout', () => {
+    const { now, advance } = clock();
+    const breaker = new CircuitBreaker(3, 1000, now);
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.canRequest()).toBe(true);
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+
+    advance(400);
+    expect(breaker.remainingOpenTime()).toBe(600);
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('lets a single trial through once half-open', () => {
+    const { now, advance } = clock();
+    const breaker = new CircuitBreaker(1, 1000, now);
+
+    breaker.recordFailure();
+    advance(1000);
+
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.getState()).toBe('half_open');
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('closes when the trial succeeds', () => {
+    const { now, advance } = clock();
+    const breaker = new CircuitBreaker(1, 1000, now);
+
+    breaker.recordFailure();
+    advance(1000);
+    breaker.canRequest();
+    breaker.recordSuccess();
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('reopens for a full timeout when the trial fails', () => {
+    const { now, advance } = clock();
+    const breaker = new CircuitBreaker(3, 1000, now);
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    advance(1000);
+    breaker.canRequest();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.remainingOpenTime()).toBe(1000);
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('ends a half-open trial on a rate-limited response without reopening', () => {
+    const { now, advance } = clock();
+    const breaker = new CircuitBreaker(1, 1000, now);
+
+    breaker.recordFailure();
+    advance(1000);
+    breaker.canRequest();
+    breaker.recordRateLimited();
+
+    expect(breaker.getState()).toBe('half_open');
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('does not count rate-limited responses as failures', () => {
+    const breaker = new CircuitBreaker(2, 1000);
+
+    breaker.recordRateLimited();
+    breaker.recordRateLimited();
+    breaker.recordRateLimited();
+
+    expect(breaker.getState()).toBe('closed');
+  });
+});
+
+describe('ProviderHttpClient', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+  const respond = (status: number, headers: Record<string, string> = {}) =>
+    new Response(null, { status, headers });
+
+  const client = (config: ConstructorParameters<typeof ProviderHttpClient>[0] = {}) =>
+    new ProviderHttpClient({ maxRetries: 0, baseDelay: 0, maxDelay: 0, failureThreshold: 2, ...config });
+
+  const failure = (promise: Promise<unknown>) =>
+    promise.then(() => { throw new Error('expected the request to fail'); }, (error: ProviderRequestError) => error);
+
+  beforeAll(() => {
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns client errors to the caller without retrying', async () => {
+    fetchMock.mockResolvedValue(respond(404));
+
+    const response = await client({ maxRetries: 3 }).fetch('bses', 'https://example.test/meter');
+
+    expect(response.status).toBe(404);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries server errors and returns the first success', async () => {
+    fetchMock.mockResolvedValueOnce(respond(503)).mockResolvedValueOnce(respond(200));
+
+    const response = await client({ maxRetries: 2 }).fetch('bses', 'https://example.test/meter');
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('skips requests while the circuit is open', async () => {
+    fetchMock.mockResolvedValue(respond(500));
+    const http = client();
+
+    expect(await failure(http.fetch('bses', 'https://example.test/a'))).toMatchObject({ code: 'SERVER_ERROR' });
+    expect(await failure(http.fetch('bses', 'https://example.test/a'))).toMatchObject({ code: 'SERVER_ERROR' });
+    const skipped = await failure(http.fetch('bses', 'https://example.test/a'));
+
+    expect(skipped).toMatchObject({ code: 'CIRCUIT_OPEN', retryable: true });
+    expect(skipped.context.retryAfterMs).toBeGreaterThan(0);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(http.getCircuitState('tata-power')).toBe('closed');
+  });
+
+  it('keeps the circuit closed through rate limiting', async () => {
+    fetchMock.mockResolvedValue(respond(429));
+    const http = client();
+
+    for (let i = 0; i < 3; i++) {
+      expect(await failure(http.fetch('bses', 'https://example.test/a'))).toMatchObject({ code: 'RATE_LIMITED' });
+    }
+
+    expect(http.getCircuitState('bses')).toBe('closed');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('waits out a short Retry-After and gives up on a long one', async () => {
+    fetchMock.mockResolvedValueOnce(respond(429, { 'retry-after': '0' })).mockResolvedValueOnce(respond(200));
+    expect((await client({ maxRetries: 1 }).fetch('bses', 'https://example.test/a')).status).toBe(200);
+
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValue(respond(429, { 'retry-after': '120' }));
+    const error = await failure(client({ maxRetries: 3 }).fetch('bses', 'https://example.test/a'));
+
+    expect(error).toMatchObject({ code: 'RATE_LIMITED', context: { status: 429, retryAfterMs: 120000, attempts: 1 } });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports network failures after the last retry', async () => {
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+
+    const error = await failure(client({ maxRetries: 1, failureThreshold: 5 }).fetch('bses', 'https://example.test/a'));
+
+    expect(error).toMatchObject({ code: 'NETWORK_ERROR', message: 'Network error: fetch failed', context: { attempts: 2 } });
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads delta-seconds and HTTP dates', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+    expect(parseRetryAfter(new Date(Date.now() - 60000).toUTCString())).toBe(0);
+  });
+});
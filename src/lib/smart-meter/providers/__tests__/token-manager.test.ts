@@ -0,0 +1,105 @@
+/**
+ * Tests for provider token caching and renewal
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ProviderTokenManager, TokenSource } from '../token-manager';
+import type { ProviderToken } from '../types';
+
+const KEY = ProviderTokenManager.key('tata-power', 'C-1001');
+
+describe('ProviderTokenManager', () => {
+  let time: number;
+  let manager: ProviderTokenManager;
+  let issued: number;
+  let source: TokenSource & { authenticate: ReturnType<typeof vi.fn>; refresh: ReturnType<typeof vi.fn> };
+
+  const token = (refreshToken?: string): ProviderToken => ({
+    accessToken: `access-${++issued}`,
+    expiresAt: time + 10 * 60 * 1000,
+    ...(refreshToken && { refreshToken })
+  });
+
+  beforeEach(() => {
+    time = 0;
+    issued = 0;
+    manager = new ProviderTokenManager({ refreshMargin: 60 * 1000, now: () => time });
+    source = {
+      authenticate: vi.fn(async () => token('refresh')),
+      refresh: vi.fn(async () => token('refresh'))
+    };
+  });
+
+  it('reuses a cached token until it is within the refresh margin', async () => {
+    const first = await manager.getToken(KEY, source);
+
+    time = 8 * 60 * 1000;
+    expect(await manager.getToken(KEY, source)).toBe(first);
+
+    time = 9 * 60 * 1000;
+    expect((await manager.getToken(KEY, source)).accessToken).toBe('access-2');
+    expect(source.authenticate).toHaveBeenCalledTimes(1);
+    expect(source.refresh).toHaveBeenCalledWith(first);
+  });
+
+  it('shares one renewal between concurrent callers', async () => {
+    const tokens = await Promise.all([
+      manager.getToken(KEY, source),
+      manager.getToken(KEY, source),
+      manager.renew(KEY, source)
+    ]);
+
+    expect(new Set(tokens.map(t => t.accessToken))).toEqual(new Set(['access-1']));
+    expect(source.authenticate).toHaveBeenCalledTimes(1);
+  });
+
+  it('re-authenticates when the refresh fails', async () => {
+    const consoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await manager.getToken(KEY, source);
+    source.refresh.mockRejectedValueOnce(new Error('invalid_grant'));
+
+    expect((await manager.renew(KEY, source)).accessToken).toBe('access-2');
+    expect(source.authenticate).toHaveBeenCalledTimes(2);
+
+    consoleWarn.mockRestore();
+  });
+
+  it('drops the cached token when authentication fails', async () => {
+    await manager.getToken(KEY, source);
+    source.refresh.mockResolvedValueOnce(null);
+    source.authenticate.mockRejectedValueOnce(new Error('HTTP 401'));
+
+    await expect(manager.renew(KEY, source)).rejects.toThrow('HTTP 401');
+    expect(manager.peek(KEY)).toBeNull();
+  });
+
+  it('reuses a replacement for a rejected token instead of renewing again', async () => {
+    const rejected = await manager.getToken(KEY, source);
+    const replacement = await manager.renew(KEY, source);
+
+    expect(await manager.handleRejected(KEY, rejected, source)).toBe(replacement);
+    expect(source.refresh).toHaveBeenCalledTimes(1);
+
+    expect((await manager.handleRejected(KEY, replacement, source)).accessToken).toBe('access-3');
+  });
+
+  it('only invalidates the token the caller saw', async () => {
+    const first = await manager.getToken(KEY, source);
+    const second = await manager.renew(KEY, source);
+
+    manager.invalidate(KEY, first.accessToken);
+    expect(manager.peek(KEY)).toBe(second);
+
+    manager.invalidate(KEY);
+    expect(manager.peek(KEY)).toBeNull();
+  });
+
+  it('treats tokens without an expiry as long-lived', async () => {
+    source.authenticate.mockResolvedValueOnce({ accessToken: 'static' });
+    await manager.getToken(KEY, source);
+
+    time = 365 * 24 * 60 * 60 * 1000;
+    expect((await manager.getToken(KEY, source)).accessToken).toBe('static');
+    expect(manager.isExpired({ accessToken: 'static' })).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Adani Electricity smart meter adapter (OAuth client credentials)
+ */
+
+import type { SmartMeterProvider } from '../../smart-meter-apis';
+import { BaseProviderAdapter } from './base-adapter';
+import { bearerHeaders, hasClientCredentials, refreshOAuthToken, requestOAuthToken } from './auth';
+import type { ProviderCredentials, ProviderRequestContext, ProviderToken } from './types';
+
+export const ADANI_PROVIDER: SmartMeterProvider = {
+  id: 'adani',
+  name: 'Adani Electricity',
+  baseUrl: 'https://online.adanielectricity.com/api/meter',
+  authType: 'oauth',
+  regions: ['Mumbai Suburban', 'Ahmedabad', 'Surat'],
+  supportedFeatures: ['realtime', 'billing', 'demand', 'prepaid'],
+  consumerIdFormats: [
+    { pattern: /^AD\d{6,12}$/i, description: 'AD followed by 6-12 digits', example: 'AD987654321' },
+    { pattern: /^\d{9}$/, description: '9-digit account number', example: '152345678', generic: true }
+  ]
+};
+
+export class AdaniAdapter extends BaseProviderAdapter {
+  readonly provider = ADANI_PROVIDER;
+
+  hasValidCredentials(credentials: ProviderCredentials): boolean {
+    return hasClientCredentials(credentials);
+  }
+
+  authenticate(credentials: ProviderCredentials, context: ProviderRequestContext): Promise<ProviderToken> {
+    return requestOAuthToken(context, this.buildAuthUrl(context, '/auth/oauth/token'), credentials);
+  }
+
+  refreshToken(
+    token: ProviderToken,
+    credentials: ProviderCredentials,
+    context: ProviderRequestContext
+  ): Promise<ProviderToken> {
+    return refreshOAuthToken(context, this.buildAuthUrl(context, '/auth/oauth/token'), token, credentials);
+  }
+
+  buildHeaders(accessToken: string): HeadersInit {
+    return bearerHeaders(accessToken);
+  }
+
+  protected mapReading(data: any): Record<string, any> {
+    const payload = data?.result || data || {};
+    return {
+      ...payload,
+      unitsConsumed: payload.unitsConsumed ?? payload.consumptionKwh,
+      energyImported: payload.energyImported ?? payload.importKwh,
+      energyExported: payload.energyExported ?? payload.exportKwh
+    };
+  }
+}
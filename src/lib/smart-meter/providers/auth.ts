@@ -0,0 +1,133 @@
+/**
+ * Authentication helpers shared by provider adapters
+ */
+
+import type { ProviderCredentials, ProviderRequestContext, ProviderToken } from './types';
+import { ProviderRequestError } from './http-client';
+
+export function hasApiKey(credentials: ProviderCredentials): boolean {
+  return !!credentials.apiKey;
+}
+
+export function hasUserCredentials(credentials: ProviderCredentials): boolean {
+  return !!(credentials.username && credentials.password);
+}
+
+export function hasClientCredentials(credentials: ProviderCredentials): boolean {
+  return !!(credentials.clientId && credentials.clientSecret);
+}
+
+export function basicAuthToken(credentials: ProviderCredentials): ProviderToken {
+  return { accessToken: `Basic ${btoa(`${credentials.username}:${credentials.password}`)}` };
+}
+
+export function apiKeyToken(credentials: ProviderCredentials): ProviderToken {
+  return { accessToken: credentials.apiKey || '' };
+}
+
+/**
+ * Read a token response, accepting both snake_case (OAuth) and camelCase keys
+ */
+export function parseTokenResponse(data: any): ProviderToken {
+  const accessToken = data.access_token ?? data.token;
+  if (!accessToken) {
+    throw new Error('Token response did not include an access token');
+  }
+
+  const expiresIn = Number(data.expires_in ?? data.expiresIn);
+
+  return {
+    accessToken,
+    tokenType: data.token_type ?? data.tokenType,
+    refreshToken: data.refresh_token ?? data.refreshToken,
+    expiresAt: Number.isFinite(expiresIn) && expiresIn > 0 ? Date.now() + expiresIn * 1000 : undefined
+  };
+}
+
+/**
+ * OAuth2 client-credentials grant
+ */
+export async function requestOAuthToken(
+  context: ProviderRequestContext,
+  tokenUrl: string,
+  credentials: ProviderCredentials
+): Promise<ProviderToken> {
+  return postForToken(context, tokenUrl, {
+    grant_type: 'client_credentials',
+    client_id: credentials.clientId,
+    client_secret: credentials.clientSecret
+  });
+}
+
+/**
+ * OAuth2 refresh-token grant
+ */
+export async function refreshOAuthToken(
+  context: ProviderRequestContext,
+  tokenUrl: string,
+  token: ProviderToken,
+  credentials: ProviderCredentials
+): Promise<ProviderToken> {
+  const refreshed = await postForToken(context, tokenUrl, {
+    grant_type: 'refresh_token',
+    refresh_token: token.refreshToken,
+    client_id: credentials.clientId,
+    client_secret: credentials.clientSecret
+  });
+
+  // Providers may omit a new refresh token when the old one stays valid
+  return { ...refreshed, refreshToken: refreshed.refreshToken ?? token.refreshToken };
+}
+
+/**
+ * Username/password login returning a JWT
+ */
+export async function requestJwtToken(
+  context: ProviderRequestContext,
+  loginUrl: string,
+  credentials: ProviderCredentials
+): Promise<ProviderToken> {
+  return postForToken(context, loginUrl, {
+    username: credentials.username,
+    password: credentials.password
+  });
+}
+
+async function postForToken(
+  context: ProviderRequestContext,
+  url: string,
+  body: Record<string, unknown>
+): Promise<ProviderToken> {
+  const response = await context.fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    throw ProviderRequestError.fromResponse(context.providerId, response);
+  }
+
+  return parseTokenResponse(await response.json());
+}
+
+export function apiKeyHeaders(token: string, headerName: string = 'X-API-Key'): HeadersInit {
+  return {
+    'Content-Type': 'application/json',
+    [headerName]: token
+  };
+}
+
+export function bearerHeaders(token: string): HeadersInit {
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${token}`
+  };
+}
+
+export function authorizationHeaders(token: string): HeadersInit {
+  return {
+    'Content-Type': 'application/json',
+    Authorization: token
+  };
+}
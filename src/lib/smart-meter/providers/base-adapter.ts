@@ -0,0 +1,405 @@
+/**
+ * Base Provider Adapter
+ *
+ * Shared request building and response normalisation for provider adapters.
+ * Concrete adapters declare their provider config, authentication and any
+ * provider-specific response mapping.
+ */
+
+import type { SmartMeterProvider, SmartMeterReading } from '../../smart-meter-apis';
+import type {
+  ProviderAdapter,
+  ProviderBillingInfo,
+  ProviderCapabilities,
+  ProviderCredentials,
+  ProviderFeature,
+  PrepaidBalance,
+  ProviderOutage,
+  ProviderOutageStatus,
+  ProviderRequestContext,
+  ProviderResource,
+  ProviderTamperStatus,
+  ProviderToken,
+  RealTimeConsumption,
+  RechargeRecord,
+  TamperEvent,
+  TamperType
+} from './types';
+import { ProviderRequestError } from './http-client';
+
+// Provider tamper codes, lower-cased, mapped to the normalised tamper types
+const TAMPER_CODES: Record<string, TamperType> = {
+  magnetic: 'magnetic',
+  magnet: 'magnetic',
+  magnetic_influence: 'magnetic',
+  mag_tamper: 'magnetic',
+  cover_open: 'cover_open',
+  cover: 'cover_open',
+  terminal_cover_open: 'cover_open',
+  top_cover_open: 'cover_open',
+  neutral_disturbance: 'neutral_disturbance',
+  neutral_missing: 'neutral_disturbance',
+  neutral_tamper: 'neutral_disturbance',
+  reverse_current: 'reverse_current',
+  reverse: 'reverse_current',
+  current_reversal: 'reverse_current',
+  ct_reverse: 'reverse_current'
+};
+
+export abstract class BaseProviderAdapter implements ProviderAdapter {
+  abstract readonly provider: SmartMeterProvider;
+
+  abstract hasValidCredentials(credentials: ProviderCredentials): boolean;
+  abstract authenticate(credentials: ProviderCredentials, context: ProviderRequestContext): Promise<ProviderToken>;
+  abstract buildHeaders(accessToken: string): HeadersInit;
+
+  get capabilities(): ProviderCapabilities {
+    return {
+      realtime: this.supports('realtime'),
+      history: true,
+      billing: this.supports('billing'),
+      demand: this.supports('demand'),
+      quality: this.supports('quality'),
+      outage: this.supports('outage'),
+      prepaid: this.supports('prepaid'),
+      tamper: this.supports('tamper'),
+      analytics: this.supports('analytics'),
+      remoteControl: this.supports('remote_control')
+    };
+  }
+
+  supports(feature: ProviderFeature): boolean {
+    return this.provider.supportedFeatures.includes(feature);
+  }
+
+  /**
+   * Get current meter reading
+   */
+  async getCurrentReading(context: ProviderRequestContext, consumerId: string): Promise<SmartMeterReading> {
+    const data = await this.request(context, 'current', consumerId);
+    return this.normalizeReading(data, consumerId);
+  }
+
+  /**
+   * Get historical readings for a date range
+   */
+  async getHistoricalReadings(
+    context: ProviderRequestContext,
+    consumerId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<SmartMeterReading[]> {
+    const data = await this.request(context, 'history', consumerId, { start: startDate, end: endDate });
+    return this.extractHistory(data).map(reading => this.normalizeReading(reading, consumerId));
+  }
+
+  /**
+   * Get real-time energy consumption
+   */
+  async getRealTimeConsumption(context: ProviderRequestContext, consumerId: string): Promise<RealTimeConsumption> {
+    if (!this.capabilities.realtime) {
+      throw new Error(`Real-time data not supported by ${this.provider.name}`);
+    }
+
+    const data = await this.request(context, 'realtime', consumerId);
+    return this.normalizeRealTime(data);
+  }
+
+  /**
+   * Get billing information
+   */
+  async getBillingInfo(
+    context: ProviderRequestContext,
+    consumerId: string,
+    month?: string
+  ): Promise<ProviderBillingInfo> {
+    const data = await this.request(context, 'billing', consumerId, month ? { month } : undefined);
+    return this.normalizeBilling(data);
+  }
+
+  /**
+   * Get the prepaid balance (prepaid connections only)
+   */
+  async getPrepaidBalance(context: ProviderRequestContext, consumerId: string): Promise<PrepaidBalance> {
+    if (!this.capabilities.prepaid) {
+      throw new Error(`Prepaid metering not supported by ${this.provider.name}`);
+    }
+
+    const data = await this.request(context, 'prepaid-balance', consumerId);
+    return this.normalizePrepaidBalance(data);
+  }
+
+  /**
+   * Get prepaid recharges, newest first
+   */
+  async getRechargeHistory(
+    context: ProviderRequestContext,
+    consumerId: string,
+    startDate?: string,
+    endDate?: string
+  ): Promise<RechargeRecord[]> {
+    if (!this.capabilities.prepaid) {
+      throw new Error(`Prepaid metering not supported by ${this.provider.name}`);
+    }
+
+    const params: Record<string, string> = {};
+    if (startDate) params.start = startDate;
+    if (endDate) params.end = endDate;
+
+    const data = await this.request(context, 'recharge-history', consumerId, params);
+    const records: any[] = Array.isArray(data) ? data : data?.recharges || [];
+    return records
+      .map(record => this.normalizeRecharge(record))
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  }
+
+  /**
+   * Get current and scheduled supply outages for the consumer's feeder
+   */
+  async getOutageStatus(context: ProviderRequestContext, consumerId: string): Promise<ProviderOutageStatus> {
+    if (!this.capabilities.outage) {
+      throw new Error(`Outage status not supported by ${this.provider.name}`);
+    }
+
+    const data = await this.request(context, 'outage-status', consumerId);
+    const outages: any[] = Array.isArray(data?.outages) ? data.outages : [];
+
+    return {
+      consumerId,
+      supplyAvailable: data?.supplyAvailable ?? outages.length === 0,
+      outages: outages.map(outage => this.normalizeOutage(outage)),
+      timestamp: data?.timestamp || new Date().toISOString()
+    };
+  }
+
+  /**
+   * Get tamper events reported by the meter (if supported)
+   */
+  async getTamperStatus(context: ProviderRequestContext, consumerId: string): Promise<ProviderTamperStatus> {
+    if (!this.capabilities.tamper) {
+      throw new Error(`Tamper detection not supported by ${this.provider.name}`);
+    }
+
+    const data = await this.request(context, 'tamper-status', consumerId);
+    const events = this.mapTamperEvents(data)
+      .map(event => this.normalizeTamperEvent(event))
+      .filter((event): event is TamperEvent => event !== null);
+
+    return {
+      consumerId,
+      tampered: events.some(event => event.active),
+      events,
+      timestamp: data?.timestamp || new Date().toISOString()
+    };
+  }
+
+  /**
+   * Map a provider payload into a SmartMeterReading. Fields the provider
+   * doesn't report are left out; required register values it omits are
+   * derived from the others where possible, else 0, and listed in `estimated`.
+   */
+  normalizeReading(data: any, consumerId: string): SmartMeterReading {
+    const mapped = this.mapReading(data);
+    const estimated: NonNullable<SmartMeterReading['estimated']> = [];
+    const reported = (...values: any[]): number | undefined =>
+      values.find(value => typeof value === 'number' && Number.isFinite(value));
+    const required = (field: keyof SmartMeterReading, value: number | undefined, derived?: number): number => {
+      if (value !== undefined) return value;
+      estimated.push(field);
+      return derived !== undefined && Number.isFinite(derived) ? derived : 0;
+    };
+
+    const currentReading = reported(mapped.currentReading, mapped.reading);
+    const previousReading = reported(mapped.previousReading, mapped.lastReading);
+    const tariffRate = required('tariffRate', reported(mapped.tariffRate, mapped.rate), 6.5);
+    const unitsConsumed = required(
+      'unitsConsumed',
+      reported(mapped.unitsConsumed, mapped.consumption),
+      currentReading !== undefined && previousReading !== undefined ? currentReading - previousReading : undefined
+    );
+
+    return {
+      consumerId,
+      timestamp: mapped.timestamp || new Date().toISOString(),
+      currentReading: required('currentReading', currentReading),
+      previousReading: required('previousReading', previousReading, currentReading !== undefined ? currentReading - unitsConsumed : undefined),
+      unitsConsumed,
+      tariffRate,
+      billAmount: required('billAmount', reported(mapped.billAmount, mapped.amount), unitsConsumed * tariffRate),
+      ...(mapped.powerFactor !== undefined && { powerFactor: mapped.powerFactor }),
+      ...(mapped.maxDemand !== undefined && { maxDemand: mapped.maxDemand }),
+      ...(mapped.voltage && { voltage: mapped.voltage }),
+      ...(mapped.current && { current: mapped.current }),
+      ...(mapped.frequency !== undefined && { frequency: mapped.frequency }),
+      energyImported: required('energyImported', reported(mapped.energyImported, mapped.imported), currentReading),
+      energyExported: mapped.energyExported ?? mapped.exported ?? 0,
+      ...(mapped.solarGeneration !== undefined && { solarGeneration: mapped.solarGeneration }),
+      ...(mapped.reactivePower !== undefined && { reactivePower: mapped.reactivePower }),
+      ...(estimated.length > 0 && { estimated })
+    };
+  }
+
+  /**
+   * Translate a provider-specific reading payload into the generic field
+   * names understood by normalizeReading. Override for non-standard APIs.
+   */
+  protected mapReading(data: any): Record<string, any> {
+    return data || {};
+  }
+
+  /**
+   * Extract raw tamper events from a tamper-status payload. Override for
+   * providers that report tamper flags in a different shape.
+   */
+  protected mapTamperEvents(data: any): any[] {
+    return Array.isArray(data) ? data : data?.events || data?.tamperEvents || [];
+  }
+
+  protected extractHistory(data: any): any[] {
+    return Array.isArray(data) ? data : data?.readings || [];
+  }
+
+  protected normalizeRealTime(data: any): RealTimeConsumption {
+    return {
+      instantPower: data.instantPower ?? data.power ?? 0,
+      voltage: data.voltage ?? 230,
+      current: data.current ?? 0,
+      frequency: data.frequency ?? 50,
+      powerFactor: data.powerFactor ?? 0.9,
+      timestamp: data.timestamp || new Date().toISOString()
+    };
+  }
+
+  protected normalizeBilling(data: any): ProviderBillingInfo {
+    return {
+      billNumber: data.billNumber || `BILL${Date.now()}`,
+      billDate: data.billDate || new Date().toISOString().split('T')[0],
+      dueDate: data.dueDate || new Date(Date.now() + 15 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+      unitsConsumed: data.unitsConsumed ?? 0,
+      amount: data.amount ?? 0,
+      status: data.status || 'unpaid',
+      tariffDetails: data.tariffDetails || { rate: 6.5, fixedCharge: 150 },
+      ...(data.netMetering && { netMetering: data.netMetering })
+    };
+  }
+
+  protected normalizePrepaidBalance(data: any): PrepaidBalance {
+    const balance = data.balance ?? data.availableBalance ?? 0;
+    const lastRecharge = data.lastRecharge || (data.lastRechargeAmount !== undefined && {
+      amount: data.lastRechargeAmount,
+      date: data.lastRechargeDate
+    });
+
+    return {
+      balance,
+      currency: data.currency || 'INR',
+      emergencyCredit: data.emergencyCredit ?? 0,
+      tariffRate: data.tariffRate ?? data.rate ?? 6.5,
+      status: data.status || (balance > 0 ? 'active' : 'emergency'),
+      ...(lastRecharge && { lastRecharge }),
+      timestamp: data.timestamp || new Date().toISOString()
+    };
+  }
+
+  protected normalizeRecharge(data: any): RechargeRecord {
+    return {
+      transactionId: data.transactionId || data.id || `TXN${Date.now()}`,
+      amount: data.amount ?? 0,
+      ...(data.unitsCredited !== undefined && { unitsCredited: data.unitsCredited }),
+      date: data.date || data.rechargeDate || new Date().toISOString(),
+      channel: data.channel || data.mode || 'online',
+      status: data.status || 'success'
+    };
+  }
+
+  protected normalizeOutage(data: any): ProviderOutage {
+    return {
+      outageId: data.outageId || data.id || `OUT${Date.now()}`,
+      type: data.type === 'planned' || data.scheduled ? 'planned' : 'unplanned',
+      ...(data.area && { area: data.area }),
+      ...(data.reason && { reason: data.reason }),
+      startTime: data.startTime || data.start || new Date().toISOString(),
+      ...((data.estimatedRestoration || data.etr) && {
+        estimatedRestoration: data.estimatedRestoration || data.etr
+      })
+    };
+  }
+
+  /**
+   * Normalise a tamper event; codes that don't map to a known tamper type
+   * (including 'normal') are dropped
+   */
+  protected normalizeTamperEvent(data: any): TamperEvent | null {
+    const code = String(data?.code ?? data?.type ?? data?.tamperType ?? '');
+    const type = TAMPER_CODES[code.trim().toLowerCase().replace(/[\s-]+/g, '_')];
+    if (!type) return null;
+
+    const clearedAt = data.clearedAt || data.restoredAt;
+    const detectedAt = data.detectedAt || data.timestamp || new Date().toISOString();
+
+    return {
+      eventId: data.eventId || data.id || `${type}-${new Date(detectedAt).getTime()}`,
+      type,
+      code,
+      active: data.active ?? !clearedAt,
+      detectedAt,
+      ...(clearedAt && { clearedAt })
+    };
+  }
+
+  /**
+   * Build the URL for a resource. The mock route takes everything as query
+   * parameters; real providers use REST paths under their base URL.
+   */
+  protected buildUrl(
+    context: ProviderRequestContext,
+    resource: ProviderResource,
+    consumerId: string,
+    params?: Record<string, string>
+  ): string {
+    if (context.mock) {
+      const query = new URLSearchParams({
+        endpoint: resource,
+        consumerId,
+        provider: this.provider.id,
+        ...params
+      });
+      return `${context.baseUrl}?${query.toString()}`;
+    }
+
+    const query = params ? `?${new URLSearchParams(params).toString()}` : '';
+    return `${context.baseUrl}${this.resourcePath(resource, consumerId)}${query}`;
+  }
+
+  /**
+   * Build an authentication URL. The mock route issues tokens from its
+   * `auth` endpoint for every provider.
+   */
+  protected buildAuthUrl(context: ProviderRequestContext, path: string): string {
+    if (context.mock) {
+      return `${context.baseUrl}?endpoint=auth&provider=${this.provider.id}`;
+    }
+    return `${context.baseUrl}${path}`;
+  }
+
+  protected resourcePath(resource: ProviderResource, consumerId: string): string {
+    return `/consumers/${encodeURIComponent(consumerId)}/${resource}`;
+  }
+
+  protected async request(
+    context: ProviderRequestContext,
+    resource: ProviderResource,
+    consumerId: string,
+    params?: Record<string, string>
+  ): Promise<any> {
+    const response = await context.fetch(this.buildUrl(context, resource, consumerId, params), {
+      headers: context.headers
+    });
+
+    if (!response.ok) {
+      throw ProviderRequestError.fromResponse(context.providerId, response);
+    }
+
+    return response.json();
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * BSES Delhi smart grid adapter (API key auth)
+ */
+
+import type { SmartMeterProvider } from '../../smart-meter-apis';
+import { BaseProviderAdapter } from './base-adapter';
+import { apiKeyHeaders, apiKeyToken, hasApiKey } from './auth';
+import type { ProviderCredentials, ProviderToken } from './types';
+
+export const BSES_PROVIDER: SmartMeterProvider = {
+  id: 'bses',
+  name: 'BSES Delhi',
+  baseUrl: 'https://www.bsesdelhi.com/api/smartgrid',
+  authType: 'apiKey',
+  regions: ['Delhi South', 'Delhi West'],
+  supportedFeatures: ['realtime', 'billing', 'outage', 'complaints'],
+  consumerIdFormats: [
+    { pattern: /^BS\d{6,12}$/i, description: 'BS followed by 6-12 digits', example: 'BS555444333' },
+    { pattern: /^\d{9}$/, description: '9-digit CA number', example: '100234567', generic: true }
+  ]
+};
+
+export class BsesAdapter extends BaseProviderAdapter {
+  readonly provider = BSES_PROVIDER;
+
+  hasValidCredentials(credentials: ProviderCredentials): boolean {
+    return hasApiKey(credentials);
+  }
+
+  async authenticate(credentials: ProviderCredentials): Promise<ProviderToken> {
+    return apiKeyToken(credentials);
+  }
+
+  buildHeaders(accessToken: string): HeadersInit {
+    return apiKeyHeaders(accessToken);
+  }
+}
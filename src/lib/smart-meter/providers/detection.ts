@@ -0,0 +1,191 @@
+/**
+ * Provider Detection
+ *
+ * Ranks registered providers for a consumer number by checking it against
+ * each DISCOM's consumer-number formats and cross-checking the user's
+ * location (selected area and/or profile address) against provider regions.
+ */
+
+import type { ConsumerIdFormat, SmartMeterProvider } from '../../smart-meter-apis';
+import { providerRegistry, ProviderAdapterRegistry } from './registry';
+
+export interface DetectionAddress {
+  city?: string;
+  state?: string;
+}
+
+export interface ProviderDetectionInput {
+  consumerId?: string;
+  location?: string; // Area / city picked in the UI
+  address?: DetectionAddress; // e.g. UserProfile.personalInfo.address
+}
+
+export type RegionMatch = 'exact' | 'partial' | 'national' | 'none' | 'unknown';
+
+export interface ProviderCandidate {
+  providerId: string;
+  provider: SmartMeterProvider;
+  confidence: number; // 0-1
+  formatMatch: ConsumerIdFormat | null;
+  regionMatch: RegionMatch;
+  reasons: string[];
+  warnings: string[];
+}
+
+export interface ConsumerIdValidation {
+  valid: boolean;
+  format: ConsumerIdFormat | null;
+  expected: string[]; // human-readable formats, for error messages
+}
+
+// Score weights
+const FORMAT_SCORE = { specific: 0.6, generic: 0.3, undeclared: 0.1 };
+const REGION_SCORE: Record<RegionMatch, number> = {
+  exact: 0.35,
+  partial: 0.25,
+  national: 0.1,
+  unknown: 0.1,
+  none: 0
+};
+
+// Common alternate spellings of Indian city names
+const PLACE_ALIASES: Record<string, string> = {
+  gurugram: 'gurgaon',
+  bengaluru: 'bangalore',
+  bombay: 'mumbai',
+  'new delhi': 'delhi',
+  'navi mumbai': 'mumbai',
+  orissa: 'odisha'
+};
+
+export class ProviderDetector {
+  constructor(private registry: ProviderAdapterRegistry = providerRegistry) {}
+
+  /**
+   * Rank providers by how likely they are to own the consumer number
+   */
+  detect(input: ProviderDetectionInput): ProviderCandidate[] {
+    const consumerId = input.consumerId?.trim() || '';
+    const places = this.getPlaces(input);
+
+    return this.registry.list()
+      .map(adapter => this.score(adapter.provider, consumerId, places))
+      .filter(candidate => candidate.confidence > 0)
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+
+  /**
+   * Check a consumer number against a provider's declared formats
+   */
+  validateConsumerId(providerId: string, consumerId: string): ConsumerIdValidation {
+    const provider = this.registry.require(providerId).provider;
+    const formats = provider.consumerIdFormats || [];
+    const format = this.matchFormat(formats, consumerId.trim());
+
+    return {
+      valid: formats.length === 0 || format !== null,
+      format,
+      expected: formats.map(f => `${f.description} (e.g. ${f.example})`)
+    };
+  }
+
+  private score(provider: SmartMeterProvider, consumerId: string, places: string[]): ProviderCandidate {
+    const reasons: string[] = [];
+    const warnings: string[] = [];
+    const formats = provider.consumerIdFormats || [];
+    let formatScore = 0;
+    let formatMatch: ConsumerIdFormat | null = null;
+
+    if (consumerId) {
+      formatMatch = this.matchFormat(formats, consumerId);
+      if (formatMatch) {
+        formatScore = formatMatch.generic ? FORMAT_SCORE.generic : FORMAT_SCORE.specific;
+        reasons.push(`Consumer ID matches ${provider.name} format: ${formatMatch.description}`);
+      } else if (formats.length === 0) {
+        formatScore = FORMAT_SCORE.undeclared;
+      } else {
+        warnings.push(
+          `Consumer ID does not match ${provider.name} format (e.g. ${formats[0].example})`
+        );
+      }
+    }
+
+    const { match: regionMatch, place } = this.matchRegion(provider, places);
+    switch (regionMatch) {
+      case 'exact':
+      case 'partial':
+        reasons.push(`${provider.name} serves ${place}`);
+        break;
+      case 'national':
+        reasons.push(`${provider.name} operates across India`);
+        break;
+      case 'none':
+        warnings.push(`${provider.name} does not list ${places[0]} in its service areas`);
+        break;
+    }
+
+    // Without a consumer ID only the region contributes
+    let confidence = formatScore + REGION_SCORE[regionMatch];
+
+    // A format that contradicts the provider outweighs a matching region
+    if (consumerId && formatScore === 0) {
+      confidence *= 0.2;
+    }
+
+    return {
+      providerId: provider.id,
+      provider,
+      confidence: Math.round(Math.min(1, confidence) * 100) / 100,
+      formatMatch,
+      regionMatch,
+      reasons,
+      warnings
+    };
+  }
+
+  private matchFormat(formats: ConsumerIdFormat[], consumerId: string): ConsumerIdFormat | null {
+    // Prefer provider-specific formats over shared numeric ones
+    return formats.find(f => !f.generic && f.pattern.test(consumerId)) ||
+      formats.find(f => f.generic && f.pattern.test(consumerId)) ||
+      null;
+  }
+
+  private matchRegion(provider: SmartMeterProvider, places: string[]): { match: RegionMatch; place?: string } {
+    if (places.length === 0) return { match: 'unknown' };
+
+    const regions = provider.regions.map(region => this.normalizePlace(region));
+    const exact = places.find(place => regions.includes(place));
+    if (exact) return { match: 'exact', place: exact };
+
+    const partial = places.find(place => regions.some(region => this.sharesWord(region, place)));
+    if (partial) return { match: 'partial', place: partial };
+
+    return { match: regions.includes('pan india') ? 'national' : 'none' };
+  }
+
+  private getPlaces(input: ProviderDetectionInput): string[] {
+    const places = [input.location, input.address?.city, input.address?.state]
+      .filter((place): place is string => !!place && place.trim().length > 0)
+      .map(place => this.normalizePlace(place))
+      .filter(place => place !== 'pan india');
+
+    return Array.from(new Set(places));
+  }
+
+  private normalizePlace(place: string): string {
+    const normalized = place.trim().toLowerCase().replace(/\s+/g, ' ');
+    return PLACE_ALIASES[normalized] || normalized;
+  }
+
+  private sharesWord(a: string, b: string): boolean {
+    const words = new Set(a.split(' '));
+    return b.split(' ').some(word => word.length > 2 && words.has(word));
+  }
+}
+
+// Export singleton instance backed by the shared provider registry
+export const providerDetector = new ProviderDetector();
+
+export function detectProviders(input: ProviderDetectionInput): ProviderCandidate[] {
+  return providerDetector.detect(input);
+}
@@ -0,0 +1,36 @@
+/**
+ * Genus Power adapter (API key auth)
+ */
+
+import type { SmartMeterProvider } from '../../smart-meter-apis';
+import { BaseProviderAdapter } from './base-adapter';
+import { apiKeyHeaders, apiKeyToken, hasApiKey } from './auth';
+import type { ProviderCredentials, ProviderToken } from './types';
+
+export const GENUS_PROVIDER: SmartMeterProvider = {
+  id: 'genus',
+  name: 'Genus Power',
+  baseUrl: 'https://api.genuspower.com/smartmeters',
+  authType: 'apiKey',
+  regions: ['Pan India'],
+  supportedFeatures: ['realtime', 'prepaid', 'billing', 'remote_control'],
+  consumerIdFormats: [
+    { pattern: /^GN\d{6,12}$/i, description: 'GN followed by 6-12 digits', example: 'GN123456789' }
+  ]
+};
+
+export class GenusAdapter extends BaseProviderAdapter {
+  readonly provider = GENUS_PROVIDER;
+
+  hasValidCredentials(credentials: ProviderCredentials): boolean {
+    return hasApiKey(credentials);
+  }
+
+  async authenticate(credentials: ProviderCredentials): Promise<ProviderToken> {
+    return apiKeyToken(credentials);
+  }
+
+  buildHeaders(accessToken: string): HeadersInit {
+    return apiKeyHeaders(accessToken);
+  }
+}
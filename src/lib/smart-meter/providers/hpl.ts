@@ -0,0 +1,37 @@
+/**
+ * Haryana Power Limited adapter (HTTP basic auth)
+ */
+
+import type { SmartMeterProvider } from '../../smart-meter-apis';
+import { BaseProviderAdapter } from './base-adapter';
+import { authorizationHeaders, basicAuthToken, hasUserCredentials } from './auth';
+import type { ProviderCredentials, ProviderToken } from './types';
+
+export const HPL_PROVIDER: SmartMeterProvider = {
+  id: 'hpl',
+  name: 'Haryana Power Limited',
+  baseUrl: 'https://hplonline.in/api/meters',
+  authType: 'basic',
+  regions: ['Gurgaon', 'Faridabad', 'Sonipat'],
+  supportedFeatures: ['realtime', 'billing'],
+  consumerIdFormats: [
+    { pattern: /^HP\d{6,12}$/i, description: 'HP followed by 6-12 digits', example: 'HP777888999' },
+    { pattern: /^\d{10}$/, description: '10-digit account number', example: '7012345678', generic: true }
+  ]
+};
+
+export class HplAdapter extends BaseProviderAdapter {
+  readonly provider = HPL_PROVIDER;
+
+  hasValidCredentials(credentials: ProviderCredentials): boolean {
+    return hasUserCredentials(credentials);
+  }
+
+  async authenticate(credentials: ProviderCredentials): Promise<ProviderToken> {
+    return basicAuthToken(credentials);
+  }
+
+  buildHeaders(accessToken: string): HeadersInit {
+    return authorizationHeaders(accessToken);
+  }
+}
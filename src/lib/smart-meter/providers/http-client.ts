@@ -0,0 +1,321 @@
+/**
+ * Resilient HTTP Client for Smart Meter Providers
+ *
+ * Shared request pipeline with per-request timeouts, exponential backoff
+ * with jitter, Retry-After support and a per-provider circuit breaker.
+ */
+
+export type ProviderErrorCode =
+  | 'TIMEOUT'
+  | 'NETWORK_ERROR'
+  | 'RATE_LIMITED'
+  | 'SERVER_ERROR'
+  | 'UNAUTHORIZED'
+  | 'CLIENT_ERROR'
+  | 'CIRCUIT_OPEN'
+  | 'UNKNOWN';
+
+export interface ProviderErrorContext {
+  providerId: string;
+  status?: number;
+  url?: string;
+  attempts?: number;
+  retryAfterMs?: number;
+  originalError?: unknown;
+}
+
+// Error Types
+export class ProviderRequestError extends Error {
+  constructor(
+    message: string,
+    public code: ProviderErrorCode,
+    public context: ProviderErrorContext
+  ) {
+    super(message);
+    this.name = 'ProviderRequestError';
+  }
+
+  /**
+   * Whether retrying later may succeed
+   */
+  get retryable(): boolean {
+    return ['TIMEOUT', 'NETWORK_ERROR', 'RATE_LIMITED', 'SERVER_ERROR', 'CIRCUIT_OPEN'].includes(this.code);
+  }
+
+  static fromResponse(providerId: string, response: Response, attempts?: number): ProviderRequestError {
+    const status = response.status;
+    let code: ProviderErrorCode = 'CLIENT_ERROR';
+    if (status === 401 || status === 403) code = 'UNAUTHORIZED';
+    else if (status === 429) code = 'RATE_LIMITED';
+    else if (status >= 500) code = 'SERVER_ERROR';
+
+    return new ProviderRequestError(
+      `HTTP ${status}: ${response.statusText}`,
+      code,
+      {
+        providerId,
+        status,
+        url: response.url,
+        attempts,
+        retryAfterMs: parseRetryAfter(response.headers.get('retry-after')) ?? undefined
+      }
+    );
+  }
+}
+
+export interface SmartMeterErrorDetails {
+  code: ProviderErrorCode;
+  message: string;
+  retryable: boolean;
+  providerId?: string;
+  status?: number;
+  retryAfterMs?: number;
+}
+
+/**
+ * Describe any thrown value in a form UI state can hold
+ */
+export function toSmartMeterErrorDetails(error: unknown): SmartMeterErrorDetails {
+  if (error instanceof ProviderRequestError) {
+    return {
+      code: error.code,
+      message: error.message,
+      retryable: error.retryable,
+      providerId: error.context.providerId,
+      status: error.context.status,
+      retryAfterMs: error.context.retryAfterMs
+    };
+  }
+
+  return {
+    code: 'UNKNOWN',
+    message: error instanceof Error ? error.message : String(error),
+    retryable: false
+  };
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
+
+type CircuitState = 'closed' | 'open' | 'half_open';
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    private failureThreshold: number,
+    private resetTimeout: number,
+    private now: () => number = () => Date.now()
+  ) {}
+
+  /**
+   * Whether a request may be sent. After the reset timeout a single
+   * trial request is let through (half-open).
+   */
+  canRequest(): boolean {
+    if (this.state === 'closed') return true;
+
+    if (this.state === 'open' && this.now() - this.openedAt >= this.resetTimeout) {
+      this.state = 'half_open';
+      this.trialInFlight = false;
+    }
+
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half_open' || this.failures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = this.now();
+    }
+  }
+
+  /**
+   * A rate-limited response: the provider is up, so it doesn't count as a
+   * failure, but a half-open trial is over and the next request may try again
+   */
+  recordRateLimited(): void {
+    this.trialInFlight = false;
+  }
+
+  remainingOpenTime(): number {
+    if (this.state !== 'open') return 0;
+    return Math.max(0, this.resetTimeout - (this.now() - this.openedAt));
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+}
+
+// Client Configuration
+interface HttpClientConfig {
+  timeout: number; // milliseconds per attempt
+  maxRetries: number;
+  baseDelay: number; // milliseconds
+  maxDelay: number; // milliseconds
+  maxRetryAfter: number; // longest Retry-After we are willing to wait, milliseconds
+  failureThreshold: number; // consecutive failures before the circuit opens
+  resetTimeout: number; // milliseconds the circuit stays open
+}
+
+const DEFAULT_CONFIG: HttpClientConfig = {
+  timeout: 10000,
+  maxRetries: 3,
+  baseDelay: 500,
+  maxDelay: 8000,
+  maxRetryAfter: 30000,
+  failureThreshold: 5,
+  resetTimeout: 60000
+};
+
+export class ProviderHttpClient {
+  private config: HttpClientConfig;
+  private breakers: Map<string, CircuitBreaker> = new Map();
+
+  constructor(config: Partial<HttpClientConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Fetch with retries. Retryable failures (timeouts, network errors, 429
+   * and 5xx) are retried and finally thrown as ProviderRequestError; other
+   * responses are returned to the caller unchanged.
+   */
+  async fetch(providerId: string, url: string, init: RequestInit = {}): Promise<Response> {
+    const breaker = this.getBreaker(providerId);
+
+    for (let attempt = 0; ; attempt++) {
+      if (!breaker.canRequest()) {
+        throw new ProviderRequestError(
+          `Circuit open for ${providerId}, skipping request`,
+          'CIRCUIT_OPEN',
+          { providerId, url, attempts: attempt, retryAfterMs: breaker.remainingOpenTime() }
+        );
+      }
+
+      let response: Response;
+      try {
+        response = await this.fetchWithTimeout(url, init);
+      } catch (error) {
+        breaker.recordFailure();
+        const failure = this.toNetworkError(providerId, url, error, attempt + 1);
+        if (attempt >= this.config.maxRetries || init.signal?.aborted) throw failure;
+
+        await this.sleep(this.backoffDelay(attempt));
+        continue;
+      }
+
+      if (response.status === 429 || response.status >= 500) {
+        // Rate limiting is not a sign of an unhealthy provider
+        if (response.status >= 500) breaker.recordFailure();
+        else breaker.recordRateLimited();
+
+        const failure = ProviderRequestError.fromResponse(providerId, response, attempt + 1);
+        const retryAfter = failure.context.retryAfterMs;
+        if (attempt >= this.config.maxRetries ||
+            (retryAfter !== undefined && retryAfter > this.config.maxRetryAfter)) {
+          throw failure;
+        }
+
+        await this.sleep(retryAfter ?? this.backoffDelay(attempt));
+        continue;
+      }
+
+      breaker.recordSuccess();
+      return response;
+    }
+  }
+
+  getCircuitState(providerId: string): CircuitState {
+    return this.getBreaker(providerId).getState();
+  }
+
+  resetCircuit(providerId?: string): void {
+    if (providerId) {
+      this.breakers.delete(providerId);
+    } else {
+      this.breakers.clear();
+    }
+  }
+
+  private getBreaker(providerId: string): CircuitBreaker {
+    let breaker = this.breakers.get(providerId);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.config.failureThreshold, this.config.resetTimeout);
+      this.breakers.set(providerId, breaker);
+    }
+    return breaker;
+  }
+
+  private async fetchWithTimeout(url: string, init: RequestInit): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeout);
+    const onAbort = () => controller.abort();
+    init.signal?.addEventListener('abort', onAbort);
+
+    try {
+      return await fetch(url, { ...init, signal: controller.signal });
+    } finally {
+      clearTimeout(timer);
+      init.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private toNetworkError(providerId: string, url: string, error: unknown, attempts: number): ProviderRequestError {
+    const timedOut = error instanceof Error && error.name === 'AbortError';
+    return new ProviderRequestError(
+      timedOut ? `Request timed out after ${this.config.timeout}ms` : `Network error: ${error instanceof Error ? error.message : error}`,
+      timedOut ? 'TIMEOUT' : 'NETWORK_ERROR',
+      { providerId, url, attempts, originalError: error }
+    );
+  }
+
+  /**
+   * Exponential backoff with full jitter
+   */
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.config.maxDelay, this.config.baseDelay * 2 ** attempt);
+    return Math.random() * ceiling;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+// Export singleton instance shared by all SmartMeterAPI instances
+export const providerHttpClient = new ProviderHttpClient();
@@ -0,0 +1,29 @@
+export * from './types';
+export { BaseProviderAdapter } from './base-adapter';
+export { ProviderAdapterRegistry, providerRegistry, getProviderAdapter } from './registry';
+export { TataPowerAdapter, TATA_POWER_PROVIDER } from './tata-power';
+export { AdaniAdapter, ADANI_PROVIDER } from './adani';
+export { BsesAdapter, BSES_PROVIDER } from './bses';
+export { HplAdapter, HPL_PROVIDER } from './hpl';
+export { SecureMetersAdapter, SECURE_METERS_PROVIDER } from './secure-meters';
+export { GenusAdapter, GENUS_PROVIDER } from './genus';
+export { QubeAdapter, QUBE_PROVIDER } from './qube';
+export { ProviderDetector, providerDetector, detectProviders } from './detection';
+export type {
+  ConsumerIdValidation,
+  DetectionAddress,
+  ProviderCandidate,
+  ProviderDetectionInput,
+  RegionMatch
+} from './detection';
+export { ProviderTokenManager, providerTokenManager } from './token-manager';
+export type { TokenSource } from './token-manager';
+export {
+  ProviderHttpClient,
+  providerHttpClient,
+  ProviderRequestError,
+  CircuitBreaker,
+  parseRetryAfter,
+  toSmartMeterErrorDetails
+} from './http-client';
+export type { ProviderErrorCode, ProviderErrorContext, SmartMeterErrorDetails } from './http-client';
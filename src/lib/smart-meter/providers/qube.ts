@@ -0,0 +1,77 @@
+/**
+ * Qube Energy Solutions adapter (OAuth client credentials)
+ */
+
+import type { SmartMeterProvider } from '../../smart-meter-apis';
+import { BaseProviderAdapter } from './base-adapter';
+import { bearerHeaders, hasClientCredentials, refreshOAuthToken, requestOAuthToken } from './auth';
+import type { ProviderCredentials, ProviderRequestContext, ProviderToken } from './types';
+
+export const QUBE_PROVIDER: SmartMeterProvider = {
+  id: 'qube',
+  name: 'Qube Energy Solutions',
+  baseUrl: 'https://qube-energy.com/api/v1/meters',
+  authType: 'oauth',
+  regions: ['Maharashtra', 'Karnataka', 'Tamil Nadu'],
+  supportedFeatures: ['realtime', 'analytics', 'billing', 'tamper'],
+  consumerIdFormats: [
+    { pattern: /^QE\d{6,12}$/i, description: 'QE followed by 6-12 digits', example: 'QE123456789' }
+  ]
+};
+
+export class QubeAdapter extends BaseProviderAdapter {
+  readonly provider = QUBE_PROVIDER;
+
+  hasValidCredentials(credentials: ProviderCredentials): boolean {
+    return hasClientCredentials(credentials);
+  }
+
+  authenticate(credentials: ProviderCredentials, context: ProviderRequestContext): Promise<ProviderToken> {
+    return requestOAuthToken(context, this.buildAuthUrl(context, '/auth/oauth/token'), credentials);
+  }
+
+  refreshToken(
+    token: ProviderToken,
+    credentials: ProviderCredentials,
+    context: ProviderRequestContext
+  ): Promise<ProviderToken> {
+    return refreshOAuthToken(context, this.buildAuthUrl(context, '/auth/oauth/token'), token, credentials);
+  }
+
+  buildHeaders(accessToken: string): HeadersInit {
+    return bearerHeaders(accessToken);
+  }
+
+  /**
+   * Qube nests values under `data.instantaneous`, `data.energy` and `data.billing`
+   */
+  protected mapReading(data: any): Record<string, any> {
+    const payload = data?.data;
+    if (!payload?.instantaneous) return data || {};
+
+    return {
+      timestamp: data.timestamp,
+      unitsConsumed: payload.energy?.active_energy_today,
+      tariffRate: payload.billing?.tariff_rate,
+      billAmount: payload.billing?.cost_today,
+      powerFactor: payload.instantaneous.power_factor,
+      frequency: payload.instantaneous.frequency,
+      maxDemand: payload.instantaneous.active_power
+    };
+  }
+
+  /**
+   * Qube reports tamper as a comma-separated `data.status.tamper_status`
+   * ('normal' when clear) with the time the oldest flag was raised
+   */
+  protected mapTamperEvents(data: any): any[] {
+    const status = data?.data?.status;
+    if (!status?.tamper_status) return super.mapTamperEvents(data);
+
+    return String(status.tamper_status)
+      .split(',')
+      .map(code => code.trim())
+      .filter(code => code && code !== 'normal')
+      .map(code => ({ code, detectedAt: status.tamper_since || data.timestamp }));
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Provider Adapter Registry
+ *
+ * Looks up provider adapters by provider id. New DISCOM integrations add an
+ * adapter module and register it here (or at runtime via `register`).
+ */
+
+import { TataPowerAdapter } from './tata-power';
+import { AdaniAdapter } from './adani';
+import { BsesAdapter } from './bses';
+import { HplAdapter } from './hpl';
+import { SecureMetersAdapter } from './secure-meters';
+import { GenusAdapter } from './genus';
+import { QubeAdapter } from './qube';
+import type { ProviderAdapter } from './types';
+
+export class ProviderAdapterRegistry {
+  private adapters: Map<string, ProviderAdapter> = new Map();
+
+  register(adapter: ProviderAdapter): void {
+    this.adapters.set(adapter.provider.id, adapter);
+  }
+
+  unregister(providerId: string): boolean {
+    return this.adapters.delete(providerId);
+  }
+
+  has(providerId: string): boolean {
+    return this.adapters.has(providerId);
+  }
+
+  get(providerId: string): ProviderAdapter | undefined {
+    return this.adapters.get(providerId);
+  }
+
+  /**
+   * Get an adapter, throwing if the provider is unknown
+   */
+  require(providerId: string): ProviderAdapter {
+    const adapter = this.adapters.get(providerId);
+    if (!adapter) {
+      throw new Error(`Provider ${providerId} not supported`);
+    }
+    return adapter;
+  }
+
+  list(): ProviderAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+}
+
+// Export singleton instance with the built-in adapters
+export const providerRegistry = new ProviderAdapterRegistry();
+
+[
+  new TataPowerAdapter(),
+  new AdaniAdapter(),
+  new BsesAdapter(),
+  new HplAdapter(),
+  new SecureMetersAdapter(),
+  new GenusAdapter(),
+  new QubeAdapter()
+].forEach(adapter => providerRegistry.register(adapter));
+
+export function getProviderAdapter(providerId: string): ProviderAdapter {
+  return providerRegistry.require(providerId);
+}
@@ -0,0 +1,71 @@
+/**
+ * Secure Meters (L&T) adapter (JWT auth)
+ */
+
+import type { SmartMeterProvider } from '../../smart-meter-apis';
+import { BaseProviderAdapter } from './base-adapter';
+import { bearerHeaders, hasUserCredentials, requestJwtToken } from './auth';
+import type { ProviderCredentials, ProviderRequestContext, ProviderToken } from './types';
+
+export const SECURE_METERS_PROVIDER: SmartMeterProvider = {
+  id: 'secure_meters',
+  name: 'Secure Meters (L&T)',
+  baseUrl: 'https://securemeters.com/api/energy',
+  authType: 'jwt',
+  regions: ['Pan India'],
+  supportedFeatures: ['realtime', 'analytics', 'billing', 'quality', 'tamper'],
+  consumerIdFormats: [
+    { pattern: /^SM\d{6,12}$/i, description: 'SM followed by 6-12 digits', example: 'SM123456789' }
+  ]
+};
+
+export class SecureMetersAdapter extends BaseProviderAdapter {
+  readonly provider = SECURE_METERS_PROVIDER;
+
+  hasValidCredentials(credentials: ProviderCredentials): boolean {
+    return hasUserCredentials(credentials);
+  }
+
+  authenticate(credentials: ProviderCredentials, context: ProviderRequestContext): Promise<ProviderToken> {
+    return requestJwtToken(context, this.buildAuthUrl(context, '/auth/login'), credentials);
+  }
+
+  buildHeaders(accessToken: string): HeadersInit {
+    return bearerHeaders(accessToken);
+  }
+
+  /**
+   * Secure devices report under `readings` with unit-suffixed keys
+   */
+  protected mapReading(data: any): Record<string, any> {
+    const readings = data?.readings;
+    if (!readings) return data || {};
+
+    return {
+      timestamp: data.timestamp,
+      currentReading: readings.cumulative_kwh,
+      unitsConsumed: readings.energy_kwh,
+      voltage: readings.voltage_v !== undefined
+        ? { r: readings.voltage_v, y: readings.voltage_v, b: readings.voltage_v }
+        : undefined,
+      powerFactor: readings.power_factor,
+      frequency: readings.frequency_hz,
+      energyImported: readings.cumulative_kwh
+    };
+  }
+
+  /**
+   * Secure devices keep a tamper log under `status.tamper_events`
+   */
+  protected mapTamperEvents(data: any): any[] {
+    const events = data?.status?.tamper_events;
+    if (!Array.isArray(events)) return super.mapTamperEvents(data);
+
+    return events.map(event => ({
+      eventId: event.event_id,
+      code: event.tamper_code,
+      detectedAt: event.occurred_at,
+      clearedAt: event.restored_at
+    }));
+  }
+}
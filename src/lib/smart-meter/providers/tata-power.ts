@@ -0,0 +1,47 @@
+/**
+ * Tata Power smart meter adapter (JWT auth)
+ */
+
+import type { SmartMeterProvider } from '../../smart-meter-apis';
+import { BaseProviderAdapter } from './base-adapter';
+import { bearerHeaders, hasUserCredentials, requestJwtToken } from './auth';
+import type { ProviderCredentials, ProviderRequestContext, ProviderToken } from './types';
+
+export const TATA_POWER_PROVIDER: SmartMeterProvider = {
+  id: 'tata_power',
+  name: 'Tata Power',
+  baseUrl: 'https://wss.tatapower.com/api/smartmeter',
+  authType: 'jwt',
+  regions: ['Mumbai', 'Delhi', 'Odisha', 'Jharkhand'],
+  supportedFeatures: ['realtime', 'billing', 'demand', 'quality', 'outage'],
+  consumerIdFormats: [
+    { pattern: /^TP\d{6,12}$/i, description: 'TP followed by 6-12 digits', example: 'TP123456789' },
+    { pattern: /^\d{11,12}$/, description: '11 or 12-digit CA number', example: '60012345678', generic: true }
+  ]
+};
+
+export class TataPowerAdapter extends BaseProviderAdapter {
+  readonly provider = TATA_POWER_PROVIDER;
+
+  hasValidCredentials(credentials: ProviderCredentials): boolean {
+    return hasUserCredentials(credentials);
+  }
+
+  authenticate(credentials: ProviderCredentials, context: ProviderRequestContext): Promise<ProviderToken> {
+    return requestJwtToken(context, this.buildAuthUrl(context, '/auth/login'), credentials);
+  }
+
+  buildHeaders(accessToken: string): HeadersInit {
+    return bearerHeaders(accessToken);
+  }
+
+  protected mapReading(data: any): Record<string, any> {
+    const payload = data?.meterData || data || {};
+    return {
+      ...payload,
+      currentReading: payload.currentReading ?? payload.kwhReading,
+      previousReading: payload.previousReading ?? payload.lastKwhReading,
+      maxDemand: payload.maxDemand ?? payload.mdKw
+    };
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Provider Token Manager
+ *
+ * Caches access tokens per provider + consumer, honours token expiry,
+ * refreshes ahead of expiry and serialises concurrent refreshes so that
+ * parallel requests share a single authentication round-trip.
+ */
+
+import type { ProviderToken } from './types';
+
+export interface TokenSource {
+  authenticate: () => Promise<ProviderToken>;
+  refresh?: (token: ProviderToken) => Promise<ProviderToken>;
+}
+
+interface TokenManagerConfig {
+  refreshMargin: number; // milliseconds before expiry to refresh
+  now: () => number;
+}
+
+const DEFAULT_CONFIG: TokenManagerConfig = {
+  refreshMargin: 60 * 1000, // 1 minute
+  now: () => Date.now()
+};
+
+export class ProviderTokenManager {
+  private config: TokenManagerConfig;
+  private tokens: Map<string, ProviderToken> = new Map();
+  private pending: Map<string, Promise<ProviderToken>> = new Map();
+
+  constructor(config: Partial<TokenManagerConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  static key(providerId: string, consumerId: string): string {
+    return `${providerId}:${consumerId}`;
+  }
+
+  /**
+   * Get a valid access token, authenticating or refreshing when needed
+   */
+  async getToken(key: string, source: TokenSource): Promise<ProviderToken> {
+    const cached = this.tokens.get(key);
+    if (cached && !this.needsRefresh(cached)) {
+      return cached;
+    }
+
+    return this.renew(key, source);
+  }
+
+  /**
+   * Force a new token, e.g. after the provider rejected the cached one.
+   * Concurrent callers share the same in-flight renewal.
+   */
+  renew(key: string, source: TokenSource): Promise<ProviderToken> {
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight;
+
+    const renewal = this.obtainToken(key, source).finally(() => {
+      this.pending.delete(key);
+    });
+
+    this.pending.set(key, renewal);
+    return renewal;
+  }
+
+  /**
+   * Handle a token the provider rejected (HTTP 401). If another caller has
+   * already replaced it, reuse the replacement instead of renewing again.
+   */
+  async handleRejected(key: string, rejected: ProviderToken, source: TokenSource): Promise<ProviderToken> {
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight;
+
+    const cached = this.tokens.get(key);
+    if (cached && cached.accessToken !== rejected.accessToken && !this.needsRefresh(cached)) {
+      return cached;
+    }
+
+    return this.renew(key, source);
+  }
+
+  /**
+   * Drop a cached token so the next request re-authenticates
+   */
+  invalidate(key: string, accessToken?: string): void {
+    const cached = this.tokens.get(key);
+    if (!cached) return;
+
+    // Only drop the token the caller saw rejected, not a newer one
+    if (!accessToken || cached.accessToken === accessToken) {
+      this.tokens.delete(key);
+    }
+  }
+
+  peek(key: string): ProviderToken | null {
+    return this.tokens.get(key) || null;
+  }
+
+  clear(): void {
+    this.tokens.clear();
+    this.pending.clear();
+  }
+
+  isExpired(token: ProviderToken): boolean {
+    return token.expiresAt !== undefined && token.expiresAt <= this.config.now();
+  }
+
+  private needsRefresh(token: ProviderToken): boolean {
+    return token.expiresAt !== undefined &&
+      token.expiresAt - this.config.refreshMargin <= this.config.now();
+  }
+
+  private async obtainToken(key: string, source: TokenSource): Promise<ProviderToken> {
+    const current = this.tokens.get(key);
+    let token: ProviderToken | null = null;
+
+    if (current?.refreshToken && source.refresh) {
+      try {
+        token = await source.refresh(current);
+      } catch (error) {
+        console.warn(`Token refresh failed for ${key}, re-authenticating:`, error);
+      }
+    }
+
+    if (!token) {
+      try {
+        token = await source.authenticate();
+      } catch (error) {
+        this.tokens.delete(key);
+        throw error;
+      }
+    }
+
+    this.tokens.set(key, token);
+    return token;
+  }
+}
+
+// Export singleton instance shared by all SmartMeterAPI instances
+export const providerTokenManager = new ProviderTokenManager();
@@ -0,0 +1,195 @@
+/**
+ * Smart Meter Provider Adapter Contract
+ *
+ * Every utility (DISCOM) integration implements this interface so that
+ * SmartMeterAPI can talk to any provider without provider-specific branches.
+ */
+
+import type { SmartMeterProvider, SmartMeterReading } from '../../smart-meter-apis';
+
+export type ProviderFeature =
+  | 'realtime'
+  | 'billing'
+  | 'demand'
+  | 'quality'
+  | 'outage'
+  | 'prepaid'
+  | 'complaints'
+  | 'analytics'
+  | 'tamper'
+  | 'remote_control';
+
+export interface ProviderCredentials {
+  apiKey?: string;
+  username?: string;
+  password?: string;
+  clientId?: string;
+  clientSecret?: string;
+  token?: string;
+}
+
+/**
+ * Access token issued by a provider. `expiresAt` is epoch milliseconds;
+ * tokens without it (API keys, basic auth) never expire.
+ */
+export interface ProviderToken {
+  accessToken: string;
+  tokenType?: string;
+  refreshToken?: string;
+  expiresAt?: number;
+}
+
+export interface ProviderCapabilities {
+  realtime: boolean;
+  history: boolean;
+  billing: boolean;
+  demand: boolean;
+  quality: boolean;
+  outage: boolean;
+  prepaid: boolean;
+  tamper: boolean;
+  analytics: boolean;
+  remoteControl: boolean;
+}
+
+export type ProviderResource =
+  | 'current'
+  | 'realtime'
+  | 'history'
+  | 'billing'
+  | 'prepaid-balance'
+  | 'recharge-history'
+  | 'outage-status'
+  | 'tamper-status';
+
+/**
+ * Per-call context handed to an adapter by SmartMeterAPI.
+ * `mock` requests go to the local /api/mock-smart-meter route.
+ */
+export interface ProviderRequestContext {
+  providerId: string;
+  baseUrl: string;
+  mock: boolean;
+  headers: HeadersInit;
+  fetch: (url: string, init?: RequestInit) => Promise<Response>;
+}
+
+export interface RealTimeConsumption {
+  instantPower: number;
+  voltage: number;
+  current: number;
+  frequency: number;
+  powerFactor: number;
+  timestamp: string;
+}
+
+export interface ProviderBillingInfo {
+  billNumber: string;
+  billDate: string;
+  dueDate: string;
+  unitsConsumed: number;
+  amount: number;
+  status: 'paid' | 'unpaid' | 'overdue';
+  tariffDetails: any;
+  netMetering?: {
+    importedUnits: number;
+    exportedUnits: number;
+    bankedUnits: number; // carried forward to the next cycle
+    exportCredit: number;
+  };
+}
+
+export interface PrepaidBalance {
+  balance: number; // currency units; negative while running on emergency credit
+  currency: string;
+  emergencyCredit: number; // credit still available after the balance runs out
+  tariffRate: number; // per kWh, for converting balance into units
+  status: 'active' | 'low' | 'emergency' | 'disconnected';
+  lastRecharge?: {
+    amount: number;
+    date: string;
+  };
+  timestamp: string;
+}
+
+export interface RechargeRecord {
+  transactionId: string;
+  amount: number;
+  unitsCredited?: number;
+  date: string;
+  channel: string; // e.g. upi, netbanking, counter
+  status: 'success' | 'pending' | 'failed';
+}
+
+export interface ProviderOutage {
+  outageId: string;
+  type: 'planned' | 'unplanned';
+  area?: string;
+  reason?: string;
+  startTime: string;
+  estimatedRestoration?: string;
+}
+
+export interface ProviderOutageStatus {
+  consumerId: string;
+  supplyAvailable: boolean;
+  outages: ProviderOutage[]; // current and upcoming outages affecting the consumer
+  timestamp: string;
+}
+
+export type TamperType = 'magnetic' | 'cover_open' | 'neutral_disturbance' | 'reverse_current';
+
+/**
+ * Tamper event reported by the meter. Providers use their own codes; `code`
+ * keeps the original for support tickets with the DISCOM.
+ */
+export interface TamperEvent {
+  eventId: string;
+  type: TamperType;
+  code: string;
+  active: boolean; // false once the meter reports the condition cleared
+  detectedAt: string;
+  clearedAt?: string;
+}
+
+export interface ProviderTamperStatus {
+  consumerId: string;
+  tampered: boolean; // any event still active
+  events: TamperEvent[];
+  timestamp: string;
+}
+
+export interface ProviderAdapter {
+  readonly provider: SmartMeterProvider;
+  readonly capabilities: ProviderCapabilities;
+
+  hasValidCredentials(credentials: ProviderCredentials): boolean;
+  authenticate(credentials: ProviderCredentials, context: ProviderRequestContext): Promise<ProviderToken>;
+  refreshToken?(
+    token: ProviderToken,
+    credentials: ProviderCredentials,
+    context: ProviderRequestContext
+  ): Promise<ProviderToken>;
+  buildHeaders(accessToken: string): HeadersInit;
+
+  getCurrentReading(context: ProviderRequestContext, consumerId: string): Promise<SmartMeterReading>;
+  getHistoricalReadings(
+    context: ProviderRequestContext,
+    consumerId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<SmartMeterReading[]>;
+  getRealTimeConsumption(context: ProviderRequestContext, consumerId: string): Promise<RealTimeConsumption>;
+  getBillingInfo(context: ProviderRequestContext, consumerId: string, month?: string): Promise<ProviderBillingInfo>;
+  getPrepaidBalance(context: ProviderRequestContext, consumerId: string): Promise<PrepaidBalance>;
+  getRechargeHistory(
+    context: ProviderRequestContext,
+    consumerId: string,
+    startDate?: string,
+    endDate?: string
+  ): Promise<RechargeRecord[]>;
+  getOutageStatus(context: ProviderRequestContext, consumerId: string): Promise<ProviderOutageStatus>;
+  getTamperStatus(context: ProviderRequestContext, consumerId: string): Promise<ProviderTamperStatus>;
+
+  normalizeReading(data: any, consumerId: string): SmartMeterReading;
+}
@@ -0,0 +1,563 @@
+/**
+ * Reading Ingestion Pipeline
+ *
+ * The write path for energy readings. Readings are validated against the
+ * EnergyReading schema, deduplicated by meter, device and timestamp,
+ * buffered and written with Firestore batches together with 15-minute,
+ * hourly and daily rollups, so dashboards read a handful of rollup documents
+ * instead of scanning raw readings.
+ */
+
+import { Timestamp, increment } from 'firebase/firestore';
+import { z } from 'zod';
+import { firestoreService, BatchOperation } from '../firebase/firestore-service';
+import { COLLECTIONS, EnergyReading, ReadingRollup, RollupResolution } from '../firebase/schema';
+import { isValidTimeZone, zonedDate, zonedInstant } from '../automation/schedule-times';
+
+export type ReadingData = Omit<EnergyReading, 'id' | 'createdAt' | 'updatedAt'>;
+
+export const timestampSchema = z.custom<Timestamp>(value => value instanceof Timestamp, 'Expected a Firestore Timestamp');
+const ratioSchema = z.number().min(0).max(1);
+const phaseSchema = z.object({
+  r: z.number().nonnegative().optional(),
+  y: z.number().nonnegative().optional(),
+  b: z.number().nonnegative().optional(),
+  average: z.number().nonnegative()
+});
+
+// Runtime counterpart of EnergyReading (without the document fields)
+export const ReadingDataSchema = z.object({
+  userId: z.string().min(1),
+  smartMeterId: z.string().min(1),
+  deviceId: z.string().min(1).optional(),
+  reading: z.object({
+    timestamp: timestampSchema,
+    instantPower: z.number().nonnegative(),
+    energy: z.number().nonnegative(),
+    voltage: phaseSchema,
+    current: phaseSchema,
+    frequency: z.number().nonnegative(), // 0 during a supply outage
+    powerFactor: ratioSchema
+  }),
+  metrics: z.object({
+    cost: z.number().nonnegative(),
+    co2Emissions: z.number().nonnegative(),
+    efficiency: z.number().min(0).max(10),
+    demand: z.number().nonnegative()
+  }),
+  quality: z.object({
+    reliability: ratioSchema,
+    accuracy: ratioSchema,
+    source: z.enum(['meter', 'estimated', 'interpolated']),
+    confidence: ratioSchema
+  }),
+  context: z.object({
+    weather: z.object({
+      temperature: z.number(),
+      humidity: z.number(),
+      condition: z.string()
+    }).optional(),
+    occupancy: z.boolean().optional(),
+    timeOfUse: z.enum(['peak', 'off_peak', 'standard']),
+    season: z.enum(['spring', 'summer', 'autumn', 'winter'])
+  })
+});
+
+export const ROLLUP_RESOLUTIONS: RollupResolution[] = ['15m', '1h', '1d'];
+
+const RESOLUTION_MS: Record<RollupResolution, number> = {
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000
+};
+
+const MINUTE_MS = 60 * 1000;
+
+// Firestore rejects batches with more writes than this
+const MAX_BATCH_WRITES = 500;
+
+// Ingestion Configuration
+interface IngestionConfig {
+  batchSize: number; // buffered readings that trigger a flush
+  flushInterval: number; // ms before a partly filled buffer is flushed
+  maxBufferSize: number; // readings held while writes keep failing; the oldest are dropped beyond this
+  maxClockSkew: number; // ms a reading may be ahead of this clock
+  dedupeWindow: number; // written reading IDs remembered to skip repeats without a query
+  timeZone: string; // bucket boundaries for meters whose zone hasn't been set (see setMeterTimeZone)
+}
+
+const DEFAULT_CONFIG: IngestionConfig = {
+  batchSize: 100,
+  flushInterval: 10 * 1000,
+  maxBufferSize: 5000,
+  maxClockSkew: 5 * 60 * 1000,
+  dedupeWindow: 10000,
+  timeZone: 'Asia/Kolkata'
+};
+
+export interface IngestResult {
+  accepted: boolean;
+  id: string;
+  reason?: 'invalid' | 'duplicate';
+  issues?: z.ZodIssue[];
+}
+
+export interface FlushResult {
+  written: number;
+  skipped: number; // already stored
+  skippedIds: string[];
+  failed: number; // kept in the buffer for the next flush
+  rollupsUpdated: number;
+  meterIds: string[]; // meters with newly written readings
+}
+
+type FlushListener = (result: FlushResult) => void;
+
+interface RollupDelta {
+  userId: string;
+  smartMeterId: string;
+  deviceId?: string;
+  resolution: RollupResolution;
+  periodStart: number;
+  samples: number;
+  energy: number;
+  cost: number;
+  co2Emissions: number;
+  powerSum: number;
+  peakPower: number;
+  voltageSum: number;
+  powerFactorSum: number;
+}
+
+/**
+ * Average values of a rollup
+ */
+export function rollupAverages(rollup: ReadingRollup): { power: number; voltage: number; powerFactor: number } {
+  const samples = Math.max(1, rollup.samples);
+  return {
+    power: rollup.powerSum / samples,
+    voltage: rollup.voltageSum / samples,
+    powerFactor: rollup.powerFactorSum / samples
+  };
+}
+
+export type ReadingQuality = 'excellent' | 'good' | 'fair' | 'poor';
+
+// Confidence in a reading by its electrical quality
+export const QUALITY_CONFIDENCE: Record<ReadingQuality, number> = {
+  excellent: 1,
+  good: 0.85,
+  fair: 0.7,
+  poor: 0.5
+};
+
+/**
+ * Reliability of a reading; each anomaly detected in it makes it less reliable
+ */
+export function readingReliability(anomalyCount: number): number {
+  return Math.max(0.4, 1 - anomalyCount * 0.15);
+}
+
+/**
+ * Tariff period of an hour of the day: the 18:00-22:00 peak and 22:00-06:00 off-peak
+ */
+export function timeOfUseAt(hour: number): ReadingData['context']['timeOfUse'] {
+  return hour >= 18 && hour < 22 ? 'peak' : hour >= 22 || hour < 6 ? 'off_peak' : 'standard';
+}
+
+/**
+ * Tariff period and season of a reading taken at `date`, by the wall clock
+ * in the meter's time zone
+ */
+export function readingContext(date: Date, timeZone: string): ReadingData['context'] {
+  const zoned = zonedDate(date, timeZone);
+  const month = zoned.month - 1;
+
+  return {
+    timeOfUse: timeOfUseAt(Math.floor(zoned.minutes / 60)),
+    season: month >= 2 && month <= 4 ? 'spring'
+      : month >= 5 && month <= 7 ? 'summer'
+      : month >= 8 && month <= 10 ? 'autumn'
+      : 'winter'
+  };
+}
+
+export class ReadingIngestionPipeline {
+  private config: IngestionConfig;
+  private buffer = new Map<string, ReadingData>(); // by reading ID, in arrival order
+  private recentIds = new Set<string>();
+  private meterTimeZones = new Map<string, string>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushQueue: Promise<unknown> = Promise.resolve();
+  private listeners: FlushListener[] = [];
+
+  constructor(config: Partial<IngestionConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Deterministic document ID for a reading, shared with the history backfill
+   */
+  static readingId(smartMeterId: string, timestamp: number, deviceId?: string): string {
+    return deviceId ? `${smartMeterId}_${deviceId}_${timestamp}` : `${smartMeterId}_${timestamp}`;
+  }
+
+  static rollupId(smartMeterId: string, resolution: RollupResolution, periodStart: number, deviceId?: string): string {
+    return `${smartMeterId}_${deviceId || 'meter'}_${resolution}_${periodStart}`;
+  }
+
+  /**
+   * Validate a reading and buffer it for the next batch write
+   */
+  ingest(reading: ReadingData, now: Date = new Date()): IngestResult {
+    const parsed = ReadingDataSchema.safeParse(reading);
+    if (!parsed.success) {
+      return { accepted: false, id: '', reason: 'invalid', issues: parsed.error.issues };
+    }
+
+    const timestamp = reading.reading.timestamp.toMillis();
+    const id = ReadingIngestionPipeline.readingId(reading.smartMeterId, timestamp, reading.deviceId);
+
+    if (timestamp > now.getTime() + this.config.maxClockSkew) {
+      return {
+        accepted: false,
+        id,
+        reason: 'invalid',
+        issues: [{ code: 'custom', path: ['reading', 'timestamp'], message: 'Reading timestamp is in the future' }]
+      };
+    }
+
+    if (this.buffer.has(id) || this.recentIds.has(id)) {
+      return { accepted: false, id, reason: 'duplicate' };
+    }
+
+    this.buffer.set(id, reading);
+    this.trimBuffer();
+
+    if (this.buffer.size >= this.config.batchSize) {
+      void this.flush();
+    } else {
+      this.scheduleFlush();
+    }
+
+    return { accepted: true, id };
+  }
+
+  /**
+   * Write everything buffered. Never throws: readings that fail to write stay
+   * buffered and are reported as `failed`.
+   */
+  flush(): Promise<FlushResult> {
+    const run = this.flushQueue.then(() => this.drain());
+    this.flushQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Be told about each completed flush (e.g. to refresh meter statistics)
+   */
+  onFlush(listener: FlushListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  get bufferedCount(): number {
+    return this.buffer.size;
+  }
+
+  /**
+   * Whether a reading is still waiting to be written
+   */
+  isBuffered(id: string): boolean {
+    return this.buffer.has(id);
+  }
+
+  /**
+   * Set the time zone a meter's buckets follow, from its config; an invalid
+   * zone leaves the meter on the default
+   */
+  setMeterTimeZone(smartMeterId: string, timeZone: string): void {
+    if (isValidTimeZone(timeZone)) {
+      this.meterTimeZones.set(smartMeterId, timeZone);
+    } else {
+      this.meterTimeZones.delete(smartMeterId);
+    }
+  }
+
+  /**
+   * Time zone of a meter's buckets and reading context
+   */
+  timeZoneOf(smartMeterId: string): string {
+    return this.meterTimeZones.get(smartMeterId) ?? this.config.timeZone;
+  }
+
+  /**
+   * Start of the meter's bucket containing `date`
+   */
+  periodStart(date: Date, resolution: RollupResolution, smartMeterId: string): Date {
+    return new Date(this.bucketStart(date.getTime(), resolution, this.timeZoneOf(smartMeterId)));
+  }
+
+  /**
+   * Start of the month containing `date`, in the meter's time zone
+   */
+  monthStart(date: Date, smartMeterId: string): Date {
+    const timeZone = this.timeZoneOf(smartMeterId);
+    const zoned = zonedDate(date, timeZone);
+    return zonedInstant(zoned.year, zoned.month, 1, 0, timeZone);
+  }
+
+  /**
+   * Rollups for a meter, oldest first. Without a device ID, rollups of every
+   * device on the meter and of the meter itself are returned.
+   */
+  async getRollups(
+    smartMeterId: string,
+    resolution: RollupResolution,
+    startDate: Date,
+    endDate: Date,
+    deviceId?: string
+  ): Promise<ReadingRollup[]> {
+    const rollups = await firestoreService.getReadingRollups(
+      smartMeterId,
+      resolution,
+      Timestamp.fromMillis(this.bucketStart(startDate.getTime(), resolution, this.timeZoneOf(smartMeterId))),
+      Timestamp.fromDate(endDate)
+    );
+    return deviceId ? rollups.filter(rollup => rollup.deviceId === deviceId) : rollups;
+  }
+
+  private async drain(): Promise<FlushResult> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const result: FlushResult = { written: 0, skipped: 0, skippedIds: [], failed: 0, rollupsUpdated: 0, meterIds: [] };
+    const pending = Array.from(this.buffer.entries());
+    this.buffer.clear();
+
+    const byMeter = new Map<string, Array<[string, ReadingData]>>();
+    for (const entry of pending) {
+      const meterId = entry[1].smartMeterId;
+      byMeter.set(meterId, [...(byMeter.get(meterId) || []), entry]);
+    }
+
+    for (const [meterId, entries] of byMeter) {
+      try {
+        const fresh = await this.withoutStored(meterId, entries);
+        const freshIds = new Set(fresh.map(([id]) => id));
+        entries.forEach(([id]) => !freshIds.has(id) && result.skippedIds.push(id));
+        result.skipped += entries.length - fresh.length;
+
+        for (const chunk of this.chunk(fresh)) {
+          try {
+            result.rollupsUpdated += await this.writeChunk(chunk);
+            result.written += chunk.length;
+            if (!result.meterIds.includes(meterId)) result.meterIds.push(meterId);
+          } catch (error) {
+            console.error(`Failed to write readings for meter ${meterId}:`, error);
+            this.requeue(chunk);
+            result.failed += chunk.length;
+          }
+        }
+      } catch (error) {
+        console.error(`Failed to check stored readings for meter ${meterId}:`, error);
+        this.requeue(entries);
+        result.failed += entries.length;
+      }
+    }
+
+    if (this.buffer.size > 0) this.scheduleFlush();
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(result);
+      } catch (error) {
+        console.error('Error in ingestion flush listener:', error);
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Drop readings already stored, whether written here or by another client.
+   * Reading IDs are deterministic, so only the IDs in hand are looked up.
+   */
+  private async withoutStored(meterId: string, entries: Array<[string, ReadingData]>): Promise<Array<[string, ReadingData]>> {
+    const unseen = entries.filter(([id]) => !this.recentIds.has(id));
+    if (unseen.length === 0) return [];
+
+    const storedIds = await firestoreService.existingIds(
+      COLLECTIONS.READINGS,
+      unseen.map(([id]) => id),
+      [['userId', '==', unseen[0][1].userId], ['smartMeterId', '==', meterId]]
+    );
+
+    return unseen.filter(([id]) => !storedIds.has(id));
+  }
+
+  /**
+   * Split readings so each batch, with its rollup writes, stays within Firestore's limit
+   */
+  private chunk(entries: Array<[string, ReadingData]>): Array<Array<[string, ReadingData]>> {
+    const chunks: Array<Array<[string, ReadingData]>> = [];
+    let current: Array<[string, ReadingData]> = [];
+    let rollupIds = new Set<string>();
+
+    for (const entry of entries) {
+      const ids = ROLLUP_RESOLUTIONS.map(resolution => this.rollupIdFor(entry[1], resolution));
+      const added = ids.filter(id => !rollupIds.has(id)).length;
+
+      if (current.length > 0 && current.length + 1 + rollupIds.size + added > MAX_BATCH_WRITES) {
+        chunks.push(current);
+        current = [];
+        rollupIds = new Set();
+      }
+
+      current.push(entry);
+      ids.forEach(id => rollupIds.add(id));
+    }
+
+    if (current.length > 0) chunks.push(current);
+    return chunks;
+  }
+
+  /**
+   * Write readings and their rollups in one transaction; returns the number of rollups updated
+   */
+  private async writeChunk(entries: Array<[string, ReadingData]>): Promise<number> {
+    const deltas = new Map<string, RollupDelta>();
+    for (const [, reading] of entries) {
+      for (const resolution of ROLLUP_RESOLUTIONS) {
+        this.addToRollup(deltas, reading, resolution);
+      }
+    }
+
+    const operations: BatchOperation[] = entries.map(([id, reading]) => ({
+      type: 'set' as const,
+      collection: COLLECTIONS.READINGS,
+      id,
+      data: reading
+    }));
+
+    for (const [id, delta] of deltas) {
+      operations.push({
+        type: 'set',
+        collection: COLLECTIONS.READING_ROLLUPS,
+        id,
+        merge: true,
+        data: {
+          userId: delta.userId,
+          smartMeterId: delta.smartMeterId,
+          ...(delta.deviceId && { deviceId: delta.deviceId }),
+          resolution: delta.resolution,
+          periodStart: Timestamp.fromMillis(delta.periodStart),
+          samples: increment(delta.samples),
+          energy: increment(delta.energy),
+          cost: increment(delta.cost),
+          co2Emissions: increment(delta.co2Emissions),
+          powerSum: increment(delta.powerSum),
+          voltageSum: increment(delta.voltageSum),
+          powerFactorSum: increment(delta.powerFactorSum)
+        },
+        // Compared with the stored peak in the same transaction, so concurrent writers can't lower it
+        maximum: { peakPower: delta.peakPower }
+      });
+    }
+
+    await firestoreService.batch(operations);
+
+    entries.forEach(([id]) => this.rememberId(id));
+    return deltas.size;
+  }
+
+  private addToRollup(deltas: Map<string, RollupDelta>, reading: ReadingData, resolution: RollupResolution): void {
+    const id = this.rollupIdFor(reading, resolution);
+    const delta = deltas.get(id) ?? {
+      userId: reading.userId,
+      smartMeterId: reading.smartMeterId,
+      ...(reading.deviceId && { deviceId: reading.deviceId }),
+      resolution,
+      periodStart: this.bucketStart(reading.reading.timestamp.toMillis(), resolution, this.timeZoneOf(reading.smartMeterId)),
+      samples: 0,
+      energy: 0,
+      cost: 0,
+      co2Emissions: 0,
+      powerSum: 0,
+      peakPower: 0,
+      voltageSum: 0,
+      powerFactorSum: 0
+    };
+
+    delta.samples += 1;
+    delta.energy += reading.reading.energy;
+    delta.cost += reading.metrics.cost;
+    delta.co2Emissions += reading.metrics.co2Emissions;
+    delta.powerSum += reading.reading.instantPower;
+    delta.peakPower = Math.max(delta.peakPower, reading.reading.instantPower);
+    delta.voltageSum += reading.reading.voltage.average;
+    delta.powerFactorSum += reading.reading.powerFactor;
+    deltas.set(id, delta);
+  }
+
+  private rollupIdFor(reading: ReadingData, resolution: RollupResolution): string {
+    return ReadingIngestionPipeline.rollupId(
+      reading.smartMeterId,
+      resolution,
+      this.bucketStart(reading.reading.timestamp.toMillis(), resolution, this.timeZoneOf(reading.smartMeterId)),
+      reading.deviceId
+    );
+  }
+
+  /**
+   * Buckets follow the wall clock in the zone: days start at local midnight
+   * (23 or 25 hours long across a daylight-saving change) and 15-minute and
+   * hourly buckets start on the local quarter hour and hour
+   */
+  private bucketStart(timestamp: number, resolution: RollupResolution, timeZone: string): number {
+    const zoned = zonedDate(new Date(timestamp), timeZone);
+    if (resolution === '1d') {
+      return zonedInstant(zoned.year, zoned.month, zoned.day, 0, timeZone).getTime();
+    }
+
+    const sizeMinutes = RESOLUTION_MS[resolution] / MINUTE_MS;
+    return timestamp - timestamp % MINUTE_MS - (zoned.minutes % sizeMinutes) * MINUTE_MS;
+  }
+
+  private requeue(entries: Array<[string, ReadingData]>): void {
+    // Failed readings go back ahead of anything that arrived meanwhile
+    const newer = Array.from(this.buffer.entries());
+    this.buffer = new Map([...entries, ...newer]);
+    this.trimBuffer();
+  }
+
+  private trimBuffer(): void {
+    const excess = this.buffer.size - this.config.maxBufferSize;
+    if (excess <= 0) return;
+
+    console.error(`Reading buffer full, dropping ${excess} oldest readings`);
+    Array.from(this.buffer.keys()).slice(0, excess).forEach(id => this.buffer.delete(id));
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      void this.flush();
+    }, this.config.flushInterval);
+  }
+
+  private rememberId(id: string): void {
+    this.recentIds.add(id);
+    if (this.recentIds.size > this.config.dedupeWindow) {
+      this.recentIds.delete(this.recentIds.values().next().value!);
+    }
+  }
+}
+
+// Export singleton instance
+export const readingIngestion = new ReadingIngestionPipeline();
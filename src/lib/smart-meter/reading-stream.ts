@@ -0,0 +1,253 @@
+/**
+ * Live Meter Reading Stream
+ *
+ * Pushes canonical readings to clients as server-sent events. Each meter has
+ * one shared channel that samples the gateway while anyone is listening and
+ * keeps a short replay buffer, so a client that reconnects with
+ * `Last-Event-ID` receives the readings it missed. Slow clients get only the
+ * latest reading per meter instead of an ever-growing queue.
+ */
+
+import { GatewaySchemaError, toCanonicalReading, type CanonicalReadingVersion, type MeterBrand } from './gateway-schema';
+import { buildBrandPayload } from './gateway-simulator';
+
+export interface StreamMeter {
+  meterId: string;
+  brand: MeterBrand;
+}
+
+export interface OpenStreamOptions {
+  version: CanonicalReadingVersion;
+  lastEventId?: string | null;
+  hour?: number; // pin the simulated load profile, as on the gateway endpoints
+  signal?: AbortSignal;
+}
+
+// Stream Configuration
+interface ReadingStreamConfig {
+  intervalMs: number; // how often each meter is sampled
+  heartbeatMs: number; // comment frames that keep idle connections open
+  retryMs: number; // reconnect delay suggested to EventSource
+  replayBufferSize: number; // events kept per meter for resuming
+  idleTimeoutMs: number; // how long an unwatched meter's buffer is kept
+  highWaterMark: number; // queued frames before a client counts as slow
+  maxMetersPerStream: number;
+}
+
+const DEFAULT_CONFIG: ReadingStreamConfig = {
+  intervalMs: 5000,
+  heartbeatMs: 15000,
+  retryMs: 3000,
+  replayBufferSize: 100,
+  idleTimeoutMs: 5 * 60 * 1000,
+  highWaterMark: 8,
+  maxMetersPerStream: 10
+};
+
+interface StreamEvent {
+  seq: number;
+  type: 'reading' | 'meter-error';
+  data: unknown;
+}
+
+type StreamListener = (event: StreamEvent) => void;
+
+interface MeterChannel {
+  meter: StreamMeter;
+  version: CanonicalReadingVersion;
+  hour?: number;
+  buffer: StreamEvent[];
+  listeners: Set<StreamListener>;
+  timer?: ReturnType<typeof setInterval>;
+  idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+export class MeterReadingStream {
+  private config: ReadingStreamConfig;
+  private channels = new Map<string, MeterChannel>();
+  // Event IDs are `${epoch}-${seq}`; IDs from an earlier server instance can't be resumed
+  private epoch = Date.now().toString(36);
+  private seq = 0;
+  private encoder = new TextEncoder();
+
+  constructor(config: Partial<ReadingStreamConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  get maxMetersPerStream(): number {
+    return this.config.maxMetersPerStream;
+  }
+
+  /**
+   * Open an event stream for a set of meters. Emits `reading` events with
+   * canonical readings and `meter-error` events when a payload fails the schema.
+   */
+  open(meters: StreamMeter[], options: OpenStreamOptions): ReadableStream<Uint8Array> {
+    const resumeFrom = this.parseEventId(options.lastEventId);
+    // Latest undelivered frame per meter while the client isn't keeping up
+    const pending = new Map<string, Uint8Array>();
+    const subscriptions: Array<() => void> = [];
+    let heartbeat: ReturnType<typeof setInterval> | undefined;
+    let closed = false;
+
+    const cleanup = () => {
+      if (closed) return;
+      closed = true;
+      if (heartbeat) clearInterval(heartbeat);
+      subscriptions.forEach(unsubscribe => unsubscribe());
+      pending.clear();
+    };
+
+    const isSlow = (controller: ReadableStreamDefaultController<Uint8Array>) => (controller.desiredSize ?? 1) <= 0;
+
+    const flush = (controller: ReadableStreamDefaultController<Uint8Array>) => {
+      for (const [key, frame] of pending) {
+        if (isSlow(controller)) return;
+        pending.delete(key);
+        controller.enqueue(frame);
+      }
+    };
+
+    return new ReadableStream<Uint8Array>({
+      start: controller => {
+        controller.enqueue(this.encoder.encode(`retry: ${this.config.retryMs}\n\n`));
+
+        for (const meter of meters) {
+          const key = this.channelKey(meter, options);
+          const deliver: StreamListener = event => {
+            if (closed) return;
+            const frame = this.encode(event);
+            // Readings are snapshots, so a newer one replaces any still waiting
+            if (isSlow(controller) || pending.size > 0) {
+              pending.set(key, frame);
+              flush(controller);
+              return;
+            }
+            controller.enqueue(frame);
+          };
+
+          const channel = this.getChannel(key, meter, options);
+          this.replay(channel, resumeFrom).forEach(event => controller.enqueue(this.encode(event)));
+          subscriptions.push(this.subscribe(key, channel, deliver));
+        }
+
+        heartbeat = setInterval(() => {
+          if (!closed && !isSlow(controller)) {
+            controller.enqueue(this.encoder.encode(`: heartbeat ${new Date().toISOString()}\n\n`));
+          }
+        }, this.config.heartbeatMs);
+
+        options.signal?.addEventListener('abort', () => {
+          cleanup();
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client
+          }
+        });
+      },
+      pull: flush,
+      cancel: cleanup
+    }, new CountQueuingStrategy({ highWaterMark: this.config.highWaterMark }));
+  }
+
+  /**
+   * Sequence number from a `Last-Event-ID`; null when absent or from another server instance
+   */
+  parseEventId(eventId?: string | null): number | null {
+    if (!eventId) return null;
+
+    const [epoch, seq] = eventId.split('-');
+    const value = Number(seq);
+    return epoch === this.epoch && Number.isInteger(value) && value >= 0 ? value : null;
+  }
+
+  /**
+   * Events to send before live ones: everything after the resume point, or
+   * the latest reading so a new client doesn't wait for the next sample
+   */
+  private replay(channel: MeterChannel, resumeFrom: number | null): StreamEvent[] {
+    if (resumeFrom === null) {
+      return channel.buffer.slice(-1);
+    }
+    return channel.buffer.filter(event => event.seq > resumeFrom);
+  }
+
+  private subscribe(key: string, channel: MeterChannel, listener: StreamListener): () => void {
+    if (channel.idleTimer) {
+      clearTimeout(channel.idleTimer);
+      channel.idleTimer = undefined;
+    }
+
+    channel.listeners.add(listener);
+    if (!channel.timer) {
+      this.sample(channel);
+      channel.timer = setInterval(() => this.sample(channel), this.config.intervalMs);
+    }
+
+    return () => {
+      channel.listeners.delete(listener);
+      if (channel.listeners.size > 0) return;
+
+      // Stop sampling, but keep the buffer a while for clients that reconnect
+      if (channel.timer) clearInterval(channel.timer);
+      channel.timer = undefined;
+      channel.idleTimer = setTimeout(() => this.channels.delete(key), this.config.idleTimeoutMs);
+    };
+  }
+
+  private getChannel(key: string, meter: StreamMeter, options: OpenStreamOptions): MeterChannel {
+    let channel = this.channels.get(key);
+    if (!channel) {
+      channel = {
+        meter,
+        version: options.version,
+        ...(options.hour !== undefined && { hour: options.hour }),
+        buffer: [],
+        listeners: new Set()
+      };
+      this.channels.set(key, channel);
+    }
+    return channel;
+  }
+
+  private sample(channel: MeterChannel): void {
+    const { meterId, brand } = channel.meter;
+    let event: StreamEvent;
+
+    try {
+      const raw = buildBrandPayload(brand, meterId, channel.hour);
+      const reading = toCanonicalReading(brand, raw, { meterId }, channel.version);
+      event = { seq: ++this.seq, type: 'reading', data: reading };
+    } catch (error) {
+      if (!(error instanceof GatewaySchemaError)) {
+        console.error(`Failed to sample meter ${meterId}:`, error);
+        return;
+      }
+      event = {
+        seq: ++this.seq,
+        type: 'meter-error',
+        data: { meterId, brand, error: error.message, issues: error.issues }
+      };
+    }
+
+    channel.buffer.push(event);
+    if (channel.buffer.length > this.config.replayBufferSize) {
+      channel.buffer.splice(0, channel.buffer.length - this.config.replayBufferSize);
+    }
+    channel.listeners.forEach(listener => listener(event));
+  }
+
+  private encode(event: StreamEvent): Uint8Array {
+    return this.encoder.encode(
+      `id: ${this.epoch}-${event.seq}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`
+    );
+  }
+
+  private channelKey(meter: StreamMeter, options: OpenStreamOptions): string {
+    return `${meter.brand}:${meter.meterId}:${options.version}:${options.hour ?? 'live'}`;
+  }
+}
+
+// Export singleton instance
+export const meterReadingStream = new MeterReadingStream();
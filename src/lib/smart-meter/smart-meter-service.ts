@@ -6,15 +6,57 @@
  */
 
 import { Timestamp } from 'firebase/firestore';
-import { firestoreService, BatchOperation } from '../firebase/firestore-service';
+import { firestoreService } from '../firebase/firestore-service';
 import { 
   SmartMeter, 
   Device, 
   EnergyReading, 
+  ReadingRollup,
   COLLECTIONS,
-  DeviceType,
-  EnergyReadingData 
+  DeviceType
 } from '../firebase/schema';
+import {
+  readingIngestion,
+  readingContext,
+  readingReliability,
+  ReadingData,
+  QUALITY_CONFIDENCE
+} from './reading-ingestion';
+import { offlineReadingQueue } from './offline-queue';
+import {
+  alertThresholdEngine,
+  AlertThresholds,
+  EffectiveThresholds,
+  ThresholdSample,
+  REGION_PROFILES,
+  defaultAlertThresholds,
+  newMeterRegion,
+  validateAlertThresholds
+} from './alert-thresholds';
+import {
+  SmartMeterData,
+  DeviceData,
+  DeviceSettings,
+  POWER_SAVING_MODE,
+  USAGE_ALERT_RULE_ID,
+  usageAlertRule,
+  validateSmartMeter,
+  validateSmartMeterUpdate,
+  validateDevice,
+  validateDeviceUpdate
+} from './meter-documents';
+
+const CO2_PER_KWH = 0.82; // kg CO2 per kWh
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_CATEGORY: Record<DeviceType, Device['info']['category']> = {
+  ac_meter: 'comfort',
+  light: 'essential',
+  appliance_meter: 'essential',
+  plug_meter: 'productivity',
+  outlet: 'productivity',
+  main_meter: 'essential'
+};
 
 // Smart Meter Service Types
 export interface SmartMeterConfig {
@@ -26,15 +68,32 @@ export interface SmartMeterConfig {
   batchSize: number;
 }
 
+export interface MeterInfo {
+  meterId: string; // physical meter ID
+  providerId: string;
+  location: string;
+  meterType?: string;
+  installDate?: Date;
+  voltage?: number;
+  phases?: 1 | 3;
+  maxCapacity?: number; // Amps
+  tariffRate?: number;
+  currency?: string;
+  firmwareVersion?: string;
+}
+
 export interface DeviceInfo {
   name: string;
   type: DeviceType;
-  location: string;
-  powerRating?: number;
-  manufacturer?: string;
+  room: string;
+  deviceId?: string; // hardware identifier; generated when absent
+  category?: Device['info']['category'];
+  ratedPower?: number; // Watts
+  voltage?: number;
+  brand?: string;
   model?: string;
-  installationDate?: Date;
-  isActive?: boolean;
+  installDate?: Date;
+  isOn?: boolean;
 }
 
 export interface EnergyData {
@@ -64,73 +123,71 @@ export class SmartMeterService {
   private meters: Map<string, SmartMeter> = new Map();
   private devices: Map<string, Device> = new Map();
   private updateTimers: Map<string, NodeJS.Timeout> = new Map();
-  private offlineQueue: EnergyReading[] = [];
-  private isOnline: boolean = navigator.onLine;
   private listeners: Map<string, (() => void)[]> = new Map();
 
   constructor(config: SmartMeterConfig) {
     this.config = config;
-    this.initializeNetworkListeners();
-    this.startAutoSync();
+    if (this.config.enableAutoSync) {
+      offlineReadingQueue.start();
+    }
+
+    // Meter statistics come from rollups, refreshed once per written batch
+    readingIngestion.onFlush(result => {
+      result.meterIds.forEach(meterId => this.updateMeterStatistics(meterId));
+    });
   }
 
   /**
    * Initialize a smart meter for a user
    */
-  async initializeSmartMeter(
-    userId: string,
-    meterInfo: {
-      serialNumber: string;
-      model: string;
-      manufacturer: string;
-      location: string;
-      installationDate: Date;
-    }
-  ): Promise<SmartMeter> {
+  async initializeSmartMeter(userId: string, meterInfo: MeterInfo): Promise<SmartMeter> {
     try {
-      // Create smart meter record
-      const meterData: Omit<SmartMeter, 'id' | 'createdAt' | 'updatedAt'> = {
+      const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const region = newMeterRegion({ currency: meterInfo.currency, voltage: meterInfo.voltage, timezone });
+      const profile = REGION_PROFILES[region];
+      const voltage = meterInfo.voltage ?? profile.nominalVoltage;
+      const currency = meterInfo.currency ?? profile.currency;
+      const meterData: SmartMeterData = {
         userId,
-        serialNumber: meterInfo.serialNumber,
-        info: {
-          model: meterInfo.model,
-          manufacturer: meterInfo.manufacturer,
+        meterId: meterInfo.meterId,
+        providerId: meterInfo.providerId,
+        installation: {
+          installDate: Timestamp.fromDate(meterInfo.installDate ?? new Date()),
           location: meterInfo.location,
-          installationDate: meterInfo.installationDate,
-          firmwareVersion: '1.0.0',
-          lastMaintenance: null
+          meterType: meterInfo.meterType ?? 'smart',
+          voltage,
+          phases: meterInfo.phases ?? 1,
+          maxCapacity: meterInfo.maxCapacity ?? 60
+        },
+        config: {
+          tariffRate: meterInfo.tariffRate ?? profile.tariffRate,
+          currency,
+          timezone,
+          billingCycle: 'monthly',
+          readingInterval: this.config.updateInterval / 60000,
+          alertThresholds: defaultAlertThresholds(region)
         },
         status: {
-          isActive: true,
           isOnline: true,
           lastReading: Timestamp.now(),
-          batteryLevel: 100,
+          firmwareVersion: meterInfo.firmwareVersion ?? '1.0.0',
           signalStrength: 85,
-          errors: []
-        },
-        configuration: {
-          updateInterval: 60000, // 1 minute
-          enableRealTimeUpdates: true,
-          dataRetentionDays: 365,
-          alertThresholds: {
-            highUsage: 5000, // watts
-            lowVoltage: 110,
-            highVoltage: 130,
-            powerOutage: true
-          }
+          batteryLevel: 100
         },
-        statistics: {
-          totalEnergyConsumed: 0,
-          averageDailyUsage: 0,
-          peakUsage: 0,
-          costToDate: 0,
-          co2Savings: 0,
-          efficiency: 0
+        aggregated: {
+          totalDevices: 0,
+          activeDevices: 0,
+          todayUsage: 0,
+          monthlyUsage: 0,
+          averageUsage: 0,
+          peakDemand: 0,
+          efficiencyScore: 0
         }
       };
 
+      validateSmartMeter(meterData);
       const smartMeter = await firestoreService.createSmartMeter(meterData);
-      this.meters.set(smartMeter.id, smartMeter);
+      this.rememberMeter(smartMeter);
 
       // Start real-time monitoring for this meter
       this.startMeterMonitoring(smartMeter.id);
@@ -152,46 +209,57 @@ export class SmartMeterService {
     deviceInfo: DeviceInfo
   ): Promise<Device> {
     try {
-      const deviceData: Omit<Device, 'id' | 'createdAt' | 'updatedAt'> = {
+      const now = Timestamp.now();
+      const deviceData: DeviceData = {
         userId,
         smartMeterId,
+        deviceId: deviceInfo.deviceId ?? `${smartMeterId}_${Date.now().toString(36)}`,
         info: {
           name: deviceInfo.name,
+          brand: deviceInfo.brand ?? 'Unknown',
+          ...(deviceInfo.model && { model: deviceInfo.model }),
+          category: deviceInfo.category ?? DEFAULT_CATEGORY[deviceInfo.type],
           type: deviceInfo.type,
-          location: deviceInfo.location,
-          powerRating: deviceInfo.powerRating || 0,
-          manufacturer: deviceInfo.manufacturer || 'Unknown',
-          model: deviceInfo.model || 'Unknown',
-          installationDate: deviceInfo.installationDate || new Date()
+          room: deviceInfo.room,
+          installDate: Timestamp.fromDate(deviceInfo.installDate ?? new Date())
         },
-        status: {
-          isActive: deviceInfo.isActive ?? true,
+        specs: {
+          ratedPower: deviceInfo.ratedPower ?? 0,
+          voltage: deviceInfo.voltage ?? alertThresholdEngine.thresholdsFor(this.meters.get(smartMeterId)).nominalVoltage
+        },
+        state: {
           isOnline: true,
-          lastReading: Timestamp.now(),
-          errorCode: null,
-          healthScore: 100
+          isOn: deviceInfo.isOn ?? true,
+          currentPower: 0,
+          lastStateChange: now
+        },
+        usage: {
+          dailyUsage: 0,
+          weeklyUsage: 0,
+          monthlyUsage: 0,
+          yearlyUsage: 0,
+          totalUsage: 0,
+          operatingHours: 0
         },
-        configuration: {
-          enableSchedule: false,
-          schedule: null,
-          powerSavingMode: false,
-          alertsEnabled: true,
-          updateInterval: 300000 // 5 minutes
+        smart: {
+          isSmartEnabled: true,
+          hasScheduling: true,
+          hasRemoteControl: true,
+          hasEnergyMonitoring: true,
+          supportedFeatures: ['scheduling', 'remote_control', 'energy_monitoring']
         },
-        statistics: {
-          totalEnergyConsumed: 0,
-          averagePowerUsage: 0,
-          peakPowerUsage: 0,
-          operatingHours: 0,
-          lastMaintenanceDate: null
+        health: {
+          status: 'excellent',
+          maintenanceHistory: [],
+          alerts: []
         },
         automation: {
-          rules: [],
-          triggers: [],
-          actions: []
+          schedules: [],
+          rules: [usageAlertRule(true)]
         }
       };
 
+      validateDevice(deviceData);
       const device = await firestoreService.createDevice(deviceData);
       this.devices.set(device.id, device);
 
@@ -207,7 +275,8 @@ export class SmartMeterService {
   }
 
   /**
-   * Record energy reading from a device or meter
+   * Record energy reading from a device or meter. Readings go through the
+   * ingestion pipeline, which batches the writes and maintains rollups.
    */
   async recordEnergyReading(
     userId: string,
@@ -216,53 +285,30 @@ export class SmartMeterService {
     energyData: EnergyData
   ): Promise<EnergyReading> {
     try {
-      const readingData: Omit<EnergyReading, 'id' | 'createdAt' | 'updatedAt'> = {
-        userId,
-        smartMeterId,
-        deviceId,
-        reading: {
-          consumption: energyData.consumption,
-          voltage: energyData.voltage,
-          current: energyData.current,
-          power: energyData.power,
-          frequency: energyData.frequency,
-          powerFactor: energyData.powerFactor,
-          timestamp: Timestamp.fromDate(energyData.timestamp),
-          quality: this.calculateReadingQuality(energyData)
-        },
-        metadata: {
-          source: deviceId ? 'device' : 'meter',
-          readingType: 'automatic',
-          validated: true,
-          anomalies: this.detectAnomalies(energyData)
-        }
-      };
+      const readingData = this.toReadingData(userId, smartMeterId, deviceId, energyData);
+      let id: string;
 
-      // Store reading in Firestore or offline queue
-      let reading: EnergyReading;
-
-      if (this.isOnline) {
-        reading = await firestoreService.saveEnergyReading(readingData);
-        
-        // Process offline queue if any
-        await this.processOfflineQueue();
-        
+      if (offlineReadingQueue.isOnline || !this.config.enableOfflineStorage) {
+        const result = readingIngestion.ingest(readingData);
+        if (result.reason === 'invalid') {
+          throw new Error(result.issues?.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '));
+        }
+        id = result.id;
       } else {
-        // Add to offline queue
-        const offlineReading = {
-          ...readingData,
-          id: `offline_${Date.now()}`,
-          createdAt: Timestamp.now(),
-          updatedAt: Timestamp.now()
-        } as EnergyReading;
-        
-        this.offlineQueue.push(offlineReading);
-        reading = offlineReading;
+        // Kept until the connection is back; the key is the ID it will be stored under
+        id = (await offlineReadingQueue.enqueue(readingData)).key;
       }
 
-      // Update device and meter statistics
+      const reading: EnergyReading = {
+        ...readingData,
+        id,
+        createdAt: Timestamp.now(),
+        updatedAt: Timestamp.now()
+      };
+
+      // Device statistics; meter statistics follow each pipeline flush
       await this.updateDeviceStatistics(deviceId, energyData);
-      await this.updateMeterStatistics(smartMeterId);
+      await this.checkAlertThresholds(userId, smartMeterId, deviceId, energyData);
 
       // Trigger real-time listeners
       this.notifyListeners(`reading:${smartMeterId}`, reading);
@@ -291,22 +337,14 @@ export class SmartMeterService {
       let currentPower = 0;
       const deviceReadings = new Map<string, EnergyData>();
 
-      for (const reading of recentReadings) {
-        if (reading.smartMeterId === meterId) {
-          totalConsumption += reading.reading.consumption;
-          currentPower = Math.max(currentPower, reading.reading.power);
-
-          if (reading.deviceId) {
-            deviceReadings.set(reading.deviceId, {
-              consumption: reading.reading.consumption,
-              voltage: reading.reading.voltage,
-              current: reading.reading.current,
-              power: reading.reading.power,
-              frequency: reading.reading.frequency,
-              powerFactor: reading.reading.powerFactor,
-              timestamp: reading.reading.timestamp.toDate()
-            });
-          }
+      const meterReadings = recentReadings.filter(reading => reading.smartMeterId === meterId);
+      for (const reading of meterReadings) {
+        const energyData = this.toEnergyData(reading);
+        totalConsumption += energyData.consumption;
+        currentPower = Math.max(currentPower, energyData.power);
+
+        if (reading.deviceId) {
+          deviceReadings.set(reading.deviceId, energyData);
         }
       }
 
@@ -316,8 +354,10 @@ export class SmartMeterService {
         currentPower,
         deviceReadings,
         timestamp: new Date(),
-        quality: this.calculateMeterQuality(meter, recentReadings),
-        errors: meter.status.errors
+        quality: this.calculateMeterQuality(meterReadings),
+        errors: meter.status.tamper?.events
+          .filter(event => event.active)
+          .map(event => `tamper_${event.type}`)
       };
 
     } catch (error) {
@@ -346,15 +386,7 @@ export class SmartMeterService {
 
       return readings
         .filter(reading => reading.deviceId === deviceId)
-        .map(reading => ({
-          consumption: reading.reading.consumption,
-          voltage: reading.reading.voltage,
-          current: reading.reading.current,
-          power: reading.reading.power,
-          frequency: reading.reading.frequency,
-          powerFactor: reading.reading.powerFactor,
-          timestamp: reading.reading.timestamp.toDate()
-        }));
+        .map(reading => this.toEnergyData(reading));
 
     } catch (error) {
       console.error('Error getting device energy data:', error);
@@ -433,90 +465,100 @@ export class SmartMeterService {
   }
 
   /**
-   * Update device configuration
+   * Update device settings. Returns the stored device sections that changed.
    */
-  async updateDeviceConfiguration(
+  async updateDeviceSettings(
     deviceId: string,
-    updates: Partial<Device['configuration']>
-  ): Promise<void> {
+    settings: Partial<DeviceSettings>
+  ): Promise<Pick<Device, 'state' | 'automation'>> {
     try {
-      await firestoreService.updateDevice(deviceId, {
-        configuration: updates as any
-      });
+      const device = await firestoreService.get<Device>(COLLECTIONS.DEVICES, deviceId);
+      if (!device) throw new Error(`Device ${deviceId} not found`);
+
+      const state = { ...device.state };
+      if (settings.powerSavingMode !== undefined) {
+        if (settings.powerSavingMode) {
+          state.mode = POWER_SAVING_MODE;
+        } else if (state.mode === POWER_SAVING_MODE) {
+          delete state.mode;
+        }
+      }
+
+      let { schedules, rules } = device.automation;
+      if (settings.schedule !== undefined) {
+        const schedule = settings.schedule;
+        // Without a schedule every schedule is paused; otherwise it replaces the one with its ID
+        schedules = schedule
+          ? [...schedules.filter(existing => existing.id !== schedule.id), schedule]
+          : schedules.map(existing => ({ ...existing, enabled: false }));
+      }
+      if (settings.alertsEnabled !== undefined) {
+        rules = [
+          ...rules.filter(rule => rule.id !== USAGE_ALERT_RULE_ID),
+          usageAlertRule(settings.alertsEnabled)
+        ];
+      }
+
+      const updates = { state, automation: { ...device.automation, schedules, rules } };
+      await this.writeDevice(deviceId, updates);
 
       // Update local cache
-      const device = this.devices.get(deviceId);
-      if (device) {
-        device.configuration = { ...device.configuration, ...updates };
+      const cached = this.devices.get(deviceId);
+      if (cached) {
+        this.devices.set(deviceId, { ...cached, ...updates });
       }
 
+      return updates;
+
     } catch (error) {
-      console.error('Error updating device configuration:', error);
-      throw new Error(`Failed to update device configuration: ${error}`);
+      console.error('Error updating device settings:', error);
+      throw new Error(`Failed to update device settings: ${error}`);
     }
   }
 
   /**
-   * Remove a device from the system
+   * Update a meter's alert thresholds. Conditions already raised are
+   * re-evaluated against the new thresholds from the next reading.
    */
-  async removeDevice(deviceId: string): Promise<void> {
+  async updateAlertThresholds(meterId: string, thresholds: Partial<AlertThresholds>): Promise<SmartMeter> {
     try {
-      await firestoreService.deleteDevice(deviceId);
-      this.devices.delete(deviceId);
-
-    } catch (error) {
-      console.error('Error removing device:', error);
-      throw new Error(`Failed to remove device: ${error}`);
-    }
-  }
+      const meter = await firestoreService.getSmartMeter(meterId);
+      if (!meter) throw new Error(`Smart meter ${meterId} not found`);
 
-  // Private Methods
+      const alertThresholds = { ...meter.config.alertThresholds, ...thresholds };
+      const problems = validateAlertThresholds(alertThresholds);
+      if (problems.length > 0) throw new Error(problems.join('; '));
 
-  private initializeNetworkListeners(): void {
-    window.addEventListener('online', () => {
-      this.isOnline = true;
-      this.processOfflineQueue();
-    });
+      const config = { ...meter.config, alertThresholds };
+      await this.writeSmartMeter(meterId, { config });
+      alertThresholdEngine.reset(meterId);
 
-    window.addEventListener('offline', () => {
-      this.isOnline = false;
-    });
-  }
+      const updated = { ...meter, config };
+      this.rememberMeter(updated);
+      return updated;
 
-  private startAutoSync(): void {
-    if (this.config.enableAutoSync) {
-      setInterval(() => {
-        this.processOfflineQueue();
-      }, 30000); // Sync every 30 seconds
+    } catch (error) {
+      console.error('Error updating alert thresholds:', error);
+      throw new Error(`Failed to update alert thresholds: ${error}`);
     }
   }
 
-  private async processOfflineQueue(): Promise<void> {
-    if (!this.isOnline || this.offlineQueue.length === 0) return;
-
+  /**
+   * Remove a device from the system
+   */
+  async removeDevice(deviceId: string): Promise<void> {
     try {
-      const batch: BatchOperation[] = this.offlineQueue
-        .slice(0, this.config.batchSize)
-        .map(reading => ({
-          type: 'set' as const,
-          collection: COLLECTIONS.READINGS,
-          id: reading.id,
-          data: {
-            ...reading,
-            id: undefined // Remove ID as it will be set by Firestore
-          }
-        }));
-
-      await firestoreService.batch(batch);
-      
-      // Remove processed items from queue
-      this.offlineQueue = this.offlineQueue.slice(this.config.batchSize);
+      await firestoreService.deleteDevice(deviceId);
+      this.devices.delete(deviceId);
 
     } catch (error) {
-      console.error('Error processing offline queue:', error);
+      console.error('Error removing device:', error);
+      throw new Error(`Failed to remove device: ${error}`);
     }
   }
 
+  // Private Methods
+
   private async simulateReading(meterId: string): Promise<void> {
     try {
       const meter = this.meters.get(meterId) || 
@@ -528,8 +570,8 @@ export class SmartMeterService {
 
       // Simulate readings for each device
       for (const device of devices) {
-        if (device.status.isActive) {
-          const energyData = this.generateSimulatedEnergyData(device);
+        if (device.state.isOn) {
+          const energyData = this.generateSimulatedEnergyData(device, meter);
           await this.recordEnergyReading(
             meter.userId,
             meterId,
@@ -540,9 +582,12 @@ export class SmartMeterService {
       }
 
       // Update meter status
-      await firestoreService.updateSmartMeter(meterId, {
-        'status.lastReading': Timestamp.now(),
-        'status.isOnline': true
+      await this.writeSmartMeter(meterId, {
+        status: {
+          ...meter.status,
+          lastReading: Timestamp.now(),
+          isOnline: true
+        }
       });
 
     } catch (error) {
@@ -550,32 +595,99 @@ export class SmartMeterService {
     }
   }
 
-  private generateSimulatedEnergyData(device: Device): EnergyData {
-    const baseConsumption = device.info.powerRating || 100;
+  /**
+   * A sample around the nominal supply of the meter's region
+   */
+  private generateSimulatedEnergyData(device: Device, meter: SmartMeter): EnergyData {
+    const { nominalVoltage, nominalFrequency } = alertThresholdEngine.thresholdsFor(meter);
+    const baseConsumption = device.specs.ratedPower || 100;
     const variation = 0.1 + Math.random() * 0.2; // 10-30% variation
     const timeVariation = Math.sin(Date.now() / 3600000) * 0.3; // Hourly cycle
 
     return {
       consumption: baseConsumption * (1 + variation + timeVariation),
-      voltage: 120 + Math.random() * 10 - 5, // 115-125V
-      current: (baseConsumption / 120) * (1 + variation),
+      voltage: nominalVoltage * (1 + (Math.random() - 0.5) * 0.08), // ±4%
+      current: (baseConsumption / nominalVoltage) * (1 + variation),
       power: baseConsumption * (1 + variation + timeVariation),
-      frequency: 60 + Math.random() * 0.2 - 0.1, // 59.9-60.1Hz
+      frequency: nominalFrequency + Math.random() * 0.2 - 0.1, // ±0.1 Hz
       powerFactor: 0.85 + Math.random() * 0.1,
       timestamp: new Date()
     };
   }
 
-  private calculateReadingQuality(data: EnergyData): EnergyReadingData['quality'] {
+  /**
+   * Convert a sample (W, Wh) into a reading document (kW, kWh)
+   */
+  private toReadingData(
+    userId: string,
+    smartMeterId: string,
+    deviceId: string | null,
+    energyData: EnergyData
+  ): ReadingData {
+    const energy = energyData.consumption / 1000;
+    const instantPower = energyData.power / 1000;
+    const meter = this.meters.get(smartMeterId);
+    const thresholds = alertThresholdEngine.thresholdsFor(meter);
+    const confidence = QUALITY_CONFIDENCE[this.calculateReadingQuality(energyData, thresholds)];
+    const tariffRate = meter?.config.tariffRate ?? REGION_PROFILES[thresholds.region].tariffRate;
+
+    return {
+      userId,
+      smartMeterId,
+      ...(deviceId && { deviceId }),
+      reading: {
+        timestamp: Timestamp.fromDate(energyData.timestamp),
+        instantPower,
+        energy,
+        voltage: { average: energyData.voltage },
+        current: { average: energyData.current },
+        frequency: energyData.frequency,
+        powerFactor: energyData.powerFactor
+      },
+      metrics: {
+        cost: energy * tariffRate,
+        co2Emissions: energy * CO2_PER_KWH,
+        efficiency: Math.round(energyData.powerFactor * 100) / 10,
+        demand: instantPower
+      },
+      quality: {
+        reliability: readingReliability(this.detectAnomalies(energyData, deviceId, thresholds).length),
+        accuracy: confidence,
+        source: 'meter',
+        confidence
+      },
+      context: readingContext(energyData.timestamp, readingIngestion.timeZoneOf(smartMeterId))
+    };
+  }
+
+  /**
+   * Convert a stored reading (kW, kWh) back into a sample (W, Wh)
+   */
+  private toEnergyData(reading: EnergyReading): EnergyData {
+    return {
+      consumption: reading.reading.energy * 1000,
+      voltage: reading.reading.voltage.average,
+      current: reading.reading.current.average,
+      power: reading.reading.instantPower * 1000,
+      frequency: reading.reading.frequency,
+      powerFactor: reading.reading.powerFactor,
+      timestamp: reading.reading.timestamp.toDate(),
+      ...(reading.deviceId && { deviceId: reading.deviceId })
+    };
+  }
+
+  private calculateReadingQuality(data: EnergyData, thresholds: EffectiveThresholds): MeterReading['quality'] {
     let score = 100;
 
-    // Voltage quality check
-    if (data.voltage < 110 || data.voltage > 130) score -= 20;
-    else if (data.voltage < 115 || data.voltage > 125) score -= 10;
+    // Voltage quality check, relative to the region's nominal supply
+    const voltageDeviation = Math.abs(data.voltage - thresholds.nominalVoltage) / thresholds.nominalVoltage;
+    if (voltageDeviation > 0.08) score -= 20;
+    else if (voltageDeviation > 0.04) score -= 10;
 
     // Frequency quality check
-    if (data.frequency < 59.8 || data.frequency > 60.2) score -= 20;
-    else if (data.frequency < 59.9 || data.frequency > 60.1) score -= 10;
+    const frequencyDeviation = Math.abs(data.frequency - thresholds.nominalFrequency);
+    if (frequencyDeviation > 0.2) score -= 20;
+    else if (frequencyDeviation > 0.1) score -= 10;
 
     // Power factor quality check
     if (data.powerFactor < 0.7) score -= 20;
@@ -587,13 +699,14 @@ export class SmartMeterService {
     return 'poor';
   }
 
-  private calculateMeterQuality(
-    meter: SmartMeter, 
-    readings: EnergyReading[]
-  ): MeterReading['quality'] {
+  private calculateMeterQuality(readings: EnergyReading[]): MeterReading['quality'] {
     if (readings.length === 0) return 'poor';
 
-    const qualities = readings.map(r => r.reading.quality);
+    const qualities = readings.map(r =>
+      r.quality.confidence >= QUALITY_CONFIDENCE.excellent ? 'excellent'
+        : r.quality.confidence >= QUALITY_CONFIDENCE.good ? 'good'
+        : 'fair'
+    );
     const excellentCount = qualities.filter(q => q === 'excellent').length;
     const goodCount = qualities.filter(q => q === 'good').length;
 
@@ -606,26 +719,47 @@ export class SmartMeterService {
     return 'poor';
   }
 
-  private detectAnomalies(data: EnergyData): string[] {
-    const anomalies: string[] = [];
-
-    if (data.voltage < 100 || data.voltage > 140) {
-      anomalies.push('voltage_out_of_range');
-    }
-    
-    if (data.frequency < 59 || data.frequency > 61) {
-      anomalies.push('frequency_anomaly');
-    }
-    
-    if (data.powerFactor < 0.5) {
-      anomalies.push('poor_power_factor');
+  private detectAnomalies(data: EnergyData, deviceId: string | null, thresholds: EffectiveThresholds): string[] {
+    // No supply: see outage-detection for start/end tracking
+    if (data.voltage < 10) {
+      return ['supply_outage'];
     }
 
-    if (data.power > 10000) { // 10kW threshold
-      anomalies.push('high_power_consumption');
-    }
+    return alertThresholdEngine
+      .violations(thresholds, this.toThresholdSample(data, deviceId))
+      .map(violation => violation.metric);
+  }
+
+  /**
+   * Meter demand is only known from whole-meter readings, so device readings
+   * are checked for supply quality but not against the high usage limit
+   */
+  private toThresholdSample(data: EnergyData, deviceId: string | null): ThresholdSample {
+    return {
+      timestamp: data.timestamp,
+      voltage: data.voltage,
+      frequency: data.frequency,
+      powerFactor: data.powerFactor,
+      ...(!deviceId && { power: data.power / 1000 })
+    };
+  }
+
+  private async checkAlertThresholds(
+    userId: string,
+    smartMeterId: string,
+    deviceId: string | null,
+    energyData: EnergyData
+  ): Promise<void> {
+    try {
+      const meter = this.meters.get(smartMeterId) || await firestoreService.getSmartMeter(smartMeterId);
+      if (!meter) return;
+      this.rememberMeter(meter);
 
-    return anomalies;
+      await alertThresholdEngine.evaluate(userId, meter, this.toThresholdSample(energyData, deviceId));
+    } catch (error) {
+      // A missed alert shouldn't fail the reading
+      console.error('Error checking alert thresholds:', error);
+    }
   }
 
   private async updateDeviceStatistics(
@@ -638,55 +772,145 @@ export class SmartMeterService {
       const device = await firestoreService.get<Device>(COLLECTIONS.DEVICES, deviceId);
       if (!device) return;
 
-      const updates: Partial<Device> = {
-        'statistics.totalEnergyConsumed': 
-          (device.statistics.totalEnergyConsumed || 0) + energyData.consumption,
-        'statistics.averagePowerUsage': 
-          ((device.statistics.averagePowerUsage || 0) + energyData.power) / 2,
-        'statistics.peakPowerUsage': 
-          Math.max(device.statistics.peakPowerUsage || 0, energyData.power),
-        'status.lastReading': Timestamp.now()
-      };
+      const energy = energyData.consumption / 1000;
+      // Yearly usage restarts with the first reading of a new year
+      const sameYear = device.updatedAt.toDate().getFullYear() === energyData.timestamp.getFullYear();
 
-      await firestoreService.updateDevice(deviceId, updates);
+      await this.writeDevice(deviceId, {
+        state: {
+          ...device.state,
+          isOnline: true,
+          currentPower: energyData.power
+        },
+        usage: {
+          ...device.usage,
+          yearlyUsage: (sameYear ? device.usage.yearlyUsage : 0) + energy,
+          totalUsage: device.usage.totalUsage + energy,
+          operatingHours: device.usage.operatingHours +
+            (energyData.power > 0 ? this.config.updateInterval / 3600000 : 0)
+        }
+      });
 
     } catch (error) {
       console.error('Error updating device statistics:', error);
     }
   }
 
+  /**
+   * Refresh a meter's aggregates, and the daily, weekly and monthly usage of
+   * its devices, from daily rollups
+   */
   private async updateMeterStatistics(meterId: string): Promise<void> {
     try {
       const meter = await firestoreService.getSmartMeter(meterId);
       if (!meter) return;
+      this.rememberMeter(meter);
+
+      const now = new Date();
+      const today = readingIngestion.periodStart(now, '1d', meterId).getTime();
+      // Midday six days back, so a daylight-saving change in between can't shift it off that day
+      const weekStart = readingIngestion.periodStart(new Date(today - 6 * DAY_MS + DAY_MS / 2), '1d', meterId).getTime();
+      const monthStart = readingIngestion.monthStart(now, meterId).getTime();
+      const [devices, rollups] = await Promise.all([
+        firestoreService.getDevicesBySmartMeter(meterId),
+        readingIngestion.getRollups(meterId, '1d', new Date(Math.min(weekStart, monthStart)), now)
+      ]);
+
+      const aggregated: SmartMeter['aggregated'] = {
+        ...meter.aggregated,
+        totalDevices: devices.length,
+        activeDevices: devices.filter(device => device.state.isOn).length
+      };
 
-      const recentReadings = await firestoreService.getRecentReadings(meter.userId, 100);
-      const meterReadings = recentReadings.filter(r => r.smartMeterId === meterId);
+      const monthRollups = rollups.filter(rollup => rollup.periodStart.toMillis() >= monthStart);
+      if (monthRollups.length === 0) {
+        await this.writeSmartMeter(meterId, { aggregated });
+        return;
+      }
 
-      if (meterReadings.length === 0) return;
+      // A meter-level rollup already counts its devices' consumption; the
+      // device rollups only stand in on days the meter recorded nothing itself
+      const rollupsByDay = new Map<number, { meter?: ReadingRollup; devices: ReadingRollup[] }>();
+      for (const rollup of monthRollups) {
+        const day = rollup.periodStart.toMillis();
+        const entry = rollupsByDay.get(day) ?? { devices: [] };
+        if (rollup.deviceId) entry.devices.push(rollup);
+        else entry.meter = rollup;
+        rollupsByDay.set(day, entry);
+      }
 
-      const totalConsumption = meterReadings.reduce(
-        (sum, reading) => sum + reading.reading.consumption, 0
-      );
-      
-      const averageDaily = totalConsumption / Math.max(1, meterReadings.length / 24);
-      const peakUsage = Math.max(...meterReadings.map(r => r.reading.power));
-
-      const updates: Partial<SmartMeter> = {
-        'statistics.totalEnergyConsumed': totalConsumption,
-        'statistics.averageDailyUsage': averageDaily,
-        'statistics.peakUsage': peakUsage,
-        'statistics.costToDate': totalConsumption * 0.12, // $0.12/kWh
-        'status.lastReading': Timestamp.now()
-      };
+      const energyByDay = new Map<number, number>();
+      let peakDemand = 0;
+      for (const [day, entry] of rollupsByDay) {
+        const dayRollups = entry.meter ? [entry.meter] : entry.devices;
+        energyByDay.set(day, dayRollups.reduce((sum, rollup) => sum + rollup.energy, 0));
+        peakDemand = Math.max(peakDemand, ...dayRollups.map(rollup => rollup.peakPower));
+      }
+      const monthlyUsage = Array.from(energyByDay.values()).reduce((sum, energy) => sum + energy, 0);
+
+      await this.writeSmartMeter(meterId, {
+        aggregated: {
+          ...aggregated,
+          todayUsage: energyByDay.get(today) ?? 0,
+          monthlyUsage,
+          averageUsage: monthlyUsage / energyByDay.size,
+          peakDemand
+        },
+        status: {
+          ...meter.status,
+          lastReading: Timestamp.now()
+        }
+      });
 
-      await firestoreService.updateSmartMeter(meterId, updates);
+      await this.updateDeviceUsage(devices, rollups, { today, weekStart, monthStart });
 
     } catch (error) {
       console.error('Error updating meter statistics:', error);
     }
   }
 
+  private async updateDeviceUsage(
+    devices: Device[],
+    rollups: ReadingRollup[],
+    periods: { today: number; weekStart: number; monthStart: number }
+  ): Promise<void> {
+    for (const device of devices) {
+      const deviceRollups = rollups.filter(rollup => rollup.deviceId === device.id);
+      if (deviceRollups.length === 0) continue;
+
+      const usageSince = (start: number) => deviceRollups
+        .filter(rollup => rollup.periodStart.toMillis() >= start)
+        .reduce((sum, rollup) => sum + rollup.energy, 0);
+
+      await this.writeDevice(device.id, {
+        usage: {
+          ...device.usage,
+          dailyUsage: usageSince(periods.today),
+          weeklyUsage: usageSince(periods.weekStart),
+          monthlyUsage: usageSince(periods.monthStart)
+        }
+      });
+    }
+  }
+
+  private async writeSmartMeter(meterId: string, updates: Partial<SmartMeterData>): Promise<void> {
+    validateSmartMeterUpdate(updates);
+    await firestoreService.updateSmartMeter(meterId, updates);
+  }
+
+  private async writeDevice(deviceId: string, updates: Partial<DeviceData>): Promise<void> {
+    validateDeviceUpdate(updates);
+    await firestoreService.updateDevice(deviceId, updates);
+  }
+
+  /**
+   * Cache a meter and put its readings on its own time zone
+   */
+  private rememberMeter(meter: SmartMeter): void {
+    this.meters.set(meter.id, meter);
+    readingIngestion.setMeterTimeZone(meter.id, meter.config.timezone);
+  }
+
   private notifyListeners(key: string, data: any): void {
     const listeners = this.listeners.get(key);
     if (listeners) {
@@ -713,10 +937,8 @@ export class SmartMeterService {
     // Clear listeners
     this.listeners.clear();
 
-    // Process remaining offline queue
-    if (this.offlineQueue.length > 0) {
-      this.processOfflineQueue();
-    }
+    // Queued readings are durable and replay on the next start
+    offlineReadingQueue.stop();
   }
 }
 
@@ -0,0 +1,199 @@
+/**
+ * Tamper and Meter-Integrity Monitoring
+ *
+ * Reconciles the tamper events a provider reports (magnetic influence,
+ * cover open, neutral disturbance, reverse current) with those stored on
+ * the smart meter, raising an urgent notification once per new event and
+ * marking events cleared when the meter stops reporting them.
+ */
+
+import { Timestamp } from 'firebase/firestore';
+import { firestoreService } from '../firebase/firestore-service';
+import type { Notification, SmartMeter } from '../firebase/schema';
+import type { ProviderTamperStatus, TamperEvent, TamperType } from './providers/types';
+
+export type StoredTamperEvent = NonNullable<SmartMeter['status']['tamper']>['events'][number];
+
+// Monitor Configuration
+interface TamperMonitorConfig {
+  historyLimit: number; // events kept on the meter, newest first
+}
+
+const DEFAULT_CONFIG: TamperMonitorConfig = {
+  historyLimit: 20
+};
+
+export const TAMPER_TYPE_LABELS: Record<TamperType, string> = {
+  magnetic: 'Magnetic interference',
+  cover_open: 'Meter cover opened',
+  neutral_disturbance: 'Neutral disturbance',
+  reverse_current: 'Reverse current'
+};
+
+const TAMPER_GUIDANCE: Record<TamperType, string> = {
+  magnetic: 'A strong magnet near the meter can affect its readings. Check the area around the meter.',
+  cover_open: 'The meter terminal cover was opened. Only the utility should open the meter.',
+  neutral_disturbance: 'The neutral connection to the meter looks faulty or bypassed. Have the wiring inspected.',
+  reverse_current: 'Current is flowing backwards through the meter. This can mean incorrect wiring or an unregistered solar export.'
+};
+
+export interface TamperCheckResult {
+  status: ProviderTamperStatus;
+  events: StoredTamperEvent[];
+  newEvents: StoredTamperEvent[];
+  clearedEvents: StoredTamperEvent[];
+  notifications: Notification[];
+}
+
+export class TamperMonitor {
+  private config: TamperMonitorConfig;
+
+  constructor(config: Partial<TamperMonitorConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Merge reported events into the meter's tamper history, notify the user
+   * about newly detected ones and store the result in the meter's status
+   */
+  async check(
+    userId: string,
+    meter: SmartMeter,
+    status: ProviderTamperStatus,
+    now: Date = new Date()
+  ): Promise<TamperCheckResult> {
+    // Re-read the meter so events already alerted by other tabs/sessions are seen
+    const latest = (await firestoreService.getSmartMeter(meter.id)) || meter;
+    const { events, newEvents, clearedEvents } = this.reconcile(latest.status.tamper?.events || [], status.events, now);
+
+    const notifications: Notification[] = [];
+    for (const event of newEvents) {
+      notifications.push(await firestoreService.createNotification(this.toNotification(userId, meter, event)));
+      event.notifiedAt = Timestamp.fromDate(now);
+    }
+
+    await firestoreService.updateSmartMeter(meter.id, {
+      status: {
+        ...latest.status,
+        tamper: {
+          active: events.some(event => event.active),
+          events,
+          lastCheckedAt: Timestamp.fromDate(now)
+        }
+      }
+    });
+
+    return { status, events, newEvents, clearedEvents, notifications };
+  }
+
+  /**
+   * Match reported events to stored ones by event ID, or by type while both
+   * are active (providers that only report flags have no stable IDs).
+   * Stored active events the provider no longer reports are cleared.
+   */
+  reconcile(
+    stored: StoredTamperEvent[],
+    reported: TamperEvent[],
+    now: Date = new Date()
+  ): { events: StoredTamperEvent[]; newEvents: StoredTamperEvent[]; clearedEvents: StoredTamperEvent[] } {
+    const events = stored.map(event => ({ ...event }));
+    const seen = new Set<StoredTamperEvent>();
+    const newEvents: StoredTamperEvent[] = [];
+    const clearedEvents: StoredTamperEvent[] = [];
+
+    for (const report of reported) {
+      const match = events.find(event => event.eventId === report.eventId) ||
+        events.find(event => event.active && report.active && event.type === report.type && !seen.has(event));
+
+      if (!match) {
+        const event = this.toStoredEvent(report);
+        events.push(event);
+        seen.add(event);
+        // Events that were raised and cleared between checks are recorded without an alert
+        if (event.active) newEvents.push(event);
+        continue;
+      }
+
+      seen.add(match);
+      if (match.active && !report.active) {
+        match.active = false;
+        match.clearedAt = Timestamp.fromDate(report.clearedAt ? new Date(report.clearedAt) : now);
+        clearedEvents.push(match);
+      }
+    }
+
+    for (const event of events) {
+      if (event.active && !seen.has(event)) {
+        event.active = false;
+        event.clearedAt = Timestamp.fromDate(now);
+        clearedEvents.push(event);
+      }
+    }
+
+    const sorted = events
+      .sort((a, b) => b.detectedAt.toMillis() - a.detectedAt.toMillis())
+      .slice(0, this.config.historyLimit);
+
+    return { events: sorted, newEvents, clearedEvents };
+  }
+
+  toNotification(
+    userId: string,
+    meter: SmartMeter,
+    event: StoredTamperEvent
+  ): Omit<Notification, 'id' | 'createdAt' | 'updatedAt'> {
+    return {
+      userId,
+      content: {
+        type: 'alert',
+        title: `Meter tamper detected: ${TAMPER_TYPE_LABELS[event.type]}`,
+        message: `${TAMPER_GUIDANCE[event.type]} Tampering can lead to penalties from your utility.`,
+        icon: 'shield-alert',
+        actionUrl: '/dashboard/smart-meter',
+        actionText: 'View details'
+      },
+      channels: {
+        inApp: true,
+        email: true,
+        push: true,
+        sms: true
+      },
+      status: {
+        isRead: false,
+        deliveryStatus: 'pending'
+      },
+      classification: {
+        priority: 'urgent',
+        category: 'system',
+        tags: ['tamper', event.type]
+      },
+      context: {
+        triggeredBy: 'tamper_check',
+        relatedEntity: {
+          type: 'smartMeter',
+          id: meter.id
+        },
+        metadata: {
+          eventId: event.eventId,
+          type: event.type,
+          code: event.code,
+          detectedAt: event.detectedAt.toDate().toISOString()
+        }
+      }
+    };
+  }
+
+  private toStoredEvent(event: TamperEvent): StoredTamperEvent {
+    return {
+      eventId: event.eventId,
+      type: event.type,
+      code: event.code,
+      active: event.active,
+      detectedAt: Timestamp.fromDate(new Date(event.detectedAt)),
+      ...(event.clearedAt && { clearedAt: Timestamp.fromDate(new Date(event.clearedAt)) })
+    };
+  }
+}
+
+// Export singleton instance
+export const tamperMonitor = new TamperMonitor();